@@ -0,0 +1,59 @@
+/**
+ * Service worker for todo reminders pushed to the dashboard.
+ *
+ * Shows each push as a notification, with the reminder's actions as buttons, and opens or
+ * focuses the dashboard when it is clicked.
+ */
+
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(self.clients.claim());
+});
+
+self.addEventListener('push', (event) => {
+  let message = { title: 'Todo reminder', body: '' };
+  try {
+    message = event.data ? event.data.json() : message;
+  } catch {
+    message.body = event.data ? event.data.text() : '';
+  }
+
+  const data = message.data || {};
+  // Browsers show at most a couple of buttons
+  const actions = (data.actions || []).slice(0, 2).map((action, index) => ({
+    action: String(index),
+    title: action.label,
+  }));
+
+  event.waitUntil(
+    self.registration.showNotification(message.title, {
+      body: message.body,
+      tag: message.tag,
+      renotify: !!message.tag,
+      requireInteraction: data.type === 'overdue',
+      data,
+      actions,
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const data = event.notification.data || {};
+  const action = event.action ? (data.actions || [])[Number(event.action)] : null;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((clients) => {
+      // Let an open dashboard run the action, e.g. complete or snooze the task
+      const client = clients[0];
+      if (client) {
+        client.postMessage({ type: 'TODO_NOTIFICATION_CLICK', taskId: data.taskId, action });
+        return client.focus();
+      }
+      return self.clients.openWindow('/');
+    })
+  );
+});
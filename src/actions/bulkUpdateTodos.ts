@@ -0,0 +1,372 @@
+import {
+  type Action,
+  type ActionExample,
+  composePrompt,
+  formatMessages,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  ModelType,
+  parseKeyValueXml,
+  type State,
+  type UUID,
+} from '@elizaos/core';
+import {
+  BULK_ACTIONS,
+  createTodoBulkService,
+  type BulkAction,
+  type BulkOperation,
+  type BulkOperationOutcome,
+  type BulkTodoChanges,
+} from '../services/todoBulkService';
+import { createTodoDataService, type TodoData } from '../services/todoDataService';
+import { DEFAULT_TIMEZONE, toLocalDateString, toZonedTime } from '../utils/timezone';
+
+/**
+ * Template for extracting the tasks a bulk request applies to, and what to do with each
+ */
+const extractBulkTemplate = `
+# Task: Extract Bulk Task Changes
+
+## User Message
+{{text}}
+
+## Message History
+{{messageHistory}}
+
+## Today
+{{today}}
+
+## Available Tasks
+{{availableTasks}}
+
+## Instructions
+The user wants to change several tasks at once, e.g. "complete all my shopping tasks" or "move everything due Friday to Monday".
+Pick every available task the request applies to, by name, description, tags or due date, and say what to do with each one.
+Only use the IDs of the available tasks. Do not invent tasks.
+
+Return an XML object with one <operation> per task:
+<response>
+  <operations>
+    <operation>
+      <taskId>ID of the task</taskId>
+      <action>One of "complete", "cancel", "update", "tag"</action>
+      <dueDate>For update, the new due date (YYYY-MM-DD, or YYYY-MM-DDTHH:MM with a time), or 'null' to remove it</dueDate>
+      <priority>For update, the new priority (1-4, where 1 is highest)</priority>
+      <urgent>For update, 'true' or 'false'</urgent>
+      <addTags>For tag, a comma separated list of tags to add</addTags>
+      <removeTags>For tag, a comma separated list of tags to remove</removeTags>
+    </operation>
+  </operations>
+</response>
+
+Only include the fields that change. If no task matches, return <response><operations></operations></response>.
+
+## Example Output Format
+<response>
+  <operations>
+    <operation>
+      <taskId>123e4567-e89b-12d3-a456-426614174000</taskId>
+      <action>update</action>
+      <dueDate>2024-04-15</dueDate>
+    </operation>
+    <operation>
+      <taskId>123e4567-e89b-12d3-a456-426614174001</taskId>
+      <action>complete</action>
+    </operation>
+  </operations>
+</response>
+`;
+
+const splitTags = (value: unknown): string[] | undefined => {
+  if (value === undefined || value === 'null') return undefined;
+  const tags = String(value)
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter(Boolean);
+  return tags.length > 0 ? tags : undefined;
+};
+
+/**
+ * Read one extracted operation. Returns null when it names an unknown task or action.
+ */
+function toBulkOperation(
+  parsed: Record<string, any>,
+  availableTasks: TodoData[]
+): BulkOperation | null {
+  const task = availableTasks.find((t) => t.id === parsed.taskId);
+  const action = String(parsed.action) as BulkAction;
+  if (!task || !BULK_ACTIONS.includes(action)) return null;
+
+  const operation: BulkOperation = { action, todoId: task.id };
+  if (action === 'update') {
+    const changes: BulkTodoChanges = {};
+    if (parsed.dueDate !== undefined) {
+      changes.dueDate = parsed.dueDate === 'null' ? null : String(parsed.dueDate);
+    }
+    const priority = parseInt(String(parsed.priority), 10);
+    if (priority >= 1 && priority <= 4) changes.priority = priority;
+    if (parsed.urgent !== undefined) changes.urgent = String(parsed.urgent) === 'true';
+    if (Object.keys(changes).length === 0) return null;
+    operation.changes = changes;
+  } else if (action === 'tag') {
+    operation.addTags = splitTags(parsed.addTags);
+    operation.removeTags = splitTags(parsed.removeTags);
+    if (!operation.addTags && !operation.removeTags) return null;
+  }
+  return operation;
+}
+
+/**
+ * Extracts the operations of a bulk request. Returns an empty list when no task matches.
+ * Dates are shown in each user's timezone, the one date-only answers are read in.
+ */
+async function extractBulkOperations(
+  runtime: IAgentRuntime,
+  message: Memory,
+  availableTasks: TodoData[],
+  timeZones: Map<UUID, string>,
+  state: State
+): Promise<BulkOperation[]> {
+  try {
+    const timeZoneOf = (entityId: UUID) => timeZones.get(entityId) || DEFAULT_TIMEZONE;
+
+    // Format available tasks for the prompt
+    const tasksText = availableTasks
+      .map((task) => {
+        const due = task.dueDate
+          ? toLocalDateString(new Date(task.dueDate), timeZoneOf(task.entityId))
+          : 'none';
+        return `ID: ${task.id}\nName: ${task.name}\nDescription: ${task.description || task.name}\nTags: ${task.tags?.join(', ') || 'none'}\nDue: ${due}\n`;
+      })
+      .join('\n---\n');
+
+    const messageHistory = formatMessages({
+      messages: state.data?.messages || [],
+      entities: state.data?.entities || [],
+    });
+
+    const prompt = composePrompt({
+      state: {
+        text: message.content.text || '',
+        availableTasks: tasksText,
+        messageHistory,
+        today: toZonedTime(new Date(), timeZoneOf(message.entityId)).toDateString(),
+      },
+      template: extractBulkTemplate,
+    });
+
+    const result = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt,
+      stopSequences: [],
+    });
+
+    // Nested elements come back as raw XML, so each <operation> is parsed on its own
+    const parsedResult = parseKeyValueXml(result) as Record<string, any> | null;
+    const blocks = String(parsedResult?.operations ?? '').match(
+      /<operation>[\s\S]*?<\/operation>/g
+    );
+
+    return (blocks ?? [])
+      .map((block) => parseKeyValueXml(block) as Record<string, any> | null)
+      .map((parsed) => (parsed ? toBulkOperation(parsed, availableTasks) : null))
+      .filter((operation): operation is BulkOperation => operation !== null);
+  } catch (error) {
+    logger.error('Error extracting bulk task changes:', error);
+    return [];
+  }
+}
+
+// How each kind of change is reported
+const OUTCOME_LABELS: Record<BulkAction, string> = {
+  complete: '✅ Completed',
+  cancel: '✓ Cancelled',
+  update: '✏️ Updated',
+  tag: '🏷️ Retagged',
+};
+
+/**
+ * Summarize what a bulk request did, one line per kind of change
+ */
+function describeOutcomes(outcomes: BulkOperationOutcome[]): string {
+  const lines: string[] = [];
+  for (const action of BULK_ACTIONS) {
+    const names = outcomes
+      .filter((outcome) => outcome.action === action)
+      .map((outcome) => `"${outcome.name}"`);
+    if (names.length > 0) lines.push(`${OUTCOME_LABELS[action]}: ${names.join(', ')}`);
+  }
+
+  const points = outcomes.reduce((total, outcome) => total + (outcome.points ?? 0), 0);
+  if (points > 0) lines.push(`+${points} points`);
+  return lines.join('\n');
+}
+
+/**
+ * The BULK_UPDATE_TODOS action completes, cancels, reschedules or retags several tasks from one
+ * message. The changes are applied together or not at all.
+ */
+export const bulkUpdateTodosAction: Action = {
+  name: 'BULK_UPDATE_TODOS',
+  similes: ['COMPLETE_ALL_TODOS', 'CANCEL_ALL_TODOS', 'RESCHEDULE_TODOS', 'RETAG_TODOS'],
+  description:
+    'Completes, cancels, reschedules or retags several todo items at once, e.g. "complete all ' +
+    'my shopping tasks" or "move everything due Friday to Monday".',
+
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    // Only validate if there are active (non-completed) todos in the current room
+    try {
+      if (!message.roomId) {
+        return false;
+      }
+      const dataService = createTodoDataService(runtime);
+      const todos = await dataService.getTodos({
+        roomId: message.roomId,
+        isCompleted: false,
+      });
+      return todos.length > 0;
+    } catch (error) {
+      logger.error('Error validating BULK_UPDATE_TODOS action:', error);
+      return false;
+    }
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback
+  ): Promise<void> => {
+    try {
+      if (!state) {
+        if (callback) {
+          await callback({
+            text: 'Unable to process request without state context.',
+            actions: ['BULK_UPDATE_TODOS_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+      if (!message.roomId) {
+        if (callback) {
+          await callback({
+            text: 'I cannot manage todos without a room context.',
+            actions: ['BULK_UPDATE_TODOS_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      // Get all active todos for this room
+      const dataService = createTodoDataService(runtime);
+      const availableTasks = await dataService.getTodos({
+        roomId: message.roomId,
+        isCompleted: false,
+      });
+
+      if (availableTasks.length === 0) {
+        if (callback) {
+          await callback({
+            text: "You don't have any active tasks to change. Would you like to create a new task?",
+            actions: ['BULK_UPDATE_TODOS_NO_TASKS'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const operations = await extractBulkOperations(
+        runtime,
+        message,
+        availableTasks,
+        await dataService.getUserTimezones(),
+        state
+      );
+
+      if (operations.length === 0) {
+        if (callback) {
+          await callback({
+            text:
+              "I couldn't tell which tasks you want to change. Here are your current tasks:\n\n" +
+              availableTasks.map((task) => `- ${task.name}`).join('\n'),
+            actions: ['BULK_UPDATE_TODOS_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const result = await createTodoBulkService(runtime).applyOperations(operations);
+
+      if (result.errors.length > 0) {
+        logger.warn(
+          `[bulkUpdateTodosAction] Bulk changes not applied: ${JSON.stringify(result.errors)}`
+        );
+        if (callback) {
+          await callback({
+            text: "I couldn't apply those changes, so I left all of your tasks as they were. Please try again.",
+            actions: ['BULK_UPDATE_TODOS_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      if (callback) {
+        await callback({
+          text: describeOutcomes(result.outcomes),
+          actions: ['BULK_UPDATE_TODOS_SUCCESS'],
+          source: message.content.source,
+        });
+      }
+    } catch (error) {
+      logger.error('Error in bulkUpdateTodos handler:', error);
+      if (callback) {
+        await callback({
+          text: 'I encountered an error while changing your tasks. Please try again.',
+          actions: ['BULK_UPDATE_TODOS_ERROR'],
+          source: message.content.source,
+        });
+      }
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Complete all my shopping tasks',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '✅ Completed: "Buy milk", "Buy eggs", "Pick up bread"\n+30 points',
+          actions: ['BULK_UPDATE_TODOS'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Move everything due Friday to Monday',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '✏️ Updated: "Send invoice", "Call the bank"',
+          actions: ['BULK_UPDATE_TODOS'],
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default bulkUpdateTodosAction;
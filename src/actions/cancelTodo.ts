@@ -109,7 +109,8 @@ async function extractTaskCancellation(
 export const cancelTodoAction: Action = {
   name: 'CANCEL_TODO',
   similes: ['DELETE_TODO', 'REMOVE_TASK', 'DELETE_TASK', 'REMOVE_TODO'],
-  description: "Cancels and deletes a todo item from the user's task list immediately.",
+  description:
+    "Cancels a todo item and removes it from the user's task list immediately. Cancelled todos are archived and can be restored.",
 
   validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
     // Check if *any* active TODOs exist
@@ -211,13 +212,13 @@ export const cancelTodoAction: Action = {
         return;
       }
 
-      // Delete the task
-      await dataService.deleteTodo(task.id as UUID);
+      // Archive the task so it can be restored later
+      await dataService.archiveTodo(task.id as UUID, { cancelled: true });
       const taskName = task.name || 'task';
 
       if (callback) {
         await callback({
-          text: `✓ Task cancelled: "${taskName}" has been removed from your todo list.`,
+          text: `✓ Task cancelled: "${taskName}" has been removed from your todo list. Just ask if you want it back.`,
           actions: ['CANCEL_TODO_SUCCESS'],
           source: message.content.source,
         });
@@ -245,7 +246,7 @@ export const cancelTodoAction: Action = {
       {
         name: '{{name2}}',
         content: {
-          text: 'Are you sure you want to cancel this one-off task: "Finish taxes" (Priority 2, due 4/15/2023)? Once cancelled, it will be permanently removed.',
+          text: 'Are you sure you want to cancel this one-off task: "Finish taxes" (Priority 2, due 4/15/2023)? You can restore it later if you change your mind.',
           actions: ['CANCEL_TODO_CONFIRM'],
         },
       },
@@ -258,7 +259,7 @@ export const cancelTodoAction: Action = {
       {
         name: '{{name2}}',
         content: {
-          text: '✓ Task cancelled: "Finish taxes" has been removed from your todo list.',
+          text: '✓ Task cancelled: "Finish taxes" has been removed from your todo list. Just ask if you want it back.',
           actions: ['CANCEL_TODO'],
         },
       },
@@ -273,7 +274,7 @@ export const cancelTodoAction: Action = {
       {
         name: '{{name2}}',
         content: {
-          text: 'Are you sure you want to cancel this daily task: "Do 50 pushups" (current streak: 3 days)? Once cancelled, it will be permanently removed.',
+          text: 'Are you sure you want to cancel this daily task: "Do 50 pushups" (current streak: 3 days)? You can restore it later if you change your mind.',
           actions: ['CANCEL_TODO_CONFIRM'],
         },
       },
@@ -13,6 +13,7 @@ import {
   type UUID,
   formatMessages,
 } from '@elizaos/core';
+import { createTodoScoringService } from '../services/scoringService';
 import { createTodoDataService, type TodoData } from '../services/todoDataService';
 
 // Interface for task completion properties
@@ -206,14 +207,31 @@ export const completeTodoAction: Action = {
         return;
       }
 
-      // Mark the task as completed
-      await dataService.updateTodo(task.id, {
-        isCompleted: true,
-        completedAt: new Date(),
-        metadata: {
-          ...task.metadata,
-          completedAt: new Date().toISOString(),
-        },
+      // Score the completion and mark the task as completed together; if another request
+      // completed it in the meantime, the ledger entry is rolled back
+      const completedAt = new Date();
+      const score = await dataService.withTransaction(async (service, txRuntime) => {
+        const score = await createTodoScoringService(txRuntime).recordCompletion(
+          task,
+          completedAt
+        );
+        const completed = await service.updateTodo(
+          task.id,
+          {
+            isCompleted: true,
+            completedAt,
+            metadata: {
+              ...task.metadata,
+              completedAt: completedAt.toISOString(),
+              streak: score.streak,
+              longestStreak: score.longestStreak,
+              pointsAwarded: score.points,
+            },
+          },
+          { isCompleted: false }
+        );
+        if (!completed) throw new Error(`Task ${task.id} was already completed`);
+        return score;
       });
 
       // Generate response text based on task type
@@ -221,8 +239,11 @@ export const completeTodoAction: Action = {
 
       if (task.type === 'daily') {
         responseText = `✅ Daily task completed: "${task.name}"`;
+        if (score.streak > 1) {
+          responseText += ` (🔥 ${score.streak} in a row)`;
+        }
       } else if (task.type === 'one-off') {
-        const completedOnTime = task.dueDate ? new Date() <= task.dueDate : true;
+        const completedOnTime = score.isOnTime ?? true;
         const timeStatus = completedOnTime ? 'on time' : 'late';
         const priority = task.priority || 4;
 
@@ -233,6 +254,25 @@ export const completeTodoAction: Action = {
         responseText = `✅ Marked "${task.name}" as completed.`;
       }
 
+      if (score.points > 0) {
+        responseText += `\n+${score.points} points`;
+      }
+
+      // Point out tasks that can be started now
+      const unblocked = await dataService.getUnblockedBy(task.id);
+      if (unblocked.length > 0) {
+        responseText += `\n\n🔓 Now unblocked: ${unblocked.map((todo) => `"${todo.name}"`).join(', ')}`;
+      }
+
+      // Completing the last open subtask completes the parent as well
+      if (task.parentId) {
+        const parentStatus = await dataService.syncParentCompletion(task.parentId);
+        if (parentStatus === 'completed') {
+          const parent = await dataService.getTodo(task.parentId);
+          responseText += `\n\n🎉 That was the last step - "${parent?.name || 'the parent task'}" is done too!`;
+        }
+      }
+
       if (callback) {
         await callback({
           text: responseText,
@@ -13,6 +13,7 @@ import {
   formatMessages,
 } from '@elizaos/core';
 import { createTodoDataService } from '../services/todoDataService';
+import { ruleFromFrequency } from '../utils/recurrence';
 
 // Interface for confirmation data stored in state
 interface PendingTodoData {
@@ -256,6 +257,10 @@ export const confirmTodoAction: Action = {
         priority: pendingTodo.taskType === 'one-off' ? pendingTodo.priority : undefined,
         isUrgent: pendingTodo.taskType === 'one-off' ? pendingTodo.urgent : false,
         dueDate: pendingTodo.dueDate ? new Date(pendingTodo.dueDate) : undefined,
+        recurrence:
+          pendingTodo.taskType === 'daily'
+            ? ruleFromFrequency(pendingTodo.recurring || 'daily')
+            : undefined,
         metadata: pendingTodo.metadata || {},
         tags: pendingTodo.tags || [],
       });
@@ -12,7 +12,14 @@ import {
   type State,
   type UUID,
 } from '@elizaos/core';
-import { createTodoDataService } from '../services/todoDataService';
+import { createTodoDataService, type NewTodo } from '../services/todoDataService';
+import {
+  describeRecurrence,
+  parseRRule,
+  ruleFromFrequency,
+  type RecurrenceRule,
+} from '../utils/recurrence';
+import { describeReminder, parseReminders, type ReminderSpec } from '../utils/reminders';
 
 // Interface for parsed task data
 interface TodoTaskInput {
@@ -23,6 +30,8 @@ interface TodoTaskInput {
   urgent?: boolean;
   dueDate?: string; // ISO date string for one-off tasks
   recurring?: 'daily' | 'weekly' | 'monthly'; // For recurring tasks
+  rrule?: string; // Detailed recurrence schedule, e.g. FREQ=WEEKLY;BYDAY=MO,WE
+  reminders?: ReminderSpec[]; // When to remind the user, parsed from a comma separated list
 }
 
 // Interface for choice options
@@ -32,7 +41,7 @@ interface ChoiceOption {
 }
 
 /**
- * Template for extracting todo information from the user's message.
+ * Template for extracting the todos of the user's message. A message may name several tasks.
  */
 const extractTodoTemplate = (text: string, messageHistory: string) => `
 # Task: Extract Todo Information
@@ -44,46 +53,107 @@ ${text}
 ${messageHistory}
 
 ## Instructions
-Parse the user\'s message (within the context of the message history) to extract information for creating a new todo/task. Don\'t write a program or any code, just generate and return the XML object.
-Identify whether this is a daily recurring task, a one-off task with a due date, or an aspirational goal.
+Parse the user\'s message (within the context of the message history) to extract information for creating new todos/tasks. Don\'t write a program or any code, just generate and return the XML object.
+The message may name one task or several (e.g. "add milk, eggs, and call the plumber tomorrow" is three tasks). Return one <todo> element per task, in the order the user gave them.
+For each task, identify whether it is a daily recurring task, a one-off task with a due date, or an aspirational goal.
 
 **IMPORTANT:** If the user message appears to be a simple confirmation (e.g., \"yes\", \"confirm\", \"ok\", \"looks good\", \"do it\"), and NOT a description of a new task, return an empty response like <response></response> or a response with a clear indication like <is_confirmation>true</is_confirmation> instead of trying to extract task details.
 
-Return an XML object with these fields:
+Return an XML object with a <todo> element per task, each with these fields:
 <response>
-  <name>A concise name for the task</name>
-  <description>Optional detailed description</description>
-  <taskType>One of "daily", "one-off", "aspirational"</taskType>
-  <priority>For one-off tasks, a number from 1-4 (1=highest, 4=lowest), default to 3 if not specified</priority>
-  <urgent>For one-off tasks, 'true' or 'false' indicating if urgent, default 'false'</urgent>
-  <dueDate>For one-off tasks with due dates, ISO date string (YYYY-MM-DD)</dueDate>
-  <recurring>For daily tasks, frequency ("daily", "weekly", "monthly"), default to "daily"</recurring>
+  <todos>
+    <todo>
+      <name>A concise name for the task</name>
+      <description>Optional detailed description</description>
+      <taskType>One of "daily", "one-off", "aspirational"</taskType>
+      <priority>For one-off tasks, a number from 1-4 (1=highest, 4=lowest), default to 3 if not specified</priority>
+      <urgent>For one-off tasks, 'true' or 'false' indicating if urgent, default 'false'</urgent>
+      <dueDate>For one-off tasks with due dates, ISO date string (YYYY-MM-DD), or YYYY-MM-DDTHH:MM if a time is given</dueDate>
+      <recurring>For daily tasks, frequency ("daily", "weekly", "monthly"), default to "daily"</recurring>
+      <rrule>Only if the task repeats on a specific schedule, an RRULE such as FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE or FREQ=MONTHLY;BYDAY=1TU;COUNT=6 (use UNTIL=YYYYMMDD for an end date)</rrule>
+      <reminders>Only if the user says when to be reminded, a comma separated list of offsets before the due date ("1 day before", "2 hours before", "at due time"), times of day for daily tasks ("07:30"), or ISO date-times ("2024-04-14T09:00")</reminders>
+    </todo>
+  </todos>
 </response>
 
 Use only the information provided by the user. Do not invent details.
+A due date, priority or schedule given for one task applies only to that task.
 If task type is unspecified, assume it's a one-off task.
 If priority is unspecified, use 3 (medium priority).
 Do not write code. Just return the XML object.
 
 ## Example Output Format
 <response>
-  <name>Finish my taxes</name>
-  <description>Get all the documents together and file online</description>
-  <taskType>one-off</taskType>
-  <priority>2</priority>
-  <urgent>false</urgent>
-  <dueDate>2024-04-15</dueDate>
+  <todos>
+    <todo>
+      <name>Buy milk</name>
+      <taskType>one-off</taskType>
+      <priority>3</priority>
+      <urgent>false</urgent>
+    </todo>
+    <todo>
+      <name>Call the plumber</name>
+      <taskType>one-off</taskType>
+      <priority>2</priority>
+      <urgent>false</urgent>
+      <dueDate>2024-04-15</dueDate>
+    </todo>
+  </todos>
 </response>
 `;
 
 /**
- * Extracts todo information from the user's message.
+ * Validates one extracted todo and applies the defaults of its task type.
+ */
+function toTodoTaskInput(parsedTodo: Record<string, any>): TodoTaskInput | null {
+  if (!parsedTodo.name || !parsedTodo.taskType) {
+    logger.error('Failed to extract valid todo information from XML (missing name or type)');
+    return null;
+  }
+
+  // Cast to the expected type *after* validation
+  const validatedTodo = parsedTodo as TodoTaskInput;
+
+  // Convert specific fields from string if necessary and apply defaults
+  const finalTodo: TodoTaskInput = {
+    ...validatedTodo,
+    name: String(validatedTodo.name),
+    taskType: validatedTodo.taskType as 'daily' | 'one-off' | 'aspirational',
+  };
+
+  if (finalTodo.taskType === 'one-off') {
+    finalTodo.priority = validatedTodo.priority
+      ? (parseInt(String(validatedTodo.priority), 10) as 1 | 2 | 3 | 4)
+      : 3;
+    finalTodo.urgent = validatedTodo.urgent
+      ? validatedTodo.urgent === true || validatedTodo.urgent === 'true'
+      : false;
+    finalTodo.dueDate =
+      validatedTodo.dueDate === 'null' ? undefined : String(validatedTodo.dueDate || '');
+  } else if (finalTodo.taskType === 'daily') {
+    finalTodo.recurring = (validatedTodo.recurring || 'daily') as 'daily' | 'weekly' | 'monthly';
+  }
+
+  finalTodo.rrule =
+    validatedTodo.rrule && validatedTodo.rrule !== 'null' ? String(validatedTodo.rrule) : undefined;
+
+  const reminders =
+    parsedTodo.reminders && parsedTodo.reminders !== 'null'
+      ? parseReminders(String(parsedTodo.reminders))
+      : [];
+  finalTodo.reminders = reminders.length > 0 ? reminders : undefined;
+
+  return finalTodo;
+}
+
+/**
+ * Extracts the todos of the user's message. Returns an empty list when there are none.
  */
 async function extractTodoInfo(
   runtime: IAgentRuntime,
   message: Memory,
   state: State
-): Promise<TodoTaskInput | null> {
+): Promise<TodoTaskInput[]> {
   try {
     const messageHistory = formatMessages({
       messages: state.data.messages || [],
@@ -104,50 +174,129 @@ async function extractTodoInfo(
 
     logger.debug('Parsed XML Todo:', parsedResult);
 
-    // Validate the parsed todo
+    // Validate the parsed todos
     // First, check for explicit confirmation flag or intentionally empty response
     if (
       parsedResult &&
       (parsedResult.is_confirmation === 'true' || Object.keys(parsedResult).length === 0)
     ) {
       logger.info('Extraction skipped, likely a confirmation message or empty response.');
-      return null;
-    }
-
-    // Now check if essential fields are missing for a *real* task
-    if (!parsedResult || !parsedResult.name || !parsedResult.taskType) {
-      logger.error('Failed to extract valid todo information from XML (missing name or type)');
-      return null;
+      return [];
     }
 
-    // Cast to the expected type *after* validation
-    const validatedTodo = parsedResult as TodoTaskInput;
-
-    // Convert specific fields from string if necessary and apply defaults
-    const finalTodo: TodoTaskInput = {
-      ...validatedTodo,
-      name: String(validatedTodo.name),
-      taskType: validatedTodo.taskType as 'daily' | 'one-off' | 'aspirational',
-    };
-
-    if (finalTodo.taskType === 'one-off') {
-      finalTodo.priority = validatedTodo.priority
-        ? (parseInt(String(validatedTodo.priority), 10) as 1 | 2 | 3 | 4)
-        : 3;
-      finalTodo.urgent = validatedTodo.urgent
-        ? validatedTodo.urgent === true || validatedTodo.urgent === 'true'
-        : false;
-      finalTodo.dueDate =
-        validatedTodo.dueDate === 'null' ? undefined : String(validatedTodo.dueDate || '');
-    } else if (finalTodo.taskType === 'daily') {
-      finalTodo.recurring = (validatedTodo.recurring || 'daily') as 'daily' | 'weekly' | 'monthly';
+    if (!parsedResult) {
+      logger.error('Failed to extract valid todo information from XML');
+      return [];
     }
 
-    return finalTodo;
+    // Nested elements come back as raw XML, so each <todo> is parsed on its own. A single
+    // task given without the <todos> wrapper is accepted too.
+    const parsedTodos: Record<string, any>[] = parsedResult.todos
+      ? (String(parsedResult.todos).match(/<todo>[\s\S]*?<\/todo>/g) ?? [])
+          .map((block) => parseKeyValueXml(block) as Record<string, any> | null)
+          .filter((todo): todo is Record<string, any> => todo !== null)
+      : [parsedResult];
+
+    return parsedTodos
+      .map(toTodoTaskInput)
+      .filter((todo): todo is TodoTaskInput => todo !== null);
   } catch (error) {
     logger.error('Error extracting todo information:', error);
-    return null;
+    return [];
+  }
+}
+
+/**
+ * Resolves the recurrence of an extracted todo from its RRULE or daily frequency.
+ */
+function resolveTodoRecurrence(todo: TodoTaskInput): RecurrenceRule | undefined {
+  const dueDate = todo.dueDate ? new Date(todo.dueDate) : undefined;
+  let recurrence: RecurrenceRule | undefined;
+  if (todo.rrule) {
+    recurrence = parseRRule(todo.rrule, dueDate ?? new Date()) ?? undefined;
+  }
+  if (!recurrence && todo.taskType === 'daily') {
+    recurrence = ruleFromFrequency(todo.recurring || 'daily');
+  }
+  return recurrence;
+}
+
+/**
+ * Builds the tags of an extracted todo from its type, priority and recurrence.
+ */
+function buildTodoTags(todo: TodoTaskInput, recurrence?: RecurrenceRule): string[] {
+  const tags = ['TODO'];
+  if (recurrence) tags.push(`recurring-${recurrence.frequency}`);
+  if (todo.taskType === 'daily') {
+    tags.push('daily');
+  } else if (todo.taskType === 'one-off') {
+    tags.push('one-off');
+    if (todo.priority) tags.push(`priority-${todo.priority}`);
+    if (todo.urgent) tags.push('urgent');
+  } else if (todo.taskType === 'aspirational') {
+    tags.push('aspirational');
+  }
+  return tags;
+}
+
+/**
+ * Details of a one-off todo, e.g. "Priority 2, Urgent, Due: 4/15/2024".
+ */
+function describeOneOffDetails(todo: TodoTaskInput, recurrence?: RecurrenceRule): string {
+  const priorityText = `Priority ${todo.priority || 'default'}`;
+  const urgentText = todo.urgent ? ', Urgent' : '';
+  const dueDateText = todo.dueDate ? `, Due: ${new Date(todo.dueDate).toLocaleDateString()}` : '';
+  const repeatText = recurrence ? `, repeats ${describeRecurrence(recurrence)}` : '';
+  return `${priorityText}${urgentText}${dueDateText}${repeatText}`;
+}
+
+/**
+ * How often a daily todo resets, e.g. "each day" or "every 2 weeks".
+ */
+function describeReset(recurrence?: RecurrenceRule): string {
+  return recurrence && (recurrence.frequency !== 'daily' || recurrence.interval > 1)
+    ? describeRecurrence(recurrence)
+    : 'each day';
+}
+
+/**
+ * Confirmation of a single created todo.
+ */
+function describeCreatedTodo(todo: TodoTaskInput, recurrence?: RecurrenceRule): string {
+  let successMessage = '';
+  if (todo.taskType === 'daily') {
+    const resetText = `This task will reset ${describeReset(recurrence)}.`;
+    successMessage = `✅ Added new daily task: "${todo.name}". ${resetText}`;
+  } else if (todo.taskType === 'one-off') {
+    const details = describeOneOffDetails(todo, recurrence);
+    successMessage = `✅ Added new one-off task: "${todo.name}" (${details})`;
+  } else {
+    successMessage = `✅ Added new aspirational goal: "${todo.name}"`;
+  }
+
+  if (todo.reminders) {
+    successMessage += ` I'll remind you ${todo.reminders.map(describeReminder).join(', ')}.`;
   }
+  return successMessage;
+}
+
+/**
+ * One line of the confirmation of several created todos.
+ */
+function describeCreatedTodoLine(todo: TodoTaskInput, recurrence?: RecurrenceRule): string {
+  let details = '';
+  if (todo.taskType === 'daily') {
+    details = `daily, resets ${describeReset(recurrence)}`;
+  } else if (todo.taskType === 'one-off') {
+    details = describeOneOffDetails(todo, recurrence);
+  } else {
+    details = 'aspirational goal';
+  }
+
+  const reminderText = todo.reminders
+    ? `, reminders ${todo.reminders.map(describeReminder).join(', ')}`
+    : '';
+  return `- "${todo.name}" (${details}${reminderText})`;
 }
 
 /**
@@ -157,7 +306,8 @@ export const createTodoAction: Action = {
   name: 'CREATE_TODO',
   similes: ['ADD_TODO', 'NEW_TASK', 'ADD_TASK', 'CREATE_TASK'],
   description:
-    'Creates a new todo item from a user description (daily, one-off, or aspirational) immediately.',
+    'Creates new todo items from a user description (daily, one-off, or aspirational) ' +
+    'immediately. A message naming several tasks creates all of them at once.',
 
   validate: async (_runtime: IAgentRuntime, _message: Memory): Promise<boolean> => {
     // No validation needed if we create directly - let handler decide
@@ -172,8 +322,6 @@ export const createTodoAction: Action = {
     callback?: HandlerCallback,
     responses?: Memory[]
   ): Promise<void> => {
-    let todo: TodoTaskInput | null = null;
-
     try {
       if (!message.roomId || !message.entityId) {
         if (callback) {
@@ -190,10 +338,10 @@ export const createTodoAction: Action = {
       const state =
         stateFromTrigger || (await runtime.composeState(message, ['TODOS', 'RECENT_MESSAGES']));
 
-      // Step 2: Extract todo info from the message using the composed state
-      todo = await extractTodoInfo(runtime, message, state);
+      // Step 2: Extract the todos from the message using the composed state
+      const todos = await extractTodoInfo(runtime, message, state);
 
-      if (!todo) {
+      if (todos.length === 0) {
         if (callback) {
           await callback({
             text: "I couldn't understand the details of the todo you want to create. Could you please provide more information?",
@@ -204,25 +352,69 @@ export const createTodoAction: Action = {
         return;
       }
 
-      // Step 3: Get the data service
-      const dataService = createTodoDataService(runtime);
+      // Step 3: Build the todos to create
+      const room = state.data?.room ?? (await runtime.getRoom(message.roomId));
+      const worldId =
+        room?.worldId || message.worldId || createUniqueUuid(runtime, message.entityId);
 
-      // Step 4: Duplicate Check
-      const existingTodos = await dataService.getTodos({
-        entityId: message.entityId,
-        roomId: message.roomId,
-        isCompleted: false,
+      const recurrences = todos.map(resolveTodoRecurrence);
+      const newTodos: NewTodo[] = todos.map((todo, index) => {
+        const recurrence = recurrences[index];
+        const tags = buildTodoTags(todo, recurrence);
+
+        const metadata: Record<string, any> = {
+          createdAt: new Date().toISOString(),
+        };
+        if (todo.description) metadata.description = todo.description;
+        if (todo.dueDate) metadata.dueDate = todo.dueDate;
+
+        logger.debug(`[createTodoAction] Creating task with:`, {
+          name: todo.name,
+          type: todo.taskType,
+          tags,
+          metadata,
+          roomId: message.roomId,
+          worldId,
+          entityId: message.entityId,
+          source: message.content.source,
+        });
+
+        return {
+          agentId: runtime.agentId,
+          worldId: worldId as UUID,
+          roomId: message.roomId,
+          entityId: message.entityId,
+          name: todo.name,
+          description: todo.description || todo.name,
+          type: todo.taskType,
+          priority: todo.taskType === 'one-off' ? todo.priority : undefined,
+          isUrgent: todo.taskType === 'one-off' ? todo.urgent : false,
+          dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined,
+          recurrence,
+          reminders: todo.reminders,
+          metadata,
+          tags,
+        };
       });
 
-      const duplicateTodo = existingTodos.find((t) => todo && t.name.trim() === todo.name.trim());
+      // Step 4: Create them in one transaction, skipping duplicates of open todos
+      const result = await createTodoDataService(runtime).createTodos(newTodos);
 
-      if (duplicateTodo) {
+      for (const duplicate of result.duplicates) {
         logger.warn(
-          `[createTodoAction] Duplicate task found for name "${todo.name}". ID: ${duplicateTodo.id}`
+          `[createTodoAction] Duplicate task found for name "${duplicate.name}". ` +
+            `ID: ${duplicate.todoId}`
         );
+      }
+
+      if (result.created.length === 0) {
+        const names = result.duplicates.map((duplicate) => `"${duplicate.name}"`).join(', ');
         if (callback) {
           await callback({
-            text: `It looks like you already have an active task named "${todo.name}". I haven't added a duplicate.`,
+            text:
+              todos.length === 1
+                ? `It looks like you already have an active task named "${todos[0].name}". I haven't added a duplicate.`
+                : `It looks like you already have active tasks named ${names}. I haven't added duplicates.`,
             actions: ['CREATE_TODO_DUPLICATE'],
             source: message.content.source,
           });
@@ -230,72 +422,25 @@ export const createTodoAction: Action = {
         return;
       }
 
-      // Step 5: Create the task using the data service
-      const tags = ['TODO'];
-      if (todo.taskType === 'daily') {
-        tags.push('daily');
-        if (todo.recurring) tags.push(`recurring-${todo.recurring}`);
-      } else if (todo.taskType === 'one-off') {
-        tags.push('one-off');
-        if (todo.priority) tags.push(`priority-${todo.priority}`);
-        if (todo.urgent) tags.push('urgent');
-      } else if (todo.taskType === 'aspirational') {
-        tags.push('aspirational');
-      }
-
-      const metadata: Record<string, any> = {
-        createdAt: new Date().toISOString(),
-      };
-      if (todo.description) metadata.description = todo.description;
-      if (todo.dueDate) metadata.dueDate = todo.dueDate;
-
-      const room = state.data?.room ?? (await runtime.getRoom(message.roomId));
-      const worldId =
-        room?.worldId || message.worldId || createUniqueUuid(runtime, message.entityId);
+      // Step 5: Send one confirmation for everything that was added
+      const created = result.created.map(({ index }) => ({
+        todo: todos[index],
+        recurrence: recurrences[index],
+      }));
 
-      logger.debug(`[createTodoAction] Creating task with:`, {
-        name: todo.name,
-        type: todo.taskType,
-        tags,
-        metadata,
-        roomId: message.roomId,
-        worldId,
-        entityId: message.entityId,
-        source: message.content.source,
-      });
-
-      const createdTodoId = await dataService.createTodo({
-        agentId: runtime.agentId,
-        worldId: worldId as UUID,
-        roomId: message.roomId,
-        entityId: message.entityId,
-        name: todo.name,
-        description: todo.description || todo.name,
-        type: todo.taskType,
-        priority: todo.taskType === 'one-off' ? todo.priority : undefined,
-        isUrgent: todo.taskType === 'one-off' ? todo.urgent : false,
-        dueDate: todo.dueDate ? new Date(todo.dueDate) : undefined,
-        metadata,
-        tags,
-      });
-
-      if (!createdTodoId) {
-        throw new Error('Failed to create todo, dataService.createTodo returned null/undefined');
-      }
-
-      // Step 6: Send success message
       let successMessage = '';
-      if (todo.taskType === 'daily') {
-        successMessage = `✅ Added new daily task: "${todo.name}". This task will reset each day.`;
-      } else if (todo.taskType === 'one-off') {
-        const priorityText = `Priority ${todo.priority || 'default'}`;
-        const urgentText = todo.urgent ? ', Urgent' : '';
-        const dueDateText = todo.dueDate
-          ? `, Due: ${new Date(todo.dueDate).toLocaleDateString()}`
-          : '';
-        successMessage = `✅ Added new one-off task: "${todo.name}" (${priorityText}${urgentText}${dueDateText})`;
+      if (todos.length === 1) {
+        successMessage = describeCreatedTodo(created[0].todo, created[0].recurrence);
       } else {
-        successMessage = `✅ Added new aspirational goal: "${todo.name}"`;
+        successMessage = [
+          `✅ Added ${created.length} new task${created.length === 1 ? '' : 's'}:`,
+          ...created.map(({ todo, recurrence }) => describeCreatedTodoLine(todo, recurrence)),
+        ].join('\n');
+        if (result.duplicates.length > 0) {
+          const names = result.duplicates.map((duplicate) => `"${duplicate.name}"`).join(', ');
+          const pronoun = result.duplicates.length === 1 ? 'it' : 'them';
+          successMessage += `\nYou already have ${names}, so I didn't add ${pronoun} again.`;
+        }
       }
 
       if (callback) {
@@ -402,6 +547,21 @@ export const createTodoAction: Action = {
         },
       },
     ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Add milk, eggs, and call the plumber tomorrow',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '✅ Added 3 new tasks:\n- "Buy milk" (Priority 3)\n- "Buy eggs" (Priority 3)\n- "Call the plumber" (Priority 3, Due: 4/16/2024)',
+          actions: ['CREATE_TODO'],
+        },
+      },
+    ],
   ] as ActionExample[][],
 };
 
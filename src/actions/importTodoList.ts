@@ -0,0 +1,166 @@
+import {
+  type Action,
+  type ActionExample,
+  createUniqueUuid,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  type State,
+  type UUID,
+} from '@elizaos/core';
+import { createTodoImportService } from '../services/todoImportService';
+import {
+  detectTodoListFormat,
+  isTodoTxtLine,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+  type TodoListItem,
+} from '../utils/todoLists';
+
+/**
+ * Read the todos of a pasted list. For todo.txt, only lines with todo.txt markers are read so
+ * the rest of the message isn't taken for tasks.
+ */
+function readPastedList(text: string): TodoListItem[] {
+  const format = detectTodoListFormat(text);
+  if (format === 'markdown') return parseMarkdownChecklist(text);
+  if (format === 'todotxt') {
+    return parseTodoTxt(text.split(/\r?\n/).filter(isTodoTxtLine).join('\n'));
+  }
+  return [];
+}
+
+/**
+ * The IMPORT_TODO_LIST action creates every task of a pasted Markdown checklist or todo.txt
+ * list at once, skipping tasks that are already on the user's list.
+ */
+export const importTodoListAction: Action = {
+  name: 'IMPORT_TODO_LIST',
+  similes: ['PASTE_TODO_LIST', 'IMPORT_CHECKLIST', 'IMPORT_TODO_TXT', 'ADD_TODO_LIST'],
+  description:
+    'Creates all tasks from a pasted Markdown checklist (- [ ] items) or todo.txt list, with ' +
+    'priorities, +project and @context tags and due: dates.',
+
+  validate: async (_runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    if (!message.roomId) return false;
+    return detectTodoListFormat(message.content?.text || '') !== null;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    _options: any,
+    callback?: HandlerCallback
+  ): Promise<void> => {
+    try {
+      if (!message.roomId || !message.entityId) {
+        if (callback) {
+          await callback({
+            text: 'I cannot manage todos without a room and user context.',
+            actions: ['IMPORT_TODO_LIST_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const items = readPastedList(message.content.text || '');
+      if (items.length === 0) {
+        if (callback) {
+          await callback({
+            text:
+              "I couldn't find any tasks in that list. Use `- [ ] task` lines or todo.txt lines.",
+            actions: ['IMPORT_TODO_LIST_EMPTY'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const room = state?.data?.room ?? (await runtime.getRoom(message.roomId));
+      const worldId =
+        room?.worldId || message.worldId || createUniqueUuid(runtime, message.entityId);
+
+      const result = await createTodoImportService(runtime).importRecords(items, {
+        worldId: worldId as UUID,
+        roomId: message.roomId,
+        entityId: message.entityId,
+      });
+
+      const lines: string[] = [];
+      if (result.created > 0) {
+        lines.push(
+          `✅ Added ${result.created} task${result.created === 1 ? '' : 's'} from your list:`,
+          ...result.todoIds.map((_id, index) => `- ${result.preview[index].name}`)
+        );
+      }
+      if (result.duplicates.length > 0) {
+        lines.push(
+          `Already on your list, so skipped: ${result.duplicates.map((d) => d.name).join(', ')}`
+        );
+      }
+      if (result.errors.length > 0) {
+        lines.push(
+          "I couldn't add these:",
+          ...result.errors.map(
+            (error) => `- ${error.name || `Item ${error.row}`}: ${error.errors.join('; ')}`
+          )
+        );
+      }
+
+      if (callback) {
+        await callback({
+          text: lines.join('\n') || 'There was nothing new to add from that list.',
+          actions: [result.created > 0 ? 'IMPORT_TODO_LIST_SUCCESS' : 'IMPORT_TODO_LIST_NONE'],
+          source: message.content.source,
+        });
+      }
+    } catch (error) {
+      logger.error('Error in importTodoList handler:', error);
+      if (callback) {
+        await callback({
+          text: 'I encountered an error while adding the tasks from your list. Please try again.',
+          actions: ['IMPORT_TODO_LIST_ERROR'],
+          source: message.content.source,
+        });
+      }
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Add these:\n- [ ] (A) Renew passport due:2024-07-01\n- [ ] Book flights +travel\n- [x] Pack bags',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '✅ Added 3 tasks from your list:\n- Renew passport\n- Book flights\n- Pack bags',
+          actions: ['IMPORT_TODO_LIST'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: '(B) Call plumber @phone +house\nx 2024-06-02 Pay rent +bills\nWater plants rec:3d +house',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '✅ Added 3 tasks from your list:\n- Call plumber\n- Pay rent\n- Water plants',
+          actions: ['IMPORT_TODO_LIST'],
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default importTodoListAction;
@@ -0,0 +1,261 @@
+import {
+  type Action,
+  type ActionExample,
+  composePrompt,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  ModelType,
+  parseKeyValueXml,
+  type State,
+  formatMessages,
+  type UUID,
+} from '@elizaos/core';
+import { createTodoDataService, type TodoData } from '../services/todoDataService';
+
+// Interface for task restoration properties
+interface TaskRestoration {
+  taskId: string;
+  taskName: string;
+  isFound: boolean;
+}
+
+/**
+ * Template for extracting which archived task the user wants back
+ */
+const extractRestorationTemplate = `
+# Task: Extract Task Restoration Information
+
+## User Message
+{{text}}
+
+## Message History
+{{messageHistory}}
+
+## Cancelled and Archived Tasks
+{{archivedTasks}}
+
+## Instructions
+Parse the user's message to identify which cancelled or archived task they want to restore.
+Match against the list of archived tasks by name or description.
+If multiple tasks have similar names, prefer the most recently cancelled one.
+
+Return an XML object with:\n<response>\n  <taskId>ID of the task being restored, or \'null\' if not found</taskId>\n  <taskName>Name of the task being restored, or \'null\' if not found</taskName>\n  <isFound>\'true\' or \'false\' indicating if a matching task was found</isFound>\n</response>\n\n## Example Output Format\n<response>\n  <taskId>123e4567-e89b-12d3-a456-426614174000</taskId>\n  <taskName>Finish report</taskName>\n  <isFound>true</isFound>\n</response>\n\nIf no matching task was found:\n<response>\n  <taskId>null</taskId>\n  <taskName>null</taskName>\n  <isFound>false</isFound>\n</response>\n`;
+
+/**
+ * Extracts which archived task the user wants to restore
+ */
+async function extractTaskRestoration(
+  runtime: IAgentRuntime,
+  message: Memory,
+  archivedTasks: TodoData[],
+  state: State
+): Promise<TaskRestoration> {
+  try {
+    // Format archived tasks for the prompt
+    const tasksText = archivedTasks
+      .map((task) => {
+        const archivedAt = task.archivedAt ? new Date(task.archivedAt).toLocaleDateString() : 'unknown';
+        return `ID: ${task.id}\nName: ${task.name}\nDescription: ${task.description || task.name}\nArchived: ${archivedAt}\n`;
+      })
+      .join('\n---\n');
+
+    const messageHistory = formatMessages({
+      messages: state.data?.messages || [],
+      entities: state.data?.entities || [],
+    });
+
+    const prompt = composePrompt({
+      state: {
+        text: message.content.text || '',
+        archivedTasks: tasksText,
+        messageHistory: messageHistory,
+      },
+      template: extractRestorationTemplate,
+    });
+
+    const result = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt,
+      stopSequences: [],
+    });
+
+    // Parse XML from the text results
+    const parsedResult = parseKeyValueXml(result) as TaskRestoration | null;
+
+    if (!parsedResult || typeof parsedResult.isFound === 'undefined') {
+      logger.error('Failed to parse valid task restoration information from XML');
+      return { taskId: '', taskName: '', isFound: false };
+    }
+
+    return {
+      taskId: parsedResult.taskId === 'null' ? '' : String(parsedResult.taskId || ''),
+      taskName: parsedResult.taskName === 'null' ? '' : String(parsedResult.taskName || ''),
+      isFound: String(parsedResult.isFound) === 'true',
+    };
+  } catch (error) {
+    logger.error('Error extracting task restoration information:', error);
+    return { taskId: '', taskName: '', isFound: false };
+  }
+}
+
+/**
+ * The RESTORE_TODO action brings back a cancelled or archived task.
+ */
+export const restoreTodoAction: Action = {
+  name: 'RESTORE_TODO',
+  similes: ['UNDO_CANCEL_TODO', 'UNARCHIVE_TODO', 'RESTORE_TASK', 'BRING_BACK_TODO'],
+  description: 'Restores a cancelled or archived todo item back to the active task list.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    // Check if any archived TODOs exist
+    try {
+      if (!message.roomId) {
+        return false;
+      }
+      const dataService = createTodoDataService(runtime);
+      const todos = await dataService.getTodos({
+        roomId: message.roomId,
+        archived: true,
+      });
+      return todos.length > 0;
+    } catch (error) {
+      logger.error('Error validating RESTORE_TODO action:', error);
+      return false;
+    }
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: any,
+    callback?: HandlerCallback
+  ): Promise<void> => {
+    try {
+      if (!state) {
+        if (callback) {
+          await callback({
+            text: 'Unable to process request without state context.',
+            actions: ['RESTORE_TODO_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+      if (!message.roomId) {
+        if (callback) {
+          await callback({
+            text: 'I cannot manage todos without a room context.',
+            actions: ['RESTORE_TODO_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+      const dataService = createTodoDataService(runtime);
+
+      // Get all archived todos for this room
+      const archivedTasks = await dataService.getTodos({
+        roomId: message.roomId,
+        archived: true,
+      });
+
+      if (archivedTasks.length === 0) {
+        if (callback) {
+          await callback({
+            text: "You don't have any cancelled tasks to restore.",
+            actions: ['RESTORE_TODO_NO_TASKS'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      // Extract which task the user wants to restore
+      const taskRestoration = options?.taskId
+        ? { taskId: options.taskId, taskName: options.taskName, isFound: true }
+        : await extractTaskRestoration(runtime, message, archivedTasks, state);
+
+      if (!taskRestoration.isFound) {
+        if (callback) {
+          await callback({
+            text:
+              "I couldn't determine which task you want to restore. Here are your cancelled tasks:\n\n" +
+              archivedTasks.map((task) => `- ${task.name}`).join('\n'),
+            actions: ['RESTORE_TODO_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const task = archivedTasks.find((t) => t.id === taskRestoration.taskId);
+
+      if (!task) {
+        if (callback) {
+          await callback({
+            text: `I couldn't find a cancelled task matching "${taskRestoration.taskName}". Please try again with the exact task name.`,
+            actions: ['RESTORE_TODO_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      await dataService.restoreTodo(task.id as UUID);
+
+      if (callback) {
+        await callback({
+          text: `↩️ Task restored: "${task.name}" is back on your todo list.`,
+          actions: ['RESTORE_TODO_SUCCESS'],
+          source: message.content.source,
+        });
+      }
+    } catch (error) {
+      logger.error('Error in restoreTodo handler:', error);
+      if (callback) {
+        await callback({
+          text: 'I encountered an error while trying to restore your task. Please try again.',
+          actions: ['RESTORE_TODO_ERROR'],
+          source: message.content.source,
+        });
+      }
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Actually, bring back the taxes task I cancelled',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '↩️ Task restored: "Finish taxes" is back on your todo list.',
+          actions: ['RESTORE_TODO'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'I regret deleting my pushups habit, can you undo that?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '↩️ Task restored: "Do 50 pushups" is back on your todo list.',
+          actions: ['RESTORE_TODO'],
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default restoreTodoAction;
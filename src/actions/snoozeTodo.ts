@@ -0,0 +1,281 @@
+import {
+  type Action,
+  type ActionExample,
+  composePrompt,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  ModelType,
+  parseKeyValueXml,
+  type State,
+  formatMessages,
+  type UUID,
+} from '@elizaos/core';
+import { createTodoDataService, type TodoData } from '../services/todoDataService';
+import { DEFAULT_SNOOZE_MINUTES, parseSnoozeUntil } from '../utils/reminders';
+
+// Interface for task snooze properties
+interface TaskSnooze {
+  taskId: string;
+  taskName: string;
+  until: string;
+  isFound: boolean;
+}
+
+/**
+ * Template for extracting which task to snooze and for how long
+ */
+const extractSnoozeTemplate = `
+# Task: Extract Task Snooze Information
+
+## User Message
+{{text}}
+
+## Message History
+{{messageHistory}}
+
+## Available Tasks
+{{availableTasks}}
+
+## Instructions
+Parse the user's message to identify which task they want to be reminded about later, and when.
+Match against the list of available tasks by name or description. If the user is replying to a
+reminder, choose the task that reminder was about.
+For the time, copy the user's wording, e.g. "1 hour", "30 minutes", "tomorrow morning", "tonight",
+"next week" or "3pm". Use 'null' if they did not say when.
+
+Return an XML object with:\n<response>\n  <taskId>ID of the task being snoozed, or \'null\' if not found</taskId>\n  <taskName>Name of the task being snoozed, or \'null\' if not found</taskName>\n  <until>When to remind them again, or \'null\'</until>\n  <isFound>\'true\' or \'false\' indicating if a matching task was found</isFound>\n</response>\n\n## Example Output Format\n<response>\n  <taskId>123e4567-e89b-12d3-a456-426614174000</taskId>\n  <taskName>Finish report</taskName>\n  <until>tomorrow morning</until>\n  <isFound>true</isFound>\n</response>\n`;
+
+/**
+ * Extracts which task the user wants to snooze and until when
+ */
+async function extractTaskSnooze(
+  runtime: IAgentRuntime,
+  message: Memory,
+  availableTasks: TodoData[],
+  state: State
+): Promise<TaskSnooze> {
+  try {
+    // Format available tasks for the prompt
+    const tasksText = availableTasks
+      .map((task) => {
+        return `ID: ${task.id}\nName: ${task.name}\nDescription: ${task.description || task.name}\n`;
+      })
+      .join('\n---\n');
+
+    const messageHistory = formatMessages({
+      messages: state.data?.messages || [],
+      entities: state.data?.entities || [],
+    });
+
+    const prompt = composePrompt({
+      state: {
+        text: message.content.text || '',
+        availableTasks: tasksText,
+        messageHistory: messageHistory,
+      },
+      template: extractSnoozeTemplate,
+    });
+
+    const result = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt,
+      stopSequences: [],
+    });
+
+    // Parse XML from the text results
+    const parsedResult = parseKeyValueXml(result) as TaskSnooze | null;
+
+    logger.debug('Parsed XML Result', parsedResult);
+
+    if (!parsedResult || typeof parsedResult.isFound === 'undefined') {
+      logger.error('Failed to parse valid task snooze information from XML');
+      return { taskId: '', taskName: '', until: '', isFound: false };
+    }
+
+    // Convert string 'true'/'false' to boolean and handle 'null' strings
+    return {
+      taskId: parsedResult.taskId === 'null' ? '' : String(parsedResult.taskId || ''),
+      taskName: parsedResult.taskName === 'null' ? '' : String(parsedResult.taskName || ''),
+      until: parsedResult.until === 'null' ? '' : String(parsedResult.until || ''),
+      isFound: String(parsedResult.isFound) === 'true',
+    };
+  } catch (error) {
+    logger.error('Error extracting task snooze information:', error);
+    return { taskId: '', taskName: '', until: '', isFound: false };
+  }
+}
+
+/**
+ * The SNOOZE_TODO action holds back a task's reminders until later, e.g. from a reminder's
+ * snooze button or "remind me in an hour".
+ */
+export const snoozeTodoAction: Action = {
+  name: 'SNOOZE_TODO',
+  similes: ['SNOOZE_REMINDER', 'REMIND_LATER', 'POSTPONE_REMINDER', 'SNOOZE_TASK'],
+  description:
+    'Snoozes the reminders for a todo until later, such as in an hour or tomorrow morning. Reminders resume with one reminder when the snooze ends.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    // Check if *any* active TODOs exist
+    try {
+      if (!message.roomId) {
+        return false;
+      }
+      const dataService = createTodoDataService(runtime);
+      const todos = await dataService.getTodos({
+        roomId: message.roomId,
+        isCompleted: false,
+      });
+      return todos.length > 0;
+    } catch (error) {
+      logger.error('Error validating SNOOZE_TODO action:', error);
+      return false;
+    }
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: any,
+    callback?: HandlerCallback
+  ): Promise<void> => {
+    try {
+      if (!state) {
+        if (callback) {
+          await callback({
+            text: 'Unable to process request without state context.',
+            actions: ['SNOOZE_TODO_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+      if (!message.roomId) {
+        if (callback) {
+          await callback({
+            text: 'I cannot manage todos without a room context.',
+            actions: ['SNOOZE_TODO_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+      const dataService = createTodoDataService(runtime);
+
+      // Get all active todos for this room
+      const availableTasks = await dataService.getTodos({
+        roomId: message.roomId,
+        isCompleted: false,
+      });
+
+      if (availableTasks.length === 0) {
+        if (callback) {
+          await callback({
+            text: "You don't have any active tasks to snooze.",
+            actions: ['SNOOZE_TODO_NO_TASKS'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      // Reminder buttons pass the task and snooze time directly
+      const taskSnooze = options?.taskId
+        ? {
+            taskId: options.taskId,
+            taskName: options.taskName,
+            until: String(options.until ?? ''),
+            isFound: true,
+          }
+        : await extractTaskSnooze(runtime, message, availableTasks, state);
+
+      if (!taskSnooze.isFound) {
+        if (callback) {
+          await callback({
+            text:
+              "I couldn't determine which task you want to snooze. Could you be more specific? Here are your current tasks:\n\n" +
+              availableTasks.map((task) => `- ${task.name}`).join('\n'),
+            actions: ['SNOOZE_TODO_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const task = availableTasks.find((t) => t.id === taskSnooze.taskId);
+
+      if (!task) {
+        if (callback) {
+          await callback({
+            text: `I couldn't find a task matching "${taskSnooze.taskName}". Please try again with the exact task name.`,
+            actions: ['SNOOZE_TODO_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const now = new Date();
+      const timeZone = await dataService.getUserTimezone(task.entityId);
+      const until =
+        (taskSnooze.until && parseSnoozeUntil(taskSnooze.until, now, timeZone)) ||
+        new Date(now.getTime() + DEFAULT_SNOOZE_MINUTES * 60 * 1000);
+
+      await dataService.snoozeTodo(task.id as UUID, until);
+
+      if (callback) {
+        await callback({
+          text: `⏰ Snoozed "${task.name}". I'll remind you again ${until.toLocaleString('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' })}.`,
+          actions: ['SNOOZE_TODO_SUCCESS'],
+          source: message.content.source,
+        });
+      }
+    } catch (error) {
+      logger.error('Error in snoozeTodo handler:', error);
+      if (callback) {
+        await callback({
+          text: 'I encountered an error while trying to snooze your task. Please try again.',
+          actions: ['SNOOZE_TODO_ERROR'],
+          source: message.content.source,
+        });
+      }
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Remind me about the report in an hour',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '⏰ Snoozed "Finish report". I\'ll remind you again Apr 14, 2024, 3:30 PM.',
+          actions: ['SNOOZE_TODO'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Not now, remind me to call mom tomorrow morning',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '⏰ Snoozed "Call mom". I\'ll remind you again Apr 15, 2024, 9:00 AM.',
+          actions: ['SNOOZE_TODO'],
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default snoozeTodoAction;
@@ -0,0 +1,327 @@
+import {
+  type Action,
+  type ActionExample,
+  composePrompt,
+  type HandlerCallback,
+  type IAgentRuntime,
+  logger,
+  type Memory,
+  ModelType,
+  parseKeyValueXml,
+  type State,
+  formatMessages,
+} from '@elizaos/core';
+import type { NotificationPreferences } from '../services/notificationManager';
+import {
+  createNotificationPreferencesService,
+  type NotificationPreferencesUpdate,
+} from '../services/notificationPreferencesService';
+import { parseReminder } from '../utils/reminders';
+
+/**
+ * Template for extracting notification preference changes from the user's message
+ */
+const extractPreferencesTemplate = `
+# Task: Extract Notification Preference Changes
+
+## User Message
+{{text}}
+
+## Message History
+{{messageHistory}}
+
+## Current Notification Preferences
+{{currentPreferences}}
+
+## Instructions
+Parse the user's message to identify how they want their todo reminders to change.
+Only fill in fields the user actually asked to change; use 'unchanged' for everything else.
+
+- quietHoursStart / quietHoursEnd: hour (0-23) when reminders should stop and resume. "Don't remind me after 10pm" means quietHoursStart 22. "Not before 7am" means quietHoursEnd 7.
+- quietHoursOff: 'true' if the user wants reminders at any hour.
+- enabled: 'false' to stop all reminders, 'true' to turn them back on.
+- overdue / upcoming / daily: 'true' or 'false' to turn that kind of reminder on or off.
+- sound: 'true' or 'false'.
+- dailyDigest: 'true' or 'false' to turn the morning digest of today's tasks on or off.
+- weeklyDigest: 'true' or 'false' to turn the weekly review of points and streaks on or off.
+- digestTime: time of day for digests in 24h HH:MM, e.g. "send my digest at 7am" means 07:00.
+- roomOnly: 'true' only if the change should apply just to this conversation or channel.
+
+Return an XML object with:\n<response>\n  <quietHoursStart>hour or 'unchanged'</quietHoursStart>\n  <quietHoursEnd>hour or 'unchanged'</quietHoursEnd>\n  <quietHoursOff>'true' or 'unchanged'</quietHoursOff>\n  <enabled>'true', 'false' or 'unchanged'</enabled>\n  <overdue>'true', 'false' or 'unchanged'</overdue>\n  <upcoming>'true', 'false' or 'unchanged'</upcoming>\n  <daily>'true', 'false' or 'unchanged'</daily>\n  <sound>'true', 'false' or 'unchanged'</sound>\n  <dailyDigest>'true', 'false' or 'unchanged'</dailyDigest>\n  <weeklyDigest>'true', 'false' or 'unchanged'</weeklyDigest>\n  <digestTime>HH:MM or 'unchanged'</digestTime>\n  <roomOnly>'true' or 'false'</roomOnly>\n</response>\n\n## Example Output Format\nFor "don't remind me after 10pm":\n<response>\n  <quietHoursStart>22</quietHoursStart>\n  <quietHoursEnd>unchanged</quietHoursEnd>\n  <quietHoursOff>unchanged</quietHoursOff>\n  <enabled>unchanged</enabled>\n  <overdue>unchanged</overdue>\n  <upcoming>unchanged</upcoming>\n  <daily>unchanged</daily>\n  <sound>unchanged</sound>\n  <dailyDigest>unchanged</dailyDigest>\n  <weeklyDigest>unchanged</weeklyDigest>\n  <digestTime>unchanged</digestTime>\n  <roomOnly>false</roomOnly>\n</response>\n`;
+
+/**
+ * Format preferences for prompts and confirmations
+ */
+function describePreferences(prefs: NotificationPreferences): string {
+  if (!prefs.enabled) {
+    return 'Reminders are turned off.';
+  }
+
+  const formatHour = (hour: number) =>
+    `${hour % 12 === 0 ? 12 : hour % 12} ${hour < 12 ? 'AM' : 'PM'}`;
+  const types = (['overdue', 'upcoming', 'daily'] as const).filter(
+    (type) => prefs.reminderTypes[type]
+  );
+
+  const lines = [
+    prefs.quietHours
+      ? `Quiet hours: ${formatHour(prefs.quietHours.start)} to ${formatHour(prefs.quietHours.end)}`
+      : 'Quiet hours: none',
+    `Reminder types: ${types.length > 0 ? types.join(', ') : 'none'}`,
+    `Sound: ${prefs.sound ? 'on' : 'off'}`,
+    `Digests: ${describeDigests(prefs)}`,
+  ];
+  return lines.join('\n');
+}
+
+function describeDigests(prefs: NotificationPreferences): string {
+  const digest = prefs.digest;
+  const kinds = [digest?.daily && 'daily', digest?.weekly && 'weekly'].filter(Boolean);
+  return digest && kinds.length > 0 ? `${kinds.join(' and ')} at ${digest.time}` : 'off';
+}
+
+function parseFlag(value: unknown): boolean | undefined {
+  const text = String(value ?? '').trim().toLowerCase();
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  return undefined;
+}
+
+function parseHour(value: unknown): number | undefined {
+  const hour = parseInt(String(value ?? ''), 10);
+  return Number.isInteger(hour) && hour >= 0 && hour <= 23 ? hour : undefined;
+}
+
+/**
+ * Extracts the preference changes the user asked for, or null if none were found
+ */
+async function extractPreferenceChanges(
+  runtime: IAgentRuntime,
+  message: Memory,
+  current: NotificationPreferences,
+  state: State
+): Promise<{ update: NotificationPreferencesUpdate; roomOnly: boolean } | null> {
+  try {
+    const messageHistory = formatMessages({
+      messages: state.data?.messages || [],
+      entities: state.data?.entities || [],
+    });
+
+    const prompt = composePrompt({
+      state: {
+        text: message.content.text || '',
+        currentPreferences: describePreferences(current),
+        messageHistory: messageHistory,
+      },
+      template: extractPreferencesTemplate,
+    });
+
+    const result = await runtime.useModel(ModelType.TEXT_SMALL, {
+      prompt,
+      stopSequences: [],
+    });
+
+    // Parse XML from the text results
+    const parsedResult = parseKeyValueXml(result) as Record<string, unknown> | null;
+
+    if (!parsedResult) {
+      logger.error('Failed to parse notification preference changes from XML');
+      return null;
+    }
+
+    const update: NotificationPreferencesUpdate = {};
+
+    const enabled = parseFlag(parsedResult.enabled);
+    if (enabled !== undefined) update.enabled = enabled;
+
+    const sound = parseFlag(parsedResult.sound);
+    if (sound !== undefined) update.sound = sound;
+
+    for (const type of ['overdue', 'upcoming', 'daily'] as const) {
+      const value = parseFlag(parsedResult[type]);
+      if (value !== undefined) {
+        update.reminderTypes = { ...update.reminderTypes, [type]: value };
+      }
+    }
+
+    for (const [field, kind] of [
+      ['dailyDigest', 'daily'],
+      ['weeklyDigest', 'weekly'],
+    ] as const) {
+      const value = parseFlag(parsedResult[field]);
+      if (value !== undefined) update.digest = { ...update.digest, [kind]: value };
+    }
+    const digestTime = parseReminder(String(parsedResult.digestTime ?? ''));
+    if (digestTime?.type === 'time') {
+      update.digest = { ...update.digest, time: digestTime.time };
+    }
+
+    const start = parseHour(parsedResult.quietHoursStart);
+    const end = parseHour(parsedResult.quietHoursEnd);
+    if (parseFlag(parsedResult.quietHoursOff) === true) {
+      update.quietHours = null;
+    } else if (start !== undefined || end !== undefined) {
+      // Keep the other end of the current window, or the default one
+      update.quietHours = {
+        start: start ?? current.quietHours?.start ?? 22,
+        end: end ?? current.quietHours?.end ?? 8,
+      };
+    }
+
+    if (Object.keys(update).length === 0) {
+      return null;
+    }
+
+    return { update, roomOnly: parseFlag(parsedResult.roomOnly) === true };
+  } catch (error) {
+    logger.error('Error extracting notification preference changes:', error);
+    return null;
+  }
+}
+
+/**
+ * The UPDATE_NOTIFICATION_PREFERENCES action changes when and how the user is reminded.
+ */
+export const updateNotificationPreferencesAction: Action = {
+  name: 'UPDATE_NOTIFICATION_PREFERENCES',
+  similes: [
+    'SET_QUIET_HOURS',
+    'CHANGE_REMINDER_SETTINGS',
+    'MUTE_REMINDERS',
+    'UPDATE_REMINDER_PREFERENCES',
+  ],
+  description:
+    'Changes when and how the user receives todo reminders, such as quiet hours, turning off a kind of reminder, or daily and weekly digests.',
+
+  validate: async (runtime: IAgentRuntime, message: Memory): Promise<boolean> => {
+    return !!message.entityId;
+  },
+
+  handler: async (
+    runtime: IAgentRuntime,
+    message: Memory,
+    state: State | undefined,
+    options: any,
+    callback?: HandlerCallback
+  ): Promise<void> => {
+    try {
+      if (!state) {
+        if (callback) {
+          await callback({
+            text: 'Unable to process request without state context.',
+            actions: ['UPDATE_NOTIFICATION_PREFERENCES_ERROR'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const preferencesService = createNotificationPreferencesService(runtime);
+      const current = await preferencesService.getPreferences(message.entityId, message.roomId);
+
+      const changes = options?.preferences
+        ? { update: options.preferences, roomOnly: !!options.roomOnly }
+        : await extractPreferenceChanges(runtime, message, current, state);
+
+      if (!changes) {
+        if (callback) {
+          await callback({
+            text:
+              "I couldn't tell which reminder settings you want to change. Here's what you have now:\n\n" +
+              describePreferences(current),
+            actions: ['UPDATE_NOTIFICATION_PREFERENCES_NOT_FOUND'],
+            source: message.content.source,
+          });
+        }
+        return;
+      }
+
+      const roomId = changes.roomOnly ? message.roomId : undefined;
+      const { digest, ...roomUpdate } = changes.update as NotificationPreferencesUpdate;
+
+      // Digests go to the user rather than a room, so they are always stored for the user
+      if (roomId && digest) {
+        await preferencesService.updatePreferences(message.entityId, { digest });
+      }
+      const stored = await preferencesService.updatePreferences(
+        message.entityId,
+        roomId ? roomUpdate : changes.update,
+        roomId
+      );
+      if (!stored) {
+        throw new Error('Failed to save notification preferences');
+      }
+
+      const updated = await preferencesService.getPreferences(message.entityId, message.roomId);
+
+      if (callback) {
+        await callback({
+          text:
+            `🔔 Reminder settings updated${roomId ? ' for this conversation' : ''}.\n\n` +
+            describePreferences(updated),
+          actions: ['UPDATE_NOTIFICATION_PREFERENCES_SUCCESS'],
+          source: message.content.source,
+        });
+      }
+    } catch (error) {
+      logger.error('Error in updateNotificationPreferences handler:', error);
+      if (callback) {
+        await callback({
+          text: 'I encountered an error while updating your reminder settings. Please try again.',
+          actions: ['UPDATE_NOTIFICATION_PREFERENCES_ERROR'],
+          source: message.content.source,
+        });
+      }
+    }
+  },
+
+  examples: [
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: "Please don't remind me about anything after 10pm",
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '🔔 Reminder settings updated.\n\nQuiet hours: 10 PM to 8 AM\nReminder types: overdue, upcoming, daily\nSound: on\nDigests: off',
+          actions: ['UPDATE_NOTIFICATION_PREFERENCES'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Stop sending me the daily habit reminders in this channel',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '🔔 Reminder settings updated for this conversation.\n\nQuiet hours: 10 PM to 8 AM\nReminder types: overdue, upcoming\nSound: on\nDigests: off',
+          actions: ['UPDATE_NOTIFICATION_PREFERENCES'],
+        },
+      },
+    ],
+    [
+      {
+        name: '{{name1}}',
+        content: {
+          text: 'Can you send me a summary of my tasks every morning at 7 instead of pinging me all day?',
+        },
+      },
+      {
+        name: '{{name2}}',
+        content: {
+          text: '🔔 Reminder settings updated.\n\nQuiet hours: 10 PM to 8 AM\nReminder types: overdue, upcoming, daily\nSound: on\nDigests: daily at 07:00',
+          actions: ['UPDATE_NOTIFICATION_PREFERENCES'],
+        },
+      },
+    ],
+  ] as ActionExample[][],
+};
+
+export default updateNotificationPreferencesAction;
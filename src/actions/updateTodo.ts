@@ -12,6 +12,13 @@ import {
   type UUID,
 } from '@elizaos/core';
 import { createTodoDataService, type TodoData } from '../services/todoDataService';
+import {
+  describeRecurrence,
+  parseRRule,
+  ruleFromFrequency,
+  type RecurrenceRule,
+} from '../utils/recurrence';
+import { describeReminder, parseReminders, type ReminderSpec } from '../utils/reminders';
 
 // Interface for task selection properties
 interface TaskSelection {
@@ -28,6 +35,8 @@ interface TaskUpdate {
   urgent?: boolean;
   dueDate?: string | null;
   recurring?: 'daily' | 'weekly' | 'monthly';
+  rrule?: string | null;
+  reminders?: ReminderSpec[] | null;
 }
 
 /**
@@ -91,8 +100,10 @@ Return an XML object with these potential fields (only include fields that shoul
   <description>New description for the task</description>
   <priority>New priority (1-4, where 1 is highest)</priority>
   <urgent>\'true\' or \'false\' for whether the task is urgent</urgent>
-  <dueDate>New due date in ISO format (YYYY-MM-DD), or \'null\' to remove the due date</dueDate>
+  <dueDate>New due date in ISO format (YYYY-MM-DD, or YYYY-MM-DDTHH:MM with a time), or \'null\' to remove the due date</dueDate>
   <recurring>New recurrence pattern (\'daily\', \'weekly\', \'monthly\')</recurring>
+  <rrule>New detailed schedule as an RRULE (e.g. FREQ=WEEKLY;BYDAY=TU,TH or FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20251231), or \'null\' to stop repeating</rrule>
+  <reminders>New comma separated list of reminders: offsets before the due date ("1 day before", "2 hours before", "at due time"), times of day ("07:30") or ISO date-times, or \'null\' to go back to the default reminders</reminders>
 </response>
 
 ## Example Output Format
@@ -170,9 +181,13 @@ async function extractTaskUpdate(
     // Add task type
     taskDetails += `Type: ${task.type}\n`;
 
+    if (task.recurrence) {
+      taskDetails += `Repeats: ${describeRecurrence(task.recurrence)}\n`;
+    }
+
     if (task.type === 'daily') {
       const recurringTag = task.tags?.find((tag) => tag.startsWith('recurring-'));
-      if (recurringTag) {
+      if (recurringTag && !task.recurrence) {
         const recurring = recurringTag.split('-')[1];
         taskDetails += `Recurring: ${recurring}\n`;
       }
@@ -186,6 +201,10 @@ async function extractTaskUpdate(
       }
     }
 
+    if (task.reminders?.length) {
+      taskDetails += `Reminders: ${task.reminders.map(describeReminder).join(', ')}\n`;
+    }
+
     const prompt = composePrompt({
       state: {
         text: message.content.text || '',
@@ -200,7 +219,7 @@ async function extractTaskUpdate(
     });
 
     // Parse XML from the text results
-    const parsedUpdate = parseKeyValueXml(result) as TaskUpdate | null;
+    const parsedUpdate = parseKeyValueXml(result) as Record<string, any> | null;
 
     // Validate the parsed update has at least one property
     if (!parsedUpdate || Object.keys(parsedUpdate).length === 0) {
@@ -209,7 +228,7 @@ async function extractTaskUpdate(
     }
 
     // Convert specific fields from string if necessary
-    const finalUpdate: TaskUpdate = { ...parsedUpdate };
+    const finalUpdate: TaskUpdate = { ...parsedUpdate, reminders: undefined };
     if (finalUpdate.priority) {
       const priorityVal = parseInt(String(finalUpdate.priority), 10);
       if (!isNaN(priorityVal) && priorityVal >= 1 && priorityVal <= 4) {
@@ -233,6 +252,17 @@ async function extractTaskUpdate(
       }
     }
 
+    if (finalUpdate.rrule === 'null') finalUpdate.rrule = null;
+    else if (finalUpdate.rrule !== undefined) finalUpdate.rrule = String(finalUpdate.rrule);
+
+    if (parsedUpdate.reminders === 'null') {
+      finalUpdate.reminders = null;
+    } else if (parsedUpdate.reminders !== undefined) {
+      const reminders = parseReminders(String(parsedUpdate.reminders));
+      if (reminders.length > 0) finalUpdate.reminders = reminders;
+    }
+    if (finalUpdate.reminders === undefined) delete finalUpdate.reminders;
+
     // Return null if no valid fields remain after conversion/validation
     if (Object.keys(finalUpdate).length === 0) {
       logger.warn('No valid update fields found after parsing XML.');
@@ -257,15 +287,27 @@ async function applyTaskUpdate(
   // Prepare tags array
   const updatedTags = [...(task.tags || [])];
 
+  // Resolve the new recurrence rule, if the schedule changed
+  let recurrence: RecurrenceRule | null | undefined;
+  if (update.rrule !== undefined) {
+    recurrence = update.rrule
+      ? parseRRule(update.rrule, task.dueDate ?? task.createdAt) ?? undefined
+      : null;
+  } else if (update.recurring && task.type === 'daily') {
+    recurrence = ruleFromFrequency(update.recurring, task.createdAt);
+  }
+
   // Update tags based on changes
-  if (update.recurring && task.type === 'daily') {
+  if (recurrence !== undefined) {
     // Remove any existing recurring tag
     const recurringIndex = updatedTags.findIndex((tag) => tag.startsWith('recurring-'));
     if (recurringIndex !== -1) {
       updatedTags.splice(recurringIndex, 1);
     }
     // Add new recurring tag
-    updatedTags.push(`recurring-${update.recurring}`);
+    if (recurrence) {
+      updatedTags.push(`recurring-${recurrence.frequency}`);
+    }
   }
 
   // Prepare the update object
@@ -279,6 +321,8 @@ async function applyTaskUpdate(
     ...(update.dueDate !== undefined
       ? { dueDate: update.dueDate ? new Date(update.dueDate) : null }
       : {}),
+    ...(recurrence !== undefined ? { recurrence } : {}),
+    ...(update.reminders !== undefined ? { reminders: update.reminders } : {}),
     tags: updatedTags,
     metadata: {
       ...task.metadata,
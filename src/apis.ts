@@ -13,7 +13,54 @@ import { sql } from 'drizzle-orm';
 import fs from 'node:fs';
 import path from 'node:path';
 import { fileURLToPath } from 'node:url';
-import { createTodoDataService, TodoDataService } from './services/todoDataService';
+import {
+  createNotificationPreferencesService,
+  type NotificationPreferencesUpdate,
+} from './services/notificationPreferencesService';
+import { createCalendarFeedService } from './services/calendarFeedService';
+import { createDigestService, formatDigest } from './services/digestService';
+import {
+  createNotificationDeliveryService,
+  type DeliveryStatus,
+} from './services/notificationDeliveryService';
+import { TodoDomainEvents } from './services/domainEvents';
+import { createPushSubscriptionService } from './services/pushSubscriptionService';
+import { createTodoScoringService } from './services/scoringService';
+import { createTodoBulkService } from './services/todoBulkService';
+import {
+  createTodoDataService,
+  nestSubtasks,
+  TodoDataService,
+} from './services/todoDataService';
+import { getTodoEventStream, type TodoEvent } from './services/todoEventStream';
+import {
+  createTodoExportService,
+  formatTodoExport,
+  type ExportFormat,
+} from './services/todoExportService';
+import { createTodoImportService, readImportRecords } from './services/todoImportService';
+import {
+  createWebhookService,
+  type WebhookDeliveryStatus,
+  type WebhookInput,
+} from './services/webhookService';
+import { formatICalendar, parseICalendar, type ICalComponents } from './utils/ical';
+import {
+  parseRRule,
+  ruleFromFrequency,
+  toDateString,
+  type RecurrenceRule,
+} from './utils/recurrence';
+import {
+  DEFAULT_SNOOZE_MINUTES,
+  isValidReminder,
+  parseReminder,
+  parseSnoozeUntil,
+  type ReminderSpec,
+} from './utils/reminders';
+import { isValidTimeZone, toZonedTime } from './utils/timezone';
+import { isValidPushSubscription } from './utils/webPush';
+import { isValidWebhookUrl } from './utils/webhooks';
 
 // Define the equivalent of __dirname for ES modules
 const __filename = fileURLToPath(import.meta.url);
@@ -90,6 +137,22 @@ export const routes: Route[] = [
       }
     },
   },
+  // Service worker that shows Web Push notifications, served from the root so it can control
+  // the whole dashboard
+  {
+    type: 'GET',
+    path: '/sw.js',
+    handler: async (_req: any, res: any, _runtime: IAgentRuntime) => {
+      const workerPath = path.resolve(frontendDist, 'sw.js');
+      if (fs.existsSync(workerPath)) {
+        res.setHeader('Content-Type', 'application/javascript');
+        res.setHeader('Service-Worker-Allowed', '/');
+        res.sendFile(workerPath);
+      } else {
+        res.status(404).send('Service worker not found');
+      }
+    },
+  },
   // API route to get all TODOs, structured by world and room
   {
     type: 'GET',
@@ -97,6 +160,7 @@ export const routes: Route[] = [
     handler: async (req: any, res: any, runtime: IAgentRuntime) => {
       try {
         const dataService = createTodoDataService(runtime);
+        const archived = req.query?.archived === 'true'; // ?archived=true lists the archive instead
 
         // 1. Get all room IDs the agent is a participant in
         const agentRoomIds = await runtime.getRoomsForParticipant(runtime.agentId);
@@ -133,8 +197,8 @@ export const routes: Route[] = [
 
         // Fetch tasks per room
         for (const roomId of agentRoomIds) {
-          const todos = await dataService.getTodos({ roomId });
-          tasksByRoom.set(roomId, todos || []);
+          const todos = await dataService.getTodos({ roomId, archived });
+          tasksByRoom.set(roomId, nestSubtasks(todos || []));
         }
 
         // 4. Group rooms by World ID and fetch World details
@@ -195,6 +259,205 @@ export const routes: Route[] = [
       }
     },
   },
+  // API route to stream todo changes and reminders as server-sent events
+  {
+    type: 'GET',
+    path: '/api/todos/events',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      const stream = getTodoEventStream(runtime);
+      const send = (event: TodoEvent) => {
+        res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      res.status(200);
+      res.setHeader('Content-Type', 'text/event-stream');
+      res.setHeader('Cache-Control', 'no-cache');
+      res.setHeader('Connection', 'keep-alive');
+      res.setHeader('X-Accel-Buffering', 'no'); // Keep proxies from holding events back
+      res.flushHeaders?.();
+
+      // Catch up a reconnecting browser on what it missed
+      const lastEventId = Number(req.headers?.['last-event-id'] ?? req.query?.lastEventId);
+      if (Number.isInteger(lastEventId)) {
+        stream.getEventsSince(lastEventId).forEach(send);
+      }
+
+      const unsubscribe = stream.subscribe(send);
+      // Comments keep idle connections from being closed
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), SSE_HEARTBEAT_MS);
+
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        unsubscribe();
+        logger.debug('[API /api/todos/events] Client disconnected');
+      });
+    },
+  },
+  // API route to export todos as an iCalendar file, optionally for one user or room
+  {
+    type: 'GET',
+    path: '/api/todos.ics',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const components = req.query?.components ?? 'both';
+        if (!ICAL_COMPONENTS.includes(components)) {
+          return res.status(400).send("components must be 'todos', 'events' or 'both'");
+        }
+
+        const todos = await createTodoDataService(runtime).getTodos({
+          agentId: runtime.agentId,
+          entityId: req.query?.entityId as UUID | undefined,
+          roomId: req.query?.roomId as UUID | undefined,
+          ...(req.query?.includeCompleted === 'false' ? { isCompleted: false } : {}),
+        });
+
+        sendICalendar(res, formatICalendar(todos, { name: 'Todos', components }));
+      } catch (error) {
+        logger.error(`Error exporting todos as iCalendar: ${String(error)}`);
+        res.status(500).send('Error exporting todos');
+      }
+    },
+  },
+  // API route to import the VTODO items of an iCalendar file into a room. The file is sent as
+  // the text/calendar body, or as `calendar` in a JSON body.
+  {
+    type: 'POST',
+    path: '/api/import/ical',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const calendar = typeof req.body === 'string' ? req.body : req.body?.calendar;
+        const roomId = (req.body?.roomId ?? req.query?.roomId) as UUID | undefined;
+        const entityId = (req.body?.entityId ?? req.query?.entityId ?? runtime.agentId) as UUID;
+        if (!calendar || typeof calendar !== 'string') {
+          return res.status(400).send('Missing calendar');
+        }
+        if (!roomId) {
+          return res.status(400).send('Missing required field: roomId');
+        }
+
+        // Times without a zone are in the user's timezone
+        const timeZone = await createTodoDataService(runtime).getUserTimezone(entityId);
+        const items = parseICalendar(calendar, { timeZone });
+        if (items.length === 0) {
+          return res.status(400).send('No VTODO items found');
+        }
+
+        const worldId = createUniqueUuid(runtime, runtime.agentId);
+        await runtime.ensureConnection({
+          entityId: runtime.agentId,
+          roomId,
+          worldId,
+          type: ChannelType.GROUP,
+          name: 'Calendar import',
+          source: 'the-system',
+          worldName: 'The System',
+        });
+
+        const result = await createTodoImportService(runtime).importICalTodos(items, {
+          worldId: worldId as UUID,
+          roomId,
+          entityId,
+        });
+        res.status(result.created > 0 ? 201 : 200).json(result);
+      } catch (error) {
+        logger.error(`Error importing iCalendar: ${String(error)}`);
+        res.status(500).send('Error importing iCalendar');
+      }
+    },
+  },
+  // API route to export todos, optionally for one entity, room or world. CSV and JSON exports
+  // include tags, metadata and completion history; Markdown and todo.txt exports are lists.
+  {
+    type: 'GET',
+    path: '/api/export',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const format = req.query?.format ?? 'json';
+        if (!EXPORT_FORMATS.includes(format)) {
+          return res.status(400).send(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+        }
+
+        const exportService = createTodoExportService(runtime);
+        const filters = {
+          entityId: req.query?.entityId as UUID | undefined,
+          roomId: req.query?.roomId as UUID | undefined,
+          worldId: req.query?.worldId as UUID | undefined,
+          includeArchived: req.query?.includeArchived === 'true',
+        };
+
+        const { contentType, extension } = EXPORT_FILE_TYPES[format as ExportFormat];
+        const date = new Date().toISOString().slice(0, 10);
+        res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+        res.setHeader('Content-Disposition', `attachment; filename="todos-${date}.${extension}"`);
+        res.send(
+          format === 'csv' || format === 'json'
+            ? formatTodoExport(await exportService.exportTodos(filters), format)
+            : await exportService.exportTodoList(filters, format)
+        );
+      } catch (error) {
+        logger.error(`Error exporting todos: ${String(error)}`);
+        res.status(500).send('Error exporting todos');
+      }
+    },
+  },
+  // API route to import todos from a CSV, JSON, Markdown or todo.txt file into a room. With
+  // dryRun, nothing is created and the response previews what would be.
+  {
+    type: 'POST',
+    path: '/api/import',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        // The file is the text or JSON body, or `data` in a JSON body with the options
+        const raw = typeof req.body === 'string' || Array.isArray(req.body);
+        const options = raw ? (req.query ?? {}) : { ...req.query, ...req.body };
+        const data = raw ? req.body : req.body?.data;
+        const format = options.format ?? 'json';
+        if (!EXPORT_FORMATS.includes(format)) {
+          return res.status(400).send(`format must be one of ${EXPORT_FORMATS.join(', ')}`);
+        }
+        if (!options.roomId) {
+          return res.status(400).send('Missing required field: roomId');
+        }
+        if (data === undefined || data === null || data === '') {
+          return res.status(400).send('Missing data');
+        }
+
+        const records = readImportRecords(format, data);
+        if (typeof records === 'string') {
+          return res.status(400).send(records);
+        }
+        if (records.length > MAX_IMPORT_ROWS) {
+          return res.status(400).send(`Imports are limited to ${MAX_IMPORT_ROWS} todos`);
+        }
+
+        const dryRun = options.dryRun === true || options.dryRun === 'true';
+        const roomId = options.roomId as UUID;
+        const entityId = (options.entityId ?? runtime.agentId) as UUID;
+        const worldId = createUniqueUuid(runtime, runtime.agentId);
+        if (!dryRun) {
+          await runtime.ensureConnection({
+            entityId: runtime.agentId,
+            roomId,
+            worldId,
+            type: ChannelType.GROUP,
+            name: 'Todo import',
+            source: 'the-system',
+            worldName: 'The System',
+          });
+        }
+
+        const result = await createTodoImportService(runtime).importRecords(
+          records,
+          { worldId: worldId as UUID, roomId, entityId },
+          { dryRun }
+        );
+        res.status(result.created > 0 ? 201 : 200).json(result);
+      } catch (error) {
+        logger.error(`Error importing todos: ${String(error)}`);
+        res.status(500).send('Error importing todos');
+      }
+    },
+  },
   // API route to get all tags
   {
     type: 'GET',
@@ -267,19 +530,48 @@ export const routes: Route[] = [
     path: '/api/todos',
     handler: async (req: any, res: any, runtime: IAgentRuntime) => {
       try {
-        const { name, type, priority, dueDate, isUrgent, roomId } = req.body; // Assume roomId is passed in body
+        const { name, type, priority, dueDate, isUrgent, roomId, rrule, parentId, reminders } =
+          req.body; // Assume roomId is passed in body
 
         if (!name || !type || !roomId) {
           return res.status(400).send('Missing required fields: name, type, roomId');
         }
+        if (reminders !== undefined && !isValidReminderList(reminders)) {
+          return res.status(400).send('Invalid reminders');
+        }
 
         const dataService = createTodoDataService(runtime);
+
+        // Subtasks are one level deep
+        if (parentId) {
+          const parent = await dataService.getTodo(parentId);
+          if (!parent) {
+            return res.status(400).send('Parent task not found');
+          }
+          if (parent.parentId) {
+            return res.status(400).send('Subtasks cannot have subtasks of their own');
+          }
+        }
         const tags = ['TODO'];
         const metadata: Record<string, any> = {};
 
+        // --- Determine Recurrence ---
+        let recurrence: RecurrenceRule | undefined;
+        if (rrule) {
+          recurrence = parseRRule(rrule, dueDate ? new Date(dueDate) : new Date()) ?? undefined;
+          if (!recurrence) {
+            return res.status(400).send('Invalid or unsupported rrule');
+          }
+        } else if (type === 'daily') {
+          recurrence = ruleFromFrequency('daily');
+        }
+
         // --- Determine Task Type and Tags ---
+        if (recurrence) {
+          tags.push(`recurring-${recurrence.frequency}`);
+        }
         if (type === 'daily') {
-          tags.push('daily', 'recurring-daily');
+          tags.push('daily');
           metadata.completedToday = false;
         } else if (type === 'one-off') {
           tags.push('one-off');
@@ -329,6 +621,9 @@ export const routes: Route[] = [
           priority: type === 'one-off' ? priority || 4 : undefined,
           isUrgent: type === 'one-off' ? isUrgent || false : false,
           dueDate: dueDate ? new Date(dueDate) : undefined,
+          recurrence,
+          reminders: reminders?.length ? reminders : undefined,
+          parentId,
           metadata,
           tags,
         });
@@ -341,6 +636,33 @@ export const routes: Route[] = [
       }
     },
   },
+  // API route to complete, cancel, update or retag several TODOs at once, all or nothing
+  {
+    type: 'POST',
+    path: '/api/todos/bulk',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const operations = req.body?.operations;
+        if (!Array.isArray(operations) || operations.length === 0) {
+          return res.status(400).send('operations must be a non-empty list');
+        }
+        if (operations.length > MAX_BULK_OPERATIONS) {
+          return res
+            .status(400)
+            .send(`Bulk requests are limited to ${MAX_BULK_OPERATIONS} operations`);
+        }
+
+        const result = await createTodoBulkService(runtime).applyOperations(operations);
+        if (result.errors.length > 0) {
+          return res.status(result.rolledBack ? 500 : 400).json(result);
+        }
+        res.json(result);
+      } catch (error) {
+        logger.error(`Error applying bulk operations: ${String(error)}`);
+        res.status(500).send('Error applying bulk operations');
+      }
+    },
+  },
   // API route to complete a TODO
   {
     type: 'PUT',
@@ -366,30 +688,61 @@ export const routes: Route[] = [
           return res.status(400).send('Task already completed');
         }
 
+        // Score and complete the task together. A request that lost a race with another one
+        // finds the task completed already and rolls back its ledger entry.
         const now = new Date();
-        const metadataUpdate: Record<string, any> = {
-          ...task.metadata,
-          completedAt: now.toISOString(),
-        };
+        let alreadyCompleted = false;
+        const score = await dataService
+          .withTransaction(async (service, txRuntime) => {
+            const score = await createTodoScoringService(txRuntime).recordCompletion(task, now);
+            const metadataUpdate: Record<string, any> = {
+              ...task.metadata,
+              completedAt: now.toISOString(),
+              streak: score.streak,
+              longestStreak: score.longestStreak,
+              pointsAwarded: score.points,
+            };
 
-        // Handle daily task metadata
-        if (task.type === 'daily') {
-          metadataUpdate.completedToday = true;
-          metadataUpdate.lastCompletedDate = now.toISOString().split('T')[0];
+            // Handle daily task metadata; the date is the user's, like the daily reset's
+            if (task.type === 'daily') {
+              const timeZone = await service.getUserTimezone(task.entityId);
+              metadataUpdate.completedToday = true;
+              metadataUpdate.lastCompletedDate = toDateString(toZonedTime(now, timeZone));
+            }
+
+            const completed = await service.updateTodo(
+              taskId,
+              { isCompleted: true, completedAt: now, metadata: metadataUpdate },
+              { isCompleted: false }
+            );
+            if (!completed) {
+              alreadyCompleted = true;
+              throw new Error('Task already completed');
+            }
+            return score;
+          })
+          .catch((error) => {
+            if (alreadyCompleted) return null;
+            throw error;
+          });
+        if (!score) {
+          return res.status(409).send('Task already completed');
         }
 
-        // Update the task
-        await dataService.updateTodo(taskId, {
-          isCompleted: true,
-          completedAt: now,
-          metadata: metadataUpdate,
-        });
+        const parentStatus = task.parentId
+          ? await dataService.syncParentCompletion(task.parentId)
+          : null;
+        const unblocked = await dataService.getUnblockedBy(taskId);
 
         // Return the final task state
         const updatedTask = await dataService.getTodo(taskId);
         res.json({
           message: `Task ${taskId} completed.`,
           task: updatedTask,
+          points: score.points,
+          streak: score.streak,
+          parentStatus,
+          unblocked,
         });
       } catch (error: any) {
         console.error(`Error completing todo ${req.params.id}:`, error);
@@ -421,18 +774,45 @@ export const routes: Route[] = [
         }
 
         // --- Logic to reverse completion ---
-        const metadataUpdate = { ...task.metadata };
-        delete metadataUpdate.completedAt;
-        // Optionally handle daily task metadata
-        if (task.type === 'daily' && metadataUpdate.completedToday) {
-          delete metadataUpdate.completedToday;
+        // Revoke the ledger entry and reopen the task together, so a concurrent request that
+        // finds the task reopened already rolls back instead of revoking a second entry
+        let alreadyOpen = false;
+        const reopened = await dataService
+          .withTransaction(async (service, txRuntime) => {
+            const metadataUpdate = { ...task.metadata };
+            delete metadataUpdate.completedAt;
+            delete metadataUpdate.pointsAwarded;
+            metadataUpdate.streak = await createTodoScoringService(
+              txRuntime
+            ).revokeLastCompletion(taskId as UUID);
+            // Optionally handle daily task metadata
+            if (task.type === 'daily' && metadataUpdate.completedToday) {
+              delete metadataUpdate.completedToday;
+            }
+
+            const updated = await service.updateTodo(
+              taskId,
+              { isCompleted: false, completedAt: undefined, metadata: metadataUpdate },
+              { isCompleted: true }
+            );
+            if (!updated) {
+              alreadyOpen = true;
+              throw new Error('Task is already not completed');
+            }
+            return true;
+          })
+          .catch((error) => {
+            if (alreadyOpen) return false;
+            throw error;
+          });
+        if (!reopened) {
+          return res.status(409).send('Task is already not completed');
         }
 
-        await dataService.updateTodo(taskId, {
-          isCompleted: false,
-          completedAt: undefined,
-          metadata: metadataUpdate,
-        });
+        // Reopen a parent that was completed by its subtasks
+        if (task.parentId) {
+          await dataService.syncParentCompletion(task.parentId);
+        }
 
         const updatedTask = await dataService.getTodo(taskId);
         res.json({
@@ -501,14 +881,36 @@ export const routes: Route[] = [
           }
         }
 
-        // Update recurring pattern (for daily tasks)
-        if (updateData.recurring && task.type === 'daily') {
+        // Update recurring pattern (rrule for any task, legacy frequency for daily tasks)
+        let recurrence: RecurrenceRule | null | undefined;
+        if (updateData.rrule !== undefined) {
+          recurrence = updateData.rrule
+            ? parseRRule(updateData.rrule, task.dueDate ?? task.createdAt)
+            : null;
+          if (updateData.rrule && !recurrence) {
+            return res.status(400).send('Invalid or unsupported rrule');
+          }
+        } else if (updateData.recurring && task.type === 'daily') {
+          recurrence = ruleFromFrequency(updateData.recurring, task.createdAt);
+          updatedMetadata.recurring = updateData.recurring;
+        }
+        if (recurrence !== undefined) {
           const recurringIndex = updatedTags.findIndex((tag) => tag.startsWith('recurring-'));
           if (recurringIndex !== -1) {
             updatedTags.splice(recurringIndex, 1);
           }
-          updatedTags.push(`recurring-${updateData.recurring}`);
-          updatedMetadata.recurring = updateData.recurring;
+          if (recurrence) {
+            updatedTags.push(`recurring-${recurrence.frequency}`);
+          }
+          updatedTaskData.recurrence = recurrence;
+        }
+
+        // Update reminders, null or an empty list restores the defaults
+        if (updateData.reminders !== undefined) {
+          if (updateData.reminders !== null && !isValidReminderList(updateData.reminders)) {
+            return res.status(400).send('Invalid reminders');
+          }
+          updatedTaskData.reminders = updateData.reminders?.length ? updateData.reminders : null;
         }
 
         // Update due date (for one-off tasks)
@@ -520,11 +922,18 @@ export const routes: Route[] = [
           }
         }
 
-        // Apply all updates
-        await dataService.updateTodo(taskId, {
-          ...updatedTaskData,
-          tags: updatedTags,
-          metadata: updatedMetadata,
+        // Apply all updates together, so a failed tag change leaves the task as it was
+        const removedTags = (task.tags || []).filter((tag) => !updatedTags.includes(tag));
+        const addedTags = updatedTags.filter((tag) => !(task.tags || []).includes(tag));
+        await dataService.withTransaction(async (service) => {
+          const saved =
+            (await service.updateTodo(taskId, {
+              ...updatedTaskData,
+              metadata: updatedMetadata,
+            })) &&
+            (removedTags.length === 0 || (await service.removeTags(taskId, removedTags))) &&
+            (addedTags.length === 0 || (await service.addTags(taskId, addedTags)));
+          if (!saved) throw new Error('Failed to save task changes');
         });
 
         const updatedTask = await dataService.getTodo(taskId);
@@ -557,7 +966,15 @@ export const routes: Route[] = [
           return res.status(404).send('Task not found');
         }
 
-        await dataService.deleteTodo(taskId);
+        // Todos are archived so they can be restored; ?permanent=true deletes right away
+        if (req.query?.permanent === 'true') {
+          await dataService.deleteTodo(taskId);
+          return res.json({
+            message: `Task ${taskId} deleted permanently.`,
+          });
+        }
+
+        await dataService.archiveTodo(taskId, { cancelled: true });
 
         res.json({
           message: `Task ${taskId} deleted successfully.`,
@@ -569,17 +986,916 @@ export const routes: Route[] = [
       }
     },
   },
+  // API route to reorder the subtasks of a TODO
+  {
+    type: 'PUT',
+    path: '/api/todos/:id/subtasks/order',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const taskId = req.params.id;
+        const { subtaskIds } = req.body;
 
-];
+        if (!Array.isArray(subtaskIds)) {
+          return res.status(400).send('subtaskIds must be an array');
+        }
 
-export default routes;
+        const dataService = createTodoDataService(runtime);
+        const task = await dataService.getTodo(taskId);
 
-// TaskUpdate interface for API updates
-interface TaskUpdate {
-  name?: string;
-  description?: string;
-  priority?: 1 | 2 | 3 | 4;
-  urgent?: boolean;
-  dueDate?: string | null; // Expect ISO string or null
-  recurring?: 'daily' | 'weekly' | 'monthly';
+        if (!task) {
+          return res.status(404).send('Task not found');
+        }
+
+        await dataService.reorderSubtasks(taskId, subtaskIds);
+
+        res.json({
+          message: `Subtasks of ${taskId} reordered.`,
+          subtasks: await dataService.getSubtasks(taskId),
+        });
+      } catch (error) {
+        logger.error(`Error reordering subtasks of ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error reordering subtasks');
+      }
+    },
+  },
+  // API route to make a TODO depend on (be blocked by) another TODO
+  {
+    type: 'POST',
+    path: '/api/todos/:id/dependencies',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const taskId = req.params.id;
+        const { dependsOnId } = req.body;
+
+        if (!dependsOnId) {
+          return res.status(400).send('Missing dependsOnId');
+        }
+
+        const dataService = createTodoDataService(runtime);
+        const [task, dependency] = await Promise.all([
+          dataService.getTodo(taskId),
+          dataService.getTodo(dependsOnId),
+        ]);
+
+        if (!task || !dependency) {
+          return res.status(404).send('Task not found');
+        }
+
+        if (await dataService.wouldCreateCycle(taskId, dependsOnId)) {
+          return res.status(400).send('Dependency would create a cycle');
+        }
+
+        const success = await dataService.addDependency(taskId, dependsOnId);
+        if (!success) {
+          return res.status(500).send('Error adding dependency');
+        }
+
+        res.status(201).json({
+          message: `Task ${taskId} now depends on ${dependsOnId}.`,
+          task: await dataService.getTodo(taskId),
+        });
+      } catch (error) {
+        logger.error(`Error adding dependency to ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error adding dependency');
+      }
+    },
+  },
+  // API route to remove a dependency between TODOs
+  {
+    type: 'DELETE',
+    path: '/api/todos/:id/dependencies/:dependsOnId',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { id: taskId, dependsOnId } = req.params;
+
+        const dataService = createTodoDataService(runtime);
+        await dataService.removeDependency(taskId, dependsOnId);
+
+        res.json({
+          message: `Task ${taskId} no longer depends on ${dependsOnId}.`,
+          task: await dataService.getTodo(taskId),
+        });
+      } catch (error) {
+        logger.error(`Error removing dependency from ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error removing dependency');
+      }
+    },
+  },
+  // API route to restore a cancelled or archived TODO
+  {
+    type: 'POST',
+    path: '/api/todos/:id/restore',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const taskId = req.params.id;
+        if (!taskId) {
+          return res.status(400).send('Missing task ID');
+        }
+
+        const dataService = createTodoDataService(runtime);
+        const task = await dataService.getTodo(taskId);
+
+        if (!task) {
+          return res.status(404).send('Task not found');
+        }
+
+        if (!task.archivedAt) {
+          return res.status(400).send('Task is not archived');
+        }
+
+        await dataService.restoreTodo(taskId);
+
+        const updatedTask = await dataService.getTodo(taskId);
+        res.json({
+          message: `Task ${taskId} restored.`,
+          task: updatedTask,
+        });
+      } catch (error) {
+        logger.error(`Error restoring todo ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error restoring todo');
+      }
+    },
+  },
+  // API route to snooze a TODO's reminders, or end the snooze with { until: null }
+  {
+    type: 'PUT',
+    path: '/api/todos/:id/snooze',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const taskId = req.params.id;
+        if (!taskId) {
+          return res.status(400).send('Missing task ID');
+        }
+
+        const dataService = createTodoDataService(runtime);
+        const task = await dataService.getTodo(taskId);
+
+        if (!task) {
+          return res.status(404).send('Task not found');
+        }
+
+        if (task.isCompleted) {
+          return res.status(400).send('Task is already completed');
+        }
+
+        // Accepts minutes, an ISO time or a phrase like "tomorrow morning"; defaults to an hour
+        const { until, minutes } = req.body ?? {};
+        const now = new Date();
+        let snoozedUntil: Date | null;
+        if (until === null) {
+          snoozedUntil = null;
+        } else if (minutes !== undefined) {
+          if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes <= 0) {
+            return res.status(400).send('minutes must be a positive number');
+          }
+          snoozedUntil = new Date(now.getTime() + minutes * 60 * 1000);
+        } else if (until !== undefined) {
+          const timeZone = await dataService.getUserTimezone(task.entityId);
+          snoozedUntil =
+            typeof until === 'string' ? parseSnoozeUntil(until, now, timeZone) : null;
+          if (!snoozedUntil || snoozedUntil <= now) {
+            return res.status(400).send('until must be a future time');
+          }
+        } else {
+          snoozedUntil = new Date(now.getTime() + DEFAULT_SNOOZE_MINUTES * 60 * 1000);
+        }
+
+        await dataService.snoozeTodo(taskId, snoozedUntil);
+
+        const updatedTask = await dataService.getTodo(taskId);
+        res.json({
+          message: snoozedUntil
+            ? `Task ${taskId} snoozed until ${snoozedUntil.toISOString()}.`
+            : `Task ${taskId} is no longer snoozed.`,
+          task: updatedTask,
+        });
+      } catch (error) {
+        logger.error(`Error snoozing todo ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error snoozing todo');
+      }
+    },
+  },
+  // API route to get the timezone used for a user's daily resets
+  {
+    type: 'GET',
+    path: '/api/users/:entityId/timezone',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const dataService = createTodoDataService(runtime);
+        const timezone = await dataService.getUserTimezone(req.params.entityId as UUID);
+        res.json({ entityId: req.params.entityId, timezone });
+      } catch (error) {
+        logger.error(`Error getting timezone for ${req.params.entityId}: ${String(error)}`);
+        res.status(500).send('Error getting timezone');
+      }
+    },
+  },
+  // API route to set the timezone used for a user's daily resets
+  {
+    type: 'PUT',
+    path: '/api/users/:entityId/timezone',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { timezone } = req.body;
+
+        if (!timezone || !isValidTimeZone(timezone)) {
+          return res.status(400).send('Invalid or missing timezone');
+        }
+
+        const dataService = createTodoDataService(runtime);
+        const success = await dataService.setUserTimezone(req.params.entityId as UUID, timezone);
+        if (!success) {
+          return res.status(500).send('Error setting timezone');
+        }
+
+        res.json({ entityId: req.params.entityId, timezone });
+      } catch (error) {
+        logger.error(`Error setting timezone for ${req.params.entityId}: ${String(error)}`);
+        res.status(500).send('Error setting timezone');
+      }
+    },
+  },
+  // API route to get a user's notification preferences, optionally as applied in a room
+  {
+    type: 'GET',
+    path: '/api/users/:entityId/notification-preferences',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const entityId = req.params.entityId as UUID;
+        const roomId = req.query.roomId as UUID | undefined;
+        const preferencesService = createNotificationPreferencesService(runtime);
+
+        const layers = await preferencesService.getPreferenceLayers(entityId, roomId);
+        if (!layers) {
+          return res.status(500).send('Error getting notification preferences');
+        }
+
+        res.json({
+          entityId,
+          roomId: roomId ?? null,
+          preferences: await preferencesService.getPreferences(entityId, roomId),
+          stored: layers.entity ?? {},
+          roomOverride: roomId ? (layers.room ?? {}) : null,
+        });
+      } catch (error) {
+        logger.error(
+          `Error getting notification preferences for ${req.params.entityId}: ${String(error)}`
+        );
+        res.status(500).send('Error getting notification preferences');
+      }
+    },
+  },
+  // API route to update a user's notification preferences, or a room override with roomId
+  {
+    type: 'PUT',
+    path: '/api/users/:entityId/notification-preferences',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const entityId = req.params.entityId as UUID;
+        const { roomId, ...body } = req.body || {};
+
+        const update = parsePreferencesUpdate(body);
+        if (typeof update === 'string') {
+          return res.status(400).send(update);
+        }
+        if (roomId && update.digest) {
+          return res.status(400).send('Digest settings apply to the user, not to a room');
+        }
+
+        const preferencesService = createNotificationPreferencesService(runtime);
+        const stored = await preferencesService.updatePreferences(entityId, update, roomId);
+        if (!stored) {
+          return res.status(500).send('Error updating notification preferences');
+        }
+
+        res.json({
+          entityId,
+          roomId: roomId ?? null,
+          preferences: await preferencesService.getPreferences(entityId, roomId),
+        });
+      } catch (error) {
+        logger.error(
+          `Error updating notification preferences for ${req.params.entityId}: ${String(error)}`
+        );
+        res.status(500).send('Error updating notification preferences');
+      }
+    },
+  },
+  // API route to preview a user's daily or weekly digest as it would be sent now
+  {
+    type: 'GET',
+    path: '/api/users/:entityId/digest',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const entityId = req.params.entityId as UUID;
+        const kind = req.query.kind ?? 'daily';
+        if (kind !== 'daily' && kind !== 'weekly') {
+          return res.status(400).send("kind must be 'daily' or 'weekly'");
+        }
+
+        const dataService = createTodoDataService(runtime);
+        const digestService = createDigestService(runtime);
+        const timeZone = await dataService.getUserTimezone(entityId);
+        const now = new Date();
+        const digest =
+          kind === 'daily'
+            ? await digestService.buildDailyDigest(entityId, now, timeZone)
+            : await digestService.buildWeeklyDigest(entityId, now, timeZone);
+
+        res.json({ ...formatDigest(digest), digest });
+      } catch (error) {
+        logger.error(`Error building digest for ${req.params.entityId}: ${String(error)}`);
+        res.status(500).send('Error building digest');
+      }
+    },
+  },
+  // API route to create a secret calendar feed URL for a user's todos. Creating a new one
+  // revokes the previous URL.
+  {
+    type: 'POST',
+    path: '/api/users/:entityId/calendar-feed',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const entityId = req.params.entityId as UUID;
+        const token = await createCalendarFeedService(runtime).createFeedToken(entityId);
+        if (!token) {
+          return res.status(500).send('Error creating calendar feed');
+        }
+
+        res.status(201).json({ entityId, url: `/api/feeds/${token}.ics` });
+      } catch (error) {
+        logger.error(`Error creating calendar feed for ${req.params.entityId}: ${String(error)}`);
+        res.status(500).send('Error creating calendar feed');
+      }
+    },
+  },
+  // API route to revoke a user's calendar feed URL
+  {
+    type: 'DELETE',
+    path: '/api/users/:entityId/calendar-feed',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const revoked = await createCalendarFeedService(runtime).revokeFeed(
+          req.params.entityId as UUID
+        );
+        if (!revoked) {
+          return res.status(404).send('Calendar feed not found');
+        }
+
+        res.json({ message: 'Calendar feed revoked' });
+      } catch (error) {
+        logger.error(`Error revoking calendar feed for ${req.params.entityId}: ${String(error)}`);
+        res.status(500).send('Error revoking calendar feed');
+      }
+    },
+  },
+  // API route for calendar apps to fetch a user's todos through their secret feed URL
+  {
+    type: 'GET',
+    path: '/api/feeds/:token',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const token = String(req.params.token).replace(/\.ics$/, '');
+        const entityId = await createCalendarFeedService(runtime).resolveFeedToken(token);
+        if (!entityId) {
+          return res.status(404).send('Calendar feed not found');
+        }
+
+        const todos = await createTodoDataService(runtime).getTodos({
+          agentId: runtime.agentId,
+          entityId,
+        });
+        sendICalendar(
+          res,
+          formatICalendar(todos, { name: 'Todos', refreshMinutes: FEED_REFRESH_MINUTES })
+        );
+      } catch (error) {
+        logger.error(`Error serving calendar feed: ${String(error)}`);
+        res.status(500).send('Error serving calendar feed');
+      }
+    },
+  },
+  // API route to remove a room override so the user's own preferences apply there again
+  {
+    type: 'DELETE',
+    path: '/api/users/:entityId/notification-preferences/rooms/:roomId',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const preferencesService = createNotificationPreferencesService(runtime);
+        const success = await preferencesService.clearRoomOverride(
+          req.params.entityId as UUID,
+          req.params.roomId as UUID
+        );
+        if (!success) {
+          return res.status(500).send('Error removing notification preference override');
+        }
+
+        res.json({ message: 'Room override removed' });
+      } catch (error) {
+        logger.error(
+          `Error removing notification override for ${req.params.entityId}: ${String(error)}`
+        );
+        res.status(500).send('Error removing notification preference override');
+      }
+    },
+  },
+  // API route to get the VAPID public key browsers need to subscribe to push notifications
+  {
+    type: 'GET',
+    path: '/api/push/vapid-public-key',
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const keys = await createPushSubscriptionService(runtime).getVapidKeys();
+        if (!keys) {
+          return res.status(503).send('Push notifications are not available');
+        }
+
+        res.json({ publicKey: keys.publicKey });
+      } catch (error) {
+        logger.error(`Error getting VAPID public key: ${String(error)}`);
+        res.status(500).send('Error getting VAPID public key');
+      }
+    },
+  },
+  // API route to subscribe a browser to a user's push notifications. Subscribing turns browser
+  // notifications on in the user's preferences.
+  {
+    type: 'POST',
+    path: '/api/push/subscriptions',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { entityId, subscription } = req.body ?? {};
+        if (!entityId) {
+          return res.status(400).send('Missing entityId');
+        }
+        if (!isValidPushSubscription(subscription)) {
+          return res.status(400).send('Invalid push subscription');
+        }
+
+        const pushService = createPushSubscriptionService(runtime);
+        const saved = await pushService.saveSubscription(
+          entityId as UUID,
+          subscription,
+          req.headers?.['user-agent']
+        );
+        if (!saved) {
+          return res.status(500).send('Error saving push subscription');
+        }
+
+        const preferencesService = createNotificationPreferencesService(runtime);
+        await preferencesService.updatePreferences(entityId as UUID, {
+          browserNotifications: true,
+        });
+
+        res.status(201).json({ entityId, endpoint: subscription.endpoint });
+      } catch (error) {
+        logger.error(`Error saving push subscription: ${String(error)}`);
+        res.status(500).send('Error saving push subscription');
+      }
+    },
+  },
+  // API route to unsubscribe a browser from push notifications
+  {
+    type: 'DELETE',
+    path: '/api/push/subscriptions',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const endpoint = req.body?.endpoint ?? req.query?.endpoint;
+        if (!endpoint || typeof endpoint !== 'string') {
+          return res.status(400).send('Missing endpoint');
+        }
+
+        const removed = await createPushSubscriptionService(runtime).removeSubscription(endpoint);
+        if (!removed) {
+          return res.status(404).send('Push subscription not found');
+        }
+
+        res.json({ message: 'Push subscription removed' });
+      } catch (error) {
+        logger.error(`Error removing push subscription: ${String(error)}`);
+        res.status(500).send('Error removing push subscription');
+      }
+    },
+  },
+  // API route to get notification delivery receipts, filtered by status, taskId or entityId
+  {
+    type: 'GET',
+    path: '/api/notifications/deliveries',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const { status, taskId, entityId } = req.query ?? {};
+        if (status && !DELIVERY_STATUSES.includes(status)) {
+          return res.status(400).send(`status must be one of ${DELIVERY_STATUSES.join(', ')}`);
+        }
+
+        const deliveryService = createNotificationDeliveryService(runtime);
+        const deliveries = await deliveryService.getDeliveries({
+          status,
+          taskId,
+          entityId,
+          limit: parseLimit(req.query?.limit),
+        });
+        res.json(deliveries);
+      } catch (error) {
+        logger.error(`Error getting notification deliveries: ${String(error)}`);
+        res.status(500).send('Error getting notification deliveries');
+      }
+    },
+  },
+  // API route to get the dead letters: notifications that could not be delivered
+  {
+    type: 'GET',
+    path: '/api/notifications/failed',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const deliveryService = createNotificationDeliveryService(runtime);
+        const failed = await deliveryService.getFailedDeliveries({
+          entityId: req.query?.entityId,
+          limit: parseLimit(req.query?.limit),
+        });
+        res.json(failed);
+      } catch (error) {
+        logger.error(`Error getting failed notifications: ${String(error)}`);
+        res.status(500).send('Error getting failed notifications');
+      }
+    },
+  },
+  // API route to retry a dead-lettered notification
+  {
+    type: 'POST',
+    path: '/api/notifications/failed/:id/retry',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const deliveryService = createNotificationDeliveryService(runtime);
+        const requeued = await deliveryService.requeueDelivery(req.params.id as UUID);
+        if (!requeued) {
+          return res.status(404).send('Failed notification not found');
+        }
+
+        res.json({ message: `Notification ${req.params.id} will be retried.` });
+      } catch (error) {
+        logger.error(`Error retrying notification ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error retrying notification');
+      }
+    },
+  },
+  // API route to get delivery success rates per platform, optionally since an ISO time
+  {
+    type: 'GET',
+    path: '/api/notifications/metrics',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const since = req.query?.since ? new Date(req.query.since) : undefined;
+        if (since && isNaN(since.getTime())) {
+          return res.status(400).send('since must be an ISO date');
+        }
+
+        const deliveryService = createNotificationDeliveryService(runtime);
+        res.json({
+          since: since?.toISOString() ?? null,
+          platforms: await deliveryService.getDeliveryMetrics(since),
+        });
+      } catch (error) {
+        logger.error(`Error getting notification metrics: ${String(error)}`);
+        res.status(500).send('Error getting notification metrics');
+      }
+    },
+  },
+  // API route to list the webhooks todo events are posted to
+  {
+    type: 'GET',
+    path: '/api/webhooks',
+    handler: async (_req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        res.json(await createWebhookService(runtime).getWebhooks());
+      } catch (error) {
+        logger.error(`Error getting webhooks: ${String(error)}`);
+        res.status(500).send('Error getting webhooks');
+      }
+    },
+  },
+  // API route to subscribe a URL to todo events. The response holds the signing secret.
+  {
+    type: 'POST',
+    path: '/api/webhooks',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const input = parseWebhookInput(req.body ?? {});
+        if (typeof input === 'string') {
+          return res.status(400).send(input);
+        }
+        if (!input.url) {
+          return res.status(400).send('Missing url');
+        }
+
+        const webhook = await createWebhookService(runtime).createWebhook({
+          ...input,
+          url: input.url,
+        });
+        if (!webhook) {
+          return res.status(500).send('Error creating webhook');
+        }
+
+        res.status(201).json(webhook);
+      } catch (error) {
+        logger.error(`Error creating webhook: ${String(error)}`);
+        res.status(500).send('Error creating webhook');
+      }
+    },
+  },
+  // API route to get a webhook
+  {
+    type: 'GET',
+    path: '/api/webhooks/:id',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const webhook = await createWebhookService(runtime).getWebhook(req.params.id as UUID);
+        if (!webhook) {
+          return res.status(404).send('Webhook not found');
+        }
+
+        res.json(webhook);
+      } catch (error) {
+        logger.error(`Error getting webhook ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error getting webhook');
+      }
+    },
+  },
+  // API route to change a webhook's URL, secret, events or description, or pause it
+  {
+    type: 'PUT',
+    path: '/api/webhooks/:id',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const updates = parseWebhookInput(req.body ?? {});
+        if (typeof updates === 'string') {
+          return res.status(400).send(updates);
+        }
+        if (Object.keys(updates).length === 0) {
+          return res.status(400).send('No webhook fields to update');
+        }
+
+        const webhookService = createWebhookService(runtime);
+        const webhook = await webhookService.updateWebhook(req.params.id as UUID, updates);
+        if (!webhook) {
+          return res.status(404).send('Webhook not found');
+        }
+
+        res.json(webhook);
+      } catch (error) {
+        logger.error(`Error updating webhook ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error updating webhook');
+      }
+    },
+  },
+  // API route to delete a webhook and its delivery log
+  {
+    type: 'DELETE',
+    path: '/api/webhooks/:id',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const deleted = await createWebhookService(runtime).deleteWebhook(req.params.id as UUID);
+        if (!deleted) {
+          return res.status(404).send('Webhook not found');
+        }
+
+        res.json({ message: `Webhook ${req.params.id} deleted.` });
+      } catch (error) {
+        logger.error(`Error deleting webhook ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error deleting webhook');
+      }
+    },
+  },
+  // API route to get a webhook's delivery log, optionally filtered by status
+  {
+    type: 'GET',
+    path: '/api/webhooks/:id/deliveries',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const status = req.query?.status;
+        if (status && !WEBHOOK_DELIVERY_STATUSES.includes(status)) {
+          return res
+            .status(400)
+            .send(`status must be one of: ${WEBHOOK_DELIVERY_STATUSES.join(', ')}`);
+        }
+
+        const deliveries = await createWebhookService(runtime).getDeliveries({
+          webhookId: req.params.id as UUID,
+          status,
+          limit: parseLimit(req.query?.limit),
+        });
+        res.json(deliveries);
+      } catch (error) {
+        logger.error(`Error getting deliveries of webhook ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error getting webhook deliveries');
+      }
+    },
+  },
+  // API route to send a webhook delivery again
+  {
+    type: 'POST',
+    path: '/api/webhooks/deliveries/:id/redeliver',
+    handler: async (req: any, res: any, runtime: IAgentRuntime) => {
+      try {
+        const requeued = await createWebhookService(runtime).redeliver(req.params.id as UUID);
+        if (!requeued) {
+          return res.status(404).send('Finished webhook delivery not found');
+        }
+
+        res.json({ message: `Delivery ${req.params.id} will be sent again.` });
+      } catch (error) {
+        logger.error(`Error redelivering webhook delivery ${req.params.id}: ${String(error)}`);
+        res.status(500).send('Error redelivering webhook delivery');
+      }
+    },
+  },
+];
+
+export default routes;
+
+// Interval for comments sent on idle event streams
+const SSE_HEARTBEAT_MS = 25_000;
+
+const ICAL_COMPONENTS: ICalComponents[] = ['todos', 'events', 'both'];
+
+const EXPORT_FILE_TYPES: Record<ExportFormat, { contentType: string; extension: string }> = {
+  csv: { contentType: 'text/csv', extension: 'csv' },
+  json: { contentType: 'application/json', extension: 'json' },
+  markdown: { contentType: 'text/markdown', extension: 'md' },
+  todotxt: { contentType: 'text/plain', extension: 'txt' },
+};
+
+const EXPORT_FORMATS = Object.keys(EXPORT_FILE_TYPES);
+
+// Keeps a single import request from running for too long
+const MAX_IMPORT_ROWS = 1000;
+
+// Most operations a bulk request may apply in one transaction
+const MAX_BULK_OPERATIONS = 200;
+
+// How often calendar apps are asked to refetch a feed
+const FEED_REFRESH_MINUTES = 60;
+
+function sendICalendar(res: any, calendar: string) {
+  res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+  res.setHeader('Content-Disposition', 'inline; filename="todos.ics"');
+  res.send(calendar);
+}
+
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'delivered', 'retrying', 'dead'];
+
+const WEBHOOK_DELIVERY_STATUSES: WebhookDeliveryStatus[] = [
+  'pending',
+  'delivered',
+  'retrying',
+  'failed',
+];
+
+/**
+ * Validate the webhook fields of a request body, returning an error message when they are
+ * invalid
+ */
+function parseWebhookInput(body: any): Partial<WebhookInput> | string {
+  const input: Partial<WebhookInput> = {};
+
+  if (body.url !== undefined) {
+    if (!isValidWebhookUrl(body.url)) return 'url must be an http(s) URL';
+    input.url = body.url;
+  }
+  if (body.secret !== undefined) {
+    if (typeof body.secret !== 'string' || body.secret.length < 16) {
+      return 'secret must be at least 16 characters';
+    }
+    input.secret = body.secret;
+  }
+  if (body.events !== undefined) {
+    const known = Object.values(TodoDomainEvents) as string[];
+    if (!Array.isArray(body.events) || !body.events.every((e: any) => known.includes(e))) {
+      return `events must be a list of: ${known.join(', ')}`;
+    }
+    input.events = body.events;
+  }
+  if (body.description !== undefined) {
+    if (body.description !== null && typeof body.description !== 'string') {
+      return 'description must be a string';
+    }
+    input.description = body.description;
+  }
+  if (body.isActive !== undefined) {
+    if (typeof body.isActive !== 'boolean') return 'isActive must be a boolean';
+    input.isActive = body.isActive;
+  }
+
+  return input;
+}
+
+/**
+ * Parse a `limit` query parameter, capped at 200
+ */
+function parseLimit(value: unknown): number {
+  const limit = Number(value);
+  return Number.isInteger(limit) && limit > 0 ? Math.min(limit, 200) : 50;
+}
+
+// TaskUpdate interface for API updates
+interface TaskUpdate {
+  name?: string;
+  description?: string;
+  priority?: 1 | 2 | 3 | 4;
+  urgent?: boolean;
+  dueDate?: string | null; // Expect ISO string or null
+  recurring?: 'daily' | 'weekly' | 'monthly';
+  rrule?: string | null; // RRULE text, or null to stop repeating
+  reminders?: ReminderSpec[] | null; // Custom reminders, or null for the defaults
+}
+
+/**
+ * Check that a request's reminder list only contains well-formed reminders
+ */
+function isValidReminderList(value: any): value is ReminderSpec[] {
+  return Array.isArray(value) && value.every(isValidReminder);
+}
+
+const REMINDER_TYPES = ['overdue', 'upcoming', 'daily'] as const;
+
+/**
+ * Validate a notification preferences update from a request body, returning an error message
+ * when it is invalid
+ */
+function parsePreferencesUpdate(body: any): NotificationPreferencesUpdate | string {
+  const update: NotificationPreferencesUpdate = {};
+
+  for (const flag of ['enabled', 'sound', 'browserNotifications'] as const) {
+    if (body[flag] === undefined) continue;
+    if (typeof body[flag] !== 'boolean') return `${flag} must be a boolean`;
+    update[flag] = body[flag];
+  }
+
+  if (body.reminderTypes !== undefined) {
+    if (typeof body.reminderTypes !== 'object' || body.reminderTypes === null) {
+      return 'reminderTypes must be an object';
+    }
+    update.reminderTypes = {};
+    for (const type of REMINDER_TYPES) {
+      const value = body.reminderTypes[type];
+      if (value === undefined) continue;
+      if (typeof value !== 'boolean') return `reminderTypes.${type} must be a boolean`;
+      update.reminderTypes[type] = value;
+    }
+  }
+
+  if (body.quietHours !== undefined) {
+    if (body.quietHours === null) {
+      update.quietHours = null;
+    } else {
+      const { start, end } = body.quietHours || {};
+      const isHour = (hour: any) => Number.isInteger(hour) && hour >= 0 && hour <= 23;
+      if (!isHour(start) || !isHour(end)) {
+        return 'quietHours.start and quietHours.end must be hours between 0 and 23';
+      }
+      update.quietHours = { start, end };
+    }
+  }
+
+  const contactId = body.accountabilityContactId;
+  if (contactId !== undefined) {
+    if (contactId !== null && (typeof contactId !== 'string' || !contactId)) {
+      return 'accountabilityContactId must be an entity ID or null';
+    }
+    update.accountabilityContactId = contactId;
+  }
+
+  if (body.digest !== undefined) {
+    const digest = body.digest;
+    if (typeof digest !== 'object' || digest === null) return 'digest must be an object';
+    update.digest = {};
+    for (const flag of ['daily', 'weekly'] as const) {
+      if (digest[flag] === undefined) continue;
+      if (typeof digest[flag] !== 'boolean') return `digest.${flag} must be a boolean`;
+      update.digest[flag] = digest[flag];
+    }
+    if (digest.time !== undefined) {
+      const time = parseReminder(String(digest.time));
+      if (time?.type !== 'time') return 'digest.time must be a time of day such as 08:00';
+      update.digest.time = time.time;
+    }
+    if (digest.weeklyDay !== undefined) {
+      if (!Number.isInteger(digest.weeklyDay) || digest.weeklyDay < 0 || digest.weeklyDay > 6) {
+        return 'digest.weeklyDay must be a day from 0 (Sunday) to 6';
+      }
+      update.digest.weeklyDay = digest.weeklyDay;
+    }
+    if (digest.channels !== undefined) {
+      const channels = digest.channels;
+      if (
+        !Array.isArray(channels) ||
+        !channels.every((channel) => channel === 'in_app' || channel === 'rolodex')
+      ) {
+        return "digest.channels must list 'in_app' and/or 'rolodex'";
+      }
+      update.digest.channels = channels;
+    }
+  }
+
+  return update;
 }
@@ -0,0 +1,153 @@
+import { useEffect } from 'react';
+import { useQueryClient, type QueryClient } from '@tanstack/react-query';
+
+type TodoEventType = 'created' | 'updated' | 'completed' | 'deleted' | 'reminder';
+
+// Mirrors TodoEvent from the todo event stream on the server
+interface TodoEvent {
+  id: number;
+  type: TodoEventType;
+  todoId: string;
+  at: string;
+  todo?: { id: string; roomId: string; parentId?: string | null; [key: string]: any };
+  changes?: Record<string, any>;
+  reminder?: { reminderType: string; channel: string };
+}
+
+interface CachedTask {
+  id: string;
+  roomId: string;
+  tags?: string[];
+  metadata?: Record<string, any>;
+  subtasks?: CachedTask[];
+  [key: string]: any;
+}
+
+type CachedWorlds = Array<{ rooms: Array<{ roomId: string; tasks: CachedTask[] }> }>;
+
+const EVENT_TYPES: TodoEventType[] = ['created', 'updated', 'completed', 'deleted', 'reminder'];
+
+// Apply a function to every task in the list, including nested subtasks. Returning null drops it.
+const mapTasks = (
+  tasks: CachedTask[],
+  fn: (task: CachedTask) => CachedTask | null
+): CachedTask[] =>
+  tasks.flatMap((task) => {
+    const mapped = fn(task);
+    if (!mapped) return [];
+    return [mapped.subtasks ? { ...mapped, subtasks: mapTasks(mapped.subtasks, fn) } : mapped];
+  });
+
+// The dashboard shows completion through the 'completed' tag
+const applyChanges = (task: CachedTask, changes: Record<string, any>): CachedTask => {
+  const patched = { ...task, ...changes, metadata: changes.metadata ?? task.metadata };
+  if (changes.isCompleted !== undefined) {
+    const tags = (task.tags ?? []).filter((tag) => tag !== 'completed');
+    patched.tags = changes.isCompleted ? [...tags, 'completed'] : tags;
+  }
+  return patched;
+};
+
+/**
+ * Patch the cached task list with an event. Returns false when the cache cannot be patched
+ * and has to be refetched instead.
+ */
+const patchTodos = (worlds: CachedWorlds, event: TodoEvent): CachedWorlds | false => {
+  const updateTasks = (fn: (task: CachedTask) => CachedTask | null) =>
+    worlds.map((world) => ({
+      ...world,
+      rooms: world.rooms.map((room) => ({ ...room, tasks: mapTasks(room.tasks, fn) })),
+    }));
+
+  switch (event.type) {
+    case 'created': {
+      const todo = event.todo as CachedTask | undefined;
+      if (!todo) return false;
+      let added = false;
+      const patched = worlds.map((world) => ({
+        ...world,
+        rooms: world.rooms.map((room) => {
+          if (room.roomId !== todo.roomId) return room;
+          if (!todo.parentId) {
+            added = true;
+            return { ...room, tasks: [todo, ...room.tasks] };
+          }
+          const tasks = mapTasks(room.tasks, (task) => {
+            if (task.id !== todo.parentId) return task;
+            added = true;
+            return { ...task, subtasks: [...(task.subtasks ?? []), todo] };
+          });
+          return { ...room, tasks };
+        }),
+      }));
+      return added ? patched : false;
+    }
+    case 'updated':
+    case 'completed': {
+      const changes = event.changes;
+      // Tags, dependencies and restored todos are not sent with the event
+      if (!changes || changes.archivedAt === null) return false;
+      if (changes.archivedAt) {
+        return updateTasks((task) => (task.id === event.todoId ? null : task));
+      }
+      return updateTasks((task) => (task.id === event.todoId ? applyChanges(task, changes) : task));
+    }
+    case 'deleted':
+      return updateTasks((task) => (task.id === event.todoId ? null : task));
+    case 'reminder':
+      return updateTasks((task) =>
+        task.id === event.todoId
+          ? { ...task, metadata: { ...task.metadata, lastReminderSent: event.at } }
+          : task
+      );
+  }
+};
+
+const handleEvent = (queryClient: QueryClient, event: TodoEvent) => {
+  const worlds = queryClient.getQueryData<CachedWorlds>(['todosStructured']);
+  const patched = worlds ? patchTodos(worlds, event) : false;
+  if (patched) {
+    queryClient.setQueryData(['todosStructured'], patched);
+  } else {
+    queryClient.invalidateQueries({ queryKey: ['todosStructured'] });
+  }
+
+  // The full task list only shows names, so refetch it when tasks come and go
+  if (event.type === 'created' || event.type === 'deleted' || event.changes?.name) {
+    queryClient.invalidateQueries({ queryKey: ['allTasks'] });
+  }
+};
+
+// --- Hook to keep the task list live with changes made elsewhere, e.g. by the agent in chat ---
+export const useTodoEvents = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!('EventSource' in window)) return;
+
+    // EventSource reconnects by itself and resumes from the last event id it saw
+    const source = new EventSource('/api/todos/events');
+    const listener = (message: MessageEvent<string>) => {
+      try {
+        handleEvent(queryClient, JSON.parse(message.data));
+      } catch (error) {
+        console.error('Failed to apply todo event:', error);
+      }
+    };
+
+    // The server only replays its last few events, and none after a restart, so changes may
+    // have been missed while disconnected: refetch after every reconnect
+    let connected = false;
+    const onOpen = () => {
+      if (connected) {
+        queryClient.invalidateQueries({ queryKey: ['todosStructured'] });
+        queryClient.invalidateQueries({ queryKey: ['allTasks'] });
+      }
+      connected = true;
+    };
+
+    source.addEventListener('open', onOpen);
+    for (const type of EVENT_TYPES) source.addEventListener(type, listener);
+    return () => source.close();
+  }, [queryClient]);
+};
@@ -17,6 +17,8 @@ import { Card, CardHeader, CardTitle, CardContent, CardFooter } from './ui/card'
 import { Separator } from './ui/separator';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
 import Loader from './loader';
+import { useTodoEvents } from './events';
+import { PushToggle } from './push';
 import { cn } from './utils';
 import { PlusCircle } from 'lucide-react';
 
@@ -37,6 +39,11 @@ interface Task {
   tags?: string[];
   metadata?: TaskMetadata;
   roomId: string; // Added roomId as it's crucial
+  parentId?: string | null;
+  isCompleted?: boolean;
+  progress?: { completed: number; total: number; percent: number } | null;
+  subtasks?: Task[]; // Checklist items nested under their parent
+  isBlocked?: boolean; // Waiting on other tasks
   // Add other relevant fields like createdAt, updatedAt if needed
 }
 
@@ -500,53 +507,72 @@ const TaskItem = ({ task }: { task: Task }) => {
     ? new Date(task.metadata.completedAt).toLocaleDateString()
     : '';
 
+  if (task.progress) {
+    details += ` ${task.progress.completed}/${task.progress.total} steps`;
+  }
+  if (task.isBlocked) {
+    details += ' 🔒 Blocked';
+  }
+  if (!isCompleted && task.metadata?.lastReminderSent) {
+    details += ` 🔔 Reminded ${new Date(task.metadata.lastReminderSent).toLocaleString()}`;
+  }
+
   return (
-    <div
-      data-testid="todo-item"
-      className={cn(
-        'flex items-center justify-between p-2 rounded hover:bg-muted/50',
-        isCompleted && 'opacity-60'
-      )}
-    >
-      <div className="flex items-center space-x-3 flex-grow min-w-0">
-        <Checkbox
-          id={`task-${task.id}`}
-          data-testid="todo-checkbox"
-          checked={isCompleted}
-          onCheckedChange={handleCheckboxChange}
-          disabled={completeTaskMutation.isPending || uncompleteTaskMutation.isPending}
-          aria-label={isCompleted ? 'Mark task as incomplete' : 'Mark task as complete'}
-          aria-labelledby={`task-label-${task.id}`}
-        />
-        <Label
-          htmlFor={`task-${task.id}`}
-          id={`task-label-${task.id}`}
-          className={cn('flex-grow truncate cursor-pointer', isCompleted && 'line-through')}
-        >
-          {task.name}
-          <span className="text-xs text-muted-foreground ml-1">{details}</span>
-          {isCompleted && (
-            <span className="text-xs text-green-600 ml-2">
-              (Completed {completedDate})
-            </span>
-          )}
-        </Label>
-      </div>
-      <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
-        {(completeTaskMutation.isPending || uncompleteTaskMutation.isPending) && <Loader />}
-        <Button
-          variant="ghost"
-          size="sm"
-          data-testid="delete-todo-btn"
-          onClick={handleDelete}
-          disabled={deleteTaskMutation.isPending}
-          aria-label="Delete task"
-          className="hover:bg-destructive/10 text-muted-foreground hover:text-destructive p-1 h-auto"
-        >
-          {deleteTaskMutation.isPending ? <Loader /> : '🗑️'}
-        </Button>
+    <>
+      <div
+        data-testid="todo-item"
+        className={cn(
+          'flex items-center justify-between p-2 rounded hover:bg-muted/50',
+          isCompleted && 'opacity-60'
+        )}
+      >
+        <div className="flex items-center space-x-3 flex-grow min-w-0">
+          <Checkbox
+            id={`task-${task.id}`}
+            data-testid="todo-checkbox"
+            checked={isCompleted}
+            onCheckedChange={handleCheckboxChange}
+            disabled={completeTaskMutation.isPending || uncompleteTaskMutation.isPending}
+            aria-label={isCompleted ? 'Mark task as incomplete' : 'Mark task as complete'}
+            aria-labelledby={`task-label-${task.id}`}
+          />
+          <Label
+            htmlFor={`task-${task.id}`}
+            id={`task-label-${task.id}`}
+            className={cn('flex-grow truncate cursor-pointer', isCompleted && 'line-through')}
+          >
+            {task.name}
+            <span className="text-xs text-muted-foreground ml-1">{details}</span>
+            {isCompleted && (
+              <span className="text-xs text-green-600 ml-2">
+                (Completed {completedDate})
+              </span>
+            )}
+          </Label>
+        </div>
+        <div className="flex items-center space-x-1 flex-shrink-0 ml-2">
+          {(completeTaskMutation.isPending || uncompleteTaskMutation.isPending) && <Loader />}
+          <Button
+            variant="ghost"
+            size="sm"
+            data-testid="delete-todo-btn"
+            onClick={handleDelete}
+            disabled={deleteTaskMutation.isPending}
+            aria-label="Delete task"
+            className="hover:bg-destructive/10 text-muted-foreground hover:text-destructive p-1 h-auto"
+          >
+            {deleteTaskMutation.isPending ? <Loader /> : '🗑️'}
+          </Button>
+        </div>
       </div>
-    </div>
+      {task.subtasks && task.subtasks.length > 0 && (
+        <div className="ml-6 border-l pl-2" data-testid="subtask-list">
+          {task.subtasks.map((subtask) => (
+            <TaskItem key={subtask.id} task={subtask} />
+          ))}
+        </div>
+      )}
+    </>
   );
 };
 
@@ -629,6 +655,8 @@ const AllTasksList = () => {
 function App() {
   const { data: worlds, isLoading, error, isSuccess } = useTodos();
   const createRoomMutation = useCreateRoom();
+  const { entityId } = getContextFromUrl();
+  useTodoEvents();
 
   useEffect(() => {
     if (isSuccess) {
@@ -652,6 +680,9 @@ function App() {
     <div data-testid="todo-app" className="flex flex-col gap-6 my-4 bg-background min-h-screen">
       <div className="container flex items-center gap-4 py-4 border-b">
         <div className="text-3xl font-bold">📝 Task Manager (All Worlds)</div>
+        <div className="ml-auto">
+          <PushToggle entityId={entityId} />
+        </div>
       </div>
 
       <div className="container flex flex-col lg:flex-row gap-6">
@@ -0,0 +1,173 @@
+import React, { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Bell, BellOff } from 'lucide-react';
+import { Button } from './ui/button';
+
+type PushState = 'unsupported' | 'denied' | 'unsubscribed' | 'subscribed' | 'pending';
+
+// A reminder button forwarded by the service worker when a notification action is clicked
+interface NotificationClick {
+  type: 'TODO_NOTIFICATION_CLICK';
+  taskId?: string;
+  action?: { action: string; options?: Record<string, string> } | null;
+}
+
+const isPushSupported = () =>
+  'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+
+// PushManager expects the VAPID key as bytes rather than base64url
+const urlBase64ToUint8Array = (base64: string) => {
+  const padded = (base64 + '='.repeat((4 - (base64.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/');
+  const raw = window.atob(padded);
+  return Uint8Array.from(raw, (char) => char.charCodeAt(0));
+};
+
+export const registerServiceWorker = async () => {
+  if (!isPushSupported()) return null;
+  try {
+    return await navigator.serviceWorker.register('/sw.js', { scope: '/' });
+  } catch (error) {
+    console.error('Service worker registration failed:', error);
+    return null;
+  }
+};
+
+// --- Hook to subscribe this browser to the user's reminders ---
+const usePushSubscription = (entityId: string | null) => {
+  const [state, setState] = useState<PushState>('pending');
+
+  useEffect(() => {
+    if (!isPushSupported()) {
+      setState('unsupported');
+      return;
+    }
+    if (Notification.permission === 'denied') {
+      setState('denied');
+      return;
+    }
+    registerServiceWorker()
+      .then((registration) => registration?.pushManager.getSubscription())
+      .then((subscription) => setState(subscription ? 'subscribed' : 'unsubscribed'))
+      .catch(() => setState('unsubscribed'));
+  }, []);
+
+  const subscribe = async () => {
+    if (!entityId) return;
+    setState('pending');
+    try {
+      const permission = await Notification.requestPermission();
+      if (permission !== 'granted') {
+        setState(permission === 'denied' ? 'denied' : 'unsubscribed');
+        return;
+      }
+
+      const keyResponse = await fetch('/api/push/vapid-public-key');
+      if (!keyResponse.ok) {
+        throw new Error(`Failed to fetch push key: ${await keyResponse.text()}`);
+      }
+      const { publicKey } = await keyResponse.json();
+
+      const registration = await registerServiceWorker();
+      if (!registration) throw new Error('Service worker is not available');
+      const subscription = await registration.pushManager.subscribe({
+        userVisibleOnly: true,
+        applicationServerKey: urlBase64ToUint8Array(publicKey),
+      });
+
+      const response = await fetch('/api/push/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ entityId, subscription: subscription.toJSON() }),
+      });
+      if (!response.ok) {
+        throw new Error(`Failed to save push subscription: ${await response.text()}`);
+      }
+      setState('subscribed');
+    } catch (error) {
+      console.error('Push subscription failed:', error);
+      setState('unsubscribed');
+    }
+  };
+
+  const unsubscribe = async () => {
+    setState('pending');
+    try {
+      const registration = await navigator.serviceWorker.getRegistration('/');
+      const subscription = await registration?.pushManager.getSubscription();
+      if (subscription) {
+        await fetch('/api/push/subscriptions', {
+          method: 'DELETE',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ endpoint: subscription.endpoint }),
+        });
+        await subscription.unsubscribe();
+      }
+    } catch (error) {
+      console.error('Push unsubscribe failed:', error);
+    }
+    setState('unsubscribed');
+  };
+
+  return { state, subscribe, unsubscribe };
+};
+
+// --- Hook to run reminder buttons clicked on a notification ---
+const useNotificationActions = () => {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!('serviceWorker' in navigator)) return;
+
+    const handleMessage = async (event: MessageEvent<NotificationClick>) => {
+      const { type, taskId, action } = event.data ?? {};
+      if (type !== 'TODO_NOTIFICATION_CLICK' || !taskId || !action) return;
+
+      if (action.action === 'COMPLETE_TODO') {
+        await fetch(`/api/todos/${taskId}/complete`, { method: 'PUT' });
+      } else if (action.action === 'SNOOZE_TODO') {
+        await fetch(`/api/todos/${taskId}/snooze`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ until: action.options?.until ?? '1 hour' }),
+        });
+      }
+      queryClient.invalidateQueries({ queryKey: ['todosStructured'] });
+    };
+
+    navigator.serviceWorker.addEventListener('message', handleMessage);
+    return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+  }, [queryClient]);
+};
+
+export const PushToggle = ({ entityId }: { entityId: string | null }) => {
+  const { state, subscribe, unsubscribe } = usePushSubscription(entityId);
+  useNotificationActions();
+
+  // Reminders are pushed per user, so the dashboard must know who is looking at it
+  if (!entityId || state === 'unsupported') return null;
+
+  if (state === 'denied') {
+    return (
+      <span className="text-sm text-muted-foreground" data-testid="push-denied">
+        Notifications are blocked in this browser
+      </span>
+    );
+  }
+
+  const subscribed = state === 'subscribed';
+  return (
+    <Button
+      variant="outline"
+      size="sm"
+      data-testid="push-toggle"
+      disabled={state === 'pending'}
+      onClick={subscribed ? unsubscribe : subscribe}
+      className="flex items-center gap-1"
+    >
+      {subscribed ? <BellOff className="size-4" /> : <Bell className="size-4" />}
+      {subscribed ? 'Turn off browser reminders' : 'Get reminders in this browser'}
+    </Button>
+  );
+};
@@ -8,6 +8,11 @@ import { cancelTodoAction } from './actions/cancelTodo.js';
 import { completeTodoAction } from './actions/completeTodo.js';
 import { confirmTodoAction } from './actions/confirmTodo.js';
 import { createTodoAction } from './actions/createTodo.js';
+import { importTodoListAction } from './actions/importTodoList.js';
+import { bulkUpdateTodosAction } from './actions/bulkUpdateTodos.js';
+import { restoreTodoAction } from './actions/restoreTodo.js';
+import { snoozeTodoAction } from './actions/snoozeTodo.js';
+import { updateNotificationPreferencesAction } from './actions/updateNotificationPreferences.js';
 import { updateTodoAction } from './actions/updateTodo.js';
 
 // Import providers
@@ -36,10 +41,15 @@ export const TodoPlugin: Plugin = {
   testDependencies: ['@elizaos/plugin-sql', '@elizaos/plugin-rolodex'],
   actions: [
     createTodoAction,
+    importTodoListAction,
     completeTodoAction,
+    bulkUpdateTodosAction,
     confirmTodoAction,
     updateTodoAction,
     cancelTodoAction,
+    restoreTodoAction,
+    snoozeTodoAction,
+    updateNotificationPreferencesAction,
   ],
   services: [TodoReminderService, TodoIntegrationBridge],
   routes,
@@ -80,14 +90,110 @@ export { TodoIntegrationBridge } from './services/integrationBridge.js';
 // Export internal managers for advanced usage
 export { NotificationManager } from './services/notificationManager.js';
 export { CacheManager } from './services/cacheManager.js';
+export {
+  createNotificationPreferencesService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+} from './services/notificationPreferencesService.js';
+export { createDeferredNotificationService } from './services/deferredNotificationService.js';
+export { createReminderHistoryService } from './services/reminderHistoryService.js';
+export { createDigestService, formatDigest } from './services/digestService.js';
+export { createNotificationDeliveryService } from './services/notificationDeliveryService.js';
+export { createPushSubscriptionService } from './services/pushSubscriptionService.js';
+export { getTodoEventStream, TodoEventStream } from './services/todoEventStream.js';
+export { TodoDomainEvents } from './services/domainEvents.js';
+export { createWebhookService } from './services/webhookService.js';
+export { signWebhookPayload, verifyWebhookSignature } from './utils/webhooks.js';
+export { createCalendarFeedService } from './services/calendarFeedService.js';
+export { createTodoExportService, formatTodoExport } from './services/todoExportService.js';
+export { createTodoImportService } from './services/todoImportService.js';
+export { createTodoBulkService } from './services/todoBulkService.js';
+export { formatICalendar, parseICalendar } from './utils/ical.js';
+export {
+  detectTodoListFormat,
+  formatMarkdownChecklist,
+  formatTodoTxt,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+} from './utils/todoLists.js';
 
 // Export data service utilities
-export { createTodoDataService } from './services/todoDataService.js';
-export type { TodoData } from './services/todoDataService.js';
+export { createTodoDataService, nestSubtasks } from './services/todoDataService.js';
+export type {
+  BulkCreateResult,
+  NewTodo,
+  TodoData,
+  SubtaskProgress,
+} from './services/todoDataService.js';
+export { createTodoScoringService } from './services/scoringService.js';
+export type { CompletionScore, CompletionRecord } from './services/scoringService.js';
+
+// Export recurrence utilities
+export {
+  getNextOccurrence,
+  parseRRule,
+  formatRRule,
+  describeRecurrence,
+} from './utils/recurrence.js';
+
+// Export timezone utilities
+export { DEFAULT_TIMEZONE, isValidTimeZone, getNextMidnight } from './utils/timezone.js';
 
 // Export types
+export type { RecurrenceRule, RecurrenceFrequency, Weekday } from './utils/recurrence.js';
 export type { CacheEntry, CacheStats } from './services/cacheManager.js';
-export type { NotificationData, NotificationPreferences } from './services/notificationManager.js';
+export type {
+  DigestPreferences,
+  NotificationData,
+  NotificationPreferences,
+} from './services/notificationManager.js';
+export type { NotificationPreferencesUpdate } from './services/notificationPreferencesService.js';
+export type { DeferredNotification } from './services/deferredNotificationService.js';
+export type { ReminderRecord } from './services/reminderHistoryService.js';
+export type { Digest, DailyDigest, WeeklyDigest } from './services/digestService.js';
+export type {
+  DeliveryMetrics,
+  DeliveryReceipt,
+  DeliveryRecord,
+  DeliveryStatus,
+} from './services/notificationDeliveryService.js';
+export type { PushMessage, PushSubscriptionRecord } from './services/pushSubscriptionService.js';
+export type { PushSubscriptionData, VapidKeys } from './utils/webPush.js';
+export type {
+  TodoEvent,
+  TodoEventListener,
+  TodoEventType,
+} from './services/todoEventStream.js';
+export type {
+  TodoChangedPayload,
+  TodoDomainEventHandler,
+  TodoDomainEventName,
+  TodoDomainEventPayloads,
+  TodoEventPayload,
+  TodoOverduePayload,
+} from './services/domainEvents.js';
+export type {
+  WebhookDeliveryRecord,
+  WebhookDeliveryStatus,
+  WebhookInput,
+  WebhookRecord,
+} from './services/webhookService.js';
+export type { ICalComponents, ICalendarOptions, ICalTodo } from './utils/ical.js';
+export type { TodoListFormat, TodoListItem } from './utils/todoLists.js';
+export type {
+  ExportFilters,
+  ExportFormat,
+  TodoExportRecord,
+} from './services/todoExportService.js';
+export type {
+  ImportResult,
+  ImportTarget,
+  RecordImportResult,
+} from './services/todoImportService.js';
+export type {
+  BulkOperation,
+  BulkOperationResult,
+  BulkTodoChanges,
+} from './services/todoBulkService.js';
 
 // Export schema
 export { todoSchema } from './schema.js';
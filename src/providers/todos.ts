@@ -8,7 +8,9 @@ import {
   createUniqueUuid,
   logger,
 } from '@elizaos/core';
-import { createTodoDataService } from '../services/todoDataService';
+import { createTodoScoringService } from '../services/scoringService';
+import { createTodoDataService, nestSubtasks, type TodoData } from '../services/todoDataService';
+import { describeRecurrence } from '../utils/recurrence';
 
 /**
  * The TodosProvider fetches and formats information about a user's tasks and points.
@@ -47,11 +49,18 @@ export const todosProvider: Provider = {
 
       logger.debug('TodosProvider - allEntityTodos:', allEntityTodos);
 
+      const totalPoints = await createTodoScoringService(runtime).getUserPoints(
+        message.entityId as UUID
+      );
+
+      // Subtasks are rendered under their parent
+      const topLevelTodos = nestSubtasks(allEntityTodos);
+
       // Filter out completed tasks from active
-      const pendingTodos = allEntityTodos.filter((todo) => !todo.isCompleted);
+      const pendingTodos = topLevelTodos.filter((todo) => !todo.isCompleted);
 
       // Get completed tasks in the last 7 days
-      const completedTodos = allEntityTodos.filter((todo) => {
+      const completedTodos = topLevelTodos.filter((todo) => {
         if (!todo.isCompleted) return false;
 
         // Check completion date if available
@@ -69,12 +78,20 @@ export const todosProvider: Provider = {
 
       // --- Format different types of tasks ---
 
+      const formatProgress = (todo: TodoData) =>
+        todo.progress ? `, ${todo.progress.completed}/${todo.progress.total} steps done` : '';
+      const formatSubtasks = (todo: TodoData) =>
+        (todo.subtasks || [])
+          .map((subtask) => `\n  - [${subtask.isCompleted ? 'x' : ' '}] ${subtask.name}`)
+          .join('');
+
       // Daily recurring tasks
       const dailyTodos = pendingTodos.filter((todo) => todo.type === 'daily');
       const formattedDailyTasks = dailyTodos
         .map((todo) => {
           const streak = todo.metadata?.streak || 0;
-          return `- ${todo.name} (daily, streak: ${streak} day${streak === 1 ? '' : 's'})`;
+          const schedule = todo.recurrence ? describeRecurrence(todo.recurrence) : 'daily';
+          return `- ${todo.name} (${schedule}, streak: ${streak} day${streak === 1 ? '' : 's'}${formatProgress(todo)})${formatSubtasks(todo)}`;
         })
         .join('\n');
 
@@ -94,7 +111,31 @@ export const todosProvider: Provider = {
             }
           }
 
-          return `- ${todo.name} (P${priority}${urgent}, ${dueDateText})`;
+          const repeatText = todo.recurrence ? `, repeats ${describeRecurrence(todo.recurrence)}` : '';
+          return `- ${todo.name} (P${priority}${urgent}, ${dueDateText}${repeatText}${formatProgress(todo)})${formatSubtasks(todo)}`;
+        })
+        .join('\n');
+
+      // Tasks waiting on other tasks, and tasks whose last blocker was completed recently
+      const todoNames = new Map(allEntityTodos.map((todo) => [todo.id, todo.name]));
+      const recentlyCompletedIds = new Set(completedTodos.map((todo) => todo.id));
+      const formattedBlockedTasks = pendingTodos
+        .filter((todo) => todo.isBlocked)
+        .map((todo) => {
+          const blockers = (todo.blockedBy || []).map((id) => todoNames.get(id) || 'another task');
+          return `- ${todo.name} (blocked by: ${blockers.join(', ')})`;
+        })
+        .join('\n');
+      const unblockedTodos = pendingTodos.filter(
+        (todo) =>
+          !todo.isBlocked && (todo.dependsOn || []).some((id) => recentlyCompletedIds.has(id))
+      );
+      const formattedUnblockedTasks = unblockedTodos
+        .map((todo) => {
+          const doneDependencies = (todo.dependsOn || [])
+            .filter((id) => recentlyCompletedIds.has(id))
+            .map((id) => todoNames.get(id));
+          return `- ${todo.name} (ready now that ${doneDependencies.join(', ')} is done)`;
         })
         .join('\n');
 
@@ -102,7 +143,7 @@ export const todosProvider: Provider = {
       const aspirationalTodos = pendingTodos.filter((todo) => todo.type === 'aspirational');
       const formattedAspirationalTasks = aspirationalTodos
         .map((todo) => {
-          return `- ${todo.name} (aspirational goal)`;
+          return `- ${todo.name} (aspirational goal${formatProgress(todo)})${formatSubtasks(todo)}`;
         })
         .join('\n');
 
@@ -133,6 +174,8 @@ export const todosProvider: Provider = {
       // Build the provider output
       let output = `# User's Todos (Tasks)\n\nThese are the tasks which the agent is managing for the user. This is the actual list of todos, any other is probably from previous conversations.\n\n`;
 
+      output += `\n## Points\nTotal points earned: ${totalPoints}\n`;
+
       // Daily tasks
       output += `\n## Daily Todos\n`;
       output += formattedDailyTasks || 'No daily todos.';
@@ -145,6 +188,16 @@ export const todosProvider: Provider = {
       output += `\n\n## Aspirational Todos\n`;
       output += formattedAspirationalTasks || 'No aspirational todos.';
 
+      // Blocked and newly unblocked tasks
+      if (formattedBlockedTasks) {
+        output += `\n\n## Blocked Todos\n`;
+        output += formattedBlockedTasks;
+      }
+      if (formattedUnblockedTasks) {
+        output += `\n\n## Unblocked - Suggest As Next Step\n`;
+        output += formattedUnblockedTasks;
+      }
+
       // Recently completed tasks
       output += `\n\n## Recently Completed (Last 7 Days)\n`;
       output += formattedCompletedTasks || 'No todos completed in the last 7 days.';
@@ -159,12 +212,17 @@ export const todosProvider: Provider = {
           oneOffTodos,
           aspirationalTodos,
           completedTodos,
+          unblockedTodos,
+          totalPoints,
         },
         values: {
           dailyTasks: formattedDailyTasks || 'None',
           oneOffTasks: formattedOneOffTasks || 'None',
           aspirationalTasks: formattedAspirationalTasks || 'None',
           completedTasks: formattedCompletedTasks || 'None',
+          blockedTasks: formattedBlockedTasks || 'None',
+          unblockedTasks: formattedUnblockedTasks || 'None',
+          totalPoints: String(totalPoints),
         },
         text: output,
       };
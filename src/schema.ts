@@ -1,5 +1,6 @@
 import { relations, sql } from 'drizzle-orm';
 import {
+  type AnyPgColumn,
   pgTable,
   text,
   integer,
@@ -22,6 +23,10 @@ export const todosTable = pgTable(
     worldId: uuid('world_id').notNull(),
     roomId: uuid('room_id').notNull(),
     entityId: uuid('entity_id').notNull(), // User who created the todo
+    parentId: uuid('parent_id').references((): AnyPgColumn => todosTable.id, {
+      onDelete: 'cascade',
+    }), // Parent todo for subtasks, null for top-level todos
+    position: integer('position').default(0).notNull(), // Order among sibling subtasks
     name: text('name').notNull(),
     description: text('description'),
     type: text('type').notNull(), // 'daily', 'one-off', 'aspirational'
@@ -29,7 +34,12 @@ export const todosTable = pgTable(
     isUrgent: boolean('is_urgent').default(false),
     isCompleted: boolean('is_completed').default(false),
     dueDate: timestamp('due_date'),
+    recurrence: jsonb('recurrence'), // RecurrenceRule for repeating todos, null for one-time
+    reminders: jsonb('reminders'), // ReminderSpec list, null for the default reminders
+    snoozedUntil: timestamp('snoozed_until'), // Reminders are held back until then
     completedAt: timestamp('completed_at'),
+    cancelledAt: timestamp('cancelled_at'), // Set when the user cancelled the todo
+    archivedAt: timestamp('archived_at'), // Archived todos are hidden and purged after retention
     createdAt: timestamp('created_at')
       .default(sql`now()`)
       .notNull(),
@@ -43,10 +53,12 @@ export const todosTable = pgTable(
     worldIdIndex: index('idx_todos_world').on(table.worldId),
     roomIdIndex: index('idx_todos_room').on(table.roomId),
     entityIdIndex: index('idx_todos_entity').on(table.entityId),
+    parentIdIndex: index('idx_todos_parent').on(table.parentId),
     typeIndex: index('idx_todos_type').on(table.type),
     completedIndex: index('idx_todos_completed').on(table.isCompleted),
     dueDateIndex: index('idx_todos_due_date').on(table.dueDate),
     createdAtIndex: index('idx_todos_created_at').on(table.createdAt),
+    archivedAtIndex: index('idx_todos_archived_at').on(table.archivedAt),
   })
 );
 
@@ -74,11 +86,392 @@ export const todoTagsTable = pgTable(
   })
 );
 
+/**
+ * Todo dependencies table - a todo is blocked until the todos it depends on are completed
+ */
+export const todoDependenciesTable = pgTable(
+  'todo_dependencies',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    todoId: uuid('todo_id')
+      .references(() => todosTable.id, {
+        onDelete: 'cascade',
+      })
+      .notNull(),
+    dependsOnId: uuid('depends_on_id')
+      .references(() => todosTable.id, {
+        onDelete: 'cascade',
+      })
+      .notNull(),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    todoIdIndex: index('idx_todo_dependencies_todo').on(table.todoId),
+    dependsOnIdIndex: index('idx_todo_dependencies_depends_on').on(table.dependsOnId),
+    uniqueDependency: uniqueIndex('unique_todo_dependency').on(table.todoId, table.dependsOnId),
+  })
+);
+
+/**
+ * Todo completions table - ledger of every completion with the points it earned
+ */
+export const todoCompletionsTable = pgTable(
+  'todo_completions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    todoId: uuid('todo_id')
+      .references(() => todosTable.id, {
+        onDelete: 'cascade',
+      })
+      .notNull(),
+    agentId: uuid('agent_id').notNull(),
+    worldId: uuid('world_id').notNull(),
+    roomId: uuid('room_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    completedAt: timestamp('completed_at')
+      .default(sql`now()`)
+      .notNull(),
+    dueDate: timestamp('due_date'), // Due date at the time of completion
+    points: integer('points').default(0).notNull(),
+    isOnTime: boolean('is_on_time'), // null when the todo had no due date
+    streak: integer('streak').default(0).notNull(), // Streak after this completion (daily todos)
+    metadata: jsonb('metadata').default('{}').notNull(),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    todoIdIndex: index('idx_todo_completions_todo').on(table.todoId),
+    entityIdIndex: index('idx_todo_completions_entity').on(table.entityId),
+    completedAtIndex: index('idx_todo_completions_completed_at').on(table.completedAt),
+  })
+);
+
+/**
+ * Todo reminders table - history of reminders sent, at most one per todo, type, channel and window
+ */
+export const todoRemindersTable = pgTable(
+  'todo_reminders',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    todoId: uuid('todo_id')
+      .references(() => todosTable.id, {
+        onDelete: 'cascade',
+      })
+      .notNull(),
+    entityId: uuid('entity_id').notNull(),
+    reminderType: text('reminder_type').notNull(), // 'overdue', 'upcoming', 'daily'
+    channel: text('channel').notNull(), // 'in_app', 'rolodex' or 'contact'
+    windowKey: text('window_key').notNull(), // Identifies the reminder window, e.g. the due date
+    outcome: text('outcome').default('pending').notNull(), // 'pending', 'sent' or 'failed'
+    error: text('error'),
+    sentAt: timestamp('sent_at')
+      .default(sql`now()`)
+      .notNull(),
+    metadata: jsonb('metadata').default('{}').notNull(),
+  },
+  (table) => ({
+    todoIdIndex: index('idx_todo_reminders_todo').on(table.todoId),
+    sentAtIndex: index('idx_todo_reminders_sent_at').on(table.sentAt),
+    uniqueWindow: uniqueIndex('unique_todo_reminder_window').on(
+      table.todoId,
+      table.reminderType,
+      table.channel,
+      table.windowKey
+    ),
+  })
+);
+
+/**
+ * Todo user settings table - per-user settings such as the timezone used for daily resets
+ */
+export const todoUserSettingsTable = pgTable(
+  'todo_user_settings',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    timezone: text('timezone').notNull(), // IANA timezone name, e.g. 'Europe/Berlin'
+    metadata: jsonb('metadata').default('{}').notNull(),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    uniqueAgentEntity: uniqueIndex('unique_todo_user_settings_entity').on(
+      table.agentId,
+      table.entityId
+    ),
+  })
+);
+
+/**
+ * Todo notification preferences table - a user's notification preferences, with optional
+ * per-room overrides layered on top
+ */
+export const todoNotificationPreferencesTable = pgTable(
+  'todo_notification_preferences',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    roomId: uuid('room_id'), // null for the user's defaults, set for a room override
+    preferences: jsonb('preferences').default('{}').notNull(), // Partial NotificationPreferences
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    entityIdIndex: index('idx_todo_notification_preferences_entity').on(
+      table.agentId,
+      table.entityId
+    ),
+    uniqueEntityRoom: uniqueIndex('unique_todo_notification_preferences').on(
+      table.agentId,
+      table.entityId,
+      table.roomId
+    ),
+  })
+);
+
+/**
+ * Todo deferred notifications table - notifications held back during quiet hours until they end
+ */
+export const todoDeferredNotificationsTable = pgTable(
+  'todo_deferred_notifications',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id'),
+    roomId: uuid('room_id'),
+    taskId: uuid('task_id'), // At most one deferred notification is kept per task
+    notification: jsonb('notification').notNull(), // NotificationData to deliver
+    deliverAt: timestamp('deliver_at').notNull(), // When quiet hours end
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    deliverAtIndex: index('idx_todo_deferred_notifications_deliver_at').on(table.deliverAt),
+    uniqueTask: uniqueIndex('unique_todo_deferred_notification_task').on(
+      table.agentId,
+      table.taskId
+    ),
+  })
+);
+
+/**
+ * Todo digests table - daily and weekly digests sent, at most one per entity, kind and window
+ */
+export const todoDigestsTable = pgTable(
+  'todo_digests',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    kind: text('kind').notNull(), // 'daily' or 'weekly'
+    windowKey: text('window_key').notNull(), // Local day the digest was sent for, YYYY-MM-DD
+    sentAt: timestamp('sent_at')
+      .default(sql`now()`)
+      .notNull(),
+    metadata: jsonb('metadata').default('{}').notNull(),
+  },
+  (table) => ({
+    entityIdIndex: index('idx_todo_digests_entity').on(table.entityId),
+    uniqueWindow: uniqueIndex('unique_todo_digest_window').on(
+      table.agentId,
+      table.entityId,
+      table.kind,
+      table.windowKey
+    ),
+  })
+);
+
+/**
+ * Todo notification deliveries table - delivery receipts for notifications and reminders, with
+ * their retry state. Deliveries that exhausted their retries stay as dead letters.
+ */
+export const todoNotificationDeliveriesTable = pgTable(
+  'todo_notification_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id'),
+    roomId: uuid('room_id'),
+    taskId: uuid('task_id'),
+    reminderId: uuid('reminder_id'), // Reminder history record updated when a retry succeeds
+    channel: text('channel').notNull(), // 'in_app', 'rolodex' or 'contact'
+    platforms: jsonb('platforms').default('[]').notNull(), // Platforms rolodex delivered through
+    payload: jsonb('payload').notNull(), // Notification or rolodex message to (re)send
+    status: text('status').default('pending').notNull(), // pending, delivered, retrying or dead
+    attempts: integer('attempts').default(0).notNull(),
+    lastError: text('last_error'),
+    nextAttemptAt: timestamp('next_attempt_at'), // When a retrying delivery is attempted again
+    deliveredAt: timestamp('delivered_at'),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    statusIndex: index('idx_todo_notification_deliveries_status').on(
+      table.status,
+      table.nextAttemptAt
+    ),
+    taskIdIndex: index('idx_todo_notification_deliveries_task').on(table.taskId),
+  })
+);
+
+/**
+ * Todo push subscriptions table - browsers subscribed to Web Push reminders from the dashboard
+ */
+export const todoPushSubscriptionsTable = pgTable(
+  'todo_push_subscriptions',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    endpoint: text('endpoint').notNull(), // Push service URL for the browser
+    p256dh: text('p256dh').notNull(), // Browser public key, base64url
+    auth: text('auth').notNull(), // Authentication secret, base64url
+    userAgent: text('user_agent'),
+    lastPushedAt: timestamp('last_pushed_at'),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    entityIdIndex: index('idx_todo_push_subscriptions_entity').on(table.agentId, table.entityId),
+    uniqueEndpoint: uniqueIndex('unique_todo_push_subscription_endpoint').on(
+      table.agentId,
+      table.endpoint
+    ),
+  })
+);
+
+/**
+ * Todo webhooks table - URLs that todo lifecycle events are posted to
+ */
+export const todoWebhooksTable = pgTable(
+  'todo_webhooks',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    url: text('url').notNull(),
+    secret: text('secret').notNull(), // Key for the HMAC signature of each payload
+    events: jsonb('events').default('[]').notNull(), // Events to send, empty for all of them
+    description: text('description'),
+    isActive: boolean('is_active').default(true).notNull(),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    agentIdIndex: index('idx_todo_webhooks_agent').on(table.agentId),
+  })
+);
+
+/**
+ * Todo webhook deliveries table - log of events posted to webhooks, with their retry state
+ */
+export const todoWebhookDeliveriesTable = pgTable(
+  'todo_webhook_deliveries',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    webhookId: uuid('webhook_id')
+      .notNull()
+      .references(() => todoWebhooksTable.id, { onDelete: 'cascade' }),
+    event: text('event').notNull(), // e.g. TODO_CREATED
+    todoId: uuid('todo_id'),
+    payload: jsonb('payload').notNull(), // Body posted to the webhook
+    status: text('status').default('pending').notNull(), // pending, delivered, retrying or failed
+    attempts: integer('attempts').default(0).notNull(),
+    responseStatus: integer('response_status'), // HTTP status of the last attempt
+    lastError: text('last_error'),
+    nextAttemptAt: timestamp('next_attempt_at'), // Next retry, or when an attempt's claim runs out
+    deliveredAt: timestamp('delivered_at'),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    statusIndex: index('idx_todo_webhook_deliveries_status').on(
+      table.status,
+      table.nextAttemptAt
+    ),
+    webhookIdIndex: index('idx_todo_webhook_deliveries_webhook').on(
+      table.webhookId,
+      table.createdAt
+    ),
+  })
+);
+
+/**
+ * Todo calendar feeds table - secret iCalendar feed URLs, one per user
+ */
+export const todoCalendarFeedsTable = pgTable(
+  'todo_calendar_feeds',
+  {
+    id: uuid('id').primaryKey().defaultRandom(),
+    agentId: uuid('agent_id').notNull(),
+    entityId: uuid('entity_id').notNull(),
+    tokenHash: text('token_hash').notNull(), // SHA-256 of the token in the feed URL
+    lastAccessedAt: timestamp('last_accessed_at'),
+    createdAt: timestamp('created_at')
+      .default(sql`now()`)
+      .notNull(),
+    updatedAt: timestamp('updated_at')
+      .default(sql`now()`)
+      .notNull(),
+  },
+  (table) => ({
+    uniqueEntity: uniqueIndex('unique_todo_calendar_feed_entity').on(
+      table.agentId,
+      table.entityId
+    ),
+    uniqueToken: uniqueIndex('unique_todo_calendar_feed_token').on(table.tokenHash),
+  })
+);
+
 /**
  * Relations
  */
-export const todosRelations = relations(todosTable, ({ many }) => ({
+export const todosRelations = relations(todosTable, ({ one, many }) => ({
   tags: many(todoTagsTable),
+  completions: many(todoCompletionsTable),
+  reminders: many(todoRemindersTable),
+  parent: one(todosTable, {
+    fields: [todosTable.parentId],
+    references: [todosTable.id],
+    relationName: 'subtasks',
+  }),
+  subtasks: many(todosTable, { relationName: 'subtasks' }),
+  dependencies: many(todoDependenciesTable, { relationName: 'dependencies' }),
+  dependents: many(todoDependenciesTable, { relationName: 'dependents' }),
 }));
 
 export const todoTagsRelations = relations(todoTagsTable, ({ one }) => ({
@@ -88,16 +481,67 @@ export const todoTagsRelations = relations(todoTagsTable, ({ one }) => ({
   }),
 }));
 
+export const todoDependenciesRelations = relations(todoDependenciesTable, ({ one }) => ({
+  todo: one(todosTable, {
+    fields: [todoDependenciesTable.todoId],
+    references: [todosTable.id],
+    relationName: 'dependencies',
+  }),
+  dependsOn: one(todosTable, {
+    fields: [todoDependenciesTable.dependsOnId],
+    references: [todosTable.id],
+    relationName: 'dependents',
+  }),
+}));
+
+export const todoCompletionsRelations = relations(todoCompletionsTable, ({ one }) => ({
+  todo: one(todosTable, {
+    fields: [todoCompletionsTable.todoId],
+    references: [todosTable.id],
+  }),
+}));
+
+export const todoRemindersRelations = relations(todoRemindersTable, ({ one }) => ({
+  todo: one(todosTable, {
+    fields: [todoRemindersTable.todoId],
+    references: [todosTable.id],
+  }),
+}));
+
 /**
  * Export the complete schema
  */
 export const todoSchema = {
   todosTable,
   todoTagsTable,
+  todoDependenciesTable,
+  todoCompletionsTable,
+  todoRemindersTable,
+  todoUserSettingsTable,
+  todoNotificationPreferencesTable,
+  todoDeferredNotificationsTable,
+  todoDigestsTable,
+  todoNotificationDeliveriesTable,
+  todoPushSubscriptionsTable,
+  todoWebhooksTable,
+  todoWebhookDeliveriesTable,
+  todoCalendarFeedsTable,
   // Also include the original structure for compatibility
   tables: {
     todos: todosTable,
     todoTags: todoTagsTable,
+    todoDependencies: todoDependenciesTable,
+    todoCompletions: todoCompletionsTable,
+    todoReminders: todoRemindersTable,
+    todoUserSettings: todoUserSettingsTable,
+    todoNotificationPreferences: todoNotificationPreferencesTable,
+    todoDeferredNotifications: todoDeferredNotificationsTable,
+    todoDigests: todoDigestsTable,
+    todoNotificationDeliveries: todoNotificationDeliveriesTable,
+    todoPushSubscriptions: todoPushSubscriptionsTable,
+    todoWebhooks: todoWebhooksTable,
+    todoWebhookDeliveries: todoWebhookDeliveriesTable,
+    todoCalendarFeeds: todoCalendarFeedsTable,
   },
 };
 
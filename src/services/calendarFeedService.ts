@@ -0,0 +1,111 @@
+import crypto from 'node:crypto';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { and, eq } from 'drizzle-orm';
+import { todoCalendarFeedsTable } from '../schema';
+
+/**
+ * Hash a feed token. Only the hash is stored, so a leaked database doesn't leak feed URLs.
+ */
+function hashFeedToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * Manages the secret iCalendar feed URLs that calendar apps subscribe to. Calendar apps can't
+ * send credentials, so the token in the URL is what identifies the user.
+ */
+export class CalendarFeedService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Create a feed token for a user, replacing any earlier one so its URL stops working
+   */
+  async createFeedToken(entityId: UUID): Promise<string | null> {
+    try {
+      const { db } = this.runtime;
+      const token = crypto.randomBytes(24).toString('base64url');
+      const tokenHash = hashFeedToken(token);
+
+      await db
+        .insert(todoCalendarFeedsTable)
+        .values({ agentId: this.runtime.agentId, entityId, tokenHash })
+        .onConflictDoUpdate({
+          target: [todoCalendarFeedsTable.agentId, todoCalendarFeedsTable.entityId],
+          set: { tokenHash, lastAccessedAt: null, updatedAt: new Date() },
+        });
+
+      logger.info(`Created calendar feed for ${entityId}`);
+      return token;
+    } catch (error) {
+      logger.error(`Error creating calendar feed for ${entityId}: ${String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Revoke a user's feed URL
+   */
+  async revokeFeed(entityId: UUID): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const deleted = await db
+        .delete(todoCalendarFeedsTable)
+        .where(
+          and(
+            eq(todoCalendarFeedsTable.agentId, this.runtime.agentId),
+            eq(todoCalendarFeedsTable.entityId, entityId)
+          )
+        )
+        .returning({ id: todoCalendarFeedsTable.id });
+
+      return deleted.length > 0;
+    } catch (error) {
+      logger.error(`Error revoking calendar feed for ${entityId}: ${String(error)}`);
+      return false;
+    }
+  }
+
+  /**
+   * The user a feed token belongs to, or null for unknown or revoked tokens
+   */
+  async resolveFeedToken(token: string): Promise<UUID | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [feed] = await db
+        .select()
+        .from(todoCalendarFeedsTable)
+        .where(
+          and(
+            eq(todoCalendarFeedsTable.agentId, this.runtime.agentId),
+            eq(todoCalendarFeedsTable.tokenHash, hashFeedToken(token))
+          )
+        )
+        .limit(1);
+      if (!feed) return null;
+
+      await db
+        .update(todoCalendarFeedsTable)
+        .set({ lastAccessedAt: new Date() })
+        .where(eq(todoCalendarFeedsTable.id, feed.id));
+
+      return feed.entityId as UUID;
+    } catch (error) {
+      logger.error(`Error resolving calendar feed: ${String(error)}`);
+      return null;
+    }
+  }
+}
+
+/**
+ * Create a new CalendarFeedService instance
+ */
+export function createCalendarFeedService(runtime: IAgentRuntime): CalendarFeedService {
+  return new CalendarFeedService(runtime);
+}
@@ -0,0 +1,181 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { and, asc, eq, inArray, lte } from 'drizzle-orm';
+import { todoDeferredNotificationsTable } from '../schema';
+import type { NotificationData } from './notificationManager';
+import { logDbError } from './transactions';
+
+// How long a claimed notification is held back from other claims while it is delivered. A
+// notification still stored after that, e.g. because the process restarted, is released again.
+const CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * A notification held back until the recipient's quiet hours end
+ */
+export interface DeferredNotification {
+  id: UUID;
+  notification: NotificationData;
+  deliverAt: Date;
+}
+
+/**
+ * A due notification claimed for delivery. Deferring a notification for the same task again
+ * updates the row, which ends the claim.
+ */
+export interface ClaimedNotification extends DeferredNotification {
+  claimedAt: Date;
+}
+
+// What identifies the stored copy a claim was made on
+export type DeferredClaim = Pick<ClaimedNotification, 'id' | 'claimedAt'>;
+
+/**
+ * Stores notifications deferred during quiet hours so they survive restarts
+ */
+export class DeferredNotificationService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Defer a notification until `deliverAt`. A notification for a task that already has one
+   * deferred replaces it, so only the latest reminder per task is delivered.
+   */
+  async defer(notification: NotificationData, deliverAt: Date): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const insert = db.insert(todoDeferredNotificationsTable).values({
+        agentId: this.runtime.agentId,
+        entityId: notification.entityId ?? null,
+        roomId: notification.roomId ?? null,
+        taskId: notification.taskId ?? null,
+        notification,
+        deliverAt,
+      });
+
+      if (notification.taskId) {
+        await insert.onConflictDoUpdate({
+          target: [todoDeferredNotificationsTable.agentId, todoDeferredNotificationsTable.taskId],
+          set: { notification, deliverAt, updatedAt: new Date() },
+        });
+      } else {
+        await insert;
+      }
+
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error deferring notification', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get deferred notifications, oldest delivery time first
+   */
+  async getDeferred(): Promise<DeferredNotification[]> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoDeferredNotificationsTable)
+        .where(eq(todoDeferredNotificationsTable.agentId, this.runtime.agentId))
+        .orderBy(asc(todoDeferredNotificationsTable.deliverAt));
+
+      return rows.map((row: any) => this.toDeferredNotification(row));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting deferred notifications', error);
+      return [];
+    }
+  }
+
+  /**
+   * Claim the notifications due by `now`, oldest delivery time first. They stay stored until
+   * they are removed once delivered; a claim only moves their delivery time past the claim
+   * timeout, so each one is released once unless its delivery never finishes.
+   */
+  async claimDue(now: Date = new Date()): Promise<ClaimedNotification[]> {
+    try {
+      const { db } = this.runtime;
+
+      const dueRows = await db
+        .select()
+        .from(todoDeferredNotificationsTable)
+        .where(
+          and(
+            eq(todoDeferredNotificationsTable.agentId, this.runtime.agentId),
+            lte(todoDeferredNotificationsTable.deliverAt, now)
+          )
+        )
+        .orderBy(asc(todoDeferredNotificationsTable.deliverAt));
+      if (dueRows.length === 0) return [];
+
+      const claimedRows = await db
+        .update(todoDeferredNotificationsTable)
+        .set({ deliverAt: new Date(now.getTime() + CLAIM_TIMEOUT_MS), updatedAt: now })
+        .where(
+          and(
+            inArray(
+              todoDeferredNotificationsTable.id,
+              dueRows.map((row: any) => row.id)
+            ),
+            lte(todoDeferredNotificationsTable.deliverAt, now)
+          )
+        )
+        .returning({ id: todoDeferredNotificationsTable.id });
+
+      // Rows another claim got to first are left out
+      const claimed = new Set(claimedRows.map((row: any) => row.id));
+      return dueRows
+        .filter((row: any) => claimed.has(row.id))
+        .map((row: any) => ({ ...this.toDeferredNotification(row), claimedAt: now }));
+    } catch (error) {
+      logDbError(this.runtime, 'Error claiming deferred notifications', error);
+      return [];
+    }
+  }
+
+  /**
+   * Remove a claimed notification once it was delivered or is no longer wanted. A row updated
+   * since the claim holds a newer notification for the task and is kept.
+   */
+  async remove(claim: DeferredClaim): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .delete(todoDeferredNotificationsTable)
+        .where(
+          and(
+            eq(todoDeferredNotificationsTable.id, claim.id),
+            eq(todoDeferredNotificationsTable.agentId, this.runtime.agentId),
+            eq(todoDeferredNotificationsTable.updatedAt, claim.claimedAt)
+          )
+        );
+
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error removing deferred notification', error);
+      return false;
+    }
+  }
+
+  private toDeferredNotification(row: any): DeferredNotification {
+    return {
+      id: row.id as UUID,
+      notification: row.notification as NotificationData,
+      deliverAt: new Date(row.deliverAt),
+    };
+  }
+}
+
+/**
+ * Create a new DeferredNotificationService instance
+ */
+export function createDeferredNotificationService(
+  runtime: IAgentRuntime
+): DeferredNotificationService {
+  return new DeferredNotificationService(runtime);
+}
@@ -0,0 +1,304 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { todoDigestsTable } from '../schema';
+import { fromZonedTime, toLocalDateString, toZonedTime } from '../utils/timezone';
+import { createTodoScoringService } from './scoringService';
+import { createTodoDataService, type TodoData } from './todoDataService';
+
+export type DigestKind = 'daily' | 'weekly';
+
+/**
+ * A completed todo as listed in a digest
+ */
+export interface DigestCompletion {
+  todoId: UUID;
+  name: string;
+  points: number;
+  completedAt: Date;
+}
+
+/**
+ * Morning digest: what is on today's plate and what got done yesterday
+ */
+export interface DailyDigest {
+  kind: 'daily';
+  entityId: UUID;
+  roomId: UUID | null; // Room of the user's most recent todo, for in-app delivery
+  date: string; // Local day, YYYY-MM-DD
+  dailyTasks: TodoData[];
+  dueToday: TodoData[];
+  overdue: TodoData[];
+  completedYesterday: DigestCompletion[];
+}
+
+/**
+ * Weekly review: points, completions and streaks over the last seven days
+ */
+export interface WeeklyDigest {
+  kind: 'weekly';
+  entityId: UUID;
+  roomId: UUID | null;
+  date: string;
+  completed: DigestCompletion[];
+  points: number; // Earned during the week
+  totalPoints: number;
+  streaks: Array<{ todoId: UUID; name: string; streak: number; longestStreak: number }>;
+  overdue: TodoData[];
+  dueThisWeek: TodoData[];
+}
+
+export type Digest = DailyDigest | WeeklyDigest;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a digest has nothing to report
+ */
+export function isDigestEmpty(digest: Digest): boolean {
+  if (digest.kind === 'daily') {
+    return (
+      digest.dailyTasks.length === 0 &&
+      digest.dueToday.length === 0 &&
+      digest.overdue.length === 0 &&
+      digest.completedYesterday.length === 0
+    );
+  }
+  return (
+    digest.completed.length === 0 && digest.overdue.length === 0 && digest.dueThisWeek.length === 0
+  );
+}
+
+/**
+ * Format a digest as a notification title and body
+ */
+export function formatDigest(digest: Digest): { title: string; body: string } {
+  const sections: string[] = [];
+  const section = (heading: string, lines: string[]) => {
+    if (lines.length > 0) sections.push(`${heading}\n${lines.join('\n')}`);
+  };
+
+  if (digest.kind === 'daily') {
+    section(
+      '📅 Daily tasks',
+      digest.dailyTasks.map((todo) => `- ${todo.name}${formatStreak(todo.metadata?.streak)}`)
+    );
+    section(
+      '⏰ Due today',
+      digest.dueToday.map((todo) => `- ${todo.name}${todo.isUrgent ? ' 🔴' : ''}`)
+    );
+    section(
+      '⚠️ Overdue',
+      digest.overdue.map((todo) => `- ${todo.name} (due ${toDateLabel(todo.dueDate)})`)
+    );
+    section(
+      '✅ Done yesterday',
+      digest.completedYesterday.map((done) => `- ${done.name} (+${done.points} points)`)
+    );
+
+    return {
+      title: `☀️ Your todos for ${digest.date}`,
+      body: sections.length > 0 ? sections.join('\n\n') : 'Nothing on your plate today. Enjoy!',
+    };
+  }
+
+  sections.push(
+    `🏆 ${digest.points} points this week from ${digest.completed.length} completed task${
+      digest.completed.length === 1 ? '' : 's'
+    } (${digest.totalPoints} total)`
+  );
+  section(
+    '🔥 Streaks',
+    digest.streaks.map(
+      (streak) => `- ${streak.name}: ${streak.streak} (best ${streak.longestStreak})`
+    )
+  );
+  section(
+    '⚠️ Still overdue',
+    digest.overdue.map((todo) => `- ${todo.name} (due ${toDateLabel(todo.dueDate)})`)
+  );
+  section(
+    '📆 Coming up this week',
+    digest.dueThisWeek.map((todo) => `- ${todo.name} (due ${toDateLabel(todo.dueDate)})`)
+  );
+
+  return { title: `📊 Your weekly review`, body: sections.join('\n\n') };
+}
+
+function formatStreak(streak: unknown): string {
+  return Number(streak) > 1 ? ` 🔥 ${Number(streak)}` : '';
+}
+
+function toDateLabel(date: Date | null | undefined): string {
+  return date ? new Date(date).toISOString().split('T')[0] : 'unknown';
+}
+
+/**
+ * Builds daily and weekly digests from a user's todos and completions, and records which
+ * digests were sent so each goes out once
+ */
+export class DigestService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Build the morning digest for the user's local day containing `now`
+   */
+  async buildDailyDigest(entityId: UUID, now: Date, timeZone: string): Promise<DailyDigest> {
+    const dataService = createTodoDataService(this.runtime);
+    const { startOfToday, startOfTomorrow } = getLocalDayBounds(now, timeZone);
+
+    const todos = await dataService.getTodos({ agentId: this.runtime.agentId, entityId });
+    const open = todos.filter((todo) => !todo.isCompleted && !todo.parentId);
+    const overdue = await dataService.getOverdueTodos({ agentId: this.runtime.agentId, entityId });
+
+    return {
+      kind: 'daily',
+      entityId,
+      roomId: getLatestRoom(todos),
+      date: toLocalDateString(now, timeZone),
+      dailyTasks: open.filter((todo) => todo.type === 'daily'),
+      dueToday: open.filter(
+        (todo) =>
+          todo.type !== 'daily' &&
+          !!todo.dueDate &&
+          todo.dueDate >= startOfToday &&
+          todo.dueDate < startOfTomorrow
+      ),
+      overdue: overdue.filter((todo) => !!todo.dueDate && todo.dueDate < startOfToday),
+      completedYesterday: await this.getCompletions(
+        entityId,
+        todos,
+        new Date(startOfToday.getTime() - DAY_MS),
+        startOfToday
+      ),
+    };
+  }
+
+  /**
+   * Build the weekly review of the seven days before the user's local day containing `now`
+   */
+  async buildWeeklyDigest(entityId: UUID, now: Date, timeZone: string): Promise<WeeklyDigest> {
+    const dataService = createTodoDataService(this.runtime);
+    const scoringService = createTodoScoringService(this.runtime);
+    const { startOfToday } = getLocalDayBounds(now, timeZone);
+    const weekStart = new Date(startOfToday.getTime() - 7 * DAY_MS);
+    const weekEnd = new Date(startOfToday.getTime() + 7 * DAY_MS);
+
+    const todos = await dataService.getTodos({ agentId: this.runtime.agentId, entityId });
+    const overdue = await dataService.getOverdueTodos({ agentId: this.runtime.agentId, entityId });
+    const completed = await this.getCompletions(entityId, todos, weekStart, startOfToday);
+
+    return {
+      kind: 'weekly',
+      entityId,
+      roomId: getLatestRoom(todos),
+      date: toLocalDateString(now, timeZone),
+      completed,
+      points: completed.reduce((total, done) => total + done.points, 0),
+      totalPoints: await scoringService.getUserPoints(entityId),
+      streaks: todos
+        .filter((todo) => Number(todo.metadata?.streak) > 0)
+        .map((todo) => ({
+          todoId: todo.id,
+          name: todo.name,
+          streak: Number(todo.metadata.streak),
+          longestStreak: Number(todo.metadata.longestStreak ?? todo.metadata.streak),
+        }))
+        .sort((a, b) => b.streak - a.streak),
+      overdue,
+      dueThisWeek: todos.filter(
+        (todo) =>
+          !todo.isCompleted && !!todo.dueDate && todo.dueDate >= now && todo.dueDate < weekEnd
+      ),
+    };
+  }
+
+  /**
+   * Claim a digest window before sending. Returns the id of the new record, or null if the
+   * digest was already sent (or the claim failed), in which case it must not be sent.
+   */
+  async claimDigest(
+    entityId: UUID,
+    kind: DigestKind,
+    windowKey: string,
+    sentAt: Date = new Date()
+  ): Promise<UUID | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [claimed] = await db
+        .insert(todoDigestsTable)
+        .values({
+          agentId: this.runtime.agentId,
+          entityId,
+          kind,
+          windowKey,
+          sentAt,
+        })
+        .onConflictDoNothing()
+        .returning({ id: todoDigestsTable.id });
+
+      return (claimed?.id as UUID) ?? null;
+    } catch (error) {
+      logger.error(`Error claiming ${kind} digest for ${entityId}: ${String(error)}`);
+      return null;
+    }
+  }
+
+  /**
+   * Completions from the ledger between two instants, named after their todos
+   */
+  private async getCompletions(
+    entityId: UUID,
+    todos: TodoData[],
+    since: Date,
+    until: Date
+  ): Promise<DigestCompletion[]> {
+    const names = new Map(todos.map((todo) => [todo.id, todo.name]));
+    const completions = await createTodoScoringService(this.runtime).getCompletions({
+      entityId,
+      since,
+    });
+
+    return completions
+      .filter((completion) => new Date(completion.completedAt) < until)
+      .map((completion) => ({
+        todoId: completion.todoId,
+        name: names.get(completion.todoId) ?? 'A removed task',
+        points: completion.points,
+        completedAt: new Date(completion.completedAt),
+      }));
+  }
+}
+
+/**
+ * Start of the user's local day containing `now`, and of the next one
+ */
+function getLocalDayBounds(
+  now: Date,
+  timeZone: string
+): { startOfToday: Date; startOfTomorrow: Date } {
+  const local = toZonedTime(now, timeZone);
+  local.setHours(0, 0, 0, 0);
+  const startOfToday = fromZonedTime(local, timeZone);
+  local.setDate(local.getDate() + 1);
+  return { startOfToday, startOfTomorrow: fromZonedTime(local, timeZone) };
+}
+
+function getLatestRoom(todos: TodoData[]): UUID | null {
+  const latest = todos.reduce<TodoData | null>(
+    (found, todo) => (!found || todo.updatedAt > found.updatedAt ? todo : found),
+    null
+  );
+  return latest?.roomId ?? null;
+}
+
+/**
+ * Create a new DigestService instance
+ */
+export function createDigestService(runtime: IAgentRuntime): DigestService {
+  return new DigestService(runtime);
+}
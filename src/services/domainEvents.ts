@@ -0,0 +1,64 @@
+import type { EventPayload, IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import type { TodoData } from './todoDataService';
+
+/**
+ * Runtime events emitted when todos change, for other plugins to react to
+ */
+export const TodoDomainEvents = {
+  TODO_CREATED: 'TODO_CREATED',
+  TODO_UPDATED: 'TODO_UPDATED',
+  TODO_COMPLETED: 'TODO_COMPLETED',
+  TODO_DELETED: 'TODO_DELETED',
+  TODO_OVERDUE: 'TODO_OVERDUE',
+} as const;
+
+export type TodoDomainEventName = (typeof TodoDomainEvents)[keyof typeof TodoDomainEvents];
+
+export interface TodoEventPayload extends EventPayload {
+  todoId: UUID;
+  todo: TodoData; // The todo after the change, or as it was before being deleted
+}
+
+export interface TodoChangedPayload extends TodoEventPayload {
+  changes: Record<string, unknown>; // Fields that were written; empty for tags and dependencies
+}
+
+export interface TodoOverduePayload extends TodoEventPayload {
+  overdueSince: string; // ISO due date the todo went overdue at
+}
+
+export interface TodoDomainEventPayloads {
+  TODO_CREATED: TodoEventPayload;
+  TODO_UPDATED: TodoChangedPayload;
+  TODO_COMPLETED: TodoChangedPayload;
+  TODO_DELETED: TodoEventPayload;
+  TODO_OVERDUE: TodoOverduePayload;
+}
+
+export type TodoDomainEventHandler<T extends TodoDomainEventName> = (
+  payload: TodoDomainEventPayloads[T]
+) => Promise<void> | void;
+
+/**
+ * Whether anything is listening for the event, so callers can skip loading its payload
+ */
+export function hasTodoEventHandlers(runtime: IAgentRuntime, event: TodoDomainEventName): boolean {
+  return (runtime.getEvent?.(event)?.length ?? 0) > 0;
+}
+
+/**
+ * Emit a todo event on the runtime. Failing handlers are logged and never fail the change
+ * that triggered them.
+ */
+export async function emitTodoEvent<T extends TodoDomainEventName>(
+  runtime: IAgentRuntime,
+  event: T,
+  payload: Omit<TodoDomainEventPayloads[T], 'runtime' | 'source'>
+): Promise<void> {
+  try {
+    await runtime.emitEvent(event, { ...payload, runtime, source: 'todo' });
+  } catch (error) {
+    logger.warn(`Error handling ${event} for todo ${payload.todoId}: ${String(error)}`);
+  }
+}
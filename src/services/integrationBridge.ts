@@ -5,6 +5,15 @@ import {
   logger,
   type UUID,
 } from '@elizaos/core';
+import {
+  TodoDomainEvents,
+  type TodoDomainEventHandler,
+  type TodoDomainEventName,
+  type TodoDomainEventPayloads,
+} from './domainEvents';
+import { createWebhookService } from './webhookService';
+
+const WEBHOOK_RETRY_INTERVAL_MS = 60 * 1000;
 
 /**
  * Integration bridge service for connecting with other plugins
@@ -14,6 +23,11 @@ export class TodoIntegrationBridge extends Service {
   serviceName = 'TODO_INTEGRATION_BRIDGE' as ServiceTypeName;
   capabilityDescription = 'Bridges todo plugin with other plugins for enhanced functionality';
 
+  private subscribers = new Map<TodoDomainEventName, Set<TodoDomainEventHandler<any>>>();
+  // Runtime events can't be unregistered, so each one is registered once and fans out here
+  private registeredEvents = new Set<TodoDomainEventName>();
+  private webhookRetryTimer: NodeJS.Timeout | null = null;
+
   static async start(runtime: IAgentRuntime): Promise<TodoIntegrationBridge> {
     logger.info('Starting TodoIntegrationBridge...');
     const service = new TodoIntegrationBridge();
@@ -24,10 +38,111 @@ export class TodoIntegrationBridge extends Service {
   }
 
   private async initialize(): Promise<void> {
-    // Initialization complete
+    // Every event goes out to the webhooks subscribed to it
+    try {
+      for (const event of Object.values(TodoDomainEvents)) {
+        this.registerRuntimeEvent(event);
+      }
+    } catch (error) {
+      logger.warn(`Could not subscribe to todo events, webhooks are disabled: ${String(error)}`);
+    }
+
+    this.webhookRetryTimer = setInterval(() => {
+      createWebhookService(this.runtime)
+        .retryDueDeliveries()
+        .catch((error) => {
+          logger.error('Error retrying webhook deliveries:', error);
+        });
+    }, WEBHOOK_RETRY_INTERVAL_MS);
+  }
+
+  /**
+   * Run a handler whenever a todo event is emitted, e.g. to start a workflow when a todo is
+   * completed. Returns a function that removes the handler.
+   */
+  on<T extends TodoDomainEventName>(event: T, handler: TodoDomainEventHandler<T>): () => void {
+    if (!Object.values(TodoDomainEvents).includes(event)) {
+      throw new Error(`Unknown todo event: ${event}`);
+    }
+
+    this.registerRuntimeEvent(event);
+    const handlers = this.subscribers.get(event) ?? new Set();
+    handlers.add(handler);
+    this.subscribers.set(event, handlers);
+
+    return () => {
+      handlers.delete(handler);
+    };
+  }
+
+  /**
+   * Run a handler once, for the next matching event
+   */
+  once<T extends TodoDomainEventName>(event: T, handler: TodoDomainEventHandler<T>): () => void {
+    const unsubscribe = this.on(event, (payload) => {
+      unsubscribe();
+      return handler(payload);
+    });
+    return unsubscribe;
+  }
+
+  /**
+   * Run a handler for the events of one todo only
+   */
+  onTodo<T extends TodoDomainEventName>(
+    todoId: UUID,
+    event: T,
+    handler: TodoDomainEventHandler<T>
+  ): () => void {
+    return this.on(event, (payload) =>
+      payload.todoId === todoId ? handler(payload) : undefined
+    );
+  }
+
+  /**
+   * Number of handlers subscribed to an event
+   */
+  getSubscriberCount(event: TodoDomainEventName): number {
+    return this.subscribers.get(event)?.size ?? 0;
+  }
+
+  private registerRuntimeEvent<T extends TodoDomainEventName>(event: T): void {
+    if (this.registeredEvents.has(event)) return;
+    this.runtime.registerEvent(event, (payload: TodoDomainEventPayloads[T]) =>
+      this.dispatch(event, payload)
+    );
+    this.registeredEvents.add(event);
+  }
+
+  /**
+   * Run every handler of an event. A failing handler is logged and does not stop the others.
+   */
+  private async dispatch<T extends TodoDomainEventName>(
+    event: T,
+    payload: TodoDomainEventPayloads[T]
+  ): Promise<void> {
+    // Webhooks are posted in the background so slow receivers don't hold up todo changes
+    const { runtime: _runtime, source: _source, onComplete: _onComplete, ...data } = payload;
+    void createWebhookService(this.runtime).dispatchEvent(event, data);
+
+    const handlers = [...(this.subscribers.get(event) ?? [])];
+    const results = await Promise.allSettled(handlers.map(async (handler) => handler(payload)));
+
+    for (const result of results) {
+      if (result.status === 'rejected') {
+        logger.error(
+          `Error in ${event} handler for todo ${payload.todoId}: ${String(result.reason)}`
+        );
+      }
+    }
   }
 
   async stop(): Promise<void> {
+    if (this.webhookRetryTimer) {
+      clearInterval(this.webhookRetryTimer);
+      this.webhookRetryTimer = null;
+    }
+    this.subscribers.clear();
     logger.info('TodoIntegrationBridge stopped');
   }
 
@@ -0,0 +1,351 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { and, desc, eq, gte, inArray, lte, type SQL } from 'drizzle-orm';
+import { todoNotificationDeliveriesTable } from '../schema';
+import type { ReminderChannel } from './reminderHistoryService';
+import { logDbError } from './transactions';
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'dead';
+
+/**
+ * The result of one attempt to deliver a notification
+ */
+export interface DeliveryReceipt {
+  delivered: boolean;
+  platforms?: string[]; // Platforms the message went out on, when the channel reports them
+  error?: string;
+}
+
+/**
+ * A notification delivery and its retry state
+ */
+export interface DeliveryRecord {
+  id: UUID;
+  channel: ReminderChannel;
+  status: DeliveryStatus;
+  attempts: number;
+  platforms: string[];
+  payload: any;
+  entityId: UUID | null;
+  roomId: UUID | null;
+  taskId: UUID | null;
+  reminderId: UUID | null;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * Delivery success rate for one platform. In-app notifications count as the 'in_app' platform.
+ */
+export interface DeliveryMetrics {
+  platform: string;
+  total: number;
+  delivered: number;
+  failed: number; // Dead letters
+  pending: number; // Not yet delivered, or waiting for a retry
+  successRate: number | null; // Delivered share of settled deliveries, null if none settled
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 60 * 1000;
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000;
+
+// Failures that will not go away by trying again
+const PERMANENT_ERROR_PATTERN =
+  /not found|no (available )?platforms?|invalid|unauthori[sz]ed|forbidden|blocked|\b40[0134]\b/i;
+
+/**
+ * Wait before retrying after the given number of failed attempts: 1, 2, 4, 8... minutes
+ */
+export function getRetryDelay(attempts: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_DELAY_MS);
+}
+
+/**
+ * Check whether a delivery failure is worth retrying. Errors are assumed to be transient
+ * (timeouts, rate limits, a platform being down) unless they say otherwise.
+ */
+export function isTransientDeliveryError(error: unknown): boolean {
+  return !PERMANENT_ERROR_PATTERN.test(String(error ?? ''));
+}
+
+/**
+ * Records delivery receipts for notifications, schedules retries with exponential back-off and
+ * keeps the deliveries that failed for good as dead letters
+ */
+export class NotificationDeliveryService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Record a delivery about to be attempted. Returns its id, or null if it could not be stored.
+   */
+  async createDelivery(
+    channel: ReminderChannel,
+    payload: unknown,
+    refs: { entityId?: UUID; roomId?: UUID; taskId?: UUID; reminderId?: UUID } = {}
+  ): Promise<UUID | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [created] = await db
+        .insert(todoNotificationDeliveriesTable)
+        .values({
+          agentId: this.runtime.agentId,
+          entityId: refs.entityId ?? null,
+          roomId: refs.roomId ?? null,
+          taskId: refs.taskId ?? null,
+          reminderId: refs.reminderId ?? null,
+          channel,
+          payload,
+        })
+        .returning({ id: todoNotificationDeliveriesTable.id });
+
+      return (created?.id as UUID) ?? null;
+    } catch (error) {
+      logDbError(this.runtime, `Error recording ${channel} delivery`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record the outcome of a delivery's nth attempt. A transient failure is retried after an
+   * exponentially growing delay until MAX_DELIVERY_ATTEMPTS; any other failure is dead-lettered.
+   * Returns the new status, or null if it could not be stored.
+   */
+  async recordAttempt(
+    deliveryId: UUID,
+    attempt: number,
+    receipt: DeliveryReceipt,
+    now: Date = new Date()
+  ): Promise<DeliveryStatus | null> {
+    let status: DeliveryStatus = 'delivered';
+    if (!receipt.delivered) {
+      status =
+        attempt < MAX_DELIVERY_ATTEMPTS && isTransientDeliveryError(receipt.error)
+          ? 'retrying'
+          : 'dead';
+    }
+
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .update(todoNotificationDeliveriesTable)
+        .set({
+          status,
+          attempts: attempt,
+          lastError: receipt.delivered ? null : (receipt.error ?? 'Unknown error'),
+          nextAttemptAt:
+            status === 'retrying' ? new Date(now.getTime() + getRetryDelay(attempt)) : null,
+          deliveredAt: receipt.delivered ? now : null,
+          ...(receipt.platforms?.length ? { platforms: receipt.platforms } : {}),
+          updatedAt: now,
+        })
+        .where(eq(todoNotificationDeliveriesTable.id, deliveryId));
+
+      return status;
+    } catch (error) {
+      logDbError(this.runtime, `Error recording delivery attempt for ${deliveryId}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Take the deliveries on the given channels whose retry is due. They are marked pending in the
+   * same statement, so each retry is attempted by one instance only.
+   */
+  async claimRetries(
+    channels: ReminderChannel[],
+    now: Date = new Date(),
+    limit: number = 50
+  ): Promise<DeliveryRecord[]> {
+    try {
+      const { db } = this.runtime;
+
+      const due = db
+        .select({ id: todoNotificationDeliveriesTable.id })
+        .from(todoNotificationDeliveriesTable)
+        .where(
+          and(
+            eq(todoNotificationDeliveriesTable.agentId, this.runtime.agentId),
+            eq(todoNotificationDeliveriesTable.status, 'retrying'),
+            inArray(todoNotificationDeliveriesTable.channel, channels),
+            lte(todoNotificationDeliveriesTable.nextAttemptAt, now)
+          )
+        )
+        .limit(limit);
+
+      const rows = await db
+        .update(todoNotificationDeliveriesTable)
+        .set({ status: 'pending', nextAttemptAt: null, updatedAt: now })
+        .where(
+          and(
+            inArray(todoNotificationDeliveriesTable.id, due),
+            eq(todoNotificationDeliveriesTable.status, 'retrying')
+          )
+        )
+        .returning();
+
+      return rows.map((row: any) => this.toDeliveryRecord(row));
+    } catch (error) {
+      logDbError(this.runtime, 'Error claiming delivery retries', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get deliveries, most recent first, optionally filtered by status, task or recipient
+   */
+  async getDeliveries(
+    filters: { status?: DeliveryStatus; taskId?: UUID; entityId?: UUID; limit?: number } = {}
+  ): Promise<DeliveryRecord[]> {
+    try {
+      const { db } = this.runtime;
+      const conditions: SQL[] = [eq(todoNotificationDeliveriesTable.agentId, this.runtime.agentId)];
+
+      if (filters.status) {
+        conditions.push(eq(todoNotificationDeliveriesTable.status, filters.status));
+      }
+      if (filters.taskId) {
+        conditions.push(eq(todoNotificationDeliveriesTable.taskId, filters.taskId));
+      }
+      if (filters.entityId) {
+        conditions.push(eq(todoNotificationDeliveriesTable.entityId, filters.entityId));
+      }
+
+      const rows = await db
+        .select()
+        .from(todoNotificationDeliveriesTable)
+        .where(and(...conditions))
+        .orderBy(desc(todoNotificationDeliveriesTable.updatedAt))
+        .limit(filters.limit ?? 50);
+
+      return rows.map((row: any) => this.toDeliveryRecord(row));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting notification deliveries', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the dead letters: deliveries that failed permanently or ran out of retries
+   */
+  async getFailedDeliveries(
+    filters: { entityId?: UUID; limit?: number } = {}
+  ): Promise<DeliveryRecord[]> {
+    return this.getDeliveries({ ...filters, status: 'dead' });
+  }
+
+  /**
+   * Give a dead letter a fresh set of attempts, starting with the next retry check
+   */
+  async requeueDelivery(deliveryId: UUID, now: Date = new Date()): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .update(todoNotificationDeliveriesTable)
+        .set({ status: 'retrying', attempts: 0, nextAttemptAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(todoNotificationDeliveriesTable.id, deliveryId),
+            eq(todoNotificationDeliveriesTable.agentId, this.runtime.agentId),
+            eq(todoNotificationDeliveriesTable.status, 'dead')
+          )
+        )
+        .returning({ id: todoNotificationDeliveriesTable.id });
+
+      return rows.length > 0;
+    } catch (error) {
+      logDbError(this.runtime, `Error requeueing delivery ${deliveryId}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Success rate per platform for deliveries created since `since`. A rolodex delivery counts
+   * for each platform it went out on, or for its channel when no platform was reported.
+   */
+  async getDeliveryMetrics(since?: Date): Promise<DeliveryMetrics[]> {
+    try {
+      const { db } = this.runtime;
+      const conditions: SQL[] = [eq(todoNotificationDeliveriesTable.agentId, this.runtime.agentId)];
+      if (since) {
+        conditions.push(gte(todoNotificationDeliveriesTable.createdAt, since));
+      }
+
+      const rows = await db
+        .select({
+          channel: todoNotificationDeliveriesTable.channel,
+          platforms: todoNotificationDeliveriesTable.platforms,
+          status: todoNotificationDeliveriesTable.status,
+        })
+        .from(todoNotificationDeliveriesTable)
+        .where(and(...conditions));
+
+      const metrics = new Map<string, DeliveryMetrics>();
+      for (const row of rows) {
+        const platforms =
+          Array.isArray(row.platforms) && row.platforms.length > 0 ? row.platforms : [row.channel];
+        for (const platform of platforms as string[]) {
+          const entry = metrics.get(platform) ?? {
+            platform,
+            total: 0,
+            delivered: 0,
+            failed: 0,
+            pending: 0,
+            successRate: null,
+          };
+          entry.total++;
+          if (row.status === 'delivered') entry.delivered++;
+          else if (row.status === 'dead') entry.failed++;
+          else entry.pending++;
+          metrics.set(platform, entry);
+        }
+      }
+
+      return [...metrics.values()]
+        .map((entry) => {
+          const settled = entry.delivered + entry.failed;
+          return { ...entry, successRate: settled > 0 ? entry.delivered / settled : null };
+        })
+        .sort((a, b) => a.platform.localeCompare(b.platform));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting delivery metrics', error);
+      return [];
+    }
+  }
+
+  private toDeliveryRecord(row: any): DeliveryRecord {
+    return {
+      id: row.id as UUID,
+      channel: row.channel as ReminderChannel,
+      status: row.status as DeliveryStatus,
+      attempts: Number(row.attempts ?? 0),
+      platforms: Array.isArray(row.platforms) ? row.platforms : [],
+      payload: row.payload,
+      entityId: row.entityId ?? null,
+      roomId: row.roomId ?? null,
+      taskId: row.taskId ?? null,
+      reminderId: row.reminderId ?? null,
+      lastError: row.lastError ?? null,
+      nextAttemptAt: row.nextAttemptAt ? new Date(row.nextAttemptAt) : null,
+      deliveredAt: row.deliveredAt ? new Date(row.deliveredAt) : null,
+      createdAt: new Date(row.createdAt),
+    };
+  }
+}
+
+/**
+ * Create a new NotificationDeliveryService instance
+ */
+export function createNotificationDeliveryService(
+  runtime: IAgentRuntime
+): NotificationDeliveryService {
+  return new NotificationDeliveryService(runtime);
+}
@@ -6,6 +6,31 @@ import {
   createMessageMemory,
   type IAgentRuntime,
 } from '@elizaos/core';
+import {
+  createDeferredNotificationService,
+  type DeferredClaim,
+  type DeferredNotificationService,
+} from './deferredNotificationService';
+import {
+  createNotificationDeliveryService,
+  getRetryDelay,
+  isTransientDeliveryError,
+  MAX_DELIVERY_ATTEMPTS,
+  type NotificationDeliveryService,
+} from './notificationDeliveryService';
+import {
+  createNotificationPreferencesService,
+  resolvePreferences,
+  combinePreferenceUpdates,
+  type NotificationPreferencesService,
+  type NotificationPreferencesUpdate,
+} from './notificationPreferencesService';
+import {
+  createPushSubscriptionService,
+  type PushSubscriptionService,
+} from './pushSubscriptionService';
+import { createTodoDataService } from './todoDataService';
+import { DEFAULT_TIMEZONE, getNextHour, toZonedTime } from '../utils/timezone';
 
 export interface NotificationPreferences {
   enabled: boolean;
@@ -20,34 +45,72 @@ export interface NotificationPreferences {
     start: number; // Hour in 24h format (0-23)
     end: number;
   };
+  accountabilityContactId?: UUID; // Entity told when overdue reminders escalate
+  digest?: DigestPreferences;
+}
+
+/**
+ * When and where a user receives their todo digests
+ */
+export interface DigestPreferences {
+  daily: boolean; // Morning digest of today's tasks
+  weekly: boolean; // Weekly review of points and streaks
+  time: string; // HH:MM in the user's timezone
+  weeklyDay: number; // Day of the weekly review, 0 for Sunday
+  channels: Array<'in_app' | 'rolodex'>;
 }
 
 export interface NotificationData {
   title: string;
   body: string;
-  type: 'overdue' | 'upcoming' | 'daily' | 'system';
+  type: 'overdue' | 'upcoming' | 'daily' | 'digest' | 'system';
   priority?: 'low' | 'medium' | 'high';
   taskId?: UUID;
   roomId?: UUID;
+  entityId?: UUID; // User the notification is for, whose preferences apply
   actions?: Array<{
     label: string;
-    action: string;
+    action: string; // Action name, e.g. COMPLETE_TODO
+    options?: Record<string, string>; // Handler options, e.g. the taskId to act on
   }>;
 }
 
+// A notification waiting to be sent, with its delivery receipt once one was recorded and the
+// stored copy it was released from, if it was deferred
+type QueuedNotification = NotificationData & {
+  deliveryId?: UUID;
+  attempts?: number;
+  deferred?: DeferredClaim;
+};
+
 /**
  * Manager for handling notifications across different channels
  */
 export class NotificationManager {
-  private userPreferences: Map<UUID, NotificationPreferences> = new Map();
-  private notificationQueue: NotificationData[] = [];
+  // Stored preference layers keyed by entity, or by `entityId:roomId` for room overrides
+  private userPreferences: Map<string, NotificationPreferencesUpdate> = new Map();
+  private preferencesService: NotificationPreferencesService;
+  private deferredService: DeferredNotificationService;
+  private deliveryService: NotificationDeliveryService;
+  private pushService: PushSubscriptionService;
+  // Deferred notifications that could not be persisted, keyed by task like the stored ones
+  private unsavedDeferred: Map<string, { notification: NotificationData; deliverAt: Date }> =
+    new Map();
+  // Retries for deliveries whose receipt could not be stored
+  private unsavedRetries: Array<{ notification: QueuedNotification; retryAt: Date }> = [];
+  private notificationQueue: QueuedNotification[] = [];
   private isProcessing = false;
   private queueTimer: NodeJS.Timeout | null = null;
+  private releaseTimer: NodeJS.Timeout | null = null;
 
   private runtime: IAgentRuntime;
 
   constructor(runtime: IAgentRuntime) {
     this.runtime = runtime;
+    this.preferencesService = createNotificationPreferencesService(runtime);
+    this.deferredService = createDeferredNotificationService(runtime);
+    this.deliveryService = createNotificationDeliveryService(runtime);
+    this.pushService = createPushSubscriptionService(runtime);
     this.initialize();
   }
 
@@ -58,6 +121,9 @@ export class NotificationManager {
     // Load user preferences from storage
     await this.loadUserPreferences();
 
+    // Release notifications whose quiet hours ended while the agent was offline
+    this.startDeferredRelease();
+
     logger.info('NotificationManager initialized');
   }
 
@@ -72,6 +138,25 @@ export class NotificationManager {
     this.queueTimer = setInterval(() => this.processNotificationQueue(), 1000);
   }
 
+  /**
+   * Check every minute for deferred notifications whose quiet hours have ended, and for failed
+   * deliveries that are due for a retry
+   */
+  private startDeferredRelease() {
+    if (this.releaseTimer) {
+      clearInterval(this.releaseTimer);
+    }
+
+    const release = () =>
+      this.releaseDeferredNotifications()
+        .then(() => this.retryFailedDeliveries())
+        .catch((error) => {
+          logger.error(`Error releasing deferred notifications: ${String(error)}`);
+        });
+    this.releaseTimer = setInterval(release, 60 * 1000);
+    release();
+  }
+
   /**
    * Process queued notifications
    */
@@ -83,7 +168,7 @@ export class NotificationManager {
       while (this.notificationQueue.length > 0) {
         const notification = this.notificationQueue.shift();
         if (notification) {
-          await this.sendNotification(notification);
+          await this.deliverNotification(notification);
         }
       }
     } catch (error) {
@@ -94,36 +179,178 @@ export class NotificationManager {
   }
 
   /**
-   * Queue a notification for delivery
+   * Queue a notification for delivery. A notification released from the deferred store passes
+   * its claim, so the stored copy is kept until it was delivered.
    */
-  public async queueNotification(notification: NotificationData) {
-    // Check if we're in quiet hours
-    if (this.isInQuietHours(notification.roomId)) {
-      logger.debug('Notification queued for after quiet hours:', notification.title);
+  public async queueNotification(
+    notification: NotificationData,
+    now: Date = new Date(),
+    deferred?: DeferredClaim
+  ) {
+    const prefs = await this.getNotificationPreferences(notification);
+    if (!this.isTypeEnabled(notification, prefs)) {
+      logger.debug(`Notification disabled by preferences: ${notification.title}`);
+      if (deferred) await this.deferredService.remove(deferred);
       return;
     }
 
-    this.notificationQueue.push(notification);
+    // Hold the notification until quiet hours end in the recipient's timezone
+    if (prefs.quietHours) {
+      const timeZone = notification.entityId
+        ? await createTodoDataService(this.runtime).getUserTimezone(notification.entityId)
+        : DEFAULT_TIMEZONE;
+
+      if (this.isInQuietHours(prefs, now, timeZone)) {
+        await this.deferNotification(
+          notification,
+          getNextHour(timeZone, prefs.quietHours.end, now)
+        );
+        // A task's stored notification was rescheduled in place; any other one was stored anew
+        if (deferred && !notification.taskId) await this.deferredService.remove(deferred);
+        return;
+      }
+    }
+
+    this.notificationQueue.push({ ...notification, deferred });
   }
 
   /**
-   * Send a notification through appropriate channels
+   * Store a notification until `deliverAt`, keeping it in memory if it cannot be persisted
    */
-  private async sendNotification(notification: NotificationData) {
+  private async deferNotification(notification: NotificationData, deliverAt: Date) {
+    const saved = await this.deferredService.defer(notification, deliverAt);
+    if (!saved) {
+      const key = notification.taskId ?? `${notification.roomId}:${notification.title}`;
+      this.unsavedDeferred.set(key, { notification, deliverAt });
+    }
+    logger.debug(`Notification deferred until ${deliverAt.toISOString()}: ${notification.title}`);
+  }
+
+  /**
+   * Queue deferred notifications that are due. Preferences are checked again, so a notification
+   * is deferred once more if quiet hours were extended in the meantime.
+   */
+  public async releaseDeferredNotifications(now: Date = new Date()): Promise<number> {
+    const claimed = await this.deferredService.claimDue(now);
+    const due: Array<{ notification: NotificationData; claim?: DeferredClaim }> = claimed.map(
+      ({ notification, id, claimedAt }) => ({ notification, claim: { id, claimedAt } })
+    );
+
+    for (const [key, deferred] of this.unsavedDeferred) {
+      if (deferred.deliverAt <= now) {
+        due.push({ notification: deferred.notification });
+        this.unsavedDeferred.delete(key);
+      }
+    }
+
+    for (const { notification, claim } of due) {
+      await this.queueNotification(notification, now, claim);
+    }
+
+    if (due.length > 0) {
+      logger.info(`Released ${due.length} notifications deferred during quiet hours`);
+    }
+    return due.length;
+  }
+
+  /**
+   * Queue failed in-app deliveries whose retry is due. Preferences were checked when they were
+   * first queued, so they are not checked again.
+   */
+  public async retryFailedDeliveries(now: Date = new Date()): Promise<number> {
+    const claimed = await this.deliveryService.claimRetries(['in_app'], now);
+    const due: QueuedNotification[] = claimed.map((delivery) => ({
+      ...(delivery.payload as NotificationData),
+      deliveryId: delivery.id,
+      attempts: delivery.attempts,
+    }));
+
+    this.unsavedRetries = this.unsavedRetries.filter((retry) => {
+      if (retry.retryAt > now) return true;
+      due.push(retry.notification);
+      return false;
+    });
+
+    this.notificationQueue.push(...due);
+    if (due.length > 0) {
+      logger.info(`Retrying ${due.length} failed notification deliveries`);
+    }
+    return due.length;
+  }
+
+  /**
+   * Send a queued notification and record its delivery receipt, scheduling a retry if it failed.
+   * A deferred notification's stored copy is removed once it was delivered or its receipt holds
+   * any retry.
+   */
+  private async deliverNotification(queued: QueuedNotification, now: Date = new Date()) {
+    const { deliveryId: storedId, attempts = 0, deferred, ...notification } = queued;
+    const deliveryId =
+      storedId ??
+      (await this.deliveryService.createDelivery('in_app', notification, {
+        entityId: notification.entityId,
+        roomId: notification.roomId,
+        taskId: notification.taskId,
+      }));
+
+    let error: string | undefined;
     try {
-      // Send in-app notification
-      await this.sendInAppNotification(notification);
+      await this.sendNotification(notification);
+    } catch (err) {
+      error = String(err);
+      logger.error(`Error sending notification "${notification.title}": ${error}`);
+    }
 
-      // Send browser notification if enabled
-      if (this.shouldSendBrowserNotification(notification)) {
-        await this.sendBrowserNotification(notification);
+    const attempt = attempts + 1;
+    let keepDeferred = false;
+    if (deliveryId) {
+      const status = await this.deliveryService.recordAttempt(
+        deliveryId,
+        attempt,
+        { delivered: !error, error },
+        now
+      );
+      if (status === 'dead') {
+        logger.warn(`Notification "${notification.title}" moved to dead letters: ${error}`);
+      }
+    } else if (error) {
+      if (attempt < MAX_DELIVERY_ATTEMPTS && isTransientDeliveryError(error)) {
+        if (deferred) {
+          // The stored copy is released again once its claim times out
+          keepDeferred = true;
+        } else {
+          this.unsavedRetries.push({
+            notification: { ...notification, attempts: attempt },
+            retryAt: new Date(now.getTime() + getRetryDelay(attempt)),
+          });
+        }
+      } else {
+        logger.warn(`Dropping notification "${notification.title}" after ${attempt} attempts`);
       }
+    }
 
-      // Log notification for audit
-      logger.info({ type: notification.type, priority: notification.priority }, `Notification sent: ${notification.title}`);
-    } catch (error) {
-      logger.error(`Error sending notification: ${String(error)}`);
+    if (deferred && !keepDeferred) await this.deferredService.remove(deferred);
+  }
+
+  /**
+   * Send a notification through appropriate channels. Throws if the in-app delivery fails.
+   */
+  private async sendNotification(notification: NotificationData) {
+    // Send in-app notification
+    await this.sendInAppNotification(notification);
+
+    // Send browser notification if enabled; the in-app message is the receipt that counts
+    if (this.shouldSendBrowserNotification(notification)) {
+      await this.sendBrowserNotification(notification).catch((error) => {
+        logger.warn(`Error sending browser notification: ${String(error)}`);
+      });
     }
+
+    // Log notification for audit
+    logger.info(
+      { type: notification.type, priority: notification.priority },
+      `Notification sent: ${notification.title}`
+    );
   }
 
   /**
@@ -143,6 +370,7 @@ export class NotificationManager {
           notificationType: notification.type,
           priority: notification.priority,
           taskId: notification.taskId,
+          actions: notification.actions,
           isNotification: true,
         },
       },
@@ -158,27 +386,50 @@ export class NotificationManager {
   }
 
   /**
-   * Send a browser notification (placeholder - would need browser context)
+   * Send a Web Push notification to the browsers the recipient subscribed on the dashboard
    */
   private async sendBrowserNotification(notification: NotificationData) {
-    // In a real implementation, this would:
-    // 1. Check for browser notification permission
-    // 2. Create and show the notification
-    // 3. Handle click events on the notification
+    if (!notification.entityId) return;
+
+    const result = await this.pushService.sendToEntity(
+      notification.entityId,
+      {
+        title: notification.title,
+        body: notification.body,
+        tag: notification.taskId ? `todo-${notification.taskId}` : undefined,
+        data: {
+          type: notification.type,
+          taskId: notification.taskId,
+          roomId: notification.roomId,
+          actions: notification.actions,
+        },
+      },
+      { urgency: notification.priority === 'high' ? 'high' : 'normal' }
+    );
 
-    logger.debug({ title: notification.title, body: notification.body, type: notification.type }, 'Browser notification would be sent');
+    logger.debug(
+      { title: notification.title, ...result },
+      `Browser notification pushed to ${result.delivered} subscriptions`
+    );
   }
 
   /**
-   * Check if browser notifications should be sent
+   * Check if browser notifications should be sent: the recipient must be known and have turned
+   * browser notifications on
    */
   private shouldSendBrowserNotification(notification: NotificationData): boolean {
-    if (!notification.roomId) return false;
+    if (!notification.entityId) return false;
+
+    const prefs = this.getUserPreferences(notification.entityId, notification.roomId);
+    return prefs.browserNotifications && this.isTypeEnabled(notification, prefs);
+  }
 
-    const prefs = this.getUserPreferences(notification.roomId);
-    if (!prefs.enabled || !prefs.browserNotifications) return false;
+  /**
+   * Check if notifications of this type are enabled in the given preferences
+   */
+  private isTypeEnabled(notification: NotificationData, prefs: NotificationPreferences): boolean {
+    if (!prefs.enabled) return false;
 
-    // Check if this type of reminder is enabled
     switch (notification.type) {
       case 'overdue':
         return prefs.reminderTypes.overdue;
@@ -186,6 +437,7 @@ export class NotificationManager {
         return prefs.reminderTypes.upcoming;
       case 'daily':
         return prefs.reminderTypes.daily;
+      case 'digest': // Digests are opted into separately
       case 'system':
         return true;
       default:
@@ -196,14 +448,10 @@ export class NotificationManager {
   /**
    * Check if we're in quiet hours
    */
-  private isInQuietHours(roomId?: UUID): boolean {
-    if (!roomId) return false;
-
-    const prefs = this.getUserPreferences(roomId);
+  private isInQuietHours(prefs: NotificationPreferences, now: Date, timeZone: string): boolean {
     if (!prefs.quietHours) return false;
 
-    const now = new Date();
-    const currentHour = now.getHours();
+    const currentHour = toZonedTime(now, timeZone).getHours();
     const { start, end } = prefs.quietHours;
 
     // Handle cases where quiet hours span midnight
@@ -215,61 +463,100 @@ export class NotificationManager {
   }
 
   /**
-   * Get user preferences for notifications
+   * Load the preferences that apply to a notification, falling back to cached ones if the
+   * database is unavailable. Notifications without an entity use preferences keyed by room.
    */
-  public getUserPreferences(userOrRoomId: UUID): NotificationPreferences {
-    const existing = this.userPreferences.get(userOrRoomId);
-    if (existing) return existing;
-
-    // Return default preferences
-    const defaults: NotificationPreferences = {
-      enabled: true,
-      sound: true,
-      browserNotifications: false,
-      reminderTypes: {
-        overdue: true,
-        upcoming: true,
-        daily: true,
-      },
-      quietHours: {
-        start: 22, // 10 PM
-        end: 8, // 8 AM
-      },
-    };
+  private async getNotificationPreferences(
+    notification: NotificationData
+  ): Promise<NotificationPreferences> {
+    if (notification.entityId) {
+      return this.getPreferences(notification.entityId, notification.roomId);
+    }
+    return notification.roomId
+      ? this.getUserPreferences(notification.roomId)
+      : resolvePreferences();
+  }
 
-    this.userPreferences.set(userOrRoomId, defaults);
-    return defaults;
+  /**
+   * Get a user's preferences from storage, optionally with a room override applied
+   */
+  public async getPreferences(entityId: UUID, roomId?: UUID): Promise<NotificationPreferences> {
+    const layers = await this.preferencesService.getPreferenceLayers(entityId, roomId);
+    if (layers) {
+      this.setCachedLayer(entityId, undefined, layers.entity);
+      if (roomId) this.setCachedLayer(entityId, roomId, layers.room);
+    }
+    return this.getUserPreferences(entityId, roomId);
   }
 
   /**
-   * Update user preferences
+   * Get cached user preferences for notifications, optionally with a room override applied
+   */
+  public getUserPreferences(userOrRoomId: UUID, roomId?: UUID): NotificationPreferences {
+    return resolvePreferences(
+      this.userPreferences.get(userOrRoomId),
+      roomId ? this.userPreferences.get(this.cacheKey(userOrRoomId, roomId)) : undefined
+    );
+  }
+
+  /**
+   * Update user preferences, or a room override when roomId is given
    */
   public async updateUserPreferences(
     userOrRoomId: UUID,
-    preferences: Partial<NotificationPreferences>
+    preferences: NotificationPreferencesUpdate,
+    roomId?: UUID
   ): Promise<void> {
-    const current = this.getUserPreferences(userOrRoomId);
-    const updated = { ...current, ...preferences };
-    this.userPreferences.set(userOrRoomId, updated);
+    const key = roomId ? this.cacheKey(userOrRoomId, roomId) : userOrRoomId;
+    this.userPreferences.set(
+      key,
+      combinePreferenceUpdates(this.userPreferences.get(key), preferences)
+    );
 
     // Save to persistent storage
-    await this.saveUserPreferences();
+    await this.saveUserPreferences(userOrRoomId, preferences, roomId);
   }
 
   /**
    * Load user preferences from storage
    */
   private async loadUserPreferences(): Promise<void> {
-    // In a real implementation, this would load from database
-    logger.debug('Loading notification preferences...');
+    const rows = await this.preferencesService.getAllPreferences();
+    for (const row of rows) {
+      this.setCachedLayer(row.entityId, row.roomId ?? undefined, row.preferences);
+    }
+    logger.debug(`Loaded ${rows.length} notification preference records`);
   }
 
   /**
    * Save user preferences to storage
    */
-  private async saveUserPreferences(): Promise<void> {
-    // In a real implementation, this would save to database
-    logger.debug('Saving notification preferences...');
+  private async saveUserPreferences(
+    entityId: UUID,
+    preferences: NotificationPreferencesUpdate,
+    roomId?: UUID
+  ): Promise<void> {
+    const saved = await this.preferencesService.updatePreferences(entityId, preferences, roomId);
+    if (!saved) {
+      logger.warn(`Notification preferences for ${entityId} were not persisted`);
+    }
+  }
+
+  private cacheKey(entityId: UUID, roomId: UUID): string {
+    return `${entityId}:${roomId}`;
+  }
+
+  private setCachedLayer(
+    entityId: UUID,
+    roomId: UUID | undefined,
+    layer: NotificationPreferencesUpdate | null
+  ) {
+    const key = roomId ? this.cacheKey(entityId, roomId) : entityId;
+    if (layer) {
+      this.userPreferences.set(key, layer);
+    } else {
+      this.userPreferences.delete(key);
+    }
   }
 
   /**
@@ -281,6 +568,11 @@ export class NotificationManager {
       this.queueTimer = null;
     }
 
+    if (this.releaseTimer) {
+      clearInterval(this.releaseTimer);
+      this.releaseTimer = null;
+    }
+
     // Process any remaining notifications
     await this.processNotificationQueue();
 
@@ -0,0 +1,274 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { and, eq, isNull } from 'drizzle-orm';
+import { todoNotificationPreferencesTable } from '../schema';
+import type { DigestPreferences, NotificationPreferences } from './notificationManager';
+import { logDbError } from './transactions';
+
+/**
+ * A partial set of preferences as stored for a user or room override.
+ * `quietHours: null` turns quiet hours off and `accountabilityContactId: null` removes the contact.
+ */
+export interface NotificationPreferencesUpdate {
+  enabled?: boolean;
+  sound?: boolean;
+  browserNotifications?: boolean;
+  reminderTypes?: Partial<NotificationPreferences['reminderTypes']>;
+  quietHours?: NotificationPreferences['quietHours'] | null;
+  accountabilityContactId?: UUID | null;
+  digest?: Partial<DigestPreferences>;
+}
+
+/**
+ * Stored preference layers for a user: their defaults and, optionally, a room override
+ */
+export interface NotificationPreferenceLayers {
+  entity: NotificationPreferencesUpdate | null;
+  room: NotificationPreferencesUpdate | null;
+}
+
+/**
+ * Preferences used when a user has not stored any
+ */
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  enabled: true,
+  sound: true,
+  browserNotifications: false,
+  reminderTypes: {
+    overdue: true,
+    upcoming: true,
+    daily: true,
+  },
+  quietHours: {
+    start: 22, // 10 PM
+    end: 8, // 8 AM
+  },
+  digest: {
+    daily: false,
+    weekly: false,
+    time: '08:00',
+    weeklyDay: 1, // Monday
+    channels: ['in_app'],
+  },
+};
+
+// Copy one preference when it is set, so an undefined field doesn't clear a lower layer
+function copyDefined<K extends keyof NotificationPreferencesUpdate>(
+  target: NotificationPreferencesUpdate,
+  source: NotificationPreferencesUpdate,
+  key: K
+) {
+  if (source[key] !== undefined) target[key] = source[key];
+}
+
+/**
+ * Combine two partial preference layers, with `override` taking precedence
+ */
+export function combinePreferenceUpdates(
+  base: NotificationPreferencesUpdate | null | undefined,
+  override: NotificationPreferencesUpdate | null | undefined
+): NotificationPreferencesUpdate {
+  const combined: NotificationPreferencesUpdate = { ...base };
+  const layer = override ?? {};
+  for (const key of Object.keys(layer) as Array<keyof NotificationPreferencesUpdate>) {
+    copyDefined(combined, layer, key);
+  }
+  if (base?.reminderTypes || override?.reminderTypes) {
+    combined.reminderTypes = { ...base?.reminderTypes, ...override?.reminderTypes };
+  }
+  if (base?.digest || override?.digest) {
+    combined.digest = { ...base?.digest, ...override?.digest };
+  }
+  return combined;
+}
+
+/**
+ * Resolve the effective preferences from the defaults, the user's preferences and a room override
+ */
+export function resolvePreferences(
+  ...layers: Array<NotificationPreferencesUpdate | null | undefined>
+): NotificationPreferences {
+  const { quietHours, reminderTypes, accountabilityContactId, digest, ...flags } =
+    layers.reduce<NotificationPreferencesUpdate>(
+      (resolved, layer) => combinePreferenceUpdates(resolved, layer),
+      {}
+    );
+
+  const preferences: NotificationPreferences = {
+    ...DEFAULT_NOTIFICATION_PREFERENCES,
+    ...flags,
+    reminderTypes: { ...DEFAULT_NOTIFICATION_PREFERENCES.reminderTypes, ...reminderTypes },
+    quietHours: { ...DEFAULT_NOTIFICATION_PREFERENCES.quietHours! },
+    digest: { ...DEFAULT_NOTIFICATION_PREFERENCES.digest!, ...digest },
+  };
+
+  if (accountabilityContactId) {
+    preferences.accountabilityContactId = accountabilityContactId;
+  }
+  if (quietHours === null) {
+    delete preferences.quietHours;
+  } else if (quietHours) {
+    preferences.quietHours = { ...quietHours };
+  }
+  return preferences;
+}
+
+/**
+ * Persists notification preferences per user, with optional per-room overrides
+ */
+export class NotificationPreferencesService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Get the effective preferences for a user, optionally in a specific room
+   */
+  async getPreferences(entityId: UUID, roomId?: UUID): Promise<NotificationPreferences> {
+    const layers = await this.getPreferenceLayers(entityId, roomId);
+    return resolvePreferences(layers?.entity, layers?.room);
+  }
+
+  /**
+   * Get the stored preference layers for a user, or null if they could not be loaded
+   */
+  async getPreferenceLayers(
+    entityId: UUID,
+    roomId?: UUID
+  ): Promise<NotificationPreferenceLayers | null> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoNotificationPreferencesTable)
+        .where(
+          and(
+            eq(todoNotificationPreferencesTable.agentId, this.runtime.agentId),
+            eq(todoNotificationPreferencesTable.entityId, entityId)
+          )
+        );
+
+      const entityRow = rows.find((row: any) => !row.roomId);
+      const roomRow = roomId ? rows.find((row: any) => row.roomId === roomId) : undefined;
+
+      return {
+        entity: (entityRow?.preferences as NotificationPreferencesUpdate) ?? null,
+        room: (roomRow?.preferences as NotificationPreferencesUpdate) ?? null,
+      };
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting notification preferences', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get every stored preference row for this agent
+   */
+  async getAllPreferences(): Promise<
+    Array<{ entityId: UUID; roomId: UUID | null; preferences: NotificationPreferencesUpdate }>
+  > {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoNotificationPreferencesTable)
+        .where(eq(todoNotificationPreferencesTable.agentId, this.runtime.agentId));
+
+      return rows.map((row: any) => ({
+        entityId: row.entityId as UUID,
+        roomId: (row.roomId as UUID) || null,
+        preferences: (row.preferences as NotificationPreferencesUpdate) || {},
+      }));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting all notification preferences', error);
+      return [];
+    }
+  }
+
+  /**
+   * Merge an update into the user's stored preferences, or into a room override when roomId is
+   * given. Returns the stored layer after the update, or null on failure.
+   */
+  async updatePreferences(
+    entityId: UUID,
+    update: NotificationPreferencesUpdate,
+    roomId?: UUID
+  ): Promise<NotificationPreferencesUpdate | null> {
+    try {
+      const { db } = this.runtime;
+      const scope = and(
+        eq(todoNotificationPreferencesTable.agentId, this.runtime.agentId),
+        eq(todoNotificationPreferencesTable.entityId, entityId),
+        roomId
+          ? eq(todoNotificationPreferencesTable.roomId, roomId)
+          : isNull(todoNotificationPreferencesTable.roomId)
+      );
+
+      const [existing] = await db
+        .select()
+        .from(todoNotificationPreferencesTable)
+        .where(scope)
+        .limit(1);
+
+      const preferences = combinePreferenceUpdates(
+        existing?.preferences as NotificationPreferencesUpdate,
+        update
+      );
+
+      if (existing) {
+        await db
+          .update(todoNotificationPreferencesTable)
+          .set({ preferences, updatedAt: new Date() })
+          .where(eq(todoNotificationPreferencesTable.id, existing.id));
+      } else {
+        await db.insert(todoNotificationPreferencesTable).values({
+          agentId: this.runtime.agentId,
+          entityId,
+          roomId: roomId ?? null,
+          preferences,
+        });
+      }
+
+      return preferences;
+    } catch (error) {
+      logDbError(this.runtime, 'Error updating notification preferences', error);
+      return null;
+    }
+  }
+
+  /**
+   * Remove a room override so the user's defaults apply in that room again
+   */
+  async clearRoomOverride(entityId: UUID, roomId: UUID): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .delete(todoNotificationPreferencesTable)
+        .where(
+          and(
+            eq(todoNotificationPreferencesTable.agentId, this.runtime.agentId),
+            eq(todoNotificationPreferencesTable.entityId, entityId),
+            eq(todoNotificationPreferencesTable.roomId, roomId)
+          )
+        );
+
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error clearing notification preference override', error);
+      return false;
+    }
+  }
+}
+
+/**
+ * Create a new NotificationPreferencesService instance
+ */
+export function createNotificationPreferencesService(
+  runtime: IAgentRuntime
+): NotificationPreferencesService {
+  return new NotificationPreferencesService(runtime);
+}
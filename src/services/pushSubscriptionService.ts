@@ -0,0 +1,240 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { and, eq } from 'drizzle-orm';
+import { todoPushSubscriptionsTable } from '../schema';
+import {
+  generateVapidKeys,
+  sendWebPush,
+  type PushSubscriptionData,
+  type VapidKeys,
+  type WebPushOptions,
+} from '../utils/webPush';
+import { logDbError } from './transactions';
+
+/**
+ * A browser subscribed to push notifications for a user
+ */
+export interface PushSubscriptionRecord extends PushSubscriptionData {
+  id: UUID;
+  entityId: UUID;
+  userAgent: string | null;
+  lastPushedAt: Date | null;
+  createdAt: Date;
+}
+
+/**
+ * What the browser's service worker receives
+ */
+export interface PushMessage {
+  title: string;
+  body: string;
+  tag?: string; // Replaces an earlier notification with the same tag, e.g. per task
+  data?: Record<string, unknown>;
+}
+
+/**
+ * How a push to all of a user's browsers went
+ */
+export interface PushResult {
+  delivered: number;
+  failed: number;
+  removed: number; // Expired subscriptions that were deleted
+}
+
+const VAPID_KEYS_CACHE_KEY = 'todo:vapid-keys';
+const DEFAULT_VAPID_SUBJECT = 'https://elizaos.ai';
+
+/**
+ * Stores Web Push subscriptions from the dashboard and sends notifications to them
+ */
+export class PushSubscriptionService {
+  protected runtime: IAgentRuntime;
+  private vapidKeys: VapidKeys | null = null;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * The VAPID keys from the TODO_VAPID_PUBLIC_KEY and TODO_VAPID_PRIVATE_KEY settings. Without
+   * them, a key pair is generated once and kept in the agent's cache so subscriptions survive
+   * restarts.
+   */
+  async getVapidKeys(): Promise<VapidKeys | null> {
+    if (this.vapidKeys) return this.vapidKeys;
+
+    const publicKey = this.runtime.getSetting('TODO_VAPID_PUBLIC_KEY');
+    const privateKey = this.runtime.getSetting('TODO_VAPID_PRIVATE_KEY');
+    if (publicKey && privateKey) {
+      this.vapidKeys = { publicKey: String(publicKey), privateKey: String(privateKey) };
+      return this.vapidKeys;
+    }
+
+    try {
+      let keys = await this.runtime.getCache<VapidKeys>(VAPID_KEYS_CACHE_KEY);
+      if (!keys) {
+        keys = generateVapidKeys();
+        if (!(await this.runtime.setCache(VAPID_KEYS_CACHE_KEY, keys))) {
+          logger.warn('Generated VAPID keys could not be stored; subscriptions will not survive');
+        }
+      }
+      this.vapidKeys = keys;
+      return keys;
+    } catch (error) {
+      logDbError(this.runtime, 'Error loading VAPID keys', error);
+      return null;
+    }
+  }
+
+  /**
+   * Save a browser's subscription for a user, replacing any earlier one for the same endpoint
+   */
+  async saveSubscription(
+    entityId: UUID,
+    subscription: PushSubscriptionData,
+    userAgent?: string
+  ): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+      const keys = { p256dh: subscription.keys.p256dh, auth: subscription.keys.auth };
+
+      await db
+        .insert(todoPushSubscriptionsTable)
+        .values({
+          agentId: this.runtime.agentId,
+          entityId,
+          endpoint: subscription.endpoint,
+          ...keys,
+          userAgent: userAgent ?? null,
+        })
+        .onConflictDoUpdate({
+          target: [todoPushSubscriptionsTable.agentId, todoPushSubscriptionsTable.endpoint],
+          set: { entityId, ...keys, userAgent: userAgent ?? null, updatedAt: new Date() },
+        });
+
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, `Error saving push subscription for ${entityId}`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a subscription, e.g. when the user turns push off in that browser
+   */
+  async removeSubscription(endpoint: string): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .delete(todoPushSubscriptionsTable)
+        .where(
+          and(
+            eq(todoPushSubscriptionsTable.agentId, this.runtime.agentId),
+            eq(todoPushSubscriptionsTable.endpoint, endpoint)
+          )
+        )
+        .returning({ id: todoPushSubscriptionsTable.id });
+
+      return rows.length > 0;
+    } catch (error) {
+      logDbError(this.runtime, 'Error removing push subscription', error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the browsers subscribed for a user
+   */
+  async getSubscriptions(entityId: UUID): Promise<PushSubscriptionRecord[]> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoPushSubscriptionsTable)
+        .where(
+          and(
+            eq(todoPushSubscriptionsTable.agentId, this.runtime.agentId),
+            eq(todoPushSubscriptionsTable.entityId, entityId)
+          )
+        );
+
+      return rows.map((row: any) => ({
+        id: row.id as UUID,
+        entityId: row.entityId as UUID,
+        endpoint: row.endpoint,
+        keys: { p256dh: row.p256dh, auth: row.auth },
+        userAgent: row.userAgent ?? null,
+        lastPushedAt: row.lastPushedAt ? new Date(row.lastPushedAt) : null,
+        createdAt: new Date(row.createdAt),
+      }));
+    } catch (error) {
+      logDbError(this.runtime, `Error getting push subscriptions for ${entityId}`, error);
+      return [];
+    }
+  }
+
+  /**
+   * Push a message to every browser the user subscribed. Subscriptions the push service reports
+   * as gone are removed.
+   */
+  async sendToEntity(
+    entityId: UUID,
+    message: PushMessage,
+    options: WebPushOptions = {}
+  ): Promise<PushResult> {
+    const result: PushResult = { delivered: 0, failed: 0, removed: 0 };
+    const subscriptions = await this.getSubscriptions(entityId);
+    if (subscriptions.length === 0) return result;
+
+    const keys = await this.getVapidKeys();
+    if (!keys) {
+      result.failed = subscriptions.length;
+      return result;
+    }
+
+    const subject = String(this.runtime.getSetting('TODO_VAPID_SUBJECT') || DEFAULT_VAPID_SUBJECT);
+    const payload = JSON.stringify(message);
+
+    for (const subscription of subscriptions) {
+      try {
+        const sent = await sendWebPush(subscription, payload, keys, subject, options);
+        if (sent.delivered) {
+          result.delivered++;
+          await this.markPushed(subscription.id);
+        } else if (sent.gone) {
+          result.removed++;
+          await this.removeSubscription(subscription.endpoint);
+        } else {
+          result.failed++;
+          logger.warn(`Push to ${new URL(subscription.endpoint).host} failed: ${sent.error}`);
+        }
+      } catch (error) {
+        result.failed++;
+        logger.warn(`Error pushing to subscription ${subscription.id}: ${String(error)}`);
+      }
+    }
+
+    return result;
+  }
+
+  private async markPushed(subscriptionId: UUID): Promise<void> {
+    try {
+      const { db } = this.runtime;
+      await db
+        .update(todoPushSubscriptionsTable)
+        .set({ lastPushedAt: new Date() })
+        .where(eq(todoPushSubscriptionsTable.id, subscriptionId));
+    } catch (error) {
+      logDbError(this.runtime, `Error updating push subscription ${subscriptionId}`, error);
+    }
+  }
+}
+
+/**
+ * Create a new PushSubscriptionService instance
+ */
+export function createPushSubscriptionService(runtime: IAgentRuntime): PushSubscriptionService {
+  return new PushSubscriptionService(runtime);
+}
@@ -0,0 +1,123 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { desc, eq } from 'drizzle-orm';
+import { todoRemindersTable } from '../schema';
+import type { TodoData } from './todoDataService';
+import { logDbError } from './transactions';
+
+// 'contact' is the user's accountability contact
+export type ReminderChannel = 'in_app' | 'rolodex' | 'contact';
+export type ReminderOutcome = 'pending' | 'sent' | 'failed';
+
+/**
+ * A reminder sent, or being sent, for a todo
+ */
+export interface ReminderRecord {
+  id: UUID;
+  todoId: UUID;
+  entityId: UUID;
+  reminderType: string;
+  channel: ReminderChannel;
+  windowKey: string;
+  outcome: ReminderOutcome;
+  error?: string | null;
+  sentAt: Date;
+}
+
+/**
+ * Keeps the history of reminders sent so they are not repeated across restarts or agent
+ * instances
+ */
+export class ReminderHistoryService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Claim a reminder window before sending. Returns the id of the new history record, or null
+   * if a reminder was already sent in this window (or the claim failed), in which case the
+   * reminder must not be sent.
+   */
+  async claimReminder(
+    todo: TodoData,
+    reminderType: string,
+    channel: ReminderChannel,
+    windowKey: string,
+    sentAt: Date = new Date()
+  ): Promise<UUID | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [claimed] = await db
+        .insert(todoRemindersTable)
+        .values({
+          agentId: this.runtime.agentId,
+          todoId: todo.id,
+          entityId: todo.entityId,
+          reminderType,
+          channel,
+          windowKey,
+          sentAt,
+        })
+        .onConflictDoNothing()
+        .returning({ id: todoRemindersTable.id });
+
+      return (claimed?.id as UUID) ?? null;
+    } catch (error) {
+      logDbError(this.runtime, `Error claiming reminder for todo ${todo.id}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Record whether a claimed reminder was delivered
+   */
+  async recordOutcome(
+    reminderId: UUID,
+    outcome: Exclude<ReminderOutcome, 'pending'>,
+    error?: string
+  ): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .update(todoRemindersTable)
+        .set({ outcome, error: error ?? null })
+        .where(eq(todoRemindersTable.id, reminderId));
+
+      return true;
+    } catch (err) {
+      logDbError(this.runtime, 'Error recording reminder outcome', err);
+      return false;
+    }
+  }
+
+  /**
+   * Get the reminders sent for a todo, most recent first
+   */
+  async getReminderHistory(todoId: UUID, limit: number = 50): Promise<ReminderRecord[]> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoRemindersTable)
+        .where(eq(todoRemindersTable.todoId, todoId))
+        .orderBy(desc(todoRemindersTable.sentAt))
+        .limit(limit);
+
+      return rows as ReminderRecord[];
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting reminder history', error);
+      return [];
+    }
+  }
+}
+
+/**
+ * Create a new ReminderHistoryService instance
+ */
+export function createReminderHistoryService(runtime: IAgentRuntime): ReminderHistoryService {
+  return new ReminderHistoryService(runtime);
+}
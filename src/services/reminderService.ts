@@ -6,9 +6,47 @@ import {
   type UUID,
   type Memory,
 } from '@elizaos/core';
+import {
+  createDigestService,
+  formatDigest,
+  isDigestEmpty,
+  type DigestKind,
+} from './digestService';
+import {
+  createNotificationDeliveryService,
+  type DeliveryReceipt,
+} from './notificationDeliveryService';
+import {
+  createNotificationPreferencesService,
+  resolvePreferences,
+} from './notificationPreferencesService';
+import { createReminderHistoryService, type ReminderChannel } from './reminderHistoryService';
+import { createTodoScoringService } from './scoringService';
 import { createTodoDataService, type TodoData } from './todoDataService';
-import { NotificationManager } from './notificationManager';
+import { getTodoEventStream } from './todoEventStream';
+import {
+  NotificationManager,
+  type DigestPreferences,
+  type NotificationData,
+} from './notificationManager';
 import { CacheManager } from './cacheManager';
+import {
+  DEFAULT_DAILY_REMINDERS,
+  DEFAULT_DUE_DATE_REMINDERS,
+  getDueReminder,
+  REMINDER_GRACE_MS,
+} from '../utils/reminders';
+import {
+  getEscalationLevel,
+  getEscalationReminder,
+  parseEscalationPolicies,
+} from '../utils/escalation';
+import {
+  DEFAULT_TIMEZONE,
+  getNextMidnight,
+  toLocalDateString,
+  toZonedTime,
+} from '../utils/timezone';
 
 // Import rolodex services for actual message delivery
 type MessageDeliveryService = any; // Temporary type until we can properly import
@@ -19,14 +57,19 @@ interface ReminderMessage {
   message: string;
   priority: 'low' | 'medium' | 'high';
   platforms?: string[];
-  metadata?: {
-    todoId: UUID;
-    todoName: string;
-    reminderType: string;
-    dueDate?: Date;
-  };
+  metadata?:
+    | {
+        todoId: UUID;
+        todoName: string;
+        reminderType: string;
+        dueDate?: Date;
+        actions?: NotificationData['actions'];
+      }
+    | { digest: DigestKind; date: string };
 }
 
+const DEFAULT_ARCHIVE_RETENTION_DAYS = 30;
+
 /**
  * Main todo reminder service that handles all reminder functionality
  */
@@ -38,9 +81,10 @@ export class TodoReminderService extends Service {
   private notificationManager!: NotificationManager;
   private cacheManager!: CacheManager;
   private reminderTimer: NodeJS.Timeout | null = null;
+  private dailyResetTimer: NodeJS.Timeout | null = null;
+  private isRunning = true;
   private rolodexMessageService: MessageDeliveryService | null = null;
   private rolodexEntityService: EntityRelationshipService | null = null;
-  private lastReminderCheck: Map<UUID, number> = new Map(); // Track last reminder time per todo
 
   static async start(runtime: IAgentRuntime): Promise<TodoReminderService> {
     logger.info('Starting TodoReminderService...');
@@ -72,6 +116,14 @@ export class TodoReminderService extends Service {
 
     // Start reminder checking loop
     this.startReminderLoop();
+
+    // Catch up on resets missed while the agent was offline, then reset at each local midnight
+    this.checkRecurringTodos().catch((error) => {
+      logger.error('Error in initial daily reset:', error);
+    });
+    this.scheduleDailyReset().catch((error) => {
+      logger.error('Error scheduling daily reset:', error);
+    });
   }
 
   private startReminderLoop(): void {
@@ -82,9 +134,12 @@ export class TodoReminderService extends Service {
     // Check for reminders every 30 seconds for better responsiveness
     this.reminderTimer = setInterval(
       () => {
-        this.checkTasksForReminders().catch((error) => {
-          logger.error('Error in reminder loop:', error);
-        });
+        this.checkTasksForReminders()
+          .then(() => this.sendDueDigests())
+          .then(() => this.retryFailedDeliveries())
+          .catch((error) => {
+            logger.error('Error in reminder loop:', error);
+          });
       },
       30 * 1000 // 30 seconds instead of 5 minutes
     );
@@ -97,16 +152,104 @@ export class TodoReminderService extends Service {
     logger.info('Reminder loop started - checking every 30 seconds');
   }
 
+  /**
+   * Schedule the next daily reset at the earliest upcoming local midnight among all users
+   */
+  private async scheduleDailyReset(): Promise<void> {
+    if (this.dailyResetTimer) {
+      clearTimeout(this.dailyResetTimer);
+    }
+
+    const timezones = await createTodoDataService(this.runtime).getUserTimezones();
+    const now = new Date();
+    const nextMidnight = Math.min(
+      ...[DEFAULT_TIMEZONE, ...timezones.values()].map((timeZone) =>
+        getNextMidnight(timeZone, now).getTime()
+      )
+    );
+
+    // Re-plan at least hourly so newly set timezones are picked up
+    const delay = Math.min(nextMidnight - now.getTime() + 1000, 60 * 60 * 1000);
+
+    this.dailyResetTimer = setTimeout(() => {
+      this.dailyResetTimer = null;
+      Promise.all([this.checkRecurringTodos(), this.purgeExpiredArchives()])
+        .catch((error) => {
+          logger.error('Error in daily reset:', error);
+        })
+        .finally(() => {
+          if (this.isRunning) {
+            this.scheduleDailyReset().catch((error) => {
+              logger.error('Error scheduling daily reset:', error);
+            });
+          }
+        });
+    }, delay);
+
+    logger.debug(`Next daily reset in ${Math.round(delay / 60000)} minutes`);
+  }
+
+  /**
+   * Break streaks of missed occurrences and reopen completed recurring todos whose next
+   * occurrence has arrived in each user's timezone
+   */
+  async checkRecurringTodos(): Promise<number> {
+    try {
+      const filters = { agentId: this.runtime.agentId };
+      await createTodoScoringService(this.runtime).breakMissedStreaks(filters);
+
+      const dataService = createTodoDataService(this.runtime);
+      return await dataService.resetDailyTodos(filters);
+    } catch (error) {
+      logger.error(`Error checking recurring todos: ${String(error)}`);
+      return 0;
+    }
+  }
+
+  /**
+   * Permanently delete todos that have been archived for longer than the retention period,
+   * configured in days with TODO_ARCHIVE_RETENTION_DAYS (default 30, 0 keeps them forever)
+   */
+  async purgeExpiredArchives(now: Date = new Date()): Promise<number> {
+    try {
+      const setting = this.runtime.getSetting('TODO_ARCHIVE_RETENTION_DAYS');
+      const retentionDays =
+        setting !== undefined && setting !== null && setting !== ''
+          ? Number(setting)
+          : DEFAULT_ARCHIVE_RETENTION_DAYS;
+      if (!Number.isFinite(retentionDays) || retentionDays <= 0) return 0;
+
+      const archivedBefore = new Date(now.getTime() - retentionDays * 24 * 60 * 60 * 1000);
+      const dataService = createTodoDataService(this.runtime);
+      return await dataService.purgeArchivedTodos(archivedBefore, {
+        agentId: this.runtime.agentId,
+      });
+    } catch (error) {
+      logger.error(`Error purging archived todos: ${String(error)}`);
+      return 0;
+    }
+  }
+
   async checkTasksForReminders(): Promise<void> {
     try {
       const dataService = createTodoDataService(this.runtime);
 
       // Get all incomplete todos
       const todos = await dataService.getTodos({ isCompleted: false });
+      const timezones = await dataService.getUserTimezones();
+
+      const now = new Date();
 
       for (const todo of todos) {
         try {
-          await this.processTodoReminder(todo);
+          if (todo.dueDate && new Date(todo.dueDate) < now) {
+            await dataService.markOverdue(todo);
+          }
+          await this.processTodoReminder(
+            todo,
+            timezones.get(todo.entityId) ?? DEFAULT_TIMEZONE,
+            now
+          );
         } catch (error) {
           logger.error(`Error processing reminder for todo ${todo.id}: ${String(error)}`);
         }
@@ -116,108 +259,349 @@ export class TodoReminderService extends Service {
     }
   }
 
-  private async processTodoReminder(todo: TodoData): Promise<void> {
-    const now = new Date();
-    let shouldRemind = false;
-    let reminderType = 'general';
-    let priority: 'low' | 'medium' | 'high' = 'medium';
+  /**
+   * Send the daily and weekly digests that are due at their scheduled time in each user's
+   * timezone. Returns the number of digests sent.
+   */
+  async sendDueDigests(now: Date = new Date()): Promise<number> {
+    try {
+      const rows = await createNotificationPreferencesService(this.runtime).getAllPreferences();
+      const subscribers = rows.filter(
+        (row) => !row.roomId && (row.preferences.digest?.daily || row.preferences.digest?.weekly)
+      );
+      if (subscribers.length === 0) return 0;
+
+      const timezones = await createTodoDataService(this.runtime).getUserTimezones();
+      let sent = 0;
+
+      for (const { entityId, preferences } of subscribers) {
+        const prefs = resolvePreferences(preferences);
+        const digestPrefs = prefs.digest!;
+        const timeZone = timezones.get(entityId) ?? DEFAULT_TIMEZONE;
+        if (!prefs.enabled) continue;
+        if (!getDueReminder([{ type: 'time', time: digestPrefs.time }], null, now, timeZone)) {
+          continue;
+        }
+
+        const kinds: DigestKind[] = [];
+        if (digestPrefs.daily) kinds.push('daily');
+        if (digestPrefs.weekly && toZonedTime(now, timeZone).getDay() === digestPrefs.weeklyDay) {
+          kinds.push('weekly');
+        }
 
-    // Check last reminder time to avoid spam
-    const lastReminder = this.lastReminderCheck.get(todo.id) || 0;
-    const timeSinceLastReminder = now.getTime() - lastReminder;
-    const MIN_REMINDER_INTERVAL = 30 * 60 * 1000; // 30 minutes
+        for (const kind of kinds) {
+          try {
+            if (await this.sendDigest(entityId, kind, digestPrefs, timeZone, now)) sent++;
+          } catch (error) {
+            logger.error(`Error sending ${kind} digest to ${entityId}: ${String(error)}`);
+          }
+        }
+      }
 
-    if (timeSinceLastReminder < MIN_REMINDER_INTERVAL) {
-      return; // Skip if we reminded recently
+      return sent;
+    } catch (error) {
+      logger.error(`Error sending digests: ${String(error)}`);
+      return 0;
     }
+  }
 
-    // Check if overdue
-    if (todo.dueDate && todo.dueDate < now) {
-      shouldRemind = true;
-      reminderType = 'overdue';
-      priority = 'high';
+  /**
+   * Build and deliver one digest, at most once per user, kind and local day
+   */
+  private async sendDigest(
+    entityId: UUID,
+    kind: DigestKind,
+    digestPrefs: DigestPreferences,
+    timeZone: string,
+    now: Date
+  ): Promise<boolean> {
+    const digestService = createDigestService(this.runtime);
+    const claimed = await digestService.claimDigest(
+      entityId,
+      kind,
+      toLocalDateString(now, timeZone),
+      now
+    );
+    if (!claimed) return false;
+
+    const digest =
+      kind === 'daily'
+        ? await digestService.buildDailyDigest(entityId, now, timeZone)
+        : await digestService.buildWeeklyDigest(entityId, now, timeZone);
+    if (isDigestEmpty(digest)) {
+      logger.debug(`Skipping empty ${kind} digest for ${entityId}`);
+      return false;
     }
-    // Check if upcoming (within 30 minutes)
-    else if (todo.dueDate) {
-      const timeUntilDue = todo.dueDate.getTime() - now.getTime();
-      if (timeUntilDue < 30 * 60 * 1000 && timeUntilDue > 0) {
-        shouldRemind = true;
-        reminderType = 'upcoming';
-        priority = todo.isUrgent ? 'high' : 'medium';
-      }
+
+    const { title, body } = formatDigest(digest);
+    let delivered = false;
+
+    if (digestPrefs.channels.includes('in_app') && digest.roomId) {
+      await this.notificationManager.queueNotification({
+        title,
+        body,
+        type: 'digest',
+        roomId: digest.roomId,
+        entityId,
+        priority: 'low',
+      });
+      delivered = true;
     }
-    // Check daily tasks (remind in morning and evening)
-    else if (todo.type === 'daily') {
-      const hour = now.getHours();
-      // Morning reminder at 9 AM
-      if (hour === 9 || hour === 18) { // Evening reminder at 6 PM
-        // Check if completed today
-        const today = new Date();
-        today.setHours(0, 0, 0, 0);
-
-        if (!todo.completedAt || todo.completedAt < today) {
-          shouldRemind = true;
-          reminderType = 'daily';
-          priority = 'low';
-        }
+
+    if (
+      digestPrefs.channels.includes('rolodex') &&
+      this.rolodexMessageService &&
+      this.rolodexEntityService
+    ) {
+      const receipt = await this.deliverViaRolodex(
+        {
+          entityId,
+          message: `${title}\n\n${body}`,
+          priority: 'low',
+          metadata: { digest: kind, date: digest.date },
+        },
+        'rolodex'
+      );
+      delivered = delivered || receipt.delivered;
+    }
+
+    logger.info(`Sent ${kind} digest to ${entityId}`);
+    return delivered;
+  }
+
+  private async processTodoReminder(
+    todo: TodoData,
+    timeZone: string = DEFAULT_TIMEZONE,
+    now: Date = new Date()
+  ): Promise<void> {
+    // Nothing can be done about a blocked task until its dependencies are completed
+    if (todo.isBlocked) {
+      return;
+    }
+
+    // Snoozed todos stay quiet until the snooze ends, then get a single reminder
+    if (todo.snoozedUntil) {
+      const snoozedUntil = new Date(todo.snoozedUntil);
+      if (snoozedUntil > now) {
+        return;
+      }
+      if (now.getTime() - snoozedUntil.getTime() < REMINDER_GRACE_MS) {
+        const isOverdue = !!todo.dueDate && todo.dueDate < now;
+        await this.sendReminder(
+          todo,
+          isOverdue ? 'overdue' : 'upcoming',
+          isOverdue || todo.isUrgent ? 'high' : 'medium',
+          `snooze:${snoozedUntil.toISOString()}`,
+          now
+        );
+        return;
       }
     }
 
-    if (shouldRemind) {
-      await this.sendReminder(todo, reminderType, priority);
-      this.lastReminderCheck.set(todo.id, now.getTime());
+    // Scheduled reminders: the todo's own, or the defaults for dated todos and daily habits
+    const schedule = todo.reminders?.length
+      ? todo.reminders
+      : todo.dueDate
+        ? DEFAULT_DUE_DATE_REMINDERS
+        : todo.type === 'daily'
+          ? DEFAULT_DAILY_REMINDERS
+          : [];
+    const scheduled = getDueReminder(schedule, todo.dueDate, now, timeZone);
+    if (scheduled) {
+      const isHabitReminder = scheduled.spec.type === 'time' && todo.type === 'daily';
+      await this.sendReminder(
+        todo,
+        isHabitReminder ? 'daily' : 'upcoming',
+        isHabitReminder ? 'low' : todo.isUrgent ? 'high' : 'medium',
+        scheduled.windowKey,
+        now
+      );
+      return;
+    }
+
+    // Overdue reminders climb the escalation ladder for the todo's priority, backing off
+    // between steps until the maximum is reached
+    if (todo.dueDate && todo.dueDate < now) {
+      const policies = parseEscalationPolicies(this.runtime.getSetting('TODO_ESCALATION_POLICY'));
+      const escalation = getEscalationReminder(
+        policies[getEscalationLevel(todo)],
+        todo.dueDate,
+        Number(todo.metadata?.overdueReminders ?? 0),
+        todo.metadata?.lastReminderSent ? new Date(todo.metadata.lastReminderSent) : null,
+        now
+      );
+      if (escalation) {
+        await this.sendReminder(
+          todo,
+          'overdue',
+          'high',
+          escalation.windowKey,
+          now,
+          escalation.step.channels
+        );
+      }
     }
   }
 
-  private async sendReminder(todo: TodoData, reminderType: string, priority: 'low' | 'medium' | 'high'): Promise<void> {
+  private async sendReminder(
+    todo: TodoData,
+    reminderType: string,
+    priority: 'low' | 'medium' | 'high',
+    windowKey: string,
+    now: Date = new Date(),
+    channels: ReminderChannel[] = ['in_app', 'rolodex']
+  ): Promise<void> {
     try {
+      const history = createReminderHistoryService(this.runtime);
       const title = this.formatReminderTitle(todo, reminderType);
       const body = this.formatReminderBody(todo, reminderType);
+      const actions = this.getReminderActions(todo);
+      const hasRolodex = !!(this.rolodexMessageService && this.rolodexEntityService);
+
+      for (const channel of channels) {
+        if (channel !== 'in_app' && !hasRolodex) continue;
+
+        const contactId =
+          channel === 'contact' ? await this.getAccountabilityContact(todo) : undefined;
+        if (channel === 'contact' && !contactId) continue;
+
+        // Another instance, or this one before a restart, already sent this reminder
+        const reminderId = await history.claimReminder(todo, reminderType, channel, windowKey, now);
+        if (!reminderId) {
+          logger.debug(
+            `Skipping ${reminderType} reminder already sent via ${channel} for todo: ${todo.name}`
+          );
+          continue;
+        }
 
-      // Always send in-app notification
-      await this.notificationManager.queueNotification({
-        title,
-        body,
-        type: reminderType as any,
-        taskId: todo.id,
-        roomId: todo.roomId,
-        priority,
-      });
-
-      // If rolodex is available, send external notifications
-      if (this.rolodexMessageService && this.rolodexEntityService) {
         try {
-          const reminderMessage: ReminderMessage = {
-            entityId: todo.entityId,
-            message: `${title}\n\n${body}`,
-            priority,
-            metadata: {
+          let receipt: DeliveryReceipt = { delivered: true };
+          if (channel === 'in_app') {
+            await this.notificationManager.queueNotification({
+              title,
+              body,
+              type: reminderType as any,
+              taskId: todo.id,
+              roomId: todo.roomId,
+              entityId: todo.entityId,
+              priority,
+              actions,
+            });
+          } else {
+            // Send through rolodex message delivery service, to the user or their contact
+            receipt = await this.deliverViaRolodex(
+              {
+                entityId: contactId ?? todo.entityId,
+                message: contactId ? this.formatContactMessage(todo) : `${title}\n\n${body}`,
+                priority,
+                metadata: {
+                  todoId: todo.id,
+                  todoName: todo.name,
+                  reminderType,
+                  dueDate: todo.dueDate || undefined,
+                  actions: contactId ? undefined : actions,
+                },
+              },
+              channel,
+              { roomId: todo.roomId, taskId: todo.id, reminderId }
+            );
+          }
+          if (receipt.delivered) {
+            await history.recordOutcome(reminderId, 'sent');
+          } else {
+            await history.recordOutcome(reminderId, 'failed', receipt.error);
+          }
+
+          if (receipt.delivered) {
+            logger.info(`Sent ${reminderType} reminder via ${channel} for todo: ${todo.name}`);
+            getTodoEventStream(this.runtime).publish({
+              type: 'reminder',
               todoId: todo.id,
-              todoName: todo.name,
-              reminderType,
-              dueDate: todo.dueDate || undefined,
-            },
-          };
-
-          // Send through rolodex message delivery service
-          await this.sendRolodexReminder(reminderMessage);
-          
-          logger.info(`Sent ${reminderType} reminder via rolodex for todo: ${todo.name}`);
+              reminder: { reminderType, channel },
+            });
+          }
         } catch (error) {
-          logger.error(`Failed to send reminder via rolodex: ${String(error)}`);
+          await history.recordOutcome(reminderId, 'failed', String(error));
+          logger.error(`Failed to send reminder via ${channel}: ${String(error)}`);
         }
       }
-
-      logger.info(`Sent ${reminderType} reminder for todo: ${todo.name}`);
     } catch (error) {
       logger.error(`Error sending reminder for todo ${todo.id}: ${String(error)}`);
     }
   }
 
-  private async sendRolodexReminder(reminder: ReminderMessage): Promise<void> {
+  /**
+   * The entity the user asked to be told when their overdue reminders escalate
+   */
+  private async getAccountabilityContact(todo: TodoData): Promise<UUID | undefined> {
+    const preferences = await this.notificationManager.getPreferences(todo.entityId, todo.roomId);
+    return preferences.accountabilityContactId;
+  }
+
+  /**
+   * Send a message through rolodex with a delivery receipt, so a failed delivery is retried or
+   * dead-lettered instead of lost
+   */
+  private async deliverViaRolodex(
+    reminder: ReminderMessage,
+    channel: ReminderChannel,
+    refs: { roomId?: UUID; taskId?: UUID; reminderId?: UUID } = {}
+  ): Promise<DeliveryReceipt> {
+    const deliveries = createNotificationDeliveryService(this.runtime);
+    const deliveryId = await deliveries.createDelivery(channel, reminder, {
+      entityId: reminder.entityId,
+      ...refs,
+    });
+
+    const receipt = await this.sendRolodexReminder(reminder);
+    if (deliveryId) {
+      await deliveries.recordAttempt(deliveryId, 1, receipt);
+    }
+    return receipt;
+  }
+
+  /**
+   * Resend rolodex deliveries whose retry is due. A reminder that gets through on a retry is
+   * marked sent in the reminder history.
+   */
+  async retryFailedDeliveries(now: Date = new Date()): Promise<number> {
+    if (!this.rolodexMessageService) return 0;
+
+    const deliveries = createNotificationDeliveryService(this.runtime);
+    const history = createReminderHistoryService(this.runtime);
+    const due = await deliveries.claimRetries(['rolodex', 'contact'], now);
+
+    let delivered = 0;
+    for (const delivery of due) {
+      const receipt = await this.sendRolodexReminder(delivery.payload as ReminderMessage);
+      const status = await deliveries.recordAttempt(
+        delivery.id,
+        delivery.attempts + 1,
+        receipt,
+        now
+      );
+
+      if (receipt.delivered) {
+        delivered++;
+        if (delivery.reminderId) await history.recordOutcome(delivery.reminderId, 'sent');
+      } else if (status === 'dead') {
+        logger.warn(`Rolodex delivery ${delivery.id} moved to dead letters: ${receipt.error}`);
+      }
+    }
+
+    if (due.length > 0) {
+      logger.info(`Retried ${due.length} rolodex deliveries, ${delivered} delivered`);
+    }
+    return delivered;
+  }
+
+  /**
+   * Send a message through rolodex. Failures are reported in the receipt rather than thrown.
+   */
+  private async sendRolodexReminder(reminder: ReminderMessage): Promise<DeliveryReceipt> {
     if (!this.rolodexMessageService) {
       logger.warn('Rolodex message service not available');
-      return;
+      return { delivered: false, error: 'Rolodex message service not available' };
     }
 
     try {
@@ -230,17 +614,42 @@ export class TodoReminderService extends Service {
         // Let rolodex determine the best platforms based on entity preferences
       });
 
+      const platforms: string[] = Array.isArray(result?.platforms) ? result.platforms : [];
       if (result && result.success) {
-        logger.info(`Reminder delivered via rolodex to platforms: ${result.platforms?.join(', ') || 'unknown'}`);
-      } else {
-        logger.warn('Rolodex message delivery failed:', result?.error || 'Unknown error');
+        logger.info(
+          `Reminder delivered via rolodex to platforms: ${platforms.join(', ') || 'unknown'}`
+        );
+        return { delivered: true, platforms };
       }
+
+      const error = String(result?.error || 'Unknown error');
+      logger.warn(`Rolodex message delivery failed: ${error}`);
+      return { delivered: false, platforms, error };
     } catch (error) {
       logger.error(`Error sending reminder through rolodex: ${String(error)}`);
-      throw error;
+      return { delivered: false, error: String(error) };
     }
   }
 
+  /**
+   * Buttons for platforms with interactive messages, run as actions with the given options
+   */
+  private getReminderActions(todo: TodoData): NotificationData['actions'] {
+    return [
+      { label: '✅ Complete', action: 'COMPLETE_TODO', options: { taskId: todo.id } },
+      {
+        label: '⏰ Snooze 1 hour',
+        action: 'SNOOZE_TODO',
+        options: { taskId: todo.id, until: '1 hour' },
+      },
+      {
+        label: '🌅 Tomorrow morning',
+        action: 'SNOOZE_TODO',
+        options: { taskId: todo.id, until: 'tomorrow morning' },
+      },
+    ];
+  }
+
   private formatReminderTitle(todo: TodoData, reminderType: string): string {
     switch (reminderType) {
       case 'overdue':
@@ -254,12 +663,19 @@ export class TodoReminderService extends Service {
     }
   }
 
+  private formatContactMessage(todo: TodoData): string {
+    const due = todo.dueDate ? ` (due ${new Date(todo.dueDate).toLocaleString()})` : '';
+    return `👀 Accountability check: a task you're keeping someone accountable for is overdue: "${todo.name}"${due}. Maybe give them a nudge?`;
+  }
+
   private formatReminderBody(todo: TodoData, reminderType: string): string {
     switch (reminderType) {
       case 'overdue':
         return `Your task "${todo.name}" is overdue. Please complete it when possible.`;
       case 'upcoming':
-        return `Your task "${todo.name}" is due soon. Don't forget to complete it!`;
+        return todo.dueDate
+          ? `Your task "${todo.name}" is due soon. Don't forget to complete it!`
+          : `Reminder about your task: ${todo.name}`;
       case 'daily':
         return `Don't forget to complete your daily tasks today!`;
       default:
@@ -277,6 +693,12 @@ export class TodoReminderService extends Service {
       this.reminderTimer = null;
     }
 
+    this.isRunning = false;
+    if (this.dailyResetTimer) {
+      clearTimeout(this.dailyResetTimer);
+      this.dailyResetTimer = null;
+    }
+
     if (this.notificationManager) {
       await this.notificationManager.stop();
     }
@@ -0,0 +1,360 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { and, desc, eq, gte, isNull, not, or, sum } from 'drizzle-orm';
+import { todoCompletionsTable, todosTable } from '../schema';
+import { getNextOccurrence } from '../utils/recurrence';
+import { DEFAULT_TIMEZONE, toZonedTime } from '../utils/timezone';
+import {
+  createTodoDataService,
+  resolveRecurrence,
+  type TodoData,
+} from './todoDataService';
+import { logDbError } from './transactions';
+
+/**
+ * Point values used when scoring a completion
+ */
+export const POINT_VALUES = {
+  base: {
+    daily: 10,
+    'one-off': 20,
+    aspirational: 50,
+  },
+  priorityBonus: {
+    1: 20,
+    2: 10,
+    3: 5,
+    4: 0,
+  } as Record<number, number>,
+  urgentBonus: 10,
+  onTimeBonus: 10,
+  streakBonusPerDay: 2,
+  maxStreakBonus: 20,
+};
+
+/**
+ * Result of scoring a single completion
+ */
+export interface CompletionScore {
+  points: number;
+  isOnTime: boolean | null; // null when the todo has no due date
+  streak: number;
+  longestStreak: number;
+}
+
+/**
+ * A row of the completion ledger
+ */
+export interface CompletionRecord {
+  id: UUID;
+  todoId: UUID;
+  agentId: UUID;
+  worldId: UUID;
+  roomId: UUID;
+  entityId: UUID;
+  completedAt: Date;
+  dueDate?: Date | null;
+  points: number;
+  isOnTime?: boolean | null;
+  streak: number;
+  metadata: any;
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+/**
+ * Awards points for completions, keeps the completion ledger and maintains streaks
+ */
+export class TodoScoringService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Calculate the points a completion earns from type, priority, urgency, lateness and streak
+   */
+  calculatePoints(
+    todo: TodoData,
+    completedAt: Date,
+    streak: number = 0
+  ): { points: number; isOnTime: boolean | null } {
+    let points = POINT_VALUES.base[todo.type] ?? POINT_VALUES.base['one-off'];
+
+    if (todo.type === 'one-off') {
+      points += POINT_VALUES.priorityBonus[todo.priority || 4] ?? 0;
+      if (todo.isUrgent) points += POINT_VALUES.urgentBonus;
+    }
+
+    let isOnTime: boolean | null = null;
+    if (todo.dueDate) {
+      isOnTime = completedAt <= todo.dueDate;
+      // Late completions still count, at half value
+      points = isOnTime ? points + POINT_VALUES.onTimeBonus : Math.ceil(points / 2);
+    }
+
+    if (streak > 1) {
+      points += Math.min((streak - 1) * POINT_VALUES.streakBonusPerDay, POINT_VALUES.maxStreakBonus);
+    }
+
+    return { points, isOnTime };
+  }
+
+  /**
+   * Calculate the streak after completing a recurring todo.
+   *
+   * A completion continues the streak when it belongs to the occurrence right after the
+   * previous completion; completing it late is fine as long as no later occurrence has started.
+   * Days are calendar days in the user's timezone.
+   */
+  calculateStreak(
+    todo: TodoData,
+    completedAt: Date,
+    previous: { completedAt: Date; streak: number } | null,
+    timeZone: string = DEFAULT_TIMEZONE
+  ): number {
+    const rule = resolveRecurrence(todo);
+    if (!rule) return 0;
+    if (!previous) return 1;
+
+    const completedDay = startOfDay(toZonedTime(completedAt, timeZone));
+    const previousAt = toZonedTime(new Date(previous.completedAt), timeZone);
+    if (startOfDay(previousAt).getTime() === completedDay.getTime()) {
+      return Math.max(previous.streak, 1);
+    }
+
+    const anchor = toZonedTime(todo.createdAt, timeZone);
+    const expected = getNextOccurrence(rule, previousAt, { anchor, exclusive: true });
+    if (!expected) return 1;
+    if (expected > completedDay) return Math.max(previous.streak, 1); // Same occurrence
+
+    const following = getNextOccurrence(rule, expected, { anchor, exclusive: true });
+    const missedOccurrence = following !== null && following <= completedDay;
+    return missedOccurrence ? 1 : previous.streak + 1;
+  }
+
+  /**
+   * Score a completion and append it to the ledger
+   */
+  async recordCompletion(todo: TodoData, completedAt: Date = new Date()): Promise<CompletionScore> {
+    const previous = await this.getLastCompletion(todo.id);
+    const timeZone = await createTodoDataService(this.runtime).getUserTimezone(todo.entityId);
+    const streak = this.calculateStreak(todo, completedAt, previous, timeZone);
+    const { points, isOnTime } = this.calculatePoints(todo, completedAt, streak);
+    const longestStreak = Math.max(streak, todo.metadata?.longestStreak || 0);
+
+    try {
+      const { db } = this.runtime;
+
+      await db.insert(todoCompletionsTable).values({
+        todoId: todo.id,
+        agentId: todo.agentId,
+        worldId: todo.worldId,
+        roomId: todo.roomId,
+        entityId: todo.entityId,
+        completedAt,
+        dueDate: todo.dueDate ?? null,
+        points,
+        isOnTime,
+        streak,
+        metadata: {
+          type: todo.type,
+          priority: todo.priority ?? null,
+          isUrgent: todo.isUrgent,
+        },
+      });
+
+      logger.info(`Recorded completion of ${todo.id}: +${points} points, streak ${streak}`);
+    } catch (error) {
+      logDbError(this.runtime, 'Error recording completion', error);
+    }
+
+    return { points, isOnTime, streak, longestStreak };
+  }
+
+  /**
+   * Remove the most recent completion of a todo, e.g. when it is marked as not completed.
+   * Returns the streak the todo had before that completion.
+   */
+  async revokeLastCompletion(todoId: UUID): Promise<number> {
+    try {
+      const { db } = this.runtime;
+
+      const [last, previous] = await db
+        .select()
+        .from(todoCompletionsTable)
+        .where(eq(todoCompletionsTable.todoId, todoId))
+        .orderBy(desc(todoCompletionsTable.completedAt))
+        .limit(2);
+
+      if (last) {
+        await db.delete(todoCompletionsTable).where(eq(todoCompletionsTable.id, last.id));
+      }
+
+      return previous?.streak ?? 0;
+    } catch (error) {
+      logDbError(this.runtime, 'Error revoking completion', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the most recent completion of a todo
+   */
+  async getLastCompletion(todoId: UUID): Promise<CompletionRecord | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [last] = await db
+        .select()
+        .from(todoCompletionsTable)
+        .where(eq(todoCompletionsTable.todoId, todoId))
+        .orderBy(desc(todoCompletionsTable.completedAt))
+        .limit(1);
+
+      return (last as CompletionRecord) || null;
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting last completion', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get completion history with optional filters, most recent first
+   */
+  async getCompletions(filters?: {
+    todoId?: UUID;
+    entityId?: UUID;
+    roomId?: UUID;
+    worldId?: UUID;
+    since?: Date;
+    limit?: number;
+  }): Promise<CompletionRecord[]> {
+    try {
+      const { db } = this.runtime;
+
+      const conditions: any[] = [];
+      if (filters?.todoId) conditions.push(eq(todoCompletionsTable.todoId, filters.todoId));
+      if (filters?.entityId) conditions.push(eq(todoCompletionsTable.entityId, filters.entityId));
+      if (filters?.roomId) conditions.push(eq(todoCompletionsTable.roomId, filters.roomId));
+      if (filters?.worldId) conditions.push(eq(todoCompletionsTable.worldId, filters.worldId));
+      if (filters?.since) conditions.push(gte(todoCompletionsTable.completedAt, filters.since));
+
+      let query = db.select().from(todoCompletionsTable);
+      if (conditions.length > 0) {
+        query = query.where(and(...conditions));
+      }
+      query = query.orderBy(desc(todoCompletionsTable.completedAt));
+      if (filters?.limit) {
+        query = query.limit(filters.limit);
+      }
+
+      return (await query) as CompletionRecord[];
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting completions', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get the total points an entity has earned, optionally since a given date
+   */
+  async getUserPoints(entityId: UUID, since?: Date): Promise<number> {
+    try {
+      const { db } = this.runtime;
+
+      const conditions: any[] = [eq(todoCompletionsTable.entityId, entityId)];
+      if (since) conditions.push(gte(todoCompletionsTable.completedAt, since));
+
+      const [result] = await db
+        .select({ total: sum(todoCompletionsTable.points) })
+        .from(todoCompletionsTable)
+        .where(and(...conditions));
+
+      return Number(result?.total ?? 0);
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting user points', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Reset the streak of recurring todos that missed an occurrence.
+   * Returns the number of streaks broken.
+   */
+  async breakMissedStreaks(
+    filters?: {
+      agentId?: UUID;
+      entityId?: UUID;
+    },
+    now: Date = new Date()
+  ): Promise<number> {
+    try {
+      const { db } = this.runtime;
+
+      const conditions: any[] = [
+        or(eq(todosTable.type, 'daily'), not(isNull(todosTable.recurrence))),
+        isNull(todosTable.archivedAt),
+      ];
+      if (filters?.agentId) conditions.push(eq(todosTable.agentId, filters.agentId));
+      if (filters?.entityId) conditions.push(eq(todosTable.entityId, filters.entityId));
+
+      const todos = await db
+        .select()
+        .from(todosTable)
+        .where(and(...conditions));
+
+      if (todos.length === 0) return 0;
+      const dataService = createTodoDataService(this.runtime);
+      const timezones = await dataService.getUserTimezones();
+
+      let brokenCount = 0;
+
+      for (const todo of todos) {
+        const rule = resolveRecurrence(todo);
+        if (!rule || !todo.metadata?.streak) continue;
+
+        const last = await this.getLastCompletion(todo.id);
+        if (!last) continue;
+
+        // Compare calendar days in the user's timezone
+        const timeZone = timezones.get(todo.entityId) ?? DEFAULT_TIMEZONE;
+        const today = startOfDay(toZonedTime(now, timeZone));
+        const anchor = toZonedTime(todo.createdAt, timeZone);
+        const lastCompletedAt = toZonedTime(new Date(last.completedAt), timeZone);
+
+        // The occurrence after the last completion is missed once the one after it has started
+        const expected = getNextOccurrence(rule, lastCompletedAt, { anchor, exclusive: true });
+        if (!expected) continue;
+        const following = getNextOccurrence(rule, expected, { anchor, exclusive: true });
+        if (!following || following > today) continue;
+
+        const broken = await dataService.mergeMetadata(todo.id, {
+          streak: 0,
+          streakBrokenAt: now.toISOString(),
+        });
+        if (broken) brokenCount++;
+      }
+
+      if (brokenCount > 0) {
+        logger.info(`Broke ${brokenCount} streaks for missed occurrences`);
+      }
+      return brokenCount;
+    } catch (error) {
+      logDbError(this.runtime, 'Error breaking missed streaks', error);
+      return 0;
+    }
+  }
+}
+
+/**
+ * Create a new TodoScoringService instance
+ */
+export function createTodoScoringService(runtime: IAgentRuntime): TodoScoringService {
+  return new TodoScoringService(runtime);
+}
@@ -0,0 +1,343 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { parseDateString, toDateString } from '../utils/recurrence';
+import { fromZonedTime, toZonedTime } from '../utils/timezone';
+import { createTodoScoringService } from './scoringService';
+import { createTodoDataService, type TodoData, type TodoDataService } from './todoDataService';
+
+export type BulkAction = 'complete' | 'cancel' | 'update' | 'tag';
+
+/**
+ * Fields a bulk update can change. Priority and urgency only apply to one-off todos.
+ */
+export interface BulkTodoChanges {
+  name?: string;
+  description?: string;
+  priority?: number;
+  urgent?: boolean;
+  dueDate?: string | null; // ISO date or date-time; null removes the due date
+}
+
+/**
+ * One operation of a bulk request
+ */
+export interface BulkOperation {
+  action: BulkAction;
+  todoId: UUID;
+  changes?: BulkTodoChanges; // For update
+  addTags?: string[]; // For tag
+  removeTags?: string[]; // For tag
+}
+
+/**
+ * What one operation did
+ */
+export interface BulkOperationOutcome {
+  index: number;
+  action: BulkAction;
+  todoId: UUID;
+  name: string;
+  points?: number; // For complete
+  streak?: number; // For complete
+}
+
+/**
+ * Why an operation could not be applied. Operations are numbered from 0.
+ */
+export interface BulkOperationError {
+  index: number;
+  todoId?: string;
+  error: string;
+}
+
+/**
+ * What a bulk request did. Operations are applied all together or not at all, so when there
+ * are errors nothing was changed.
+ */
+export interface BulkOperationResult {
+  applied: number;
+  outcomes: BulkOperationOutcome[];
+  errors: BulkOperationError[];
+  rolledBack: boolean; // The operations were valid but writing them failed
+}
+
+export const BULK_ACTIONS: BulkAction[] = ['complete', 'cancel', 'update', 'tag'];
+
+// Actions after which a todo can't be completed or cancelled again
+const FINAL_ACTIONS: BulkAction[] = ['complete', 'cancel'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const isStringList = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string' && item.trim() !== '');
+
+/**
+ * Check the shape of a bulk operation. Returns the problems found, if any.
+ */
+export function validateBulkOperation(operation: any): string[] {
+  if (!operation || typeof operation !== 'object') return ['Operation must be an object'];
+
+  const errors: string[] = [];
+  if (!BULK_ACTIONS.includes(operation.action)) {
+    errors.push(`action must be one of ${BULK_ACTIONS.join(', ')}`);
+  }
+  if (typeof operation.todoId !== 'string' || !operation.todoId) {
+    errors.push('todoId is required');
+  }
+
+  if (operation.action === 'update') {
+    const changes = operation.changes;
+    if (!changes || typeof changes !== 'object' || Object.keys(changes).length === 0) {
+      errors.push('changes are required for update');
+    } else {
+      if (
+        changes.name !== undefined &&
+        (typeof changes.name !== 'string' || !changes.name.trim())
+      ) {
+        errors.push('name must be a non-empty string');
+      }
+      if (changes.description !== undefined && typeof changes.description !== 'string') {
+        errors.push('description must be a string');
+      }
+      if (
+        changes.priority !== undefined &&
+        !(Number.isInteger(changes.priority) && changes.priority >= 1 && changes.priority <= 4)
+      ) {
+        errors.push(`priority must be 1 to 4: ${changes.priority}`);
+      }
+      if (changes.urgent !== undefined && typeof changes.urgent !== 'boolean') {
+        errors.push('urgent must be true or false');
+      }
+      if (
+        changes.dueDate !== undefined &&
+        changes.dueDate !== null &&
+        (typeof changes.dueDate !== 'string' || isNaN(new Date(changes.dueDate).getTime()))
+      ) {
+        errors.push(`Invalid dueDate: ${changes.dueDate}`);
+      }
+    }
+  }
+
+  if (operation.action === 'tag') {
+    const { addTags, removeTags } = operation;
+    if (addTags === undefined && removeTags === undefined) {
+      errors.push('addTags or removeTags is required for tag');
+    }
+    if (addTags !== undefined && !isStringList(addTags)) {
+      errors.push('addTags must be a list of tags');
+    }
+    if (removeTags !== undefined && !isStringList(removeTags)) {
+      errors.push('removeTags must be a list of tags');
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Completes, cancels, updates and retags several todos at once, in one transaction
+ */
+export class TodoBulkService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Check and apply a list of operations. Nothing is changed unless every operation can be
+   * applied; they then run in order in one transaction.
+   */
+  async applyOperations(operations: BulkOperation[]): Promise<BulkOperationResult> {
+    const result: BulkOperationResult = {
+      applied: 0,
+      outcomes: [],
+      errors: [],
+      rolledBack: false,
+    };
+    const dataService = createTodoDataService(this.runtime);
+
+    // Load and check every todo before writing anything
+    const todos = new Map<UUID, TodoData>();
+    const finalActions = new Map<UUID, BulkAction>();
+    for (const [index, operation] of operations.entries()) {
+      const problems = validateBulkOperation(operation);
+      if (problems.length > 0) {
+        result.errors.push(
+          ...problems.map((error) => ({ index, todoId: operation?.todoId, error }))
+        );
+        continue;
+      }
+
+      const todo = todos.get(operation.todoId) ?? (await dataService.getTodo(operation.todoId));
+      if (!todo) {
+        result.errors.push({ index, todoId: operation.todoId, error: 'Task not found' });
+        continue;
+      }
+      todos.set(todo.id, todo);
+
+      const finalAction = finalActions.get(todo.id);
+      if (todo.archivedAt) {
+        result.errors.push({ index, todoId: todo.id, error: 'Task is archived' });
+      } else if (operation.action === 'complete' && todo.isCompleted) {
+        result.errors.push({ index, todoId: todo.id, error: 'Task already completed' });
+      } else if (finalAction && FINAL_ACTIONS.includes(operation.action)) {
+        const done = finalAction === 'complete' ? 'completed' : 'cancelled';
+        result.errors.push({
+          index,
+          todoId: todo.id,
+          error: `Task already ${done} in this request`,
+        });
+      } else if (FINAL_ACTIONS.includes(operation.action)) {
+        finalActions.set(todo.id, operation.action);
+      }
+    }
+    if (result.errors.length > 0) return result;
+
+    let current = 0;
+    try {
+      await dataService.withTransaction(async (service, runtime) => {
+        for (const [index, operation] of operations.entries()) {
+          current = index;
+          const todo = todos.get(operation.todoId)!;
+          const outcome: BulkOperationOutcome = {
+            index,
+            action: operation.action,
+            todoId: todo.id,
+            name: operation.changes?.name ?? todo.name,
+          };
+
+          if (operation.action === 'complete') {
+            Object.assign(outcome, await this.completeTodo(service, runtime, todo));
+          } else if (operation.action === 'cancel') {
+            await this.check(service.archiveTodo(todo.id, { cancelled: true }));
+          } else if (operation.action === 'update') {
+            await this.updateTodo(service, todo, operation.changes!);
+          } else {
+            const removeTags = operation.removeTags ?? [];
+            const addTags = operation.addTags ?? [];
+            if (removeTags.length > 0) await this.check(service.removeTags(todo.id, removeTags));
+            if (addTags.length > 0) await this.check(service.addTags(todo.id, addTags));
+          }
+
+          result.outcomes.push(outcome);
+        }
+      });
+      result.applied = result.outcomes.length;
+    } catch (error) {
+      logger.error(`Error applying bulk operations: ${String(error)}`);
+      result.outcomes = [];
+      result.rolledBack = true;
+      result.errors.push({
+        index: current,
+        todoId: operations[current]?.todoId,
+        error: String(error),
+      });
+    }
+    return result;
+  }
+
+  /**
+   * Score and complete a todo, completing its parent when this was the last open subtask
+   */
+  private async completeTodo(
+    service: TodoDataService,
+    runtime: IAgentRuntime,
+    todo: TodoData
+  ): Promise<Pick<BulkOperationOutcome, 'points' | 'streak'>> {
+    const now = new Date();
+    const score = await createTodoScoringService(runtime).recordCompletion(todo, now);
+    const metadata: Record<string, any> = {
+      ...todo.metadata,
+      completedAt: now.toISOString(),
+      streak: score.streak,
+      longestStreak: score.longestStreak,
+      pointsAwarded: score.points,
+    };
+    if (todo.type === 'daily') {
+      const timeZone = await service.getUserTimezone(todo.entityId);
+      metadata.completedToday = true;
+      metadata.lastCompletedDate = toDateString(toZonedTime(now, timeZone));
+    }
+
+    await this.check(
+      service.updateTodo(
+        todo.id,
+        { isCompleted: true, completedAt: now, metadata },
+        { isCompleted: false }
+      )
+    );
+    if (todo.parentId) await service.syncParentCompletion(todo.parentId);
+    return { points: score.points, streak: score.streak };
+  }
+
+  /**
+   * Apply field changes to a todo, keeping its priority and urgent tags in step
+   */
+  private async updateTodo(
+    service: TodoDataService,
+    todo: TodoData,
+    changes: BulkTodoChanges
+  ): Promise<void> {
+    const updates: Record<string, any> = {};
+    const removeTags: string[] = [];
+    const addTags: string[] = [];
+
+    if (changes.name !== undefined) updates.name = changes.name.trim();
+    if (changes.description !== undefined) updates.description = changes.description;
+    if (changes.dueDate !== undefined) {
+      updates.dueDate = changes.dueDate
+        ? await this.resolveDueDate(service, todo, changes.dueDate)
+        : null;
+    }
+    if (todo.type === 'one-off') {
+      if (changes.priority !== undefined && changes.priority !== todo.priority) {
+        updates.priority = changes.priority;
+        removeTags.push(...(todo.tags ?? []).filter((tag) => tag.startsWith('priority-')));
+        addTags.push(`priority-${changes.priority}`);
+      }
+      if (changes.urgent !== undefined && changes.urgent !== todo.isUrgent) {
+        updates.isUrgent = changes.urgent;
+        (changes.urgent ? addTags : removeTags).push('urgent');
+      }
+    }
+
+    if (Object.keys(updates).length > 0) await this.check(service.updateTodo(todo.id, updates));
+    if (removeTags.length > 0) await this.check(service.removeTags(todo.id, removeTags));
+    if (addTags.length > 0) await this.check(service.addTags(todo.id, addTags));
+  }
+
+  /**
+   * Read a new due date. A date-only value is that day in the user's timezone, at the time of
+   * day the todo was due before, or midnight if it had no due date.
+   */
+  private async resolveDueDate(
+    service: TodoDataService,
+    todo: TodoData,
+    value: string
+  ): Promise<Date> {
+    if (!DATE_ONLY.test(value)) return new Date(value);
+
+    const timeZone = await service.getUserTimezone(todo.entityId);
+    const dueDate = parseDateString(value);
+    if (todo.dueDate) {
+      const previous = toZonedTime(new Date(todo.dueDate), timeZone);
+      dueDate.setHours(previous.getHours(), previous.getMinutes(), previous.getSeconds(), 0);
+    }
+    return fromZonedTime(dueDate, timeZone);
+  }
+
+  /**
+   * Data service writes report failure by returning false; a failure must roll back the batch
+   */
+  private async check(write: Promise<boolean>): Promise<void> {
+    if (!(await write)) throw new Error('Failed to write todo changes');
+  }
+}
+
+/**
+ * Create a new TodoBulkService instance
+ */
+export function createTodoBulkService(runtime: IAgentRuntime): TodoBulkService {
+  return new TodoBulkService(runtime);
+}
@@ -1,10 +1,43 @@
 import type { IAgentRuntime, UUID } from '@elizaos/core';
 import { logger } from '@elizaos/core';
-import { and, desc, eq, isNull, or, not } from 'drizzle-orm';
+import {
+  and,
+  asc,
+  desc,
+  eq,
+  getTableColumns,
+  inArray,
+  isNull,
+  lt,
+  max,
+  or,
+  not,
+  sql,
+} from 'drizzle-orm';
 import {
   todosTable,
   todoTagsTable,
+  todoDependenciesTable,
+  todoUserSettingsTable,
 } from '../schema';
+import {
+  getNextOccurrence,
+  getOccurrencesBetween,
+  parseDateString,
+  ruleFromFrequency,
+  toDateString,
+  type RecurrenceRule,
+} from '../utils/recurrence';
+import type { ReminderSpec } from '../utils/reminders';
+import {
+  emitTodoEvent,
+  hasTodoEventHandlers,
+  TodoDomainEvents,
+  type TodoDomainEventName,
+} from './domainEvents';
+import { getTodoEventStream, type TodoEvent, type TodoEventType } from './todoEventStream';
+import { logDbError, PENDING_CHANGES, type TransactionRuntime } from './transactions';
+import { DEFAULT_TIMEZONE, fromZonedTime, toZonedTime } from '../utils/timezone';
 
 /**
  * Core todo data structure
@@ -15,6 +48,8 @@ export interface TodoData {
   worldId: UUID;
   roomId: UUID;
   entityId: UUID;
+  parentId?: UUID | null;
+  position?: number;
   name: string;
   description?: string | null;
   type: 'daily' | 'one-off' | 'aspirational';
@@ -22,13 +57,241 @@ export interface TodoData {
   isUrgent: boolean;
   isCompleted: boolean;
   dueDate?: Date | null;
+  recurrence?: RecurrenceRule | null;
+  nextOccurrence?: Date | null; // Computed from recurrence, not stored
+  reminders?: ReminderSpec[] | null; // Custom reminder schedule, null for the defaults
+  snoozedUntil?: Date | null; // No reminders until then, then one as the snooze ends
   completedAt?: Date | null;
+  cancelledAt?: Date | null;
+  archivedAt?: Date | null;
   createdAt: Date;
   updatedAt: Date;
   metadata: any;
   tags?: string[];
+  progress?: SubtaskProgress | null; // Roll-up of subtasks, null when the todo has none
+  dependsOn?: UUID[]; // Todos this todo depends on
+  blockedBy?: UUID[]; // Dependencies that are still open
+  isBlocked?: boolean; // True while any dependency is open
+  subtasks?: TodoData[]; // Filled in by nestSubtasks
+}
+
+/**
+ * The fields of a todo to create
+ */
+export interface NewTodo {
+  agentId: UUID;
+  worldId: UUID;
+  roomId: UUID;
+  entityId: UUID;
+  name: string;
+  description?: string;
+  type: 'daily' | 'one-off' | 'aspirational';
+  priority?: number;
+  isUrgent?: boolean;
+  dueDate?: Date;
+  recurrence?: RecurrenceRule;
+  reminders?: ReminderSpec[];
+  parentId?: UUID;
+  position?: number;
+  isCompleted?: boolean; // E.g. for imported todos that were already done
+  completedAt?: Date;
+  metadata?: any;
+  tags?: string[];
+}
+
+/**
+ * The outcome of creating several todos at once
+ */
+export interface BulkCreateResult {
+  created: { index: number; id: UUID; name: string }[]; // index is the position in the batch
+  duplicates: { index: number; name: string; todoId: UUID }[]; // todoId is the todo it matched
+}
+
+/**
+ * Completion progress of a todo's subtasks
+ */
+export interface SubtaskProgress {
+  completed: number;
+  total: number;
+  percent: number;
+}
+
+/**
+ * Todo columns plus subtask counts and dependencies, so they are rolled up in the same query
+ */
+const todoWithRollupColumns = {
+  ...getTableColumns(todosTable),
+  dependsOn: sql<UUID[]>`coalesce((select array_agg(dependency.depends_on_id) from todo_dependencies as dependency where dependency.todo_id = ${todosTable.id}), '{}')`,
+  blockedBy: sql<UUID[]>`coalesce((select array_agg(dependency.depends_on_id) from todo_dependencies as dependency join todos as blocker on blocker.id = dependency.depends_on_id where dependency.todo_id = ${todosTable.id} and blocker.is_completed = false and blocker.archived_at is null), '{}')`,
+  subtaskTotal: sql<number>`(select count(*)::int from todos as subtask where subtask.parent_id = ${todosTable.id} and subtask.archived_at is null)`,
+  subtaskCompleted: sql<number>`(select count(*)::int from todos as subtask where subtask.parent_id = ${todosTable.id} and subtask.archived_at is null and subtask.is_completed = true)`,
+  lastReminderSent: sql<Date | null>`(select max(reminder.sent_at) from todo_reminders as reminder where reminder.todo_id = ${todosTable.id} and reminder.outcome = 'sent')`,
+  overdueReminders: sql<number>`(select count(distinct reminder.window_key)::int from todo_reminders as reminder where reminder.todo_id = ${todosTable.id} and reminder.window_key like 'escalation:%' and reminder.sent_at >= ${todosTable.dueDate})`,
+};
+
+/**
+ * Nest subtasks under their parents, ordered by position. Subtasks whose parent is not in
+ * the list stay at the top level so filtered lists never lose items.
+ */
+export function nestSubtasks(todos: TodoData[]): TodoData[] {
+  const ids = new Set(todos.map((todo) => todo.id));
+  const childrenByParent = new Map<UUID, TodoData[]>();
+
+  for (const todo of todos) {
+    if (!todo.parentId || !ids.has(todo.parentId)) continue;
+    const siblings = childrenByParent.get(todo.parentId) ?? [];
+    siblings.push(todo);
+    childrenByParent.set(todo.parentId, siblings);
+  }
+
+  return todos
+    .filter((todo) => !todo.parentId || !ids.has(todo.parentId))
+    .map((todo) => ({
+      ...todo,
+      subtasks: (childrenByParent.get(todo.id) ?? []).sort(
+        (a, b) => (a.position ?? 0) - (b.position ?? 0)
+      ),
+    }));
+}
+
+/**
+ * Resolve the recurrence rule of a todo row. Daily todos created before recurrence rules
+ * existed fall back to the legacy `metadata.recurring` frequency.
+ */
+export function resolveRecurrence(todo: any): RecurrenceRule | null {
+  if (todo.recurrence) return todo.recurrence as RecurrenceRule;
+  if (todo.type !== 'daily') return null;
+  return ruleFromFrequency(todo.metadata?.recurring || 'daily', todo.createdAt ?? new Date());
+}
+
+/**
+ * Find an open todo with the same name among `todos`, so the same task isn't added twice
+ */
+export function findDuplicateTodo<T extends Pick<TodoData, 'name' | 'isCompleted'>>(
+  todos: T[],
+  name: string
+): T | undefined {
+  const key = name.trim();
+  return todos.find((todo) => !todo.isCompleted && todo.name.trim() === key);
+}
+
+/**
+ * Compute the next occurrence of a recurring todo: the pending occurrence while it is open,
+ * or the first one after completion once it is done.
+ */
+function computeNextOccurrence(todo: any): Date | null {
+  const rule = resolveRecurrence(todo);
+  if (!rule) return null;
+
+  const anchor = todo.createdAt ?? undefined;
+  if (todo.isCompleted) {
+    const lastOccurrence = todo.completedAt ?? todo.updatedAt ?? new Date();
+    return getNextOccurrence(rule, lastOccurrence, { anchor, exclusive: true });
+  }
+  return getNextOccurrence(rule, todo.dueDate ?? new Date(), { anchor });
+}
+
+const MAX_MISSED_DATES = 30; // Missed occurrence days kept in metadata
+
+/**
+ * Record missed occurrence days in todo metadata and break the streak
+ */
+function withMissedDates(metadata: any, missed: Date[]): any {
+  const missedDates = new Set<string>([...(metadata.missedDates || []), ...missed.map(toDateString)]);
+  return {
+    ...metadata,
+    missedDates: [...missedDates].slice(-MAX_MISSED_DATES),
+    streak: 0,
+  };
 }
 
+/**
+ * Build the update that reopens a completed recurring todo, or null if it should stay completed.
+ * All day arithmetic happens on wall-clock dates in the user's timezone.
+ */
+function buildReopenUpdate(todo: any, rule: RecurrenceRule, now: Date, timeZone: string): any {
+  const localNow = toZonedTime(now, timeZone);
+  const anchor = toZonedTime(todo.createdAt, timeZone);
+  const completedAt = toZonedTime(todo.completedAt ?? todo.updatedAt, timeZone);
+  const dueDate = todo.dueDate ? toZonedTime(todo.dueDate, timeZone) : null;
+
+  const lastOccurrence = dueDate && dueDate > completedAt ? dueDate : completedAt;
+  const next = getNextOccurrence(rule, lastOccurrence, { anchor, exclusive: true });
+  if (!next) return null; // Recurrence exhausted
+
+  let metadata = {
+    ...(todo.metadata || {}),
+    completedToday: false,
+    lastResetDate: toDateString(localNow),
+  };
+
+  if (!dueDate) {
+    if (next > localNow) return null; // Next occurrence has not started yet
+
+    // Occurrences that passed while the todo was still marked done were missed
+    const missed = getOccurrencesBetween(rule, next, localNow, { anchor });
+    if (missed.length > 0) metadata = withMissedDates(metadata, missed);
+
+    return { isCompleted: false, completedAt: null, metadata };
+  }
+
+  // Keep the time of day of the original due date
+  const nextDueDate = new Date(next);
+  nextDueDate.setHours(dueDate.getHours(), dueDate.getMinutes(), dueDate.getSeconds(), 0);
+
+  return {
+    isCompleted: false,
+    completedAt: null,
+    dueDate: fromZonedTime(nextDueDate, timeZone),
+    metadata,
+  };
+}
+
+/**
+ * Build the update that records missed days of an open recurring habit, or null if none were
+ * missed since the last reset. Dated todos become overdue instead and are left alone.
+ */
+function buildMissedUpdate(todo: any, rule: RecurrenceRule, now: Date, timeZone: string): any {
+  if (todo.dueDate) return null;
+
+  const localNow = toZonedTime(now, timeZone);
+  const anchor = toZonedTime(todo.createdAt, timeZone);
+
+  let since = todo.metadata?.lastResetDate ? parseDateString(todo.metadata.lastResetDate) : anchor;
+  if (todo.metadata?.completedAt) {
+    // The day of the last completion was not missed
+    const dayAfterCompletion = toZonedTime(new Date(todo.metadata.completedAt), timeZone);
+    dayAfterCompletion.setHours(24, 0, 0, 0);
+    if (dayAfterCompletion > since) since = dayAfterCompletion;
+  }
+
+  const missed = getOccurrencesBetween(rule, since, localNow, { anchor });
+  if (missed.length === 0) return null;
+
+  return {
+    metadata: withMissedDates(
+      { ...(todo.metadata || {}), lastResetDate: toDateString(localNow) },
+      missed
+    ),
+  };
+}
+
+// Runtime events emitted for each kind of change on the live event stream
+const DOMAIN_EVENTS: Record<TodoEventType, TodoDomainEventName | null> = {
+  created: TodoDomainEvents.TODO_CREATED,
+  updated: TodoDomainEvents.TODO_UPDATED,
+  completed: TodoDomainEvents.TODO_COMPLETED,
+  deleted: TodoDomainEvents.TODO_DELETED,
+  reminder: null, // Reminders are not changes to the todo
+};
+
+// A change made in a transaction, published once it commits
+type PendingChange = [
+  type: TodoEventType,
+  todoId: UUID,
+  details?: Pick<TodoEvent, 'todo' | 'changes'>,
+];
+
 /**
  * Manages todo data and database operations
  */
@@ -39,62 +302,116 @@ export class TodoDataService {
     this.runtime = runtime;
   }
 
+  // Changes made in the current transaction, if any
+  private get pendingChanges(): PendingChange[] | undefined {
+    return (this.runtime as TransactionRuntime<PendingChange>)[PENDING_CHANGES];
+  }
+
+  /**
+   * Run several changes in one transaction. The callback gets a data service and a runtime
+   * that write through the transaction, so other services created from that runtime take part
+   * too. Nothing is written if the callback throws, and change events are published only once
+   * the transaction commits. Called inside a transaction, the work joins it.
+   *
+   * Inside the transaction, data service methods throw on errors instead of returning false
+   * or null, so a failed statement always fails the whole transaction.
+   */
+  async withTransaction<T>(
+    work: (service: TodoDataService, runtime: IAgentRuntime) => Promise<T>
+  ): Promise<T> {
+    if (this.pendingChanges) return work(this, this.runtime);
+
+    const pendingChanges: PendingChange[] = [];
+
+    const result = await this.runtime.db.transaction(async (tx: any) => {
+      const runtime: IAgentRuntime = Object.create(this.runtime, {
+        db: { value: tx },
+        [PENDING_CHANGES]: { value: pendingChanges },
+      });
+      return work(new TodoDataService(runtime), runtime);
+    });
+
+    for (const change of pendingChanges) {
+      await this.notifyChange(...change);
+    }
+    return result;
+  }
+
   /**
    * Create a new todo
    */
-  async createTodo(data: {
-    agentId: UUID;
-    worldId: UUID;
-    roomId: UUID;
-    entityId: UUID;
-    name: string;
-    description?: string;
-    type: 'daily' | 'one-off' | 'aspirational';
-    priority?: number;
-    isUrgent?: boolean;
-    dueDate?: Date;
-    metadata?: any;
-    tags?: string[];
-  }): Promise<UUID> {
+  async createTodo(data: NewTodo): Promise<UUID> {
     try {
-      const { db } = this.runtime;
+      return await this.withTransaction(async (service) => {
+        const todo = await service.insertTodo(data);
 
-      // Create the todo
-      const [todo] = await db
-        .insert(todosTable)
-        .values({
-          agentId: data.agentId,
-          worldId: data.worldId,
-          roomId: data.roomId,
-          entityId: data.entityId,
-          name: data.name,
-          description: data.description,
-          type: data.type,
-          priority: data.priority,
-          isUrgent: data.isUrgent || false,
-          dueDate: data.dueDate,
-          metadata: data.metadata || {},
-        })
-        .returning();
+        logger.info(`Created todo: ${todo.id} - ${todo.name}`);
+        await service.notifyChange('created', todo.id, {
+          todo: this.toTodoData(todo, data.tags ?? []),
+        });
+        return todo.id;
+      });
+    } catch (error) {
+      logger.error(`Error creating todo: ${String(error)}`);
+      throw error;
+    }
+  }
 
-      if (!todo) {
-        throw new Error('Failed to create todo');
-      }
+  /**
+   * Create several todos in one transaction. Todos named like an open todo of the same user
+   * and room, or like an earlier todo of the batch, are skipped as duplicates.
+   */
+  async createTodos(items: NewTodo[]): Promise<BulkCreateResult> {
+    try {
+      const result: BulkCreateResult = { created: [], duplicates: [] };
 
-      // Add tags if provided
-      if (data.tags && data.tags.length > 0) {
-        await db.insert(todoTagsTable).values(
-          data.tags.map((tag) => ({
-            todoId: todo.id,
-            tag,
-          }))
-        );
-      }
+      // Creation events are published only once the whole batch is committed
+      await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+        // Open todos per user and room, including the ones created so far
+        const openTodos = new Map<string, Pick<TodoData, 'id' | 'name' | 'isCompleted'>[]>();
+
+        for (const [index, item] of items.entries()) {
+          const scope = `${item.entityId}:${item.roomId}`;
+          let open = openTodos.get(scope);
+          if (!open) {
+            open = await db
+              .select({
+                id: todosTable.id,
+                name: todosTable.name,
+                isCompleted: todosTable.isCompleted,
+              })
+              .from(todosTable)
+              .where(
+                and(
+                  eq(todosTable.entityId, item.entityId),
+                  eq(todosTable.roomId, item.roomId),
+                  eq(todosTable.isCompleted, false),
+                  isNull(todosTable.archivedAt)
+                )
+              );
+            openTodos.set(scope, open!);
+          }
 
-      logger.info(`Created todo: ${todo.id} - ${todo.name}`);
-      return todo.id;
+          const duplicate = findDuplicateTodo(open!, item.name);
+          if (duplicate) {
+            result.duplicates.push({ index, name: item.name, todoId: duplicate.id });
+            continue;
+          }
+
+          const todo = await service.insertTodo(item);
+          open!.push({ id: todo.id, name: todo.name, isCompleted: false });
+          result.created.push({ index, id: todo.id, name: todo.name });
+
+          logger.info(`Created todo: ${todo.id} - ${todo.name}`);
+          await service.notifyChange('created', todo.id, {
+            todo: this.toTodoData(todo, item.tags ?? []),
+          });
+        }
+      });
+      return result;
     } catch (error) {
-      logger.error(`Error creating todo: ${String(error)}`);
+      logger.error(`Error creating todos: ${String(error)}`);
       throw error;
     }
   }
@@ -106,7 +423,11 @@ export class TodoDataService {
     try {
       const { db } = this.runtime;
 
-      const [todo] = await db.select().from(todosTable).where(eq(todosTable.id, todoId)).limit(1);
+      const [todo] = await db
+        .select(todoWithRollupColumns)
+        .from(todosTable)
+        .where(eq(todosTable.id, todoId))
+        .limit(1);
 
       if (!todo) {
         return null;
@@ -118,12 +439,9 @@ export class TodoDataService {
         .from(todoTagsTable)
         .where(eq(todoTagsTable.todoId, todoId));
 
-      return {
-        ...todo,
-        tags: tags.map((t) => t.tag),
-      } as TodoData;
+      return this.toTodoData(todo, tags.map((t) => t.tag));
     } catch (error) {
-      logger.error(`Error getting todo: ${String(error)}`);
+      logDbError(this.runtime, 'Error getting todo', error);
       return null;
     }
   }
@@ -138,13 +456,14 @@ export class TodoDataService {
     entityId?: UUID;
     type?: 'daily' | 'one-off' | 'aspirational';
     isCompleted?: boolean;
+    archived?: boolean; // Archived todos are excluded unless set; true returns only archived ones
     tags?: string[];
     limit?: number;
   }): Promise<TodoData[]> {
     try {
       const { db } = this.runtime;
 
-      let query = db.select().from(todosTable);
+      let query = db.select(todoWithRollupColumns).from(todosTable);
 
       // Apply filters
       const conditions: any[] = [];
@@ -155,10 +474,11 @@ export class TodoDataService {
       if (filters?.type) conditions.push(eq(todosTable.type, filters.type));
       if (filters?.isCompleted !== undefined)
         conditions.push(eq(todosTable.isCompleted, filters.isCompleted));
+      conditions.push(
+        filters?.archived ? not(isNull(todosTable.archivedAt)) : isNull(todosTable.archivedAt)
+      );
 
-      if (conditions.length > 0) {
-        query = query.where(and(...conditions));
-      }
+      query = query.where(and(...conditions));
 
       // Order by created date
       query = query.orderBy(desc(todosTable.createdAt));
@@ -178,10 +498,7 @@ export class TodoDataService {
             .from(todoTagsTable)
             .where(eq(todoTagsTable.todoId, todo.id));
 
-          return {
-            ...todo,
-            tags: tags.map((t) => t.tag),
-          } as TodoData;
+          return this.toTodoData(todo, tags.map((t) => t.tag));
         })
       );
 
@@ -194,13 +511,14 @@ export class TodoDataService {
 
       return todosWithTags;
     } catch (error) {
-      logger.error(`Error getting todos: ${String(error)}`);
+      logDbError(this.runtime, 'Error getting todos', error);
       return [];
     }
   }
 
   /**
-   * Update a todo
+   * Update a todo. With `expected`, the todo is only changed while its completion state still
+   * matches, and false is returned when it no longer does, e.g. after a concurrent request.
    */
   async updateTodo(
     todoId: UUID,
@@ -211,9 +529,12 @@ export class TodoDataService {
       isUrgent?: boolean;
       isCompleted?: boolean;
       dueDate?: Date;
+      recurrence?: RecurrenceRule | null;
+      reminders?: ReminderSpec[] | null;
       completedAt?: Date;
       metadata?: any;
-    }
+    },
+    expected?: { isCompleted: boolean }
   ): Promise<boolean> {
     try {
       const { db } = this.runtime;
@@ -223,14 +544,24 @@ export class TodoDataService {
         updatedAt: new Date(),
       };
 
-      const result = await db
-        .update(todosTable)
-        .set(updateData)
-        .where(eq(todosTable.id, todoId));
+      const update = db.update(todosTable).set(updateData);
+      if (expected) {
+        const [updated] = await update
+          .where(
+            and(eq(todosTable.id, todoId), eq(todosTable.isCompleted, expected.isCompleted))
+          )
+          .returning({ id: todosTable.id });
+        if (!updated) return false;
+      } else {
+        await update.where(eq(todosTable.id, todoId));
+      }
 
+      await this.notifyChange(updates.isCompleted ? 'completed' : 'updated', todoId, {
+        changes: updateData,
+      });
       return true;
     } catch (error) {
-      logger.error(`Error updating todo: ${String(error)}`);
+      logDbError(this.runtime, 'Error updating todo', error);
       return false;
     }
   }
@@ -242,44 +573,426 @@ export class TodoDataService {
     try {
       const { db } = this.runtime;
 
+      // Subscribers get the todo as it was, since it cannot be loaded afterwards
+      const todo = hasTodoEventHandlers(this.runtime, TodoDomainEvents.TODO_DELETED)
+        ? await this.getTodo(todoId)
+        : null;
+
       await db.delete(todosTable).where(eq(todosTable.id, todoId));
 
       logger.info(`Deleted todo: ${todoId}`);
+      await this.notifyChange('deleted', todoId, todo ? { todo } : undefined);
       return true;
     } catch (error) {
-      logger.error(`Error deleting todo: ${String(error)}`);
+      logDbError(this.runtime, 'Error deleting todo', error);
       return false;
     }
   }
 
   /**
-   * Add tags to a todo
+   * Get the subtasks of a todo in checklist order
    */
-  async addTags(todoId: UUID, tags: string[]): Promise<boolean> {
+  async getSubtasks(parentId: UUID): Promise<TodoData[]> {
     try {
       const { db } = this.runtime;
 
-      // Filter out existing tags
-      const existingTags = await db
-        .select({ tag: todoTagsTable.tag })
-        .from(todoTagsTable)
-        .where(eq(todoTagsTable.todoId, todoId));
+      const subtasks = await db
+        .select(todoWithRollupColumns)
+        .from(todosTable)
+        .where(and(eq(todosTable.parentId, parentId), isNull(todosTable.archivedAt)))
+        .orderBy(asc(todosTable.position));
 
-      const existingTagSet = new Set(existingTags.map((t) => t.tag));
-      const newTags = tags.filter((tag) => !existingTagSet.has(tag));
+      return subtasks.map((subtask: any) => this.toTodoData(subtask, []));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting subtasks', error);
+      return [];
+    }
+  }
+
+  /**
+   * Reorder the subtasks of a todo. Subtasks missing from the list keep their position after
+   * the listed ones.
+   */
+  async reorderSubtasks(parentId: UUID, subtaskIds: UUID[]): Promise<boolean> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        const subtasks = await service.getSubtasks(parentId);
+        const ordered = [
+          ...subtaskIds
+            .map((id) => subtasks.find((subtask) => subtask.id === id))
+            .filter((subtask): subtask is TodoData => !!subtask),
+          ...subtasks.filter((subtask) => !subtaskIds.includes(subtask.id)),
+        ];
+
+        for (const [position, subtask] of ordered.entries()) {
+          if (subtask.position === position) continue;
+          await db
+            .update(todosTable)
+            .set({ position, updatedAt: new Date() })
+            .where(eq(todosTable.id, subtask.id));
+          await service.notifyChange('updated', subtask.id, { changes: { position } });
+        }
+
+        return true;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error reordering subtasks', error);
+      return false;
+    }
+  }
 
-      if (newTags.length > 0) {
-        await db.insert(todoTagsTable).values(
-          newTags.map((tag) => ({
-            todoId,
-            tag,
-          }))
+  /**
+   * Keep a parent's completion in sync with its subtasks: complete it once every subtask is
+   * done, and reopen it when a subtask is reopened after the parent was completed that way.
+   * Auto-completion can be turned off with TODO_AUTO_COMPLETE_PARENT=false.
+   */
+  async syncParentCompletion(parentId: UUID): Promise<'completed' | 'reopened' | null> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        const parent = await service.getTodo(parentId);
+        if (!parent?.progress) return null;
+
+        const allDone = parent.progress.completed === parent.progress.total;
+        const autoComplete =
+          String(this.runtime.getSetting('TODO_AUTO_COMPLETE_PARENT') ?? 'true') !== 'false';
+        const now = new Date();
+
+        if (allDone && !parent.isCompleted && autoComplete) {
+          const changes = {
+            isCompleted: true,
+            completedAt: now,
+            metadata: {
+              ...parent.metadata,
+              completedAt: now.toISOString(),
+              completedBySubtasks: true,
+            },
+            updatedAt: now,
+          };
+          await db.update(todosTable).set(changes).where(eq(todosTable.id, parentId));
+          await service.notifyChange('completed', parentId, { changes });
+          return 'completed';
+        }
+
+        if (!allDone && parent.isCompleted && parent.metadata?.completedBySubtasks) {
+          const metadata = { ...parent.metadata };
+          delete metadata.completedAt;
+          delete metadata.completedBySubtasks;
+          const changes = { isCompleted: false, completedAt: null, metadata, updatedAt: now };
+          await db.update(todosTable).set(changes).where(eq(todosTable.id, parentId));
+          await service.notifyChange('updated', parentId, { changes });
+          return 'reopened';
+        }
+
+        return null;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error syncing parent completion', error);
+      return null;
+    }
+  }
+
+  /**
+   * Make a todo depend on another one. Returns false if the dependency would create a cycle.
+   */
+  async addDependency(todoId: UUID, dependsOnId: UUID): Promise<boolean> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        if (await service.wouldCreateCycle(todoId, dependsOnId)) {
+          logger.warn(`Dependency ${todoId} -> ${dependsOnId} would create a cycle`);
+          return false;
+        }
+
+        await db
+          .insert(todoDependenciesTable)
+          .values({ todoId, dependsOnId })
+          .onConflictDoNothing();
+
+        logger.info(`Todo ${todoId} now depends on ${dependsOnId}`);
+        await service.notifyChange('updated', todoId);
+        return true;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error adding dependency', error);
+      return false;
+    }
+  }
+
+  /**
+   * Remove a dependency between two todos
+   */
+  async removeDependency(todoId: UUID, dependsOnId: UUID): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .delete(todoDependenciesTable)
+        .where(
+          and(
+            eq(todoDependenciesTable.todoId, todoId),
+            eq(todoDependenciesTable.dependsOnId, dependsOnId)
+          )
         );
+
+      await this.notifyChange('updated', todoId);
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error removing dependency', error);
+      return false;
+    }
+  }
+
+  /**
+   * Check whether making `todoId` depend on `dependsOnId` would create a cycle, i.e. whether
+   * `dependsOnId` already depends on `todoId` directly or transitively.
+   */
+  async wouldCreateCycle(todoId: UUID, dependsOnId: UUID): Promise<boolean> {
+    if (todoId === dependsOnId) return true;
+
+    const { db } = this.runtime;
+    const visited = new Set<UUID>([dependsOnId]);
+    let frontier: UUID[] = [dependsOnId];
+
+    // Walk the dependency graph breadth-first, one query per level
+    while (frontier.length > 0) {
+      const edges = await db
+        .select({ dependsOnId: todoDependenciesTable.dependsOnId })
+        .from(todoDependenciesTable)
+        .where(inArray(todoDependenciesTable.todoId, frontier));
+
+      frontier = [];
+      for (const edge of edges) {
+        if (edge.dependsOnId === todoId) return true;
+        if (!visited.has(edge.dependsOnId)) {
+          visited.add(edge.dependsOnId);
+          frontier.push(edge.dependsOnId);
+        }
       }
+    }
+
+    return false;
+  }
+
+  /**
+   * Get the open todos that a completed todo was the last blocker of
+   */
+  async getUnblockedBy(todoId: UUID): Promise<TodoData[]> {
+    try {
+      const { db } = this.runtime;
 
+      const dependents = await db
+        .select({ todoId: todoDependenciesTable.todoId })
+        .from(todoDependenciesTable)
+        .where(eq(todoDependenciesTable.dependsOnId, todoId));
+
+      const todos = await Promise.all(
+        dependents.map((dependent: { todoId: UUID }) => this.getTodo(dependent.todoId))
+      );
+
+      return todos.filter(
+        (todo): todo is TodoData =>
+          !!todo && !todo.isCompleted && !todo.archivedAt && !todo.isBlocked
+      );
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting unblocked todos', error);
+      return [];
+    }
+  }
+
+  /**
+   * Archive a todo so it is hidden from lists but can still be restored.
+   * Cancelled todos also record when they were cancelled.
+   */
+  async archiveTodo(todoId: UUID, options?: { cancelled?: boolean }): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+      const now = new Date();
+
+      await db
+        .update(todosTable)
+        .set({
+          archivedAt: now,
+          ...(options?.cancelled ? { cancelledAt: now } : {}),
+          updatedAt: now,
+        })
+        .where(
+          // Open subtasks are archived along with their parent
+          or(
+            eq(todosTable.id, todoId),
+            and(eq(todosTable.parentId, todoId), isNull(todosTable.archivedAt))
+          )
+        );
+
+      logger.info(`Archived todo: ${todoId}`);
+      await this.notifyChange('updated', todoId, {
+        changes: { archivedAt: now, ...(options?.cancelled ? { cancelledAt: now } : {}) },
+      });
       return true;
     } catch (error) {
-      logger.error(`Error adding tags: ${String(error)}`);
+      logDbError(this.runtime, 'Error archiving todo', error);
+      return false;
+    }
+  }
+
+  /**
+   * Snooze a todo's reminders until the given time, or clear the snooze with null
+   */
+  async snoozeTodo(todoId: UUID, until: Date | null): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const changes = { snoozedUntil: until, updatedAt: new Date() };
+      await db.update(todosTable).set(changes).where(eq(todosTable.id, todoId));
+      await this.notifyChange('updated', todoId, { changes });
+
+      logger.info(
+        until ? `Snoozed todo ${todoId} until ${until.toISOString()}` : `Unsnoozed todo ${todoId}`
+      );
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error snoozing todo', error);
+      return false;
+    }
+  }
+
+  /**
+   * Restore an archived or cancelled todo
+   */
+  async restoreTodo(todoId: UUID): Promise<boolean> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        const [todo] = await db
+          .select({ archivedAt: todosTable.archivedAt })
+          .from(todosTable)
+          .where(eq(todosTable.id, todoId))
+          .limit(1);
+
+        // Bring back the subtasks that were archived together with the todo
+        const archivedSubtasks = todo?.archivedAt
+          ? [and(eq(todosTable.parentId, todoId), eq(todosTable.archivedAt, todo.archivedAt))]
+          : [];
+
+        await db
+          .update(todosTable)
+          .set({
+            archivedAt: null,
+            cancelledAt: null,
+            updatedAt: new Date(),
+          })
+          .where(or(eq(todosTable.id, todoId), ...archivedSubtasks));
+
+        logger.info(`Restored todo: ${todoId}`);
+        await service.notifyChange('updated', todoId, {
+          changes: { archivedAt: null, cancelledAt: null },
+        });
+        return true;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error restoring todo', error);
+      return false;
+    }
+  }
+
+  /**
+   * Permanently delete todos archived before the given date, with their subtasks. Todos that
+   * depended on a purged todo lose that dependency and get an update event.
+   * Returns the number of todos purged, subtasks included.
+   */
+  async purgeArchivedTodos(archivedBefore: Date, filters?: { agentId?: UUID }): Promise<number> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        const conditions: any[] = [lt(todosTable.archivedAt, archivedBefore)];
+        if (filters?.agentId) conditions.push(eq(todosTable.agentId, filters.agentId));
+
+        const archived = await db
+          .select()
+          .from(todosTable)
+          .where(and(...conditions));
+        if (archived.length === 0) return 0;
+
+        // The cascade removes subtasks and dependency links too; collect them first, so
+        // listeners hear about every todo that goes away or changes
+        const purged = [...archived];
+        const purgedIds = new Set<UUID>(archived.map((row: any) => row.id));
+        let parentIds = [...purgedIds];
+        while (parentIds.length > 0) {
+          const subtasks = (
+            await db.select().from(todosTable).where(inArray(todosTable.parentId, parentIds))
+          ).filter((row: any) => !purgedIds.has(row.id));
+          for (const row of subtasks) {
+            purged.push(row);
+            purgedIds.add(row.id);
+          }
+          parentIds = subtasks.map((row: any) => row.id);
+        }
+
+        const links = await db
+          .select({ todoId: todoDependenciesTable.todoId })
+          .from(todoDependenciesTable)
+          .where(inArray(todoDependenciesTable.dependsOnId, [...purgedIds]));
+        const dependentIds = new Set<UUID>(
+          links.map((link: any) => link.todoId).filter((id: UUID) => !purgedIds.has(id))
+        );
+
+        await db.delete(todosTable).where(inArray(todosTable.id, [...purgedIds]));
+
+        logger.info(
+          `Purged ${archived.length} archived todos and ${purged.length - archived.length} subtasks`
+        );
+        for (const row of purged) {
+          await service.notifyChange('deleted', row.id, { todo: this.toTodoData(row, []) });
+        }
+        for (const todoId of dependentIds) {
+          await service.notifyChange('updated', todoId);
+        }
+        return purged.length;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error purging archived todos', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Add tags to a todo
+   */
+  async addTags(todoId: UUID, tags: string[]): Promise<boolean> {
+    try {
+      return await this.withTransaction(async (service) => {
+        const { db } = service.runtime;
+
+        // Filter out existing tags
+        const existingTags = await db
+          .select({ tag: todoTagsTable.tag })
+          .from(todoTagsTable)
+          .where(eq(todoTagsTable.todoId, todoId));
+
+        const existingTagSet = new Set(existingTags.map((t) => t.tag));
+        const newTags = tags.filter((tag) => !existingTagSet.has(tag));
+
+        if (newTags.length > 0) {
+          await db.insert(todoTagsTable).values(
+            newTags.map((tag) => ({
+              todoId,
+              tag,
+            }))
+          );
+          await service.notifyChange('updated', todoId);
+        }
+
+        return true;
+      });
+    } catch (error) {
+      logDbError(this.runtime, 'Error adding tags', error);
       return false;
     }
   }
@@ -300,9 +1013,10 @@ export class TodoDataService {
           )
         );
 
+      await this.notifyChange('updated', todoId);
       return true;
     } catch (error) {
-      logger.error(`Error removing tags: ${String(error)}`);
+      logDbError(this.runtime, 'Error removing tags', error);
       return false;
     }
   }
@@ -322,6 +1036,7 @@ export class TodoDataService {
       const conditions: any[] = [
         eq(todosTable.isCompleted, false),
         not(isNull(todosTable.dueDate)),
+        isNull(todosTable.archivedAt),
       ];
 
       if (filters?.agentId) conditions.push(eq(todosTable.agentId, filters.agentId));
@@ -347,58 +1062,342 @@ export class TodoDataService {
             .from(todoTagsTable)
             .where(eq(todoTagsTable.todoId, todo.id));
 
-          return {
-            ...todo,
-            tags: tags.map((t) => t.tag),
-          } as TodoData;
+          return this.toTodoData(todo, tags.map((t) => t.tag));
         })
       );
 
       return todosWithTags;
     } catch (error) {
-      logger.error(`Error getting overdue todos: ${String(error)}`);
+      logDbError(this.runtime, 'Error getting overdue todos', error);
       return [];
     }
   }
 
   /**
-   * Reset daily todos for a new day
+   * Merge fields into a todo's metadata in the database, keeping fields changed since the todo
+   * was read
    */
-  async resetDailyTodos(filters?: {
-    agentId?: UUID;
-    worldId?: UUID;
-    roomId?: UUID;
-    entityId?: UUID;
-  }): Promise<number> {
+  async mergeMetadata(todoId: UUID, metadata: Record<string, any>): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const [updated] = await db
+        .update(todosTable)
+        .set({
+          metadata: sql`${todosTable.metadata} || ${JSON.stringify(metadata)}::jsonb`,
+          updatedAt: new Date(),
+        })
+        .where(eq(todosTable.id, todoId))
+        .returning({ id: todosTable.id });
+      if (!updated) return false;
+
+      await this.notifyChange('updated', todoId, { changes: { metadata } });
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error updating todo metadata', error);
+      return false;
+    }
+  }
+
+  /**
+   * Record that a todo went overdue and emit TODO_OVERDUE, once per due date. Returns false if
+   * it was already recorded, e.g. by another instance.
+   */
+  async markOverdue(todo: TodoData): Promise<boolean> {
+    if (!todo.dueDate) return false;
+    const overdueSince = new Date(todo.dueDate).toISOString();
+    if (todo.metadata?.overdueSince === overdueSince) return false;
+
+    try {
+      const { db } = this.runtime;
+
+      const [marked] = await db
+        .update(todosTable)
+        .set({
+          metadata: sql`${todosTable.metadata} || ${JSON.stringify({ overdueSince })}::jsonb`,
+        })
+        .where(
+          and(
+            eq(todosTable.id, todo.id),
+            sql`${todosTable.metadata}->>'overdueSince' is distinct from ${overdueSince}`
+          )
+        )
+        .returning({ id: todosTable.id });
+      if (!marked) return false;
+
+      await emitTodoEvent(this.runtime, TodoDomainEvents.TODO_OVERDUE, {
+        todoId: todo.id,
+        todo: { ...todo, metadata: { ...todo.metadata, overdueSince } },
+        overdueSince,
+      });
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error marking todo overdue', error);
+      return false;
+    }
+  }
+
+  /**
+   * Reset recurring todos at the start of each user's local day.
+   *
+   * Undated todos (daily habits) are reopened once the next occurrence day starts in the user's
+   * timezone; occurrences that passed without a completion are recorded in
+   * `metadata.missedDates` and reset the streak. Dated todos are regenerated right away with
+   * their due date moved to the next occurrence. Todos whose recurrence is exhausted
+   * (UNTIL/COUNT) stay completed. Returns the number of todos updated.
+   */
+  async resetDailyTodos(
+    filters?: {
+      agentId?: UUID;
+      worldId?: UUID;
+      roomId?: UUID;
+      entityId?: UUID;
+    },
+    now: Date = new Date()
+  ): Promise<number> {
     try {
       const { db } = this.runtime;
 
-      const conditions: any[] = [eq(todosTable.type, 'daily'), eq(todosTable.isCompleted, true)];
+      const conditions: any[] = [
+        or(eq(todosTable.type, 'daily'), not(isNull(todosTable.recurrence))),
+        isNull(todosTable.archivedAt),
+      ];
 
       if (filters?.agentId) conditions.push(eq(todosTable.agentId, filters.agentId));
       if (filters?.worldId) conditions.push(eq(todosTable.worldId, filters.worldId));
       if (filters?.roomId) conditions.push(eq(todosTable.roomId, filters.roomId));
       if (filters?.entityId) conditions.push(eq(todosTable.entityId, filters.entityId));
 
-      // Reset daily todos
-      const result = await db
-        .update(todosTable)
-        .set({
-          isCompleted: false,
-          completedAt: null,
-          metadata: {
-            completedToday: false,
-          },
-          updatedAt: new Date(),
-        })
+      const todos = await db
+        .select()
+        .from(todosTable)
         .where(and(...conditions));
 
-      return 0; // Return count of reset todos
+      if (todos.length === 0) return 0;
+      const timezones = await this.getUserTimezones();
+
+      let updatedCount = 0;
+      for (const todo of todos) {
+        // Each todo is reset on its own, so one failure doesn't hold back everyone else's reset
+        try {
+          const rule = resolveRecurrence(todo);
+          if (!rule) continue;
+
+          const timeZone = timezones.get(todo.entityId) ?? DEFAULT_TIMEZONE;
+          const updateData = todo.isCompleted
+            ? buildReopenUpdate(todo, rule, now, timeZone)
+            : buildMissedUpdate(todo, rule, now, timeZone);
+          if (!updateData) continue;
+
+          const changes = { ...updateData, updatedAt: now };
+          await this.withTransaction(async (service) => {
+            await service.runtime.db
+              .update(todosTable)
+              .set(changes)
+              .where(eq(todosTable.id, todo.id));
+            await service.notifyChange('updated', todo.id, { changes });
+          });
+          updatedCount++;
+        } catch (error) {
+          logDbError(this.runtime, `Error resetting todo ${todo.id}`, error);
+        }
+      }
+
+      if (updatedCount > 0) {
+        logger.info(`Reset ${updatedCount} recurring todos`);
+      }
+      return updatedCount;
     } catch (error) {
-      logger.error(`Error resetting daily todos: ${String(error)}`);
+      logDbError(this.runtime, 'Error resetting daily todos', error);
       return 0;
     }
   }
+
+  /**
+   * Get the timezone of a user, falling back to the server timezone
+   */
+  async getUserTimezone(entityId: UUID): Promise<string> {
+    try {
+      const { db } = this.runtime;
+
+      const [settings] = await db
+        .select()
+        .from(todoUserSettingsTable)
+        .where(
+          and(
+            eq(todoUserSettingsTable.agentId, this.runtime.agentId),
+            eq(todoUserSettingsTable.entityId, entityId)
+          )
+        )
+        .limit(1);
+
+      return settings?.timezone || DEFAULT_TIMEZONE;
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting user timezone', error);
+      return DEFAULT_TIMEZONE;
+    }
+  }
+
+  /**
+   * Get the timezones of all users of this agent who have set one
+   */
+  async getUserTimezones(): Promise<Map<UUID, string>> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoUserSettingsTable)
+        .where(eq(todoUserSettingsTable.agentId, this.runtime.agentId));
+
+      return new Map(rows.map((row: any) => [row.entityId as UUID, row.timezone as string]));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting user timezones', error);
+      return new Map();
+    }
+  }
+
+  /**
+   * Set the timezone used for a user's daily resets
+   */
+  async setUserTimezone(entityId: UUID, timeZone: string): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .insert(todoUserSettingsTable)
+        .values({
+          agentId: this.runtime.agentId,
+          entityId,
+          timezone: timeZone,
+        })
+        .onConflictDoUpdate({
+          target: [todoUserSettingsTable.agentId, todoUserSettingsTable.entityId],
+          set: { timezone: timeZone, updatedAt: new Date() },
+        });
+
+      return true;
+    } catch (error) {
+      logDbError(this.runtime, 'Error setting user timezone', error);
+      return false;
+    }
+  }
+
+  /**
+   * Insert a todo row and its tags
+   */
+  private async insertTodo(data: NewTodo): Promise<any> {
+    const { db } = this.runtime;
+
+    // New subtasks go to the end of their parent's checklist
+    let position = data.position ?? 0;
+    if (data.parentId && data.position === undefined) {
+      const [last] = await db
+        .select({ position: max(todosTable.position) })
+        .from(todosTable)
+        .where(eq(todosTable.parentId, data.parentId));
+      position = last?.position === null || last?.position === undefined ? 0 : last.position + 1;
+    }
+
+    // Create the todo
+    const [todo] = await db
+      .insert(todosTable)
+      .values({
+        agentId: data.agentId,
+        worldId: data.worldId,
+        roomId: data.roomId,
+        entityId: data.entityId,
+        name: data.name,
+        description: data.description,
+        type: data.type,
+        priority: data.priority,
+        isUrgent: data.isUrgent || false,
+        dueDate: data.dueDate,
+        recurrence: data.recurrence,
+        reminders: data.reminders,
+        parentId: data.parentId,
+        position,
+        isCompleted: data.isCompleted || false,
+        completedAt: data.isCompleted ? data.completedAt : undefined,
+        metadata: data.metadata || {},
+      })
+      .returning();
+
+    if (!todo) {
+      throw new Error('Failed to create todo');
+    }
+
+    // Add tags if provided
+    if (data.tags && data.tags.length > 0) {
+      await db.insert(todoTagsTable).values(
+        data.tags.map((tag) => ({
+          todoId: todo.id,
+          tag,
+        }))
+      );
+    }
+    return todo;
+  }
+
+  /**
+   * Publish a change to the agent's live event stream, and emit it as a runtime event for
+   * other plugins. The todo is only loaded when a plugin listens for the event.
+   */
+  private async notifyChange(
+    type: TodoEventType,
+    todoId: UUID,
+    details?: Pick<TodoEvent, 'todo' | 'changes'>
+  ): Promise<void> {
+    if (this.pendingChanges) {
+      this.pendingChanges.push([type, todoId, details]);
+      return;
+    }
+
+    getTodoEventStream(this.runtime).publish({ type, todoId, ...details });
+
+    const event = DOMAIN_EVENTS[type];
+    if (!event || !hasTodoEventHandlers(this.runtime, event)) return;
+
+    const todo = details?.todo ?? (await this.getTodo(todoId));
+    if (!todo) return;
+    // Creations and deletions carry no changes; the extra field is harmless for them
+    const payload = { todoId, todo, changes: details?.changes ?? {} };
+    await emitTodoEvent(this.runtime, event, payload);
+  }
+
+  /**
+   * Map a todo row and its tags to TodoData
+   */
+  private toTodoData(todo: any, tags: string[]): TodoData {
+    const {
+      subtaskTotal,
+      subtaskCompleted,
+      dependsOn,
+      blockedBy,
+      lastReminderSent,
+      overdueReminders,
+      ...row
+    } = todo;
+    const total = Number(subtaskTotal || 0);
+    const completed = Number(subtaskCompleted || 0);
+
+    // Surfaced from the reminder history rather than stored on the todo
+    const metadata = { ...row.metadata };
+    if (lastReminderSent) metadata.lastReminderSent = new Date(lastReminderSent).toISOString();
+    if (Number(overdueReminders) > 0) metadata.overdueReminders = Number(overdueReminders);
+
+    return {
+      ...row,
+      metadata,
+      tags,
+      dependsOn: dependsOn || [],
+      blockedBy: blockedBy || [],
+      isBlocked: (blockedBy || []).length > 0,
+      nextOccurrence: computeNextOccurrence(row),
+      progress:
+        total > 0 ? { completed, total, percent: Math.round((completed / total) * 100) } : null,
+    } as TodoData;
+  }
 }
 
 /**
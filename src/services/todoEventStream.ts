@@ -0,0 +1,89 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { EventEmitter } from 'node:events';
+import type { TodoData } from './todoDataService';
+
+export type TodoEventType = 'created' | 'updated' | 'completed' | 'deleted' | 'reminder';
+
+/**
+ * A change to a todo, as streamed to the dashboard
+ */
+export interface TodoEvent {
+  id: number; // Increases with every event of the agent, used as the SSE event id
+  type: TodoEventType;
+  todoId: UUID;
+  at: string; // ISO time the event was published
+  todo?: TodoData; // The whole todo, for created events
+  changes?: Record<string, unknown>; // Fields that changed; absent when not known
+  reminder?: { reminderType: string; channel: string };
+}
+
+export type TodoEventListener = (event: TodoEvent) => void;
+
+// Events kept for clients reconnecting with Last-Event-ID
+const REPLAY_BUFFER_SIZE = 100;
+
+/**
+ * In-process stream of todo changes for one agent. Every writer publishes here, so live views
+ * see changes made by the agent in chat as well as through the API.
+ */
+export class TodoEventStream {
+  private emitter = new EventEmitter();
+  private recent: TodoEvent[] = [];
+  private lastId = 0;
+
+  constructor() {
+    // One listener per open dashboard
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Publish an event to every subscriber
+   */
+  publish(event: Omit<TodoEvent, 'id' | 'at'>, now: Date = new Date()): TodoEvent {
+    const published: TodoEvent = { ...event, id: ++this.lastId, at: now.toISOString() };
+
+    this.recent.push(published);
+    if (this.recent.length > REPLAY_BUFFER_SIZE) this.recent.shift();
+
+    for (const listener of this.emitter.listeners('event') as TodoEventListener[]) {
+      try {
+        listener(published);
+      } catch (error) {
+        logger.warn(`Todo event listener failed: ${String(error)}`);
+      }
+    }
+    return published;
+  }
+
+  /**
+   * Listen for events. Returns a function that stops listening.
+   */
+  subscribe(listener: TodoEventListener): () => void {
+    this.emitter.on('event', listener);
+    return () => {
+      this.emitter.off('event', listener);
+    };
+  }
+
+  /**
+   * Events published after the given id that are still buffered
+   */
+  getEventsSince(lastEventId: number): TodoEvent[] {
+    return this.recent.filter((event) => event.id > lastEventId);
+  }
+}
+
+const streams = new Map<UUID, TodoEventStream>();
+
+/**
+ * Get the event stream shared by everything running for the runtime's agent
+ */
+export function getTodoEventStream(runtime: IAgentRuntime): TodoEventStream {
+  let stream = streams.get(runtime.agentId);
+  if (!stream) {
+    stream = new TodoEventStream();
+    streams.set(runtime.agentId, stream);
+  }
+  return stream;
+}
@@ -0,0 +1,211 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { formatCsv } from '../utils/csv';
+import { formatRRule } from '../utils/recurrence';
+import { formatTodoList, type TodoListFormat } from '../utils/todoLists';
+import { createTodoScoringService } from './scoringService';
+import { createTodoDataService, resolveRecurrence, type TodoData } from './todoDataService';
+
+export type ExportFormat = 'csv' | 'json' | TodoListFormat;
+
+/**
+ * A completion of an exported todo
+ */
+export interface ExportedCompletion {
+  completedAt: string;
+  dueDate: string | null;
+  points: number;
+  isOnTime: boolean | null;
+  streak: number;
+}
+
+/**
+ * A todo as it is exported. Dates are ISO strings and recurrence is an RRULE, so the same
+ * record can be imported again.
+ */
+export interface TodoExportRecord {
+  id: UUID;
+  name: string;
+  description: string | null;
+  type: TodoData['type'];
+  priority: number | null;
+  isUrgent: boolean;
+  isCompleted: boolean;
+  dueDate: string | null;
+  completedAt: string | null;
+  archivedAt: string | null;
+  rrule: string | null;
+  tags: string[];
+  metadata: Record<string, any>;
+  worldId: UUID;
+  roomId: UUID;
+  entityId: UUID;
+  parentId: UUID | null;
+  createdAt: string;
+  updatedAt: string;
+  completions: ExportedCompletion[];
+}
+
+export interface ExportFilters {
+  entityId?: UUID;
+  roomId?: UUID;
+  worldId?: UUID;
+  includeArchived?: boolean;
+}
+
+/**
+ * CSV columns, in order. Tags are comma separated; metadata and completions are JSON.
+ */
+export const TODO_EXPORT_COLUMNS = [
+  'id',
+  'name',
+  'description',
+  'type',
+  'priority',
+  'isUrgent',
+  'isCompleted',
+  'dueDate',
+  'completedAt',
+  'archivedAt',
+  'rrule',
+  'tags',
+  'metadata',
+  'worldId',
+  'roomId',
+  'entityId',
+  'parentId',
+  'createdAt',
+  'updatedAt',
+  'completions',
+] as const;
+
+const toISOString = (date: Date | null | undefined) => (date ? new Date(date).toISOString() : null);
+
+/**
+ * Format exported todos as a CSV or JSON document
+ */
+export function formatTodoExport(
+  records: TodoExportRecord[],
+  format: 'csv' | 'json',
+  now: Date = new Date()
+): string {
+  if (format === 'json') {
+    return JSON.stringify({ exportedAt: now.toISOString(), todos: records }, null, 2);
+  }
+
+  return formatCsv(
+    records.map((record) => ({
+      ...record,
+      tags: record.tags.join(','),
+      metadata: JSON.stringify(record.metadata),
+      completions: JSON.stringify(record.completions),
+    })),
+    TODO_EXPORT_COLUMNS
+  );
+}
+
+/**
+ * Exports todos with their tags, metadata and completion history
+ */
+export class TodoExportService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Get the agent's todos for an entity, room or world, ready to export
+   */
+  async exportTodos(filters: ExportFilters = {}): Promise<TodoExportRecord[]> {
+    try {
+      const todos = await this.getTodos(filters);
+
+      const completions = new Map<UUID, ExportedCompletion[]>();
+      const todoIds = new Set(todos.map((todo) => todo.id));
+      const history = await createTodoScoringService(this.runtime).getCompletions({
+        entityId: filters.entityId,
+        roomId: filters.roomId,
+        worldId: filters.worldId,
+      });
+      for (const completion of history) {
+        if (!todoIds.has(completion.todoId)) continue;
+        const list = completions.get(completion.todoId) ?? [];
+        list.push({
+          completedAt: new Date(completion.completedAt).toISOString(),
+          dueDate: toISOString(completion.dueDate),
+          points: completion.points,
+          isOnTime: completion.isOnTime ?? null,
+          streak: completion.streak,
+        });
+        completions.set(completion.todoId, list);
+      }
+
+      return todos.map((todo) => this.toExportRecord(todo, completions.get(todo.id) ?? []));
+    } catch (error) {
+      logger.error(`Error exporting todos: ${String(error)}`);
+      return [];
+    }
+  }
+
+  /**
+   * Format the agent's todos for an entity, room or world as a Markdown checklist or todo.txt
+   */
+  async exportTodoList(filters: ExportFilters, format: TodoListFormat): Promise<string> {
+    try {
+      return formatTodoList(await this.getTodos(filters), format);
+    } catch (error) {
+      logger.error(`Error exporting todo list: ${String(error)}`);
+      return '';
+    }
+  }
+
+  private async getTodos(filters: ExportFilters): Promise<TodoData[]> {
+    const dataService = createTodoDataService(this.runtime);
+    const scope = {
+      agentId: this.runtime.agentId,
+      entityId: filters.entityId,
+      roomId: filters.roomId,
+      worldId: filters.worldId,
+    };
+
+    const todos = await dataService.getTodos(scope);
+    if (filters.includeArchived) {
+      todos.push(...(await dataService.getTodos({ ...scope, archived: true })));
+    }
+    return todos;
+  }
+
+  private toExportRecord(todo: TodoData, completions: ExportedCompletion[]): TodoExportRecord {
+    const rule = resolveRecurrence(todo);
+    return {
+      id: todo.id,
+      name: todo.name,
+      description: todo.description ?? null,
+      type: todo.type,
+      priority: todo.priority ?? null,
+      isUrgent: todo.isUrgent,
+      isCompleted: todo.isCompleted,
+      dueDate: toISOString(todo.dueDate),
+      completedAt: toISOString(todo.completedAt),
+      archivedAt: toISOString(todo.archivedAt),
+      rrule: rule ? formatRRule(rule) : null,
+      tags: todo.tags ?? [],
+      metadata: todo.metadata ?? {},
+      worldId: todo.worldId,
+      roomId: todo.roomId,
+      entityId: todo.entityId,
+      parentId: todo.parentId ?? null,
+      createdAt: new Date(todo.createdAt).toISOString(),
+      updatedAt: new Date(todo.updatedAt).toISOString(),
+      completions,
+    };
+  }
+}
+
+/**
+ * Create a new TodoExportService instance
+ */
+export function createTodoExportService(runtime: IAgentRuntime): TodoExportService {
+  return new TodoExportService(runtime);
+}
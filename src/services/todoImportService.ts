@@ -0,0 +1,507 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { and, eq, inArray, or, sql } from 'drizzle-orm';
+import { todosTable } from '../schema';
+import {
+  fromICalPriority,
+  getICalUid,
+  getTodoIdFromICalUid,
+  type ICalTodo,
+} from '../utils/ical';
+import { parseCsv } from '../utils/csv';
+import { parseRRule, ruleFromFrequency, type RecurrenceRule } from '../utils/recurrence';
+import { parseTodoList } from '../utils/todoLists';
+import {
+  createTodoDataService,
+  findDuplicateTodo,
+  type TodoData,
+  type TodoDataService,
+} from './todoDataService';
+import type { ExportFormat } from './todoExportService';
+
+/**
+ * Where imported todos are created
+ */
+export interface ImportTarget {
+  worldId: UUID;
+  roomId: UUID;
+  entityId: UUID;
+}
+
+/**
+ * What an import did
+ */
+export interface ImportResult {
+  created: number;
+  updated: number;
+  unchanged: number; // Already imported and identical
+  skipped: number; // Cancelled items
+  todoIds: UUID[]; // Created and updated todos
+  errors: string[];
+}
+
+/**
+ * A validated todo from an imported file
+ */
+export interface ImportedFields {
+  name: string;
+  description?: string;
+  type: TodoData['type'];
+  priority?: number;
+  isUrgent?: boolean;
+  dueDate?: Date;
+  recurrence?: RecurrenceRule;
+  isCompleted: boolean;
+  completedAt?: Date;
+  tags: string[];
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Problems with one row of an imported file. Rows are numbered from 1, not counting the header.
+ */
+export interface ImportRowError {
+  row: number;
+  name?: string;
+  errors: string[];
+}
+
+/**
+ * A row skipped because an open todo, or an earlier row, has the same name
+ */
+export interface ImportDuplicate {
+  row: number;
+  name: string;
+  todoId: UUID | null; // Null when the duplicate is an earlier row of the same file
+}
+
+/**
+ * What a CSV or JSON import did, or would do on a dry run
+ */
+export interface RecordImportResult {
+  dryRun: boolean;
+  total: number;
+  created: number;
+  todoIds: UUID[]; // In the order of the preview
+  preview: ImportedFields[]; // Todos that are, or would be, created; all of them or none are
+  duplicates: ImportDuplicate[];
+  errors: ImportRowError[];
+}
+
+const TODO_TYPES: TodoData['type'][] = ['daily', 'one-off', 'aspirational'];
+
+/**
+ * Same tags as todos created through the API, plus the given ones
+ */
+function withDefaultTags(fields: Omit<ImportedFields, 'tags'>, tags: string[]): string[] {
+  const defaults = ['TODO'];
+  if (fields.recurrence) defaults.push(`recurring-${fields.recurrence.frequency}`);
+  defaults.push(fields.type);
+  if (fields.type === 'one-off' && fields.priority) defaults.push(`priority-${fields.priority}`);
+  if (fields.isUrgent) defaults.push('urgent');
+  return [...new Set([...defaults, ...tags])];
+}
+
+function toImportedFields(item: ICalTodo, now: Date): ImportedFields {
+  const recurrence = item.rrule
+    ? (parseRRule(item.rrule, item.start ?? item.due ?? now) ?? undefined)
+    : undefined;
+  const type: TodoData['type'] = recurrence ? 'daily' : 'one-off';
+  const priority = type === 'one-off' ? (fromICalPriority(item.priority) ?? 4) : undefined;
+  const isCompleted = item.status === 'COMPLETED' || item.completed !== undefined;
+
+  const fields = {
+    name: item.summary,
+    description: item.description,
+    type,
+    priority,
+    // A VTODO without a due date is due when it starts, unless the start anchors a recurrence
+    dueDate: item.due ?? (recurrence ? undefined : item.start),
+    recurrence,
+    isCompleted,
+    completedAt: isCompleted ? (item.completed ?? now) : undefined,
+  };
+  return { ...fields, tags: withDefaultTags(fields, item.categories) };
+}
+
+function parseBoolean(value: unknown): boolean | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'boolean') return value;
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', '1'].includes(text)) return true;
+  if (['false', 'no', '0'].includes(text)) return false;
+  return null; // Not a boolean
+}
+
+function parseDate(value: unknown): Date | undefined | null {
+  if (value === undefined || value === null || value === '') return undefined;
+  const date = new Date(value as string);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Validate one record of a CSV or JSON import. Values may be typed, as in JSON exports, or
+ * strings, as in CSV: tags comma separated and metadata as JSON.
+ */
+export function validateImportRecord(
+  record: Record<string, any>,
+  now: Date = new Date()
+): { fields?: ImportedFields; errors: string[] } {
+  const errors: string[] = [];
+
+  const name = typeof record.name === 'string' ? record.name.trim() : '';
+  if (!name) errors.push('name is required');
+
+  const dueDate = parseDate(record.dueDate);
+  if (dueDate === null) errors.push(`Invalid dueDate: ${record.dueDate}`);
+  const completedAt = parseDate(record.completedAt);
+  if (completedAt === null) errors.push(`Invalid completedAt: ${record.completedAt}`);
+
+  let recurrence: RecurrenceRule | undefined;
+  if (record.rrule) {
+    recurrence = parseRRule(String(record.rrule), dueDate ?? now) ?? undefined;
+    if (!recurrence) errors.push(`Invalid or unsupported rrule: ${record.rrule}`);
+  }
+
+  const type = (record.type || (recurrence ? 'daily' : 'one-off')) as TodoData['type'];
+  if (!TODO_TYPES.includes(type)) errors.push(`Invalid type: ${record.type}`);
+  if (type === 'daily' && !recurrence) recurrence = ruleFromFrequency('daily');
+
+  let priority: number | undefined;
+  if (record.priority !== undefined && record.priority !== null && record.priority !== '') {
+    priority = Number(record.priority);
+    if (!Number.isInteger(priority) || priority < 1 || priority > 4) {
+      errors.push(`priority must be 1 to 4: ${record.priority}`);
+    }
+  }
+
+  const isUrgent = parseBoolean(record.isUrgent);
+  if (isUrgent === null) errors.push(`Invalid isUrgent: ${record.isUrgent}`);
+  const isCompleted = parseBoolean(record.isCompleted);
+  if (isCompleted === null) errors.push(`Invalid isCompleted: ${record.isCompleted}`);
+
+  let tags: string[] = [];
+  if (Array.isArray(record.tags)) {
+    tags = record.tags.map(String);
+  } else if (typeof record.tags === 'string') {
+    tags = record.tags.split(',');
+  } else if (record.tags !== undefined && record.tags !== null) {
+    errors.push('tags must be a list');
+  }
+  tags = tags.map((tag) => tag.trim()).filter(Boolean);
+
+  let metadata: Record<string, any> = {};
+  if (typeof record.metadata === 'string' && record.metadata.trim()) {
+    try {
+      metadata = JSON.parse(record.metadata);
+    } catch {
+      errors.push('metadata must be a JSON object');
+    }
+  } else if (record.metadata && typeof record.metadata === 'object') {
+    metadata = record.metadata;
+  }
+  if (!metadata || typeof metadata !== 'object' || Array.isArray(metadata)) {
+    errors.push('metadata must be a JSON object');
+  }
+
+  if (errors.length > 0) return { errors };
+
+  const fields = {
+    name,
+    description: record.description ? String(record.description) : undefined,
+    type,
+    priority: type === 'one-off' ? (priority ?? 4) : priority,
+    isUrgent: type === 'one-off' ? (isUrgent ?? false) : false,
+    dueDate: dueDate ?? undefined,
+    recurrence,
+    isCompleted: (isCompleted ?? false) || completedAt !== undefined,
+    completedAt: completedAt ?? (isCompleted ? now : undefined),
+    metadata,
+  };
+  return { fields: { ...fields, tags: withDefaultTags(fields, tags) }, errors };
+}
+
+/**
+ * Read the records of an import. JSON may be a list of todos or an export document. Returns an
+ * error message when the data can't be read.
+ */
+export function readImportRecords(
+  format: ExportFormat,
+  data: unknown
+): Record<string, any>[] | string {
+  if (format !== 'json') {
+    if (typeof data !== 'string') return `${format} data must be text`;
+    return format === 'csv' ? parseCsv(data) : parseTodoList(data, format);
+  }
+
+  let parsed = data;
+  if (typeof data === 'string') {
+    try {
+      parsed = JSON.parse(data);
+    } catch {
+      return 'Invalid JSON';
+    }
+  }
+  const records = Array.isArray(parsed)
+    ? parsed
+    : typeof parsed === 'object' && parsed !== null && 'todos' in parsed
+      ? parsed.todos
+      : undefined;
+  if (!Array.isArray(records)) return 'JSON must be a list of todos or an export';
+  if (!records.every((record) => record && typeof record === 'object')) {
+    return 'Every todo must be an object';
+  }
+  return records;
+}
+
+/**
+ * Imports todos from other apps. Re-importing is idempotent: items are matched to the todos
+ * they were imported as by their source ID, which is kept in the todo's metadata.
+ */
+export class TodoImportService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Create todos for new VTODO items and update the ones imported before. Items exported from
+   * this agent update the todos they were exported from.
+   */
+  async importICalTodos(
+    items: ICalTodo[],
+    target: ImportTarget,
+    now: Date = new Date()
+  ): Promise<ImportResult> {
+    const result: ImportResult = {
+      created: 0,
+      updated: 0,
+      unchanged: 0,
+      skipped: 0,
+      todoIds: [],
+      errors: [],
+    };
+    const dataService = createTodoDataService(this.runtime);
+
+    let existing: Map<string, UUID>;
+    try {
+      existing = await this.findImportedTodos(items.map((item) => item.uid));
+    } catch (error) {
+      logger.error(`Error finding imported todos: ${String(error)}`);
+      result.errors.push('Could not look up previously imported todos');
+      return result;
+    }
+
+    for (const item of items) {
+      if (item.status === 'CANCELLED') {
+        result.skipped++;
+        continue;
+      }
+
+      try {
+        const fields = toImportedFields(item, now);
+        const todoId = existing.get(item.uid);
+        const todo = todoId ? await dataService.getTodo(todoId) : null;
+
+        if (!todo) {
+          const id = await this.createImportedTodo(
+            dataService,
+            { ...fields, metadata: { icalUid: item.uid } },
+            target,
+            now
+          );
+          existing.set(item.uid, id);
+          result.created++;
+          result.todoIds.push(id);
+          continue;
+        }
+
+        if (await this.applyChanges(todo, fields)) {
+          result.updated++;
+          result.todoIds.push(todo.id);
+        } else {
+          result.unchanged++;
+        }
+      } catch (error) {
+        logger.error(`Error importing VTODO ${item.uid}: ${String(error)}`);
+        result.errors.push(`${item.summary}: ${String(error)}`);
+      }
+    }
+
+    logger.info(
+      `Imported VTODOs: ${result.created} created, ${result.updated} updated, ` +
+        `${result.unchanged} unchanged, ${result.skipped} skipped`
+    );
+    return result;
+  }
+
+  /**
+   * Create todos from the records of a CSV or JSON file. Invalid rows and rows with the same
+   * name as an open todo in the room are reported and skipped. The other rows are created in one
+   * transaction, so if one of them fails none are. A dry run only validates.
+   */
+  async importRecords(
+    records: Record<string, any>[],
+    target: ImportTarget,
+    options: { dryRun?: boolean; now?: Date } = {}
+  ): Promise<RecordImportResult> {
+    const now = options.now ?? new Date();
+    const result: RecordImportResult = {
+      dryRun: options.dryRun ?? false,
+      total: records.length,
+      created: 0,
+      todoIds: [],
+      preview: [],
+      duplicates: [],
+      errors: [],
+    };
+    const dataService = createTodoDataService(this.runtime);
+
+    // The same check as when a todo is created in chat
+    const existing = await dataService.getTodos({
+      entityId: target.entityId,
+      roomId: target.roomId,
+      isCompleted: false,
+    });
+    const accepted: Pick<TodoData, 'name' | 'isCompleted'>[] = [];
+    const rows: { row: number; fields: ImportedFields }[] = [];
+
+    for (const [index, record] of records.entries()) {
+      const row = index + 1;
+      const { fields, errors } = validateImportRecord(record, now);
+      if (!fields) {
+        result.errors.push({ row, name: record.name || undefined, errors });
+        continue;
+      }
+
+      const duplicate = findDuplicateTodo(existing, fields.name);
+      if (duplicate || findDuplicateTodo(accepted, fields.name)) {
+        result.duplicates.push({ row, name: fields.name, todoId: duplicate?.id ?? null });
+        continue;
+      }
+      accepted.push({ name: fields.name, isCompleted: false });
+      result.preview.push(fields);
+      rows.push({ row, fields });
+    }
+
+    if (!result.dryRun && rows.length > 0) {
+      let current = rows[0];
+      try {
+        result.todoIds = await dataService.withTransaction(async (service) => {
+          const ids: UUID[] = [];
+          for (const entry of rows) {
+            current = entry;
+            ids.push(await this.createImportedTodo(service, entry.fields, target, now));
+          }
+          return ids;
+        });
+        result.created = result.todoIds.length;
+      } catch (error) {
+        logger.error(`Error importing row ${current.row}: ${String(error)}`);
+        result.errors.push({
+          row: current.row,
+          name: current.fields.name,
+          errors: [String(error)],
+        });
+      }
+    }
+
+    logger.info(
+      `${result.dryRun ? 'Checked' : 'Imported'} ${records.length} todos: ` +
+        `${result.preview.length} new, ${result.duplicates.length} duplicates, ` +
+        `${result.errors.length} errors`
+    );
+    return result;
+  }
+
+  /**
+   * Create a todo from imported fields, already completed when it was completed in the source
+   */
+  private async createImportedTodo(
+    dataService: TodoDataService,
+    fields: ImportedFields,
+    target: ImportTarget,
+    now: Date
+  ): Promise<UUID> {
+    return dataService.createTodo({
+      agentId: this.runtime.agentId,
+      ...target,
+      name: fields.name,
+      description: fields.description,
+      type: fields.type,
+      priority: fields.priority,
+      isUrgent: fields.isUrgent,
+      dueDate: fields.dueDate,
+      recurrence: fields.recurrence,
+      isCompleted: fields.isCompleted,
+      completedAt: fields.completedAt,
+      metadata: { ...fields.metadata, importedAt: now.toISOString() },
+      tags: fields.tags,
+    });
+  }
+
+  /**
+   * Update a previously imported todo to match the item. Returns whether anything changed.
+   */
+  private async applyChanges(todo: TodoData, fields: ImportedFields): Promise<boolean> {
+    const dataService = createTodoDataService(this.runtime);
+    const updates: Parameters<typeof dataService.updateTodo>[1] = {};
+
+    if (todo.name !== fields.name) updates.name = fields.name;
+    if (fields.description !== undefined && todo.description !== fields.description) {
+      updates.description = fields.description;
+    }
+    if (fields.priority !== undefined && todo.priority !== fields.priority) {
+      updates.priority = fields.priority;
+    }
+    if (todo.dueDate?.getTime() !== fields.dueDate?.getTime() && fields.dueDate) {
+      updates.dueDate = fields.dueDate;
+    }
+    if (JSON.stringify(todo.recurrence ?? null) !== JSON.stringify(fields.recurrence ?? null)) {
+      updates.recurrence = fields.recurrence ?? null;
+    }
+    if (todo.isCompleted !== fields.isCompleted) {
+      updates.isCompleted = fields.isCompleted;
+      updates.completedAt = fields.completedAt;
+    }
+
+    const newTags = fields.tags.filter((tag) => !todo.tags?.includes(tag));
+    if (Object.keys(updates).length === 0 && newTags.length === 0) return false;
+
+    if (Object.keys(updates).length > 0) await dataService.updateTodo(todo.id, updates);
+    if (newTags.length > 0) await dataService.addTags(todo.id, newTags);
+    return true;
+  }
+
+  /**
+   * The todos earlier imports created, by their iCal UID
+   */
+  private async findImportedTodos(uids: string[]): Promise<Map<string, UUID>> {
+    if (uids.length === 0) return new Map();
+    const { db } = this.runtime;
+    const ownIds = uids.map(getTodoIdFromICalUid).filter((id): id is string => id !== null);
+
+    const rows = await db
+      .select({ id: todosTable.id, metadata: todosTable.metadata })
+      .from(todosTable)
+      .where(
+        and(
+          eq(todosTable.agentId, this.runtime.agentId),
+          or(
+            inArray(sql`${todosTable.metadata}->>'icalUid'`, uids),
+            ownIds.length > 0 ? inArray(todosTable.id, ownIds) : undefined
+          )
+        )
+      );
+
+    return new Map(rows.map((row: any) => [getICalUid(row), row.id as UUID]));
+  }
+}
+
+/**
+ * Create a new TodoImportService instance
+ */
+export function createTodoImportService(runtime: IAgentRuntime): TodoImportService {
+  return new TodoImportService(runtime);
+}
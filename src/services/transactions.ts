@@ -0,0 +1,27 @@
+import type { IAgentRuntime } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+
+// Set on the runtime handed to transaction work, so every service built from it joins in
+export const PENDING_CHANGES = Symbol('todoPendingChanges');
+
+/**
+ * A runtime that writes through a transaction, carrying the changes to publish once it commits
+ */
+export type TransactionRuntime<T = unknown> = IAgentRuntime & { [PENDING_CHANGES]?: T[] };
+
+/**
+ * Whether the runtime writes through a transaction opened by `withTransaction`
+ */
+export function isInTransaction(runtime: IAgentRuntime): boolean {
+  return !!(runtime as TransactionRuntime)[PENDING_CHANGES];
+}
+
+/**
+ * Log a failed database call, for the caller to report a failed result. Inside a transaction
+ * the error is rethrown instead: a failed statement aborts the whole transaction, so it must not
+ * be mistaken for a result a caller might not check.
+ */
+export function logDbError(runtime: IAgentRuntime, message: string, error: unknown): void {
+  logger.error(`${message}: ${String(error)}`);
+  if (isInTransaction(runtime)) throw error;
+}
@@ -0,0 +1,495 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { logger } from '@elizaos/core';
+import { and, desc, eq, inArray, lte, type SQL } from 'drizzle-orm';
+import { todoWebhookDeliveriesTable, todoWebhooksTable } from '../schema';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../utils/webhooks';
+import type { TodoDomainEventName } from './domainEvents';
+import { getRetryDelay } from './notificationDeliveryService';
+import { logDbError } from './transactions';
+
+export type WebhookDeliveryStatus = 'pending' | 'delivered' | 'retrying' | 'failed';
+
+/**
+ * A webhook subscription. The secret is only returned when the webhook is created.
+ */
+export interface WebhookRecord {
+  id: UUID;
+  url: string;
+  events: TodoDomainEventName[]; // Empty for every event
+  description: string | null;
+  isActive: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * An event posted, or to be posted, to a webhook
+ */
+export interface WebhookDeliveryRecord {
+  id: UUID;
+  webhookId: UUID;
+  event: string;
+  todoId: UUID | null;
+  payload: any;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  responseStatus: number | null;
+  lastError: string | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+}
+
+export interface WebhookInput {
+  url: string;
+  secret?: string;
+  events?: TodoDomainEventName[];
+  description?: string | null;
+  isActive?: boolean;
+}
+
+export const MAX_WEBHOOK_ATTEMPTS = 6;
+const WEBHOOK_TIMEOUT_MS = 10 * 1000;
+// How long an attempt holds its delivery back from retry checks. If the process dies before the
+// outcome is recorded, the delivery is picked up again once this has passed.
+const WEBHOOK_CLAIM_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * Whether a failed response is worth retrying. Client errors other than timeouts and rate
+ * limits will fail the same way again.
+ */
+function isRetryableStatus(status: number): boolean {
+  return status >= 500 || status === 408 || status === 429;
+}
+
+/**
+ * Posts todo lifecycle events to subscribed URLs with HMAC-signed payloads, retries failed
+ * deliveries with exponential back-off and keeps a log of every delivery
+ */
+export class WebhookService {
+  protected runtime: IAgentRuntime;
+
+  constructor(runtime: IAgentRuntime) {
+    this.runtime = runtime;
+  }
+
+  /**
+   * Create a webhook, generating a secret unless one is given. Returns it with its secret.
+   */
+  async createWebhook(input: WebhookInput): Promise<(WebhookRecord & { secret: string }) | null> {
+    try {
+      const { db } = this.runtime;
+      const secret = input.secret || generateWebhookSecret();
+
+      const [row] = await db
+        .insert(todoWebhooksTable)
+        .values({
+          agentId: this.runtime.agentId,
+          url: input.url,
+          secret,
+          events: input.events ?? [],
+          description: input.description ?? null,
+          isActive: input.isActive ?? true,
+        })
+        .returning();
+
+      logger.info(`Created webhook ${row.id} for ${input.url}`);
+      return { ...this.toWebhookRecord(row), secret };
+    } catch (error) {
+      logDbError(this.runtime, 'Error creating webhook', error);
+      return null;
+    }
+  }
+
+  /**
+   * Get the agent's webhooks
+   */
+  async getWebhooks(): Promise<WebhookRecord[]> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .select()
+        .from(todoWebhooksTable)
+        .where(eq(todoWebhooksTable.agentId, this.runtime.agentId))
+        .orderBy(desc(todoWebhooksTable.createdAt));
+
+      return rows.map((row: any) => this.toWebhookRecord(row));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting webhooks', error);
+      return [];
+    }
+  }
+
+  /**
+   * Get one of the agent's webhooks
+   */
+  async getWebhook(webhookId: UUID): Promise<WebhookRecord | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [row] = await db
+        .select()
+        .from(todoWebhooksTable)
+        .where(
+          and(
+            eq(todoWebhooksTable.id, webhookId),
+            eq(todoWebhooksTable.agentId, this.runtime.agentId)
+          )
+        )
+        .limit(1);
+
+      return row ? this.toWebhookRecord(row) : null;
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting webhook', error);
+      return null;
+    }
+  }
+
+  /**
+   * Change a webhook's URL, secret, event filter or description, or pause it.
+   * Returns the updated webhook, or null if it does not exist.
+   */
+  async updateWebhook(
+    webhookId: UUID,
+    updates: Partial<WebhookInput>
+  ): Promise<WebhookRecord | null> {
+    try {
+      const { db } = this.runtime;
+
+      const [row] = await db
+        .update(todoWebhooksTable)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(
+          and(
+            eq(todoWebhooksTable.id, webhookId),
+            eq(todoWebhooksTable.agentId, this.runtime.agentId)
+          )
+        )
+        .returning();
+
+      return row ? this.toWebhookRecord(row) : null;
+    } catch (error) {
+      logDbError(this.runtime, 'Error updating webhook', error);
+      return null;
+    }
+  }
+
+  /**
+   * Delete a webhook along with its delivery log
+   */
+  async deleteWebhook(webhookId: UUID): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .delete(todoWebhooksTable)
+        .where(
+          and(
+            eq(todoWebhooksTable.id, webhookId),
+            eq(todoWebhooksTable.agentId, this.runtime.agentId)
+          )
+        )
+        .returning({ id: todoWebhooksTable.id });
+
+      return rows.length > 0;
+    } catch (error) {
+      logDbError(this.runtime, 'Error deleting webhook', error);
+      return false;
+    }
+  }
+
+  /**
+   * Post an event to every active webhook subscribed to it. Returns the number of webhooks it
+   * was delivered to right away; the others are retried later.
+   */
+  async dispatchEvent(
+    event: TodoDomainEventName,
+    data: { todoId?: UUID; [key: string]: unknown },
+    now: Date = new Date()
+  ): Promise<number> {
+    try {
+      const { db } = this.runtime;
+
+      const webhooks = await db
+        .select()
+        .from(todoWebhooksTable)
+        .where(
+          and(
+            eq(todoWebhooksTable.agentId, this.runtime.agentId),
+            eq(todoWebhooksTable.isActive, true)
+          )
+        );
+      const subscribed = webhooks.filter(
+        (webhook: any) => webhook.events.length === 0 || webhook.events.includes(event)
+      );
+      if (subscribed.length === 0) return 0;
+
+      const payload = {
+        event,
+        agentId: this.runtime.agentId,
+        occurredAt: now.toISOString(),
+        data,
+      };
+      const deliveries = await db
+        .insert(todoWebhookDeliveriesTable)
+        .values(
+          subscribed.map((webhook: any) => ({
+            agentId: this.runtime.agentId,
+            webhookId: webhook.id,
+            event,
+            todoId: data.todoId ?? null,
+            payload,
+            nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_TIMEOUT_MS),
+          }))
+        )
+        .returning();
+
+      const statuses = await Promise.all(
+        deliveries.map((delivery: any) =>
+          this.attemptDelivery(
+            delivery,
+            subscribed.find((webhook: any) => webhook.id === delivery.webhookId),
+            now
+          )
+        )
+      );
+      return statuses.filter((status) => status === 'delivered').length;
+    } catch (error) {
+      logDbError(this.runtime, `Error dispatching ${event} to webhooks`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Attempt the deliveries whose retry is due, including attempts whose claim timed out without
+   * an outcome. They are claimed in the same statement by moving their next attempt past the
+   * claim timeout, so each retry is attempted by one instance only. Returns the number delivered.
+   */
+  async retryDueDeliveries(now: Date = new Date(), limit: number = 50): Promise<number> {
+    try {
+      const { db } = this.runtime;
+
+      const due = db
+        .select({ id: todoWebhookDeliveriesTable.id })
+        .from(todoWebhookDeliveriesTable)
+        .where(
+          and(
+            eq(todoWebhookDeliveriesTable.agentId, this.runtime.agentId),
+            inArray(todoWebhookDeliveriesTable.status, ['pending', 'retrying']),
+            lte(todoWebhookDeliveriesTable.nextAttemptAt, now)
+          )
+        )
+        .limit(limit);
+
+      const claimed = await db
+        .update(todoWebhookDeliveriesTable)
+        .set({ nextAttemptAt: new Date(now.getTime() + WEBHOOK_CLAIM_TIMEOUT_MS), updatedAt: now })
+        .where(
+          and(
+            inArray(todoWebhookDeliveriesTable.id, due),
+            inArray(todoWebhookDeliveriesTable.status, ['pending', 'retrying']),
+            lte(todoWebhookDeliveriesTable.nextAttemptAt, now)
+          )
+        )
+        .returning();
+      if (claimed.length === 0) return 0;
+
+      const webhooks = await db
+        .select()
+        .from(todoWebhooksTable)
+        .where(
+          inArray(
+            todoWebhooksTable.id,
+            claimed.map((delivery: any) => delivery.webhookId)
+          )
+        );
+
+      let delivered = 0;
+      for (const delivery of claimed) {
+        const webhook = webhooks.find((candidate: any) => candidate.id === delivery.webhookId);
+        const status = await this.attemptDelivery(delivery, webhook, now);
+        if (status === 'delivered') delivered++;
+      }
+      return delivered;
+    } catch (error) {
+      logDbError(this.runtime, 'Error retrying webhook deliveries', error);
+      return 0;
+    }
+  }
+
+  /**
+   * Get the delivery log, most recent first
+   */
+  async getDeliveries(
+    filters: { webhookId?: UUID; status?: WebhookDeliveryStatus; limit?: number } = {}
+  ): Promise<WebhookDeliveryRecord[]> {
+    try {
+      const { db } = this.runtime;
+      const conditions: SQL[] = [eq(todoWebhookDeliveriesTable.agentId, this.runtime.agentId)];
+
+      if (filters.webhookId) {
+        conditions.push(eq(todoWebhookDeliveriesTable.webhookId, filters.webhookId));
+      }
+      if (filters.status) {
+        conditions.push(eq(todoWebhookDeliveriesTable.status, filters.status));
+      }
+
+      const rows = await db
+        .select()
+        .from(todoWebhookDeliveriesTable)
+        .where(and(...conditions))
+        .orderBy(desc(todoWebhookDeliveriesTable.createdAt))
+        .limit(filters.limit ?? 50);
+
+      return rows.map((row: any) => this.toDeliveryRecord(row));
+    } catch (error) {
+      logDbError(this.runtime, 'Error getting webhook deliveries', error);
+      return [];
+    }
+  }
+
+  /**
+   * Send a delivery again with a fresh set of attempts, starting with the next retry check
+   */
+  async redeliver(deliveryId: UUID, now: Date = new Date()): Promise<boolean> {
+    try {
+      const { db } = this.runtime;
+
+      const rows = await db
+        .update(todoWebhookDeliveriesTable)
+        .set({ status: 'retrying', attempts: 0, nextAttemptAt: now, updatedAt: now })
+        .where(
+          and(
+            eq(todoWebhookDeliveriesTable.id, deliveryId),
+            eq(todoWebhookDeliveriesTable.agentId, this.runtime.agentId),
+            inArray(todoWebhookDeliveriesTable.status, ['delivered', 'failed'])
+          )
+        )
+        .returning({ id: todoWebhookDeliveriesTable.id });
+
+      return rows.length > 0;
+    } catch (error) {
+      logDbError(this.runtime, 'Error requeueing webhook delivery', error);
+      return false;
+    }
+  }
+
+  /**
+   * Post a delivery to its webhook and record the outcome. A failure is retried after an
+   * exponentially growing delay until MAX_WEBHOOK_ATTEMPTS, unless it can't succeed.
+   */
+  private async attemptDelivery(
+    delivery: any,
+    webhook: { url: string; secret: string; isActive: boolean } | undefined,
+    now: Date
+  ): Promise<WebhookDeliveryStatus> {
+    const attempt = delivery.attempts + 1;
+    let responseStatus: number | null = null;
+    let error: string | null = null;
+    let retryable = true;
+
+    if (!webhook?.isActive) {
+      error = 'Webhook was deleted or paused';
+      retryable = false;
+    } else {
+      const body = JSON.stringify({ id: delivery.id, ...delivery.payload });
+      try {
+        const response = await fetch(webhook.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'User-Agent': 'elizaos-plugin-todo',
+            'X-Todo-Event': delivery.event,
+            'X-Todo-Delivery': delivery.id,
+            [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(
+              webhook.secret,
+              body,
+              Math.floor(now.getTime() / 1000)
+            ),
+          },
+          body,
+          signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+        });
+        responseStatus = response.status;
+        if (!response.ok) {
+          error = `HTTP ${response.status}`;
+          retryable = isRetryableStatus(response.status);
+        }
+      } catch (fetchError) {
+        error = String(fetchError); // Network errors and timeouts
+      }
+    }
+
+    const status: WebhookDeliveryStatus = !error
+      ? 'delivered'
+      : retryable && attempt < MAX_WEBHOOK_ATTEMPTS
+        ? 'retrying'
+        : 'failed';
+
+    try {
+      const { db } = this.runtime;
+
+      await db
+        .update(todoWebhookDeliveriesTable)
+        .set({
+          status,
+          attempts: attempt,
+          responseStatus,
+          lastError: error,
+          nextAttemptAt:
+            status === 'retrying' ? new Date(now.getTime() + getRetryDelay(attempt)) : null,
+          deliveredAt: status === 'delivered' ? now : null,
+          updatedAt: now,
+        })
+        .where(eq(todoWebhookDeliveriesTable.id, delivery.id));
+    } catch (recordError) {
+      logger.error(`Error recording webhook delivery ${delivery.id}: ${String(recordError)}`);
+    }
+
+    if (error) {
+      logger.warn(`Webhook delivery ${delivery.id} ${status} after attempt ${attempt}: ${error}`);
+    }
+    return status;
+  }
+
+  private toWebhookRecord(row: any): WebhookRecord {
+    return {
+      id: row.id,
+      url: row.url,
+      events: row.events ?? [],
+      description: row.description ?? null,
+      isActive: row.isActive,
+      createdAt: row.createdAt,
+      updatedAt: row.updatedAt,
+    };
+  }
+
+  private toDeliveryRecord(row: any): WebhookDeliveryRecord {
+    return {
+      id: row.id,
+      webhookId: row.webhookId,
+      event: row.event,
+      todoId: row.todoId ?? null,
+      payload: row.payload,
+      status: row.status,
+      attempts: row.attempts,
+      responseStatus: row.responseStatus ?? null,
+      lastError: row.lastError ?? null,
+      nextAttemptAt: row.nextAttemptAt ?? null,
+      deliveredAt: row.deliveredAt ?? null,
+      createdAt: row.createdAt,
+    };
+  }
+}
+
+/**
+ * Create a new WebhookService instance
+ */
+export function createWebhookService(runtime: IAgentRuntime): WebhookService {
+  return new WebhookService(runtime);
+}
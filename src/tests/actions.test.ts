@@ -1,9 +1,18 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { createTodoAction } from '../actions/createTodo';
 import { completeTodoAction } from '../actions/completeTodo';
 import { confirmTodoAction } from '../actions/confirmTodo';
 import { updateTodoAction } from '../actions/updateTodo';
 import { cancelTodoAction } from '../actions/cancelTodo';
+import { restoreTodoAction } from '../actions/restoreTodo';
+import { snoozeTodoAction } from '../actions/snoozeTodo';
+import { importTodoListAction } from '../actions/importTodoList';
+import { bulkUpdateTodosAction } from '../actions/bulkUpdateTodos';
+import { TodoDataService } from '../services/todoDataService';
+import { TodoImportService } from '../services/todoImportService';
+import { TodoBulkService } from '../services/todoBulkService';
+import { TodoScoringService } from '../services/scoringService';
+import { updateNotificationPreferencesAction } from '../actions/updateNotificationPreferences';
 import type { IAgentRuntime, Memory, UUID } from '@elizaos/core';
 
 describe('Todo Actions', () => {
@@ -80,6 +89,41 @@ describe('Todo Actions', () => {
       });
       expect(callbackCalled).toBe(true);
     });
+
+    it('should roll back the score when the task was completed in the meantime', async () => {
+      const task = { id: 'todo-1', name: 'Pay rent', type: 'one-off', metadata: {} };
+      vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([task] as any);
+      const recordCompletion = vi
+        .spyOn(TodoScoringService.prototype, 'recordCompletion')
+        .mockResolvedValue({ points: 10, isOnTime: true, streak: 1, longestStreak: 1 });
+      // Another request completed it first, so the conditional update changes nothing
+      const updateTodo = vi.spyOn(TodoDataService.prototype, 'updateTodo').mockResolvedValue(false);
+      let rolledBack: unknown;
+      const transaction = vi.fn((run: (tx: any) => Promise<unknown>) =>
+        run({}).catch((error) => {
+          rolledBack = error;
+          throw error;
+        })
+      );
+
+      let reply = '';
+      await completeTodoAction.handler(
+        { ...mockRuntime, db: { transaction } } as any,
+        mockMessage,
+        { data: {} } as any,
+        { taskId: 'todo-1' },
+        async (response) => {
+          reply = response.text || '';
+          return [];
+        }
+      );
+
+      expect(recordCompletion).toHaveBeenCalledTimes(1);
+      expect(updateTodo).toHaveBeenCalledWith('todo-1', expect.anything(), { isCompleted: false });
+      expect(String(rolledBack)).toContain('already completed');
+      expect(reply).toContain('I encountered an error');
+      vi.restoreAllMocks();
+    });
   });
 
   describe('CONFIRM_TODO Action', () => {
@@ -130,9 +174,283 @@ describe('Todo Actions', () => {
     });
   });
 
+  describe('RESTORE_TODO Action', () => {
+    it('should validate correctly', async () => {
+      const result = await restoreTodoAction.validate(mockRuntime, mockMessage);
+      expect(typeof result).toBe('boolean');
+    });
+
+    it('should handle missing context gracefully', async () => {
+      let callbackCalled = false;
+      await restoreTodoAction.handler(mockRuntime, mockMessage, undefined, {}, async () => {
+        callbackCalled = true;
+        return [];
+      });
+      expect(callbackCalled).toBe(true);
+    });
+  });
+
+  describe('SNOOZE_TODO Action', () => {
+    it('should validate correctly', async () => {
+      const result = await snoozeTodoAction.validate(mockRuntime, mockMessage);
+      expect(typeof result).toBe('boolean');
+    });
+
+    it('should handle missing context gracefully', async () => {
+      let callbackCalled = false;
+      await snoozeTodoAction.handler(mockRuntime, mockMessage, undefined, {}, async () => {
+        callbackCalled = true;
+        return [];
+      });
+      expect(callbackCalled).toBe(true);
+    });
+
+    it('should snooze the task from a reminder button', async () => {
+      const task = { id: 'task-1', entityId: 'user-1', name: 'Pay rent' };
+      vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([task] as any);
+      vi.spyOn(TodoDataService.prototype, 'getUserTimezone').mockResolvedValue('UTC');
+      const snooze = vi.spyOn(TodoDataService.prototype, 'snoozeTodo').mockResolvedValue(true);
+
+      const before = Date.now();
+      let reply = '';
+      await snoozeTodoAction.handler(
+        mockRuntime,
+        mockMessage,
+        { data: {} } as any,
+        { taskId: 'task-1', until: '2 hours' },
+        async (response) => {
+          reply = response.text || '';
+          return [];
+        }
+      );
+
+      expect(snooze).toHaveBeenCalledWith('task-1', expect.any(Date));
+      const until = (snooze.mock.calls[0][1] as Date).getTime();
+      expect(until - before).toBeGreaterThanOrEqual(2 * 60 * 60 * 1000);
+      expect(until - before).toBeLessThan(2 * 60 * 60 * 1000 + 60 * 1000);
+      expect(reply).toContain('Snoozed "Pay rent"');
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('UPDATE_NOTIFICATION_PREFERENCES Action', () => {
+    it('should validate correctly', async () => {
+      const result = await updateNotificationPreferencesAction.validate(mockRuntime, mockMessage);
+      expect(result).toBe(true);
+    });
+
+    it('should handle missing context gracefully', async () => {
+      let callbackCalled = false;
+      await updateNotificationPreferencesAction.handler(
+        mockRuntime,
+        mockMessage,
+        undefined,
+        {},
+        async () => {
+          callbackCalled = true;
+          return [];
+        }
+      );
+      expect(callbackCalled).toBe(true);
+    });
+  });
+
+  describe('IMPORT_TODO_LIST Action', () => {
+    const listMessage = (text: string): Memory =>
+      ({ ...mockMessage, content: { text, source: 'test' } }) as any;
+
+    it('should validate only pasted lists', async () => {
+      expect(await importTodoListAction.validate(mockRuntime, mockMessage)).toBe(false);
+      expect(
+        await importTodoListAction.validate(mockRuntime, listMessage('- [ ] Buy milk'))
+      ).toBe(true);
+      expect(
+        await importTodoListAction.validate(
+          mockRuntime,
+          listMessage('(A) Call plumber +house\nPay rent due:2024-06-03')
+        )
+      ).toBe(true);
+    });
+
+    it('should create every item of the list at once', async () => {
+      const importRecords = vi
+        .spyOn(TodoImportService.prototype, 'importRecords')
+        .mockResolvedValue({
+          dryRun: false,
+          total: 2,
+          created: 1,
+          todoIds: ['todo-1' as UUID],
+          preview: [{ name: 'Buy milk' }] as any,
+          duplicates: [{ row: 2, name: 'Call mom', todoId: 'todo-2' as UUID }],
+          errors: [],
+        });
+
+      let reply = '';
+      await importTodoListAction.handler(
+        mockRuntime,
+        listMessage('Shopping:\n- [ ] Buy milk #errands\n- [ ] Call mom'),
+        undefined,
+        {},
+        async (response) => {
+          reply = response.text || '';
+          return [];
+        }
+      );
+
+      expect(importRecords).toHaveBeenCalledWith(
+        [
+          { name: 'Buy milk', isCompleted: false, tags: ['errands'] },
+          { name: 'Call mom', isCompleted: false, tags: [] },
+        ],
+        { worldId: 'test-world', roomId: 'room-1', entityId: 'user-1' }
+      );
+      expect(reply).toContain('Added 1 task from your list:\n- Buy milk');
+      expect(reply).toContain('Already on your list, so skipped: Call mom');
+      vi.restoreAllMocks();
+    });
+
+    it('should not list tasks as added when the import failed', async () => {
+      vi.spyOn(TodoImportService.prototype, 'importRecords').mockResolvedValue({
+        dryRun: false,
+        total: 2,
+        created: 0,
+        todoIds: [],
+        preview: [{ name: 'Buy milk' }, { name: 'Call mom' }] as any,
+        duplicates: [],
+        errors: [{ row: 2, name: 'Call mom', errors: ['Error: DB error'] }],
+      });
+
+      let reply = '';
+      await importTodoListAction.handler(
+        mockRuntime,
+        listMessage('- [ ] Buy milk\n- [ ] Call mom'),
+        undefined,
+        {},
+        async (response) => {
+          reply = response.text || '';
+          return [];
+        }
+      );
+
+      expect(reply).not.toContain('Added');
+      expect(reply).toContain("I couldn't add these:\n- Call mom: Error: DB error");
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('BULK_UPDATE_TODOS Action', () => {
+    it('should not validate without a room', async () => {
+      const isValid = await bulkUpdateTodosAction.validate(mockRuntime, {
+        ...mockMessage,
+        roomId: undefined,
+      } as any);
+      expect(isValid).toBe(false);
+    });
+
+    it('should apply the extracted changes together and summarize them', async () => {
+      vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([
+        { id: 'todo-1', name: 'Buy milk', tags: ['shopping'] },
+        { id: 'todo-2', name: 'Buy eggs', tags: ['shopping'] },
+        { id: 'todo-3', name: 'Send invoice', tags: [] },
+      ] as any);
+      vi.spyOn(TodoDataService.prototype, 'getUserTimezones').mockResolvedValue(new Map());
+      const applyOperations = vi
+        .spyOn(TodoBulkService.prototype, 'applyOperations')
+        .mockResolvedValue({
+          applied: 2,
+          outcomes: [
+            {
+              index: 0,
+              action: 'complete',
+              todoId: 'todo-1' as UUID,
+              name: 'Buy milk',
+              points: 10,
+            },
+            {
+              index: 1,
+              action: 'complete',
+              todoId: 'todo-2' as UUID,
+              name: 'Buy eggs',
+              points: 10,
+            },
+          ],
+          errors: [],
+          rolledBack: false,
+        });
+      const runtime = {
+        ...mockRuntime,
+        useModel: () =>
+          Promise.resolve(
+            '<response><operations>' +
+              '<operation><taskId>todo-1</taskId><action>complete</action></operation>' +
+              '<operation><taskId>todo-2</taskId><action>complete</action></operation>' +
+              '<operation><taskId>todo-9</taskId><action>complete</action></operation>' +
+              '</operations></response>'
+          ),
+      } as any;
+
+      let reply = '';
+      await bulkUpdateTodosAction.handler(
+        runtime,
+        { ...mockMessage, content: { text: 'Complete all my shopping tasks', source: 'test' } },
+        { data: {} } as any,
+        {},
+        async (response) => {
+          reply = response.text || '';
+          return [];
+        }
+      );
+
+      expect(applyOperations).toHaveBeenCalledWith([
+        { action: 'complete', todoId: 'todo-1' },
+        { action: 'complete', todoId: 'todo-2' },
+      ]);
+      expect(reply).toBe('✅ Completed: "Buy milk", "Buy eggs"\n+20 points');
+      vi.restoreAllMocks();
+    });
+
+    it('should list due dates in the timezone of each task owner', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2024-06-01T02:00:00Z'));
+      vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([
+        {
+          id: 'todo-1',
+          entityId: 'user-1',
+          name: 'Buy milk',
+          tags: [],
+          dueDate: new Date('2024-06-01T03:00:00Z'),
+        },
+      ] as any);
+      vi.spyOn(TodoDataService.prototype, 'getUserTimezones').mockResolvedValue(
+        new Map([['user-1' as UUID, 'America/Los_Angeles']])
+      );
+      let prompt = '';
+      const runtime = {
+        ...mockRuntime,
+        useModel: (_type: unknown, params: { prompt: string }) => {
+          prompt = params.prompt;
+          return Promise.resolve('<response><operations></operations></response>');
+        },
+      } as any;
+
+      await bulkUpdateTodosAction.handler(
+        runtime,
+        { ...mockMessage, content: { text: 'Push my tasks to tomorrow', source: 'test' } },
+        { data: {} } as any,
+        {},
+        async () => []
+      );
+
+      expect(prompt).toContain('Due: 2024-05-31');
+      expect(prompt).toContain('Fri May 31 2024');
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+  });
+
   describe('Action Examples', () => {
     it('should have proper example structures', () => {
-      const actions = [createTodoAction, completeTodoAction, confirmTodoAction, updateTodoAction, cancelTodoAction];
+      const actions = [createTodoAction, completeTodoAction, confirmTodoAction, updateTodoAction, cancelTodoAction, restoreTodoAction, snoozeTodoAction, updateNotificationPreferencesAction, importTodoListAction, bulkUpdateTodosAction];
       
       actions.forEach(action => {
         expect(action.examples).toBeDefined();
@@ -160,6 +478,11 @@ describe('Todo Actions', () => {
       expect(completeTodoAction.similes).toContain('FINISH_TASK');
       expect(updateTodoAction.similes).toContain('MODIFY_TODO');
       expect(cancelTodoAction.similes).toContain('DELETE_TODO');
+      expect(restoreTodoAction.similes).toContain('UNDO_CANCEL_TODO');
+      expect(snoozeTodoAction.similes).toContain('REMIND_LATER');
+      expect(updateNotificationPreferencesAction.similes).toContain('SET_QUIET_HOURS');
+      expect(importTodoListAction.similes).toContain('PASTE_TODO_LIST');
+      expect(bulkUpdateTodosAction.similes).toContain('COMPLETE_ALL_TODOS');
     });
   });
 });
\ No newline at end of file
@@ -15,13 +15,16 @@ describe('TodoPlugin Basic Tests', () => {
   });
 
   it('should have all required actions', () => {
-    expect(TodoPlugin.actions).toHaveLength(5);
+    expect(TodoPlugin.actions).toHaveLength(10);
     const actionNames = TodoPlugin.actions?.map((action) => action.name) || [];
     expect(actionNames).toContain('CREATE_TODO');
     expect(actionNames).toContain('COMPLETE_TODO');
     expect(actionNames).toContain('CONFIRM_TODO');
     expect(actionNames).toContain('UPDATE_TODO');
     expect(actionNames).toContain('CANCEL_TODO');
+    expect(actionNames).toContain('RESTORE_TODO');
+    expect(actionNames).toContain('SNOOZE_TODO');
+    expect(actionNames).toContain('UPDATE_NOTIFICATION_PREFERENCES');
   });
 
   it('should have the todos provider', () => {
@@ -1,6 +1,7 @@
 import type { HandlerCallback, IAgentRuntime, Memory, State, UUID } from '@elizaos/core';
-import { describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { createTodoAction } from '../actions/createTodo';
+import { TodoDataService } from '../services/todoDataService';
 
 describe('createTodoAction', () => {
   let mockRuntime: IAgentRuntime;
@@ -110,6 +111,87 @@ describe('createTodoAction', () => {
     expect(callbackCalled).toBe(true);
   });
 
+  describe('several tasks in one message', () => {
+    const extraction = `<response>
+  <todos>
+    <todo><name>Buy milk</name><taskType>one-off</taskType><priority>3</priority></todo>
+    <todo><name>Buy eggs</name><taskType>one-off</taskType></todo>
+    <todo>
+      <name>Call the plumber</name>
+      <taskType>one-off</taskType>
+      <priority>2</priority>
+      <dueDate>2024-04-16</dueDate>
+    </todo>
+  </todos>
+</response>`;
+
+    const message: Memory = {
+      entityId: 'user-1' as UUID,
+      roomId: 'room-1' as UUID,
+      content: { text: 'add milk, eggs, and call the plumber tomorrow', source: 'test' },
+    } as any;
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should create every task in one call and confirm them together', async () => {
+      setupMocks();
+      mockRuntime.useModel = (() => Promise.resolve(extraction)) as any;
+      const createTodos = vi.spyOn(TodoDataService.prototype, 'createTodos').mockResolvedValue({
+        created: [
+          { index: 0, id: 'todo-1' as UUID, name: 'Buy milk' },
+          { index: 2, id: 'todo-3' as UUID, name: 'Call the plumber' },
+        ],
+        duplicates: [{ index: 1, name: 'Buy eggs', todoId: 'todo-2' as UUID }],
+      });
+
+      const responses: any[] = [];
+      await createTodoAction.handler(mockRuntime, message, mockState, {}, async (response) => {
+        responses.push(response);
+        return [];
+      });
+
+      expect(createTodos).toHaveBeenCalledTimes(1);
+      const [items] = createTodos.mock.calls[0];
+      expect(items.map((item) => [item.name, item.priority, item.worldId])).toEqual([
+        ['Buy milk', 3, 'world-1'],
+        ['Buy eggs', 3, 'world-1'],
+        ['Call the plumber', 2, 'world-1'],
+      ]);
+      expect(items[2].dueDate).toEqual(new Date('2024-04-16'));
+
+      expect(responses).toHaveLength(1);
+      expect(responses[0].actions).toEqual(['CREATE_TODO_SUCCESS']);
+      expect(responses[0].text).toContain('Added 2 new tasks');
+      expect(responses[0].text).toContain('"Buy milk" (Priority 3)');
+      expect(responses[0].text).toContain('"Call the plumber" (Priority 2, Due: ');
+      expect(responses[0].text).toContain(`You already have "Buy eggs", so I didn't add it again.`);
+    });
+
+    it('should report when every task is a duplicate', async () => {
+      setupMocks();
+      mockRuntime.useModel = (() => Promise.resolve(extraction)) as any;
+      vi.spyOn(TodoDataService.prototype, 'createTodos').mockResolvedValue({
+        created: [],
+        duplicates: [
+          { index: 0, name: 'Buy milk', todoId: 'todo-1' as UUID },
+          { index: 1, name: 'Buy eggs', todoId: 'todo-2' as UUID },
+          { index: 2, name: 'Call the plumber', todoId: 'todo-3' as UUID },
+        ],
+      });
+
+      let reply: any;
+      await createTodoAction.handler(mockRuntime, message, mockState, {}, async (response) => {
+        reply = response;
+        return [];
+      });
+
+      expect(reply.actions).toEqual(['CREATE_TODO_DUPLICATE']);
+      expect(reply.text).toContain('"Buy milk", "Buy eggs", "Call the plumber"');
+    });
+  });
+
   it('should have proper example structure', () => {
     expect(createTodoAction.examples).toBeDefined();
     expect(Array.isArray(createTodoAction.examples)).toBe(true);
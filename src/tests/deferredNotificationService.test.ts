@@ -0,0 +1,140 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { todoDeferredNotificationsTable } from '../schema.ts';
+import {
+  createDeferredNotificationService,
+  DeferredNotificationService,
+} from '../services/deferredNotificationService.ts';
+import type { NotificationData } from '../services/notificationManager.ts';
+
+const notification: NotificationData = {
+  title: 'Overdue: Pay rent',
+  body: 'This was due yesterday',
+  type: 'overdue',
+  taskId: 'task-1' as UUID,
+  roomId: 'room-1' as UUID,
+  entityId: 'entity-1' as UUID,
+};
+
+describe('DeferredNotificationService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: DeferredNotificationService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn(),
+      where: vi.fn(),
+      orderBy: vi.fn(),
+      values: vi.fn(),
+      set: vi.fn(),
+      onConflictDoUpdate: vi.fn(),
+      returning: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.from.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+    mockThenable.orderBy.mockReturnThis();
+    mockThenable.values.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+    mockThenable.onConflictDoUpdate.mockReturnThis();
+    mockThenable.returning.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      select: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+      delete: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createDeferredNotificationService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should replace the deferred notification for the same task', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+    const deliverAt = new Date('2024-01-06T08:00:00Z');
+
+    await expect(service.defer(notification, deliverAt)).resolves.toBe(true);
+
+    expect(mockDb.insert).toHaveBeenCalledWith(todoDeferredNotificationsTable);
+    expect(mockThenable.values).toHaveBeenCalledWith(
+      expect.objectContaining({ taskId: 'task-1', entityId: 'entity-1', deliverAt })
+    );
+    expect(mockThenable.onConflictDoUpdate).toHaveBeenCalledWith(
+      expect.objectContaining({ set: expect.objectContaining({ notification, deliverAt }) })
+    );
+  });
+
+  it('should not collapse notifications without a task', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+    const { taskId, ...systemNotification } = notification;
+
+    await expect(
+      service.defer({ ...systemNotification, type: 'system' }, new Date())
+    ).resolves.toBe(true);
+    expect(mockThenable.onConflictDoUpdate).not.toHaveBeenCalled();
+  });
+
+  it('should claim due notifications without removing them', async () => {
+    mockThenable.then
+      .mockImplementationOnce((resolve: any) =>
+        resolve([
+          { id: 'deferred-1', notification, deliverAt: new Date('2024-01-06T07:00:00Z') },
+          { id: 'deferred-2', notification, deliverAt: new Date('2024-01-06T08:00:00Z') },
+          { id: 'deferred-3', notification, deliverAt: new Date('2024-01-06T08:30:00Z') },
+        ])
+      )
+      // Another claim got to deferred-2 first
+      .mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'deferred-3' }, { id: 'deferred-1' }])
+      );
+
+    const now = new Date('2024-01-06T09:00:00Z');
+    const claimed = await service.claimDue(now);
+
+    expect(mockDb.delete).not.toHaveBeenCalled();
+    expect(mockDb.update).toHaveBeenCalledWith(todoDeferredNotificationsTable);
+    expect(mockThenable.set).toHaveBeenCalledWith({
+      deliverAt: new Date('2024-01-06T09:05:00Z'),
+      updatedAt: now,
+    });
+    expect(claimed.map((deferred) => deferred.id)).toEqual(['deferred-1', 'deferred-3']);
+    expect(claimed[0]).toMatchObject({
+      deliverAt: new Date('2024-01-06T07:00:00Z'),
+      claimedAt: now,
+    });
+  });
+
+  it('should only remove the copy of a notification that was claimed', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+    const claimedAt = new Date('2024-01-06T09:00:00Z');
+
+    await expect(service.remove({ id: 'deferred-1' as UUID, claimedAt })).resolves.toBe(true);
+
+    // A newer notification deferred for the task since the claim updated the row
+    const query = new PgDialect().sqlToQuery(mockThenable.where.mock.calls[0][0]);
+    expect(query.sql).toContain('"updated_at" = $');
+    expect(query.params).toContain(claimedAt.toISOString());
+    expect(mockDb.delete).toHaveBeenCalledWith(todoDeferredNotificationsTable);
+  });
+
+  it('should return false when the notification cannot be stored', async () => {
+    mockThenable.then.mockImplementationOnce((_resolve: any, reject: any) =>
+      reject(new Error('db down'))
+    );
+
+    await expect(service.defer(notification, new Date())).resolves.toBe(false);
+  });
+});
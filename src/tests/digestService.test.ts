@@ -0,0 +1,145 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { todoDigestsTable } from '../schema.ts';
+import {
+  createDigestService,
+  DigestService,
+  formatDigest,
+  isDigestEmpty,
+} from '../services/digestService.ts';
+import { TodoScoringService } from '../services/scoringService.ts';
+import { TodoDataService, type TodoData } from '../services/todoDataService.ts';
+
+const entityId = 'entity-1' as UUID;
+
+function makeTodo(overrides: Partial<TodoData>): TodoData {
+  return {
+    id: 'todo-1' as UUID,
+    agentId: 'agent-1' as UUID,
+    worldId: 'world-1' as UUID,
+    roomId: 'room-1' as UUID,
+    entityId,
+    name: 'Todo',
+    type: 'one-off',
+    isUrgent: false,
+    isCompleted: false,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    updatedAt: new Date('2024-01-01T00:00:00Z'),
+    metadata: {},
+    ...overrides,
+  };
+}
+
+describe('DigestService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: DigestService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  // 07:00 on Friday 5 January in UTC
+  const now = new Date('2024-01-05T07:00:00Z');
+  const todos = [
+    makeTodo({ id: 'habit' as UUID, name: 'Meditate', type: 'daily', metadata: { streak: 4 } }),
+    makeTodo({
+      id: 'report' as UUID,
+      name: 'Send report',
+      dueDate: new Date('2024-01-05T17:00:00Z'),
+      updatedAt: new Date('2024-01-04T00:00:00Z'),
+      roomId: 'room-2' as UUID,
+    }),
+    makeTodo({
+      id: 'later' as UUID,
+      name: 'Book flights',
+      dueDate: new Date('2024-01-09T12:00:00Z'),
+    }),
+    makeTodo({ id: 'done' as UUID, name: 'Call mom', isCompleted: true }),
+  ];
+  const overdue = [
+    makeTodo({ id: 'rent' as UUID, name: 'Pay rent', dueDate: new Date('2024-01-03T12:00:00Z') }),
+  ];
+
+  beforeEach(() => {
+    mockThenable = {
+      values: vi.fn(),
+      onConflictDoNothing: vi.fn(),
+      returning: vi.fn(),
+      then: vi.fn(),
+    };
+    mockThenable.values.mockReturnThis();
+    mockThenable.onConflictDoNothing.mockReturnThis();
+    mockThenable.returning.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue(todos);
+    vi.spyOn(TodoDataService.prototype, 'getOverdueTodos').mockResolvedValue(overdue);
+    vi.spyOn(TodoScoringService.prototype, 'getCompletions').mockResolvedValue([
+      { todoId: 'done', points: 30, completedAt: new Date('2024-01-04T15:00:00Z') },
+      { todoId: 'habit', points: 12, completedAt: new Date('2024-01-05T06:30:00Z') },
+    ] as any);
+    vi.spyOn(TodoScoringService.prototype, 'getUserPoints').mockResolvedValue(420);
+
+    service = createDigestService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("should collect today's tasks, overdue items and yesterday's completions", async () => {
+    const digest = await service.buildDailyDigest(entityId, now, 'UTC');
+
+    expect(digest.date).toBe('2024-01-05');
+    expect(digest.roomId).toBe('room-2');
+    expect(digest.dailyTasks.map((todo) => todo.name)).toEqual(['Meditate']);
+    expect(digest.dueToday.map((todo) => todo.name)).toEqual(['Send report']);
+    expect(digest.overdue.map((todo) => todo.name)).toEqual(['Pay rent']);
+    expect(digest.completedYesterday).toEqual([
+      expect.objectContaining({ name: 'Call mom', points: 30 }),
+    ]);
+
+    const { title, body } = formatDigest(digest);
+    expect(title).toContain('2024-01-05');
+    expect(body).toContain('- Meditate 🔥 4');
+    expect(body).toContain('- Pay rent (due 2024-01-03)');
+    expect(body).toContain('- Call mom (+30 points)');
+  });
+
+  it('should use the local day of the user timezone', async () => {
+    // 07:00 UTC is already the afternoon in Tokyo, where the report is due tomorrow
+    const digest = await service.buildDailyDigest(entityId, now, 'Asia/Tokyo');
+    expect(digest.dueToday).toEqual([]);
+  });
+
+  it('should summarize points and streaks in the weekly review', async () => {
+    const digest = await service.buildWeeklyDigest(entityId, now, 'UTC');
+
+    expect(digest.points).toBe(30);
+    expect(digest.totalPoints).toBe(420);
+    expect(digest.streaks).toEqual([
+      { todoId: 'habit', name: 'Meditate', streak: 4, longestStreak: 4 },
+    ]);
+    expect(digest.dueThisWeek.map((todo) => todo.name)).toEqual(['Send report', 'Book flights']);
+    expect(isDigestEmpty(digest)).toBe(false);
+    expect(formatDigest(digest).body).toContain('30 points this week from 1 completed task');
+  });
+
+  it('should claim each digest window once', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'digest-1' }]));
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+    await expect(service.claimDigest(entityId, 'daily', '2024-01-05')).resolves.toBe('digest-1');
+    await expect(service.claimDigest(entityId, 'daily', '2024-01-05')).resolves.toBeNull();
+    expect(mockDb.insert).toHaveBeenCalledWith(todoDigestsTable);
+    expect(mockThenable.values).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId, kind: 'daily', windowKey: '2024-01-05' })
+    );
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_ESCALATION_POLICIES,
+  getEscalationLevel,
+  getEscalationReminder,
+  parseEscalationPolicies,
+  type EscalationPolicy,
+} from '../utils/escalation';
+
+describe('Escalation ladders', () => {
+  const dueDate = new Date('2024-01-05T12:00:00Z');
+  const policy: EscalationPolicy = {
+    maxReminders: 3,
+    steps: [
+      { afterMinutes: 0, channels: ['in_app'] },
+      { afterMinutes: 60, channels: ['in_app', 'rolodex'] },
+      { afterMinutes: 240, channels: ['in_app', 'rolodex', 'contact'] },
+    ],
+  };
+
+  it('should pick the ladder from urgency and priority', () => {
+    expect(getEscalationLevel({ isUrgent: true, priority: 4 })).toBe('urgent');
+    expect(getEscalationLevel({ isUrgent: false, priority: 2 })).toBe('high');
+    expect(getEscalationLevel({ isUrgent: false, priority: 3 })).toBe('normal');
+    expect(getEscalationLevel({ isUrgent: false, priority: null })).toBe('normal');
+  });
+
+  it('should start with the first step as soon as the todo is overdue', () => {
+    const now = new Date('2024-01-05T12:01:00Z');
+    const reminder = getEscalationReminder(policy, dueDate, 0, null, now);
+    expect(reminder?.step.channels).toEqual(['in_app']);
+    expect(reminder?.windowKey).toBe('escalation:0:2024-01-05T12:00:00.000Z');
+  });
+
+  it('should back off between steps', () => {
+    const lastSent = new Date('2024-01-05T12:01:00Z');
+    expect(
+      getEscalationReminder(policy, dueDate, 1, lastSent, new Date('2024-01-05T12:45:00Z'))
+    ).toBeNull();
+
+    const now = new Date('2024-01-05T13:02:00Z');
+    const second = getEscalationReminder(policy, dueDate, 1, lastSent, now);
+    expect(second?.step.channels).toEqual(['in_app', 'rolodex']);
+    expect(second?.index).toBe(1);
+  });
+
+  it('should stop once the maximum number of reminders was sent', () => {
+    const later = new Date('2024-01-08T12:00:00Z');
+    expect(getEscalationReminder(policy, dueDate, 2, dueDate, later)?.step.channels).toContain(
+      'contact'
+    );
+    expect(getEscalationReminder(policy, dueDate, 3, dueDate, later)).toBeNull();
+  });
+
+  it('should merge valid overrides from settings over the defaults', () => {
+    const policies = parseEscalationPolicies(
+      JSON.stringify({
+        normal: { maxReminders: 1, steps: [{ afterMinutes: 0, channels: ['rolodex'] }] },
+        high: { maxReminders: 2, steps: [{ afterMinutes: 0, channels: ['carrier-pigeon'] }] },
+      })
+    );
+
+    expect(policies.normal.maxReminders).toBe(1);
+    expect(policies.high).toEqual(DEFAULT_ESCALATION_POLICIES.high);
+    expect(policies.urgent).toEqual(DEFAULT_ESCALATION_POLICIES.urgent);
+    expect(parseEscalationPolicies('not json')).toEqual(DEFAULT_ESCALATION_POLICIES);
+  });
+});
@@ -0,0 +1,259 @@
+import type { UUID } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import type { TodoData } from '../services/todoDataService';
+import {
+  escapeICalText,
+  formatICalendar,
+  fromICalPriority,
+  getICalUid,
+  getTodoIdFromICalUid,
+  parseICalendar,
+  toICalPriority,
+} from '../utils/ical';
+
+const now = new Date('2024-06-01T12:00:00Z');
+
+const todo = (overrides: Partial<TodoData> = {}): TodoData =>
+  ({
+    id: 'todo-1' as UUID,
+    agentId: 'agent-1' as UUID,
+    worldId: 'world-1' as UUID,
+    roomId: 'room-1' as UUID,
+    entityId: 'user-1' as UUID,
+    name: 'Pay rent',
+    type: 'one-off',
+    isCompleted: false,
+    tags: [],
+    metadata: {},
+    createdAt: new Date('2024-05-01T08:00:00Z'),
+    updatedAt: new Date('2024-05-02T08:00:00Z'),
+    ...overrides,
+  }) as TodoData;
+
+// Unfolded content lines of a calendar
+const contentLines = (calendar: string) => calendar.replace(/\r\n /g, '').split('\r\n');
+
+// Content lines of the first component of a kind
+const component = (calendar: string, kind: 'VTODO' | 'VEVENT') => {
+  const lines = contentLines(calendar);
+  return lines.slice(lines.indexOf(`BEGIN:${kind}`), lines.indexOf(`END:${kind}`) + 1);
+};
+
+describe('iCalendar export', () => {
+  it('should wrap todos in a calendar with CRLF line endings', () => {
+    const calendar = formatICalendar([todo()], { name: 'Todos', refreshMinutes: 60, now });
+
+    expect(calendar.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\n')).toBe(true);
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(contentLines(calendar)).toEqual(
+      expect.arrayContaining([
+        'X-WR-CALNAME:Todos',
+        'REFRESH-INTERVAL;VALUE=DURATION:PT60M',
+        'X-PUBLISHED-TTL:PT60M',
+      ])
+    );
+  });
+
+  it('should emit one-off todos with a due date as a task and an event', () => {
+    const calendar = formatICalendar(
+      [todo({ dueDate: new Date('2024-06-03T09:00:00Z'), priority: 2, tags: ['home', 'bills'] })],
+      { now }
+    );
+
+    expect(component(calendar, 'VTODO')).toEqual([
+      'BEGIN:VTODO',
+      'UID:todo-1@todo.elizaos.ai',
+      'DTSTAMP:20240601T120000Z',
+      'CREATED:20240501T080000Z',
+      'LAST-MODIFIED:20240502T080000Z',
+      'SUMMARY:Pay rent',
+      'DUE:20240603T090000Z',
+      'PRIORITY:3',
+      'CATEGORIES:home,bills',
+      'STATUS:NEEDS-ACTION',
+      'END:VTODO',
+    ]);
+    expect(component(calendar, 'VEVENT')).toEqual(
+      expect.arrayContaining([
+        'UID:event-todo-1@todo.elizaos.ai',
+        'DTSTART:20240603T090000Z',
+        'DURATION:PT30M',
+      ])
+    );
+  });
+
+  it('should only add events for todos that have a place on the calendar', () => {
+    const calendar = formatICalendar([todo({ type: 'aspirational' })], { now });
+
+    expect(calendar).toContain('BEGIN:VTODO');
+    expect(calendar).not.toContain('BEGIN:VEVENT');
+    expect(formatICalendar([todo()], { components: 'events', now })).not.toContain('VTODO');
+  });
+
+  it('should emit recurring daily tasks as RRULEs', () => {
+    const legacy = todo({ type: 'daily', metadata: { recurring: 'weekly' } });
+    const calendar = formatICalendar([legacy], { now });
+
+    expect(component(calendar, 'VTODO')).toEqual(
+      expect.arrayContaining(['DTSTART;VALUE=DATE:20240501', 'RRULE:FREQ=WEEKLY'])
+    );
+    expect(component(calendar, 'VEVENT')).toEqual(
+      expect.arrayContaining(['DTSTART;VALUE=DATE:20240501', 'RRULE:FREQ=WEEKLY'])
+    );
+
+    const scheduled = todo({
+      type: 'daily',
+      dueDate: new Date('2024-06-03T09:00:00Z'),
+      recurrence: { frequency: 'daily', interval: 2 },
+    });
+    expect(component(formatICalendar([scheduled], { now }), 'VTODO')).toEqual(
+      expect.arrayContaining([
+        'DTSTART:20240603T090000Z',
+        'DUE:20240603T090000Z',
+        'RRULE:FREQ=DAILY;INTERVAL=2',
+      ])
+    );
+  });
+
+  it('should report completion status', () => {
+    const completedAt = new Date('2024-05-20T10:00:00Z');
+    const calendar = formatICalendar([todo({ isCompleted: true, completedAt })], { now });
+
+    expect(component(calendar, 'VTODO')).toEqual(
+      expect.arrayContaining([
+        'STATUS:COMPLETED',
+        'PERCENT-COMPLETE:100',
+        'COMPLETED:20240520T100000Z',
+      ])
+    );
+    expect(formatICalendar([todo({ cancelledAt: completedAt })], { now })).toContain(
+      'STATUS:CANCELLED'
+    );
+    expect(
+      formatICalendar(
+        [todo({ progress: { total: 4, completed: 1, percent: 25 } as TodoData['progress'] })],
+        { now }
+      )
+    ).toContain('STATUS:IN-PROCESS\r\nPERCENT-COMPLETE:25');
+  });
+
+  it('should map priorities with urgent todos first', () => {
+    expect(toICalPriority({ priority: 1, isUrgent: false })).toBe(1);
+    expect(toICalPriority({ priority: 4, isUrgent: false })).toBe(9);
+    expect(toICalPriority({ priority: 4, isUrgent: true })).toBe(1);
+    expect(toICalPriority({ priority: null, isUrgent: false })).toBe(0);
+  });
+
+  it('should escape text and fold long lines', () => {
+    expect(escapeICalText('Milk, eggs; bread\nand \\ more')).toBe(
+      'Milk\\, eggs\\; bread\\nand \\\\ more'
+    );
+
+    const name = 'Plan the ☀️ summer trip '.repeat(6);
+    const calendar = formatICalendar([todo({ name })], { now });
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    expect(contentLines(calendar)).toContain(`SUMMARY:${name}`);
+  });
+
+  it('should keep the UID a todo was imported with', () => {
+    expect(getICalUid(todo({ metadata: { icalUid: 'abc@calendar.example.com' } }))).toBe(
+      'abc@calendar.example.com'
+    );
+  });
+
+  describe('import', () => {
+    const calendar = [
+      'BEGIN:VCALENDAR',
+      'VERSION:2.0',
+      'BEGIN:VEVENT',
+      'UID:meeting@example.com',
+      'SUMMARY:Standup',
+      'END:VEVENT',
+      'BEGIN:VTODO',
+      'UID:rent@example.com',
+      'SUMMARY:Pay rent\\, water and power',
+      'DESCRIPTION:Transfer from the joint\\naccount',
+      'DUE;TZID=Europe/Berlin:20240603T090000',
+      'PRIORITY:2',
+      'CATEGORIES:home,bills',
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'UID:stretch@example.com',
+      'SUMMARY:Stretch',
+      'DTSTART;VALUE=DATE:20240601',
+      'RRULE:FREQ=WEEKLY;BYDAY=MO,TH',
+      'STATUS:COMPLETED',
+      'COMPLETED:20240602T070000Z',
+      'END:VTODO',
+      'BEGIN:VTODO',
+      'SUMMARY:Missing a UID',
+      'END:VTODO',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    it('should read VTODO items and skip other components', () => {
+      const [rent, stretch, ...rest] = parseICalendar(calendar);
+
+      expect(rest).toEqual([]);
+      expect(rent).toEqual({
+        uid: 'rent@example.com',
+        summary: 'Pay rent, water and power',
+        description: 'Transfer from the joint\naccount',
+        due: new Date('2024-06-03T07:00:00Z'),
+        priority: 2,
+        categories: ['home', 'bills'],
+      });
+      expect(stretch).toMatchObject({
+        start: new Date('2024-06-01T00:00:00Z'),
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+        status: 'COMPLETED',
+        completed: new Date('2024-06-02T07:00:00Z'),
+      });
+    });
+
+    it('should read floating times in the given timezone and unfold lines', () => {
+      const [item] = parseICalendar(
+        [
+          'BEGIN:VTODO',
+          'UID:a@example.com',
+          'SUMMARY:Call the',
+          '  dentist',
+          'DUE:20240603T090000',
+          'END:VTODO',
+        ].join('\n'),
+        { timeZone: 'America/New_York' }
+      );
+
+      expect(item.summary).toBe('Call the dentist');
+      expect(item.due).toEqual(new Date('2024-06-03T13:00:00Z'));
+    });
+
+    it('should read back what it exports', () => {
+      const exported = todo({
+        name: 'Pay rent, water; power',
+        dueDate: new Date('2024-06-03T09:00:00Z'),
+        priority: 3,
+      });
+      const [item] = parseICalendar(formatICalendar([exported], { now }));
+
+      expect(item).toMatchObject({
+        uid: 'todo-1@todo.elizaos.ai',
+        summary: exported.name,
+        due: exported.dueDate,
+      });
+      expect(fromICalPriority(item.priority)).toBe(3);
+    });
+
+    it('should recognize UIDs of exported todos', () => {
+      const id = '0b8d6a52-6a3a-4ef5-8d48-9f6a9b1b2c3d';
+      expect(getTodoIdFromICalUid(`${id}@todo.elizaos.ai`)).toBe(id);
+      expect(getTodoIdFromICalUid(`${id}@calendar.example.com`)).toBeNull();
+    });
+  });
+});
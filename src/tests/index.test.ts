@@ -10,7 +10,7 @@ describe('TodoPlugin', () => {
       'Provides task management functionality with daily recurring and one-off tasks.'
     );
     expect(TodoPlugin.providers).toHaveLength(1);
-    expect(TodoPlugin.actions).toHaveLength(5); // Now includes confirmTodoAction
+    expect(TodoPlugin.actions).toHaveLength(10); // Includes confirm, restore, snooze, notification preference, list import and bulk actions
     expect(TodoPlugin.services).toHaveLength(2); // Only discoverable services: TodoReminderService and TodoIntegrationBridge
     expect(TodoPlugin.routes).toBeDefined();
     expect(TodoPlugin.init).toBeInstanceOf(Function);
@@ -23,6 +23,9 @@ describe('TodoPlugin', () => {
     expect(actionNames).toContain('CONFIRM_TODO');
     expect(actionNames).toContain('UPDATE_TODO');
     expect(actionNames).toContain('CANCEL_TODO');
+    expect(actionNames).toContain('RESTORE_TODO');
+    expect(actionNames).toContain('SNOOZE_TODO');
+    expect(actionNames).toContain('UPDATE_NOTIFICATION_PREFERENCES');
   });
 
   it('should have all required services', () => {
@@ -0,0 +1,114 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { emitTodoEvent, TodoDomainEvents } from '../services/domainEvents.ts';
+import { TodoIntegrationBridge } from '../services/integrationBridge.ts';
+import type { TodoData } from '../services/todoDataService.ts';
+import { WebhookService } from '../services/webhookService.ts';
+
+// Runtime that dispatches emitted events to registered handlers, like the agent runtime
+function createRuntime() {
+  const events: Record<string, Array<(payload: any) => Promise<void>>> = {};
+  return {
+    agentId: 'agent-1' as UUID,
+    registerEvent: vi.fn((event: string, handler: (payload: any) => Promise<void>) => {
+      (events[event] ??= []).push(handler);
+    }),
+    getEvent: (event: string) => events[event],
+    emitEvent: vi.fn(async (event: string, payload: any) => {
+      for (const handler of events[event] ?? []) await handler(payload);
+    }),
+  } as unknown as IAgentRuntime;
+}
+
+const todo = { id: 'todo-1', name: 'Pay rent' } as TodoData;
+
+describe('TodoIntegrationBridge', () => {
+  let runtime: IAgentRuntime;
+  let bridge: TodoIntegrationBridge;
+  let dispatchSpy: any;
+
+  beforeEach(async () => {
+    dispatchSpy = vi.spyOn(WebhookService.prototype, 'dispatchEvent').mockResolvedValue(0);
+    runtime = createRuntime();
+    bridge = await TodoIntegrationBridge.start(runtime);
+  });
+
+  afterEach(async () => {
+    await bridge.stop();
+    dispatchSpy.mockRestore();
+  });
+
+  it('should pass todo events to subscribers until they unsubscribe', async () => {
+    const handler = vi.fn();
+    const unsubscribe = bridge.on(TodoDomainEvents.TODO_COMPLETED, handler);
+
+    await emitTodoEvent(runtime, TodoDomainEvents.TODO_COMPLETED, {
+      todoId: todo.id,
+      todo,
+      changes: { isCompleted: true },
+    });
+    unsubscribe();
+    await emitTodoEvent(runtime, TodoDomainEvents.TODO_COMPLETED, {
+      todoId: todo.id,
+      todo,
+      changes: { isCompleted: true },
+    });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler).toHaveBeenCalledWith(
+      expect.objectContaining({ todoId: 'todo-1', todo, changes: { isCompleted: true } })
+    );
+    expect(bridge.getSubscriberCount(TodoDomainEvents.TODO_COMPLETED)).toBe(0);
+  });
+
+  it('should register each runtime event once', () => {
+    bridge.on(TodoDomainEvents.TODO_CREATED, vi.fn());
+    bridge.on(TodoDomainEvents.TODO_CREATED, vi.fn());
+
+    expect(runtime.registerEvent).toHaveBeenCalledTimes(Object.keys(TodoDomainEvents).length);
+    expect(bridge.getSubscriberCount(TodoDomainEvents.TODO_CREATED)).toBe(2);
+  });
+
+  it('should keep running handlers when one fails', async () => {
+    const handler = vi.fn();
+    bridge.on(TodoDomainEvents.TODO_DELETED, () => {
+      throw new Error('Workflow failed');
+    });
+    bridge.on(TodoDomainEvents.TODO_DELETED, handler);
+
+    await expect(
+      emitTodoEvent(runtime, TodoDomainEvents.TODO_DELETED, { todoId: todo.id, todo })
+    ).resolves.toBeUndefined();
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('should filter events by todo and run one-off handlers once', async () => {
+    const forTodo = vi.fn();
+    const once = vi.fn();
+    bridge.onTodo('todo-2' as UUID, TodoDomainEvents.TODO_UPDATED, forTodo);
+    bridge.once(TodoDomainEvents.TODO_UPDATED, once);
+
+    for (const id of ['todo-1', 'todo-2']) {
+      await emitTodoEvent(runtime, TodoDomainEvents.TODO_UPDATED, {
+        todoId: id as UUID,
+        todo: { ...todo, id: id as UUID },
+        changes: {},
+      });
+    }
+
+    expect(forTodo).toHaveBeenCalledTimes(1);
+    expect(forTodo.mock.calls[0][0].todoId).toBe('todo-2');
+    expect(once).toHaveBeenCalledTimes(1);
+    expect(once.mock.calls[0][0].todoId).toBe('todo-1');
+  });
+
+  it('should post every event to webhooks, without the runtime', async () => {
+    await emitTodoEvent(runtime, TodoDomainEvents.TODO_CREATED, { todoId: todo.id, todo });
+
+    expect(dispatchSpy).toHaveBeenCalledWith('TODO_CREATED', { todoId: 'todo-1', todo });
+  });
+
+  it('should reject unknown events', () => {
+    expect(() => bridge.on('TODO_ARCHIVED' as any, vi.fn())).toThrow('Unknown todo event');
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { CacheManager } from '../services/cacheManager';
+import { DeferredNotificationService } from '../services/deferredNotificationService';
 import { NotificationManager } from '../services/notificationManager';
 import type { IAgentRuntime, UUID } from '@elizaos/core';
 
@@ -152,6 +153,134 @@ describe('Internal Managers', () => {
       expect(prefs.sound).toBe(false);
     });
 
+    it('should apply room overrides on top of user preferences', async () => {
+      const notificationManager = new NotificationManager(mockRuntime);
+
+      await notificationManager.updateUserPreferences('user-1' as UUID, {
+        quietHours: { start: 23, end: 7 },
+      });
+      await notificationManager.updateUserPreferences(
+        'user-1' as UUID,
+        { reminderTypes: { daily: false } },
+        'room-1' as UUID
+      );
+
+      const roomPrefs = notificationManager.getUserPreferences('user-1' as UUID, 'room-1' as UUID);
+      expect(roomPrefs.quietHours).toEqual({ start: 23, end: 7 });
+      expect(roomPrefs.reminderTypes.daily).toBe(false);
+
+      const userPrefs = notificationManager.getUserPreferences('user-1' as UUID);
+      expect(userPrefs.reminderTypes.daily).toBe(true);
+      await notificationManager.stop();
+    });
+
+    it('should defer notifications during quiet hours and collapse them by task', async () => {
+      const notificationManager = new NotificationManager(mockRuntime);
+      await notificationManager.updateUserPreferences('room-1' as UUID, {
+        quietHours: { start: 22, end: 8 },
+      });
+
+      const lateEvening = new Date(2024, 0, 5, 23, 0);
+      for (const title of ['First reminder', 'Second reminder']) {
+        await notificationManager.queueNotification(
+          {
+            title,
+            body: 'Test body',
+            type: 'overdue',
+            taskId: 'task-1' as UUID,
+            roomId: 'room-1' as UUID,
+          },
+          lateEvening
+        );
+      }
+      expect((notificationManager as any).notificationQueue).toHaveLength(0);
+
+      // Still quiet before 8 AM
+      await expect(
+        notificationManager.releaseDeferredNotifications(new Date(2024, 0, 6, 7, 59))
+      ).resolves.toBe(0);
+
+      await expect(
+        notificationManager.releaseDeferredNotifications(new Date(2024, 0, 6, 8, 0))
+      ).resolves.toBe(1);
+      const queue = (notificationManager as any).notificationQueue;
+      expect(queue).toHaveLength(1);
+      expect(queue[0].title).toBe('Second reminder');
+      await notificationManager.stop();
+    });
+
+    it('should keep a released notification stored until it is delivered', async () => {
+      const releasedAt = new Date(2024, 0, 6, 8, 0);
+      vi.spyOn(DeferredNotificationService.prototype, 'claimDue').mockImplementation(
+        async (now) =>
+          now?.getTime() === releasedAt.getTime()
+            ? [
+                {
+                  id: 'deferred-1' as UUID,
+                  notification: {
+                    title: 'Pay rent',
+                    body: 'Due today',
+                    type: 'upcoming',
+                    roomId: 'room-1' as UUID,
+                  },
+                  deliverAt: releasedAt,
+                  claimedAt: releasedAt,
+                },
+              ]
+            : []
+      );
+      const removeSpy = vi
+        .spyOn(DeferredNotificationService.prototype, 'remove')
+        .mockResolvedValue(true);
+      const emitEvent = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValue(undefined);
+      const notificationManager = new NotificationManager({ ...mockRuntime, emitEvent } as any);
+
+      await expect(notificationManager.releaseDeferredNotifications(releasedAt)).resolves.toBe(1);
+      const [released] = (notificationManager as any).notificationQueue.splice(0);
+      const claim = { id: 'deferred-1', claimedAt: releasedAt };
+      expect(released).toMatchObject({ title: 'Pay rent', deferred: claim });
+
+      // A failed send leaves it stored, to be released again once its claim times out
+      await (notificationManager as any).deliverNotification(released, releasedAt);
+      expect(removeSpy).not.toHaveBeenCalled();
+      expect((notificationManager as any).unsavedRetries).toHaveLength(0);
+
+      await (notificationManager as any).deliverNotification(released, releasedAt);
+      expect(emitEvent).toHaveBeenCalledTimes(2);
+      expect(removeSpy).toHaveBeenCalledWith(claim);
+      await notificationManager.stop();
+      vi.restoreAllMocks();
+    });
+
+    it('should retry a failed in-app notification after backing off', async () => {
+      const emitEvent = vi
+        .fn()
+        .mockRejectedValueOnce(new Error('ECONNRESET'))
+        .mockResolvedValue(undefined);
+      const notificationManager = new NotificationManager({ ...mockRuntime, emitEvent } as any);
+      const failedAt = new Date();
+
+      // Without a database the receipt cannot be stored, so the retry is kept in memory
+      await (notificationManager as any).deliverNotification(
+        { title: 'Pay rent', body: 'Due today', type: 'upcoming', roomId: 'room-1' as UUID },
+        failedAt
+      );
+      expect(emitEvent).toHaveBeenCalledTimes(1);
+
+      await expect(notificationManager.retryFailedDeliveries(failedAt)).resolves.toBe(0);
+      await expect(
+        notificationManager.retryFailedDeliveries(new Date(failedAt.getTime() + 60 * 1000))
+      ).resolves.toBe(1);
+
+      const queue = (notificationManager as any).notificationQueue;
+      expect(queue[0]).toMatchObject({ title: 'Pay rent', attempts: 1 });
+      await notificationManager.stop();
+      expect(emitEvent).toHaveBeenCalledTimes(2);
+    });
+
     it('should stop gracefully', async () => {
       const notificationManager = new NotificationManager(mockRuntime);
       await expect(notificationManager.stop()).resolves.toBeUndefined();
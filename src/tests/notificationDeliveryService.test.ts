@@ -0,0 +1,148 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { todoNotificationDeliveriesTable } from '../schema.ts';
+import {
+  createNotificationDeliveryService,
+  getRetryDelay,
+  isTransientDeliveryError,
+  MAX_DELIVERY_ATTEMPTS,
+  NotificationDeliveryService,
+} from '../services/notificationDeliveryService.ts';
+
+describe('NotificationDeliveryService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: NotificationDeliveryService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  const now = new Date('2024-01-05T12:00:00Z');
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn(),
+      where: vi.fn(),
+      orderBy: vi.fn(),
+      limit: vi.fn(),
+      values: vi.fn(),
+      set: vi.fn(),
+      returning: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.from.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+    mockThenable.orderBy.mockReturnThis();
+    mockThenable.limit.mockReturnThis();
+    mockThenable.values.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+    mockThenable.returning.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      select: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createNotificationDeliveryService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should back off exponentially and only retry transient failures', () => {
+    expect(getRetryDelay(1)).toBe(60 * 1000);
+    expect(getRetryDelay(3)).toBe(4 * 60 * 1000);
+    expect(getRetryDelay(20)).toBe(60 * 60 * 1000);
+
+    expect(isTransientDeliveryError('ETIMEDOUT')).toBe(true);
+    expect(isTransientDeliveryError('Rate limited, try again later')).toBe(true);
+    expect(isTransientDeliveryError('Entity not found')).toBe(false);
+    expect(isTransientDeliveryError('No platforms available for entity')).toBe(false);
+  });
+
+  it('should record a delivery before it is attempted', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'delivery-1' }]));
+    const payload = { entityId: 'entity-1', message: 'Pay rent' };
+
+    await expect(
+      service.createDelivery('rolodex', payload, { entityId: 'entity-1' as UUID })
+    ).resolves.toBe('delivery-1');
+    expect(mockDb.insert).toHaveBeenCalledWith(todoNotificationDeliveriesTable);
+    expect(mockThenable.values).toHaveBeenCalledWith(
+      expect.objectContaining({ channel: 'rolodex', payload, entityId: 'entity-1' })
+    );
+  });
+
+  it('should schedule a retry for a transient failure', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+
+    await expect(
+      service.recordAttempt('delivery-1' as UUID, 2, { delivered: false, error: 'timeout' }, now)
+    ).resolves.toBe('retrying');
+    expect(mockThenable.set).toHaveBeenCalledWith(
+      expect.objectContaining({
+        status: 'retrying',
+        attempts: 2,
+        lastError: 'timeout',
+        nextAttemptAt: new Date(now.getTime() + 2 * 60 * 1000),
+      })
+    );
+  });
+
+  it('should dead-letter permanent failures and exhausted retries', async () => {
+    mockThenable.then.mockImplementation((resolve: any) => resolve(undefined));
+
+    await expect(
+      service.recordAttempt('delivery-1' as UUID, 1, {
+        delivered: false,
+        error: 'Entity not found',
+      })
+    ).resolves.toBe('dead');
+    await expect(
+      service.recordAttempt('delivery-2' as UUID, MAX_DELIVERY_ATTEMPTS, {
+        delivered: false,
+        error: 'timeout',
+      })
+    ).resolves.toBe('dead');
+    const receipt = { delivered: true, platforms: ['discord'] };
+    await expect(service.recordAttempt('delivery-3' as UUID, 3, receipt, now)).resolves.toBe(
+      'delivered'
+    );
+    expect(mockThenable.set).toHaveBeenLastCalledWith(
+      expect.objectContaining({ status: 'delivered', deliveredAt: now, platforms: ['discord'] })
+    );
+  });
+
+  it('should compute the success rate per platform', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) =>
+      resolve([
+        { channel: 'in_app', platforms: [], status: 'delivered' },
+        { channel: 'rolodex', platforms: ['discord', 'telegram'], status: 'delivered' },
+        { channel: 'rolodex', platforms: ['discord'], status: 'dead' },
+        { channel: 'rolodex', platforms: [], status: 'retrying' },
+      ])
+    );
+
+    const metrics = await service.getDeliveryMetrics();
+
+    expect(metrics).toEqual([
+      { platform: 'discord', total: 2, delivered: 1, failed: 1, pending: 0, successRate: 0.5 },
+      { platform: 'in_app', total: 1, delivered: 1, failed: 0, pending: 0, successRate: 1 },
+      { platform: 'rolodex', total: 1, delivered: 0, failed: 0, pending: 1, successRate: null },
+      { platform: 'telegram', total: 1, delivered: 1, failed: 0, pending: 0, successRate: 1 },
+    ]);
+  });
+
+  it('should return an empty list when the database fails', async () => {
+    mockDb.select.mockImplementationOnce(() => {
+      throw new Error('connection lost');
+    });
+    await expect(service.getFailedDeliveries()).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,159 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { todoNotificationPreferencesTable } from '../schema.ts';
+import {
+  createNotificationPreferencesService,
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferencesService,
+  resolvePreferences,
+} from '../services/notificationPreferencesService.ts';
+
+describe('NotificationPreferencesService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: NotificationPreferencesService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn(),
+      where: vi.fn(),
+      limit: vi.fn(),
+      values: vi.fn(),
+      set: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.from.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+    mockThenable.limit.mockReturnThis();
+    mockThenable.values.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      select: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+      delete: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createNotificationPreferencesService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('resolvePreferences', () => {
+    it('should return the defaults when nothing is stored', () => {
+      expect(resolvePreferences()).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    });
+
+    it('should apply room overrides on top of user preferences', () => {
+      const prefs = resolvePreferences(
+        { quietHours: { start: 23, end: 7 }, reminderTypes: { daily: false } },
+        { reminderTypes: { overdue: false }, sound: false }
+      );
+
+      expect(prefs.quietHours).toEqual({ start: 23, end: 7 });
+      expect(prefs.reminderTypes).toEqual({ overdue: false, upcoming: true, daily: false });
+      expect(prefs.sound).toBe(false);
+      expect(prefs.enabled).toBe(true);
+    });
+
+    it('should turn quiet hours off when stored as null', () => {
+      expect(resolvePreferences({ quietHours: null }).quietHours).toBeUndefined();
+    });
+
+    it('should let a room override remove the accountability contact', () => {
+      const user = { accountabilityContactId: 'friend-1' as UUID };
+      expect(resolvePreferences(user).accountabilityContactId).toBe('friend-1');
+      expect(
+        resolvePreferences(user, { accountabilityContactId: null }).accountabilityContactId
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getPreferences', () => {
+    it('should merge the user row with the matching room override', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          { entityId: 'entity-1', roomId: null, preferences: { quietHours: { start: 21, end: 6 } } },
+          { entityId: 'entity-1', roomId: 'room-1', preferences: { enabled: false } },
+          { entityId: 'entity-1', roomId: 'room-2', preferences: { sound: false } },
+        ])
+      );
+
+      const prefs = await service.getPreferences('entity-1' as UUID, 'room-1' as UUID);
+
+      expect(prefs.quietHours).toEqual({ start: 21, end: 6 });
+      expect(prefs.enabled).toBe(false);
+      expect(prefs.sound).toBe(true);
+    });
+
+    it('should fall back to defaults when the database fails', async () => {
+      mockThenable.then.mockImplementationOnce((_resolve: any, reject: any) =>
+        reject(new Error('db down'))
+      );
+
+      const layers = await service.getPreferenceLayers('entity-1' as UUID);
+      expect(layers).toBeNull();
+
+      mockThenable.then.mockImplementationOnce((_resolve: any, reject: any) =>
+        reject(new Error('db down'))
+      );
+      const prefs = await service.getPreferences('entity-1' as UUID);
+      expect(prefs).toEqual(DEFAULT_NOTIFICATION_PREFERENCES);
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('should insert a new row for a user without stored preferences', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const stored = await service.updatePreferences('entity-1' as UUID, {
+        quietHours: { start: 22, end: 7 },
+      });
+
+      expect(stored).toEqual({ quietHours: { start: 22, end: 7 } });
+      expect(mockDb.insert).toHaveBeenCalledWith(todoNotificationPreferencesTable);
+      expect(mockThenable.values).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: 'entity-1', roomId: null })
+      );
+    });
+
+    it('should merge into an existing room override', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) =>
+          resolve([{ id: 'pref-1', preferences: { reminderTypes: { daily: false }, sound: false } }])
+        )
+        .mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const stored = await service.updatePreferences(
+        'entity-1' as UUID,
+        { reminderTypes: { overdue: false } },
+        'room-1' as UUID
+      );
+
+      expect(stored).toEqual({ reminderTypes: { daily: false, overdue: false }, sound: false });
+      expect(mockDb.update).toHaveBeenCalledWith(todoNotificationPreferencesTable);
+      expect(mockDb.insert).not.toHaveBeenCalled();
+    });
+
+    it('should return null when saving fails', async () => {
+      mockThenable.then.mockImplementationOnce((_resolve: any, reject: any) =>
+        reject(new Error('db down'))
+      );
+
+      const stored = await service.updatePreferences('entity-1' as UUID, { enabled: false });
+      expect(stored).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,191 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeRecurrence,
+  formatRRule,
+  getNextOccurrence,
+  getOccurrencesBetween,
+  isRecurrenceExhausted,
+  parseRRule,
+  ruleFromFrequency,
+  type RecurrenceRule,
+} from '../utils/recurrence';
+
+// Local-time date helper (months are 1-based for readability)
+const day = (y: number, m: number, d: number) => new Date(y, m - 1, d);
+
+describe('Recurrence engine', () => {
+  describe('getNextOccurrence', () => {
+    it('should step daily rules by their interval', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 3, startDate: '2025-01-01' };
+
+      expect(getNextOccurrence(rule, day(2025, 1, 1))).toEqual(day(2025, 1, 1));
+      expect(getNextOccurrence(rule, day(2025, 1, 2))).toEqual(day(2025, 1, 4));
+      expect(getNextOccurrence(rule, day(2025, 1, 4), { exclusive: true })).toEqual(
+        day(2025, 1, 7)
+      );
+    });
+
+    it('should only fire on the given weekdays for weekly rules', () => {
+      // 2025-01-06 is a Monday
+      const rule: RecurrenceRule = {
+        frequency: 'weekly',
+        interval: 1,
+        byDay: ['MO', 'WE'],
+        startDate: '2025-01-06',
+      };
+
+      expect(getNextOccurrence(rule, day(2025, 1, 7))).toEqual(day(2025, 1, 8));
+      expect(getNextOccurrence(rule, day(2025, 1, 8), { exclusive: true })).toEqual(
+        day(2025, 1, 13)
+      );
+    });
+
+    it('should skip weeks for bi-weekly rules', () => {
+      const rule: RecurrenceRule = {
+        frequency: 'weekly',
+        interval: 2,
+        byDay: ['FR'],
+        startDate: '2025-01-06',
+      };
+
+      expect(getNextOccurrence(rule, day(2025, 1, 6))).toEqual(day(2025, 1, 10));
+      expect(getNextOccurrence(rule, day(2025, 1, 10), { exclusive: true })).toEqual(
+        day(2025, 1, 24)
+      );
+    });
+
+    it('should support the nth and last weekday of the month', () => {
+      const secondTuesday: RecurrenceRule = {
+        frequency: 'monthly',
+        interval: 1,
+        byDay: ['TU'],
+        bySetPos: 2,
+        startDate: '2025-01-01',
+      };
+      const lastFriday: RecurrenceRule = {
+        frequency: 'monthly',
+        interval: 1,
+        byDay: ['FR'],
+        bySetPos: -1,
+        startDate: '2025-01-01',
+      };
+
+      expect(getNextOccurrence(secondTuesday, day(2025, 1, 1))).toEqual(day(2025, 1, 14));
+      expect(getNextOccurrence(secondTuesday, day(2025, 1, 15))).toEqual(day(2025, 2, 11));
+      expect(getNextOccurrence(lastFriday, day(2025, 1, 1))).toEqual(day(2025, 1, 31));
+      expect(getNextOccurrence(lastFriday, day(2025, 2, 1))).toEqual(day(2025, 2, 28));
+    });
+
+    it('should fire on every matching weekday for monthly rules without a position', () => {
+      const rule = parseRRule('FREQ=MONTHLY;INTERVAL=2;BYDAY=MO', day(2025, 1, 1))!;
+
+      expect(
+        getOccurrencesBetween(rule, day(2025, 1, 1), day(2025, 4, 1)).map((d) => d.getDate())
+      ).toEqual([6, 13, 20, 27, 3, 10, 17, 24, 31]);
+      expect(describeRecurrence(rule)).toBe('every 2 months on Mon');
+    });
+
+    it('should clamp month days to the month length', () => {
+      const rule: RecurrenceRule = { frequency: 'monthly', interval: 1, startDate: '2025-01-31' };
+
+      expect(getNextOccurrence(rule, day(2025, 2, 1))).toEqual(day(2025, 2, 28));
+      expect(getNextOccurrence(rule, day(2025, 3, 1))).toEqual(day(2025, 3, 31));
+    });
+
+    it('should stop at the until date and after count occurrences', () => {
+      const untilRule: RecurrenceRule = {
+        frequency: 'daily',
+        interval: 1,
+        startDate: '2025-01-01',
+        until: '2025-01-03',
+      };
+      const countRule: RecurrenceRule = {
+        frequency: 'daily',
+        interval: 1,
+        startDate: '2025-01-01',
+        count: 2,
+      };
+
+      expect(getNextOccurrence(untilRule, day(2025, 1, 3))).toEqual(day(2025, 1, 3));
+      expect(getNextOccurrence(untilRule, day(2025, 1, 3), { exclusive: true })).toBeNull();
+      expect(getNextOccurrence(countRule, day(2025, 1, 1), { exclusive: true })).toEqual(
+        day(2025, 1, 2)
+      );
+      expect(isRecurrenceExhausted(countRule, day(2025, 1, 2))).toBe(true);
+    });
+
+    it('should count occurrences before a late search day', () => {
+      const rules: RecurrenceRule[] = [
+        { frequency: 'daily', interval: 3, startDate: '2020-01-01' },
+        { frequency: 'weekly', interval: 2, byDay: ['MO', 'WE'], startDate: '2020-01-02' },
+        { frequency: 'monthly', interval: 1, byDay: ['MO', 'FR'], startDate: '2020-01-15' },
+        { frequency: 'monthly', interval: 1, byDay: ['TU'], bySetPos: 5, startDate: '2020-01-01' },
+        { frequency: 'monthly', interval: 2, byMonthDay: [30, 31], startDate: '2020-01-31' },
+      ];
+
+      for (const rule of rules) {
+        const all = getOccurrencesBetween(rule, day(2020, 1, 1), day(2030, 1, 1), { limit: 200 });
+        const counted = { ...rule, count: 30 };
+        const afterEarlier = new Date(
+          all[28].getFullYear(),
+          all[28].getMonth(),
+          all[28].getDate() + 1
+        );
+
+        expect(getNextOccurrence(counted, afterEarlier)).toEqual(all[29]);
+        expect(getNextOccurrence(counted, all[29], { exclusive: true })).toBeNull();
+      }
+    });
+
+    it('should use the anchor when the rule has no start date', () => {
+      const rule: RecurrenceRule = { frequency: 'daily', interval: 2 };
+
+      expect(getNextOccurrence(rule, day(2025, 1, 2), { anchor: day(2025, 1, 1) })).toEqual(
+        day(2025, 1, 3)
+      );
+    });
+  });
+
+  describe('RRULE text', () => {
+    it('should parse weekly rules with an end date', () => {
+      const rule = parseRRule('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE;UNTIL=20251231T000000Z');
+
+      expect(rule).toEqual({
+        frequency: 'weekly',
+        interval: 2,
+        byDay: ['MO', 'WE'],
+        until: '2025-12-31',
+      });
+    });
+
+    it('should parse ordinal weekdays into bySetPos', () => {
+      const rule = parseRRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=6');
+
+      expect(rule?.byDay).toEqual(['FR']);
+      expect(rule?.bySetPos).toBe(-1);
+      expect(rule?.count).toBe(6);
+    });
+
+    it('should reject unsupported frequencies', () => {
+      expect(parseRRule('FREQ=YEARLY')).toBeNull();
+      expect(parseRRule('not a rule')).toBeNull();
+    });
+
+    it('should round-trip through formatRRule', () => {
+      const text = 'FREQ=MONTHLY;BYDAY=2TU;COUNT=6';
+      expect(formatRRule(parseRRule(text)!)).toBe(text);
+    });
+  });
+
+  describe('describeRecurrence', () => {
+    it('should describe rules in plain language', () => {
+      expect(describeRecurrence(ruleFromFrequency('daily'))).toBe('every day');
+      expect(describeRecurrence(parseRRule('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE')!)).toBe(
+        'every 2 weeks on Mon, Wed'
+      );
+      expect(describeRecurrence(parseRRule('FREQ=MONTHLY;BYDAY=-1FR')!)).toBe(
+        'every month on the last Fri'
+      );
+    });
+  });
+});
@@ -2,6 +2,15 @@ import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import type { IAgentRuntime, UUID } from '@elizaos/core';
 import { logger } from '@elizaos/core';
 import { TodoReminderService } from '../services/reminderService';
+import { ReminderHistoryService } from '../services/reminderHistoryService';
+import { NotificationManager } from '../services/notificationManager';
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferencesService,
+} from '../services/notificationPreferencesService';
+import { DigestService, type DailyDigest } from '../services/digestService';
+import { NotificationDeliveryService } from '../services/notificationDeliveryService';
+import { TodoDataService, type TodoData } from '../services/todoDataService';
 import { v4 as uuidv4 } from 'uuid';
 
 describe('Reminder and Rolodex Integration', () => {
@@ -34,6 +43,7 @@ describe('Reminder and Rolodex Integration', () => {
         return null;
       }),
       emitEvent: vi.fn(),
+      getSetting: vi.fn().mockReturnValue(null),
     } as any;
 
     reminderService = await TodoReminderService.start(runtime);
@@ -61,6 +71,337 @@ describe('Reminder and Rolodex Integration', () => {
     // we'll skip this complex test for now
   });
 
+  it('should not re-send a reminder already sent in the same window', async () => {
+    const overdueTodo = {
+      id: uuidv4() as UUID,
+      entityId: uuidv4() as UUID,
+      roomId: uuidv4() as UUID,
+      name: 'Pay rent',
+      type: 'one-off',
+      isCompleted: false,
+      isUrgent: true, // Urgent todos go straight to rolodex as well as in-app
+      dueDate: new Date(Date.now() - 60 * 60 * 1000),
+      metadata: {},
+    } as TodoData;
+    const getTodosSpy = vi
+      .spyOn(TodoDataService.prototype, 'getTodos')
+      .mockResolvedValue([overdueTodo]);
+
+    // The window is claimed per channel the first time, and refused after that
+    const claimed = new Set<string>();
+    const claimSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'claimReminder')
+      .mockImplementation(async (todo, reminderType, channel, windowKey) => {
+        const key = `${todo.id}:${reminderType}:${channel}:${windowKey}`;
+        if (claimed.has(key)) return null;
+        claimed.add(key);
+        return uuidv4() as UUID;
+      });
+    const outcomeSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'recordOutcome')
+      .mockResolvedValue(true);
+
+    await reminderService.checkTasksForReminders();
+    await reminderService.checkTasksForReminders();
+
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledTimes(1);
+    expect(claimSpy).toHaveBeenCalledWith(
+      overdueTodo,
+      'overdue',
+      'in_app',
+      expect.any(String),
+      expect.any(Date)
+    );
+    expect(outcomeSpy).toHaveBeenCalledTimes(2); // in-app and rolodex, once each
+    expect(outcomeSpy).toHaveBeenCalledWith(expect.any(String), 'sent');
+
+    getTodosSpy.mockRestore();
+    claimSpy.mockRestore();
+    outcomeSpy.mockRestore();
+  });
+
+  it('should send reminders at the offsets set on the todo', async () => {
+    const todo = {
+      id: uuidv4() as UUID,
+      entityId: uuidv4() as UUID,
+      roomId: uuidv4() as UUID,
+      name: 'Submit report',
+      type: 'one-off',
+      isCompleted: false,
+      isUrgent: false,
+      // Two hours before is five minutes ago; the default 30 minute reminder is not due yet
+      dueDate: new Date(Date.now() + 115 * 60 * 1000),
+      reminders: [{ type: 'offset', minutes: 120 }],
+      metadata: {},
+    } as TodoData;
+    const getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([todo]);
+    const claimSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'claimReminder')
+      .mockResolvedValue(uuidv4() as UUID);
+    const outcomeSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'recordOutcome')
+      .mockResolvedValue(true);
+
+    await reminderService.checkTasksForReminders();
+
+    expect(claimSpy).toHaveBeenCalledWith(
+      todo,
+      'upcoming',
+      'in_app',
+      `offset:120:${todo.dueDate!.toISOString()}`,
+      expect.any(Date)
+    );
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledTimes(1);
+
+    getTodosSpy.mockRestore();
+    claimSpy.mockRestore();
+    outcomeSpy.mockRestore();
+  });
+
+  it('should hold reminders while snoozed and send one with buttons when it ends', async () => {
+    const snoozedUntil = new Date(Date.now() + 30 * 60 * 1000);
+    const todo = {
+      id: uuidv4() as UUID,
+      entityId: uuidv4() as UUID,
+      roomId: uuidv4() as UUID,
+      name: 'Pay rent',
+      type: 'one-off',
+      isCompleted: false,
+      isUrgent: false,
+      dueDate: new Date(Date.now() - 60 * 60 * 1000),
+      snoozedUntil,
+      metadata: {},
+    } as TodoData;
+    const getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([todo]);
+    const claimSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'claimReminder')
+      .mockResolvedValue(uuidv4() as UUID);
+    const outcomeSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'recordOutcome')
+      .mockResolvedValue(true);
+
+    await reminderService.checkTasksForReminders();
+    expect(claimSpy).not.toHaveBeenCalled();
+
+    todo.snoozedUntil = new Date(Date.now() - 60 * 1000);
+    await reminderService.checkTasksForReminders();
+
+    expect(claimSpy).toHaveBeenCalledWith(
+      todo,
+      'overdue',
+      'in_app',
+      `snooze:${todo.snoozedUntil.toISOString()}`,
+      expect.any(Date)
+    );
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        metadata: expect.objectContaining({
+          actions: expect.arrayContaining([
+            expect.objectContaining({ action: 'COMPLETE_TODO', options: { taskId: todo.id } }),
+            expect.objectContaining({
+              action: 'SNOOZE_TODO',
+              options: { taskId: todo.id, until: '1 hour' },
+            }),
+          ]),
+        }),
+      })
+    );
+
+    getTodosSpy.mockRestore();
+    claimSpy.mockRestore();
+    outcomeSpy.mockRestore();
+  });
+
+  it('should escalate to the accountability contact and stop at the maximum', async () => {
+    const contactId = uuidv4() as UUID;
+    const todo = {
+      id: uuidv4() as UUID,
+      entityId: uuidv4() as UUID,
+      roomId: uuidv4() as UUID,
+      name: 'File taxes',
+      type: 'one-off',
+      priority: 1,
+      isCompleted: false,
+      isUrgent: false,
+      dueDate: new Date(Date.now() - 6 * 60 * 60 * 1000),
+      // Two reminders went out; the third step of the high ladder adds the contact
+      metadata: {
+        overdueReminders: 2,
+        lastReminderSent: new Date(Date.now() - 5 * 60 * 60 * 1000).toISOString(),
+      },
+    } as TodoData;
+    const getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([todo]);
+    const claimSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'claimReminder')
+      .mockResolvedValue(uuidv4() as UUID);
+    const outcomeSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'recordOutcome')
+      .mockResolvedValue(true);
+    const preferencesSpy = vi
+      .spyOn(NotificationManager.prototype, 'getPreferences')
+      .mockResolvedValue({
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        accountabilityContactId: contactId,
+      });
+
+    await reminderService.checkTasksForReminders();
+
+    const windowKey = `escalation:2:${todo.dueDate!.toISOString()}`;
+    expect(claimSpy).toHaveBeenCalledWith(todo, 'overdue', 'contact', windowKey, expect.any(Date));
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId: todo.entityId })
+    );
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        entityId: contactId,
+        message: expect.stringContaining('File taxes'),
+      })
+    );
+
+    // The high ladder stops after five reminders
+    claimSpy.mockClear();
+    todo.metadata.overdueReminders = 5;
+    await reminderService.checkTasksForReminders();
+    expect(claimSpy).not.toHaveBeenCalled();
+
+    getTodosSpy.mockRestore();
+    claimSpy.mockRestore();
+    outcomeSpy.mockRestore();
+    preferencesSpy.mockRestore();
+  });
+
+  it('should retry a failed rolodex delivery and mark the reminder sent', async () => {
+    const todo = {
+      id: uuidv4() as UUID,
+      entityId: uuidv4() as UUID,
+      roomId: uuidv4() as UUID,
+      name: 'Pay rent',
+      type: 'one-off',
+      isCompleted: false,
+      isUrgent: true,
+      dueDate: new Date(Date.now() - 60 * 60 * 1000),
+      metadata: {},
+    } as TodoData;
+    const reminderId = uuidv4() as UUID;
+    const getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([todo]);
+    const claimSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'claimReminder')
+      .mockResolvedValue(reminderId);
+    const outcomeSpy = vi
+      .spyOn(ReminderHistoryService.prototype, 'recordOutcome')
+      .mockResolvedValue(true);
+    const createSpy = vi
+      .spyOn(NotificationDeliveryService.prototype, 'createDelivery')
+      .mockResolvedValue('delivery-1' as UUID);
+    const attemptSpy = vi
+      .spyOn(NotificationDeliveryService.prototype, 'recordAttempt')
+      .mockResolvedValueOnce('retrying')
+      .mockResolvedValueOnce('delivered');
+    mockRolodexService.sendMessage.mockRejectedValueOnce(new Error('ETIMEDOUT'));
+
+    await reminderService.checkTasksForReminders();
+
+    expect(createSpy).toHaveBeenCalledWith(
+      'rolodex',
+      expect.objectContaining({ entityId: todo.entityId }),
+      expect.objectContaining({ taskId: todo.id, reminderId })
+    );
+    expect(attemptSpy).toHaveBeenCalledWith('delivery-1', 1, {
+      delivered: false,
+      error: 'Error: ETIMEDOUT',
+    });
+    expect(outcomeSpy).toHaveBeenCalledWith(reminderId, 'failed', 'Error: ETIMEDOUT');
+
+    const retriesSpy = vi
+      .spyOn(NotificationDeliveryService.prototype, 'claimRetries')
+      .mockResolvedValue([
+        {
+          id: 'delivery-1' as UUID,
+          channel: 'rolodex',
+          attempts: 1,
+          reminderId,
+          payload: createSpy.mock.calls[0][1],
+        } as any,
+      ]);
+    outcomeSpy.mockClear();
+
+    await expect(reminderService.retryFailedDeliveries()).resolves.toBe(1);
+    expect(attemptSpy).toHaveBeenLastCalledWith(
+      'delivery-1',
+      2,
+      { delivered: true, platforms: ['discord'] },
+      expect.any(Date)
+    );
+    expect(outcomeSpy).toHaveBeenCalledWith(reminderId, 'sent');
+
+    getTodosSpy.mockRestore();
+    claimSpy.mockRestore();
+    outcomeSpy.mockRestore();
+    createSpy.mockRestore();
+    attemptSpy.mockRestore();
+    retriesSpy.mockRestore();
+  });
+
+  it('should send subscribed digests once at their scheduled local time', async () => {
+    const entityId = uuidv4() as UUID;
+    const digest: DailyDigest = {
+      kind: 'daily',
+      entityId,
+      roomId: uuidv4() as UUID,
+      date: '2024-01-05',
+      dailyTasks: [],
+      dueToday: [{ id: uuidv4(), name: 'Send report' } as TodoData],
+      overdue: [],
+      completedYesterday: [],
+    };
+    const preferencesSpy = vi
+      .spyOn(NotificationPreferencesService.prototype, 'getAllPreferences')
+      .mockResolvedValue([
+        {
+          entityId,
+          roomId: null,
+          preferences: { digest: { daily: true, time: '09:00', channels: ['in_app', 'rolodex'] } },
+        },
+      ]);
+    const timezonesSpy = vi
+      .spyOn(TodoDataService.prototype, 'getUserTimezones')
+      .mockResolvedValue(new Map([[entityId, 'Europe/Berlin']]));
+    const claimed = new Set<string>();
+    const claimSpy = vi
+      .spyOn(DigestService.prototype, 'claimDigest')
+      .mockImplementation(async (_entityId, kind, windowKey) => {
+        if (claimed.has(`${kind}:${windowKey}`)) return null;
+        claimed.add(`${kind}:${windowKey}`);
+        return uuidv4() as UUID;
+      });
+    const buildSpy = vi.spyOn(DigestService.prototype, 'buildDailyDigest').mockResolvedValue(digest);
+    const queueSpy = vi
+      .spyOn(NotificationManager.prototype, 'queueNotification')
+      .mockResolvedValue(undefined);
+
+    // 07:30 UTC is 08:30 in Berlin, before the digest time
+    await expect(reminderService.sendDueDigests(new Date('2024-01-05T07:30:00Z'))).resolves.toBe(0);
+
+    const digestTime = new Date('2024-01-05T08:05:00Z');
+    await expect(reminderService.sendDueDigests(digestTime)).resolves.toBe(1);
+    await expect(reminderService.sendDueDigests(digestTime)).resolves.toBe(0);
+
+    expect(claimSpy).toHaveBeenCalledWith(entityId, 'daily', '2024-01-05', digestTime);
+    expect(buildSpy).toHaveBeenCalledTimes(1);
+    expect(queueSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'digest', roomId: digest.roomId, entityId })
+    );
+    expect(mockRolodexService.sendMessage).toHaveBeenCalledWith(
+      expect.objectContaining({ entityId, message: expect.stringContaining('Send report') })
+    );
+
+    preferencesSpy.mockRestore();
+    timezonesSpy.mockRestore();
+    claimSpy.mockRestore();
+    buildSpy.mockRestore();
+    queueSpy.mockRestore();
+  });
+
   it('should handle missing rolodex gracefully', async () => {
     const noRolodexRuntime = {
       ...runtime,
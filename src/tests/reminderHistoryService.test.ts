@@ -0,0 +1,89 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { todoRemindersTable } from '../schema.ts';
+import {
+  createReminderHistoryService,
+  ReminderHistoryService,
+} from '../services/reminderHistoryService.ts';
+import type { TodoData } from '../services/todoDataService.ts';
+
+const todo = {
+  id: 'todo-1' as UUID,
+  entityId: 'entity-1' as UUID,
+  name: 'Pay rent',
+} as TodoData;
+
+describe('ReminderHistoryService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: ReminderHistoryService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  beforeEach(() => {
+    mockThenable = {
+      values: vi.fn(),
+      onConflictDoNothing: vi.fn(),
+      returning: vi.fn(),
+      set: vi.fn(),
+      where: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.values.mockReturnThis();
+    mockThenable.onConflictDoNothing.mockReturnThis();
+    mockThenable.returning.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createReminderHistoryService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should claim a reminder window that has not been used', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'reminder-1' }]));
+
+    const id = await service.claimReminder(todo, 'upcoming', 'in_app', '2024-01-05T10:00:00.000Z');
+
+    expect(id).toBe('reminder-1');
+    expect(mockDb.insert).toHaveBeenCalledWith(todoRemindersTable);
+    expect(mockThenable.values).toHaveBeenCalledWith(
+      expect.objectContaining({
+        todoId: 'todo-1',
+        reminderType: 'upcoming',
+        channel: 'in_app',
+        windowKey: '2024-01-05T10:00:00.000Z',
+      })
+    );
+    expect(mockThenable.onConflictDoNothing).toHaveBeenCalled();
+  });
+
+  it('should refuse a window that was already claimed', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+    await expect(
+      service.claimReminder(todo, 'upcoming', 'in_app', '2024-01-05T10:00:00.000Z')
+    ).resolves.toBeNull();
+  });
+
+  it('should record the outcome of a reminder', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+
+    await expect(
+      service.recordOutcome('reminder-1' as UUID, 'failed', 'Network error')
+    ).resolves.toBe(true);
+    expect(mockThenable.set).toHaveBeenCalledWith({ outcome: 'failed', error: 'Network error' });
+  });
+});
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest';
+import {
+  describeReminder,
+  getDueReminder,
+  isValidReminder,
+  parseReminder,
+  parseReminders,
+  parseSnoozeUntil,
+  type ReminderSpec,
+} from '../utils/reminders';
+
+describe('Reminder schedules', () => {
+  describe('parseReminder', () => {
+    it('should parse offsets before the due date', () => {
+      expect(parseReminder('1 day before')).toEqual({ type: 'offset', minutes: 1440 });
+      expect(parseReminder('2 hours before')).toEqual({ type: 'offset', minutes: 120 });
+      expect(parseReminder('15m')).toEqual({ type: 'offset', minutes: 15 });
+      expect(parseReminder('at due time')).toEqual({ type: 'offset', minutes: 0 });
+    });
+
+    it('should parse times of day and absolute times', () => {
+      expect(parseReminder('7:30am')).toEqual({ type: 'time', time: '07:30' });
+      expect(parseReminder('at 6pm')).toEqual({ type: 'time', time: '18:00' });
+      expect(parseReminder('2024-04-14T09:00:00Z')).toEqual({
+        type: 'at',
+        at: '2024-04-14T09:00:00.000Z',
+      });
+    });
+
+    it('should reject text it does not understand', () => {
+      expect(parseReminder('sometime soon')).toBeNull();
+      expect(parseReminder('25:00')).toBeNull();
+    });
+
+    it('should parse lists and skip unknown entries', () => {
+      expect(parseReminders('1 day before, 2 hours before and at due time; whenever')).toEqual([
+        { type: 'offset', minutes: 1440 },
+        { type: 'offset', minutes: 120 },
+        { type: 'offset', minutes: 0 },
+      ]);
+    });
+  });
+
+  it('should validate reminders from API requests', () => {
+    expect(isValidReminder({ type: 'offset', minutes: 60 })).toBe(true);
+    expect(isValidReminder({ type: 'time', time: '09:00' })).toBe(true);
+    expect(isValidReminder({ type: 'offset', minutes: -5 })).toBe(false);
+    expect(isValidReminder({ type: 'time', time: '9am' })).toBe(false);
+    expect(isValidReminder({ type: 'at', at: 'tomorrow' })).toBe(false);
+  });
+
+  it('should describe reminders', () => {
+    expect(describeReminder({ type: 'offset', minutes: 1440 })).toBe('1 day before');
+    expect(describeReminder({ type: 'offset', minutes: 90 })).toBe('90 minutes before');
+    expect(describeReminder({ type: 'offset', minutes: 0 })).toBe('at due time');
+    expect(describeReminder({ type: 'time', time: '07:30' })).toBe('daily at 07:30');
+  });
+
+  describe('getDueReminder', () => {
+    const dueDate = new Date('2024-01-05T12:00:00Z');
+    const specs: ReminderSpec[] = [
+      { type: 'offset', minutes: 24 * 60 },
+      { type: 'offset', minutes: 120 },
+      { type: 'offset', minutes: 0 },
+    ];
+
+    it('should fire each offset once its time has come', () => {
+      expect(getDueReminder(specs, dueDate, new Date('2024-01-05T09:59:00Z'), 'UTC')).toBeNull();
+
+      const now = new Date('2024-01-05T10:05:00Z');
+      const twoHoursBefore = getDueReminder(specs, dueDate, now, 'UTC');
+      expect(twoHoursBefore?.spec).toEqual({ type: 'offset', minutes: 120 });
+      expect(twoHoursBefore?.fireAt).toEqual(new Date('2024-01-05T10:00:00Z'));
+
+      const atDue = getDueReminder(specs, dueDate, new Date('2024-01-05T12:00:30Z'), 'UTC');
+      expect(atDue?.spec).toEqual({ type: 'offset', minutes: 0 });
+    });
+
+    it('should give each firing its own window key', () => {
+      const first = getDueReminder(specs, dueDate, new Date('2024-01-04T12:10:00Z'), 'UTC');
+      const second = getDueReminder(specs, dueDate, new Date('2024-01-05T10:10:00Z'), 'UTC');
+      expect(first?.windowKey).not.toBe(second?.windowKey);
+    });
+
+    it('should skip reminders missed by more than the grace period', () => {
+      expect(getDueReminder(specs, dueDate, new Date('2024-01-05T13:30:00Z'), 'UTC')).toBeNull();
+    });
+
+    it('should fire daily times in the user timezone', () => {
+      const daily: ReminderSpec[] = [{ type: 'time', time: '09:00' }];
+
+      // 09:10 in Tokyo is 00:10 UTC
+      const due = getDueReminder(daily, null, new Date('2024-01-05T00:10:00Z'), 'Asia/Tokyo');
+      expect(due?.fireAt).toEqual(new Date('2024-01-05T00:00:00Z'));
+      expect(due?.windowKey).toBe('time:2024-01-05T09:00');
+
+      const utcMorning = new Date('2024-01-05T09:10:00Z');
+      expect(getDueReminder(daily, null, utcMorning, 'UTC')).not.toBeNull();
+      expect(getDueReminder(daily, null, utcMorning, 'Asia/Tokyo')).toBeNull();
+    });
+  });
+
+  describe('parseSnoozeUntil', () => {
+    // 14:20 on a Friday in UTC, 23:20 in Tokyo
+    const now = new Date('2024-01-05T14:20:00Z');
+
+    it('should add durations to now', () => {
+      expect(parseSnoozeUntil('in an hour', now, 'UTC')).toEqual(new Date('2024-01-05T15:20:00Z'));
+      expect(parseSnoozeUntil('30 minutes', now, 'UTC')).toEqual(new Date('2024-01-05T14:50:00Z'));
+      expect(parseSnoozeUntil('for 2 days', now, 'UTC')).toEqual(new Date('2024-01-07T14:20:00Z'));
+    });
+
+    it('should resolve parts of the day in the user timezone', () => {
+      expect(parseSnoozeUntil('tomorrow morning', now, 'UTC')).toEqual(
+        new Date('2024-01-06T09:00:00Z')
+      );
+      expect(parseSnoozeUntil('tonight', now, 'UTC')).toEqual(new Date('2024-01-05T20:00:00Z'));
+      // It is already night in Tokyo, so tomorrow morning there is 00:00 UTC on the 6th
+      expect(parseSnoozeUntil('tomorrow morning', now, 'Asia/Tokyo')).toEqual(
+        new Date('2024-01-06T00:00:00Z')
+      );
+    });
+
+    it('should move times that have passed to the next day', () => {
+      expect(parseSnoozeUntil('until 3pm', now, 'UTC')).toEqual(new Date('2024-01-05T15:00:00Z'));
+      expect(parseSnoozeUntil('9am', now, 'UTC')).toEqual(new Date('2024-01-06T09:00:00Z'));
+      expect(parseSnoozeUntil('this morning', now, 'UTC')).toEqual(
+        new Date('2024-01-06T09:00:00Z')
+      );
+    });
+
+    it('should return null for text it does not understand', () => {
+      expect(parseSnoozeUntil('whenever', now, 'UTC')).toBeNull();
+    });
+  });
+});
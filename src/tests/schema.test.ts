@@ -2,6 +2,7 @@ import { describe, expect, it } from 'vitest';
 import {
   todosTable,
   todoTagsTable,
+  todoCompletionsTable,
   todoSchema,
 } from '../schema';
 import { getTableColumns } from 'drizzle-orm';
@@ -26,8 +27,15 @@ describe('Todo Schema', () => {
       expect(columns.isUrgent).toBeDefined();
       expect(columns.isCompleted).toBeDefined();
 
+      // Subtasks
+      expect(columns.parentId).toBeDefined();
+      expect(columns.position).toBeDefined();
+
       // Dates
       expect(columns.dueDate).toBeDefined();
+      expect(columns.recurrence).toBeDefined();
+      expect(columns.reminders).toBeDefined();
+      expect(columns.snoozedUntil).toBeDefined();
       expect(columns.completedAt).toBeDefined();
       expect(columns.createdAt).toBeDefined();
       expect(columns.updatedAt).toBeDefined();
@@ -80,6 +88,29 @@ describe('Todo Schema', () => {
     });
   });
 
+  describe('todoCompletionsTable', () => {
+    it('should have all required columns', () => {
+      const columns = getTableColumns(todoCompletionsTable);
+
+      expect(columns.id).toBeDefined();
+      expect(columns.todoId).toBeDefined();
+      expect(columns.entityId).toBeDefined();
+      expect(columns.completedAt).toBeDefined();
+      expect(columns.points).toBeDefined();
+      expect(columns.isOnTime).toBeDefined();
+      expect(columns.streak).toBeDefined();
+    });
+
+    it('should have proper column types', () => {
+      const columns = getTableColumns(todoCompletionsTable);
+
+      expect(columns.points.dataType).toBe('number');
+      expect(columns.streak.dataType).toBe('number');
+      expect(columns.isOnTime.dataType).toBe('boolean');
+      expect(columns.completedAt.dataType).toBe('date');
+    });
+  });
+
   describe('todoSchema export', () => {
     it('should export correct schema structure', () => {
       expect(todoSchema).toBeDefined();
@@ -90,6 +121,17 @@ describe('Todo Schema', () => {
       expect(todoSchema.tables).toBeDefined();
       expect(todoSchema.tables.todos).toBeDefined();
       expect(todoSchema.tables.todoTags).toBeDefined();
+      expect(todoSchema.tables.todoDependencies).toBeDefined();
+      expect(todoSchema.tables.todoCompletions).toBeDefined();
+      expect(todoSchema.tables.todoReminders).toBeDefined();
+      expect(todoSchema.tables.todoNotificationPreferences).toBeDefined();
+      expect(todoSchema.tables.todoDeferredNotifications).toBeDefined();
+      expect(todoSchema.tables.todoDigests).toBeDefined();
+      expect(todoSchema.tables.todoNotificationDeliveries).toBeDefined();
+      expect(todoSchema.tables.todoPushSubscriptions).toBeDefined();
+      expect(todoSchema.tables.todoWebhooks).toBeDefined();
+      expect(todoSchema.tables.todoWebhookDeliveries).toBeDefined();
+      expect(todoSchema.tables.todoCalendarFeeds).toBeDefined();
     });
   });
 });
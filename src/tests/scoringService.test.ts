@@ -0,0 +1,235 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { todoCompletionsTable } from '../schema.ts';
+import { createTodoScoringService, TodoScoringService } from '../services/scoringService.ts';
+import { TodoDataService, type TodoData } from '../services/todoDataService.ts';
+
+function makeTodo(overrides: Partial<TodoData> = {}): TodoData {
+  return {
+    id: 'todo-1' as UUID,
+    agentId: 'agent-1' as UUID,
+    worldId: 'world-1' as UUID,
+    roomId: 'room-1' as UUID,
+    entityId: 'entity-1' as UUID,
+    name: 'Test Todo',
+    type: 'one-off',
+    isCompleted: false,
+    isUrgent: false,
+    createdAt: new Date(2024, 0, 1, 8, 0),
+    updatedAt: new Date(2024, 0, 1, 8, 0),
+    metadata: {},
+    tags: [],
+    ...overrides,
+  };
+}
+
+describe('TodoScoringService', () => {
+  let mockRuntime: IAgentRuntime;
+  let service: TodoScoringService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn(),
+      where: vi.fn(),
+      orderBy: vi.fn(),
+      limit: vi.fn(),
+      values: vi.fn(),
+      set: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.from.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+    mockThenable.orderBy.mockReturnThis();
+    mockThenable.limit.mockReturnThis();
+    mockThenable.values.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      select: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+      delete: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createTodoScoringService(mockRuntime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('calculatePoints', () => {
+    it('should reward priority, urgency and on-time completion', () => {
+      const todo = makeTodo({ priority: 1, isUrgent: true, dueDate: new Date(2024, 0, 5) });
+      const result = service.calculatePoints(todo, new Date(2024, 0, 4));
+
+      expect(result).toEqual({ points: 60, isOnTime: true });
+    });
+
+    it('should halve points for late completions', () => {
+      const todo = makeTodo({ priority: 3, dueDate: new Date(2024, 0, 5) });
+      const result = service.calculatePoints(todo, new Date(2024, 0, 6));
+
+      expect(result).toEqual({ points: 13, isOnTime: false });
+    });
+
+    it('should add a capped streak bonus', () => {
+      const todo = makeTodo({ type: 'daily' });
+
+      expect(service.calculatePoints(todo, new Date(), 3).points).toBe(14);
+      expect(service.calculatePoints(todo, new Date(), 50).points).toBe(30);
+    });
+  });
+
+  describe('calculateStreak', () => {
+    const daily = makeTodo({
+      type: 'daily',
+      recurrence: { frequency: 'daily', interval: 1, startDate: '2024-01-01' },
+    });
+
+    it('should start at 1 and ignore non-recurring todos', () => {
+      expect(service.calculateStreak(daily, new Date(2024, 0, 2), null)).toBe(1);
+      expect(service.calculateStreak(makeTodo(), new Date(2024, 0, 2), null)).toBe(0);
+    });
+
+    it('should continue on the next occurrence', () => {
+      const previous = { completedAt: new Date(2024, 0, 2, 20, 0), streak: 4 };
+      expect(service.calculateStreak(daily, new Date(2024, 0, 3, 7, 0), previous)).toBe(5);
+    });
+
+    it('should reset after a missed occurrence', () => {
+      const previous = { completedAt: new Date(2024, 0, 2, 20, 0), streak: 4 };
+      expect(service.calculateStreak(daily, new Date(2024, 0, 4, 7, 0), previous)).toBe(1);
+    });
+
+    it('should compare days in the user timezone', () => {
+      // Jan 2 at 10:00 and Jan 3 at 20:00 in Los Angeles, which is already Jan 4 in UTC
+      const previous = { completedAt: new Date('2024-01-02T18:00:00Z'), streak: 4 };
+      const completedAt = new Date('2024-01-04T04:00:00Z');
+
+      expect(service.calculateStreak(daily, completedAt, previous, 'America/Los_Angeles')).toBe(5);
+      expect(service.calculateStreak(daily, completedAt, previous, 'UTC')).toBe(1);
+    });
+
+    it('should allow completing a weekly occurrence late before the next one starts', () => {
+      const weekly = makeTodo({
+        recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO'], startDate: '2024-01-01' },
+      });
+      const previous = { completedAt: new Date(2024, 0, 1, 9, 0), streak: 2 };
+
+      // Monday Jan 8 was due, completed on Wednesday Jan 10
+      expect(service.calculateStreak(weekly, new Date(2024, 0, 10), previous)).toBe(3);
+    });
+  });
+
+  describe('recordCompletion', () => {
+    it('should insert a ledger row with points and streak', async () => {
+      const todo = makeTodo({
+        type: 'daily',
+        recurrence: { frequency: 'daily', interval: 1, startDate: '2024-01-01' },
+        metadata: { longestStreak: 5 },
+      });
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ completedAt: new Date(2024, 0, 2, 9, 0), streak: 2 }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const score = await service.recordCompletion(todo, new Date(2024, 0, 3, 9, 0));
+
+      expect(score).toEqual({ points: 14, isOnTime: null, streak: 3, longestStreak: 5 });
+      expect(mockDb.insert).toHaveBeenCalledWith(todoCompletionsTable);
+      expect(mockThenable.values).toHaveBeenCalledWith(
+        expect.objectContaining({ todoId: 'todo-1', entityId: 'entity-1', points: 14, streak: 3 })
+      );
+    });
+  });
+
+  describe('revokeLastCompletion', () => {
+    it('should delete the latest completion and return the previous streak', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          { id: 'completion-2', streak: 3 },
+          { id: 'completion-1', streak: 2 },
+        ])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const streak = await service.revokeLastCompletion('todo-1' as UUID);
+
+      expect(streak).toBe(2);
+      expect(mockDb.delete).toHaveBeenCalledWith(todoCompletionsTable);
+    });
+  });
+
+  describe('getUserPoints', () => {
+    it('should sum points for an entity', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ total: '125' }]));
+
+      expect(await service.getUserPoints('entity-1' as UUID)).toBe(125);
+    });
+
+    it('should return 0 on database errors', async () => {
+      mockDb.select.mockImplementationOnce(() => {
+        throw new Error('Database error');
+      });
+
+      expect(await service.getUserPoints('entity-1' as UUID)).toBe(0);
+    });
+  });
+
+  describe('breakMissedStreaks', () => {
+    it('should reset streaks when an occurrence was missed', async () => {
+      const rows = [
+        {
+          id: 'todo-1',
+          type: 'daily',
+          recurrence: { frequency: 'daily', interval: 1, startDate: '2024-01-01' },
+          createdAt: new Date(2024, 0, 1),
+          metadata: { streak: 4 },
+        },
+        {
+          id: 'todo-2',
+          type: 'daily',
+          recurrence: { frequency: 'daily', interval: 1, startDate: '2024-01-01' },
+          createdAt: new Date(2024, 0, 1),
+          metadata: { streak: 2 },
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(rows));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      // todo-1 last completed Jan 3, so Jan 4 was missed by Jan 5
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ completedAt: new Date(2024, 0, 3, 9, 0), streak: 4 }])
+      );
+      // todo-2 last completed Jan 4, still on track
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ completedAt: new Date(2024, 0, 4, 9, 0), streak: 2 }])
+      );
+
+      const mergeSpy = vi
+        .spyOn(TodoDataService.prototype, 'mergeMetadata')
+        .mockResolvedValue(true);
+
+      const now = new Date(2024, 0, 5, 10, 0);
+      const count = await service.breakMissedStreaks({}, now);
+
+      expect(count).toBe(1);
+      // Merged into the stored metadata, with an update event
+      expect(mergeSpy).toHaveBeenCalledTimes(1);
+      expect(mergeSpy).toHaveBeenCalledWith('todo-1', {
+        streak: 0,
+        streakBrokenAt: now.toISOString(),
+      });
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import {
+  fromZonedTime,
+  getNextHour,
+  getNextMidnight,
+  isValidTimeZone,
+  toLocalDateString,
+  toZonedTime,
+} from '../utils/timezone.ts';
+
+describe('timezone utilities', () => {
+  it('should validate IANA timezone names', () => {
+    expect(isValidTimeZone('Europe/Berlin')).toBe(true);
+    expect(isValidTimeZone('Mars/Olympus')).toBe(false);
+  });
+
+  it('should round-trip wall-clock times', () => {
+    const instant = new Date('2024-07-01T12:00:00Z');
+    const wallClock = toZonedTime(instant, 'America/New_York');
+
+    expect(wallClock.getHours()).toBe(8);
+    expect(fromZonedTime(wallClock, 'America/New_York')).toEqual(instant);
+  });
+
+  it('should find the next local midnight across DST changes', () => {
+    // New York switches to daylight time on 2024-03-10
+    expect(getNextMidnight('America/New_York', new Date('2024-03-09T12:00:00Z'))).toEqual(
+      new Date('2024-03-10T05:00:00Z')
+    );
+    expect(getNextMidnight('America/New_York', new Date('2024-03-10T12:00:00Z'))).toEqual(
+      new Date('2024-03-11T04:00:00Z')
+    );
+  });
+
+  it('should find the next time a local hour starts', () => {
+    // 23:30 in Berlin (UTC+1): 8 AM is the next morning, 23:00 is a day away
+    const now = new Date('2024-01-05T22:30:00Z');
+
+    expect(getNextHour('Europe/Berlin', 8, now)).toEqual(new Date('2024-01-06T07:00:00Z'));
+    expect(getNextHour('Europe/Berlin', 23, now)).toEqual(new Date('2024-01-06T22:00:00Z'));
+  });
+
+  it('should format the calendar day in a timezone', () => {
+    const instant = new Date('2024-01-05T20:00:00Z');
+
+    expect(toLocalDateString(instant, 'Asia/Tokyo')).toBe('2024-01-06');
+    expect(toLocalDateString(instant, 'America/Los_Angeles')).toBe('2024-01-05');
+  });
+});
@@ -0,0 +1,244 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TodoScoringService } from '../services/scoringService.ts';
+import {
+  createTodoBulkService,
+  TodoBulkService,
+  validateBulkOperation,
+} from '../services/todoBulkService.ts';
+import { TodoDataService, type TodoData } from '../services/todoDataService.ts';
+
+const todo = (id: string, overrides: Partial<TodoData> = {}): TodoData =>
+  ({
+    id: id as UUID,
+    agentId: 'agent-1' as UUID,
+    name: `Task ${id}`,
+    type: 'one-off',
+    priority: 3,
+    isUrgent: false,
+    isCompleted: false,
+    tags: ['TODO', 'one-off', 'priority-3', 'shopping'],
+    metadata: {},
+    ...overrides,
+  }) as TodoData;
+
+describe('TodoBulkService', () => {
+  let service: TodoBulkService;
+  let transactionSpy: any;
+  let getSpy: any;
+  let updateSpy: any;
+  let archiveSpy: any;
+  let addTagsSpy: any;
+  let removeTagsSpy: any;
+  let recordCompletionSpy: any;
+
+  beforeEach(() => {
+    transactionSpy = vi.fn((run: (tx: any) => Promise<unknown>) => run({}));
+    const runtime = {
+      agentId: 'agent-1' as UUID,
+      db: { transaction: transactionSpy },
+    } as unknown as IAgentRuntime;
+
+    const todos: Record<string, TodoData> = {
+      'todo-1': todo('todo-1', { dueDate: new Date('2024-05-31T13:30:00Z') }),
+      'todo-2': todo('todo-2', { parentId: 'todo-9' as UUID }),
+      'todo-3': todo('todo-3', { isCompleted: true }),
+      'todo-4': todo('todo-4', { archivedAt: new Date() }),
+    };
+    getSpy = vi
+      .spyOn(TodoDataService.prototype, 'getTodo')
+      .mockImplementation(async (id) => todos[id] ?? null);
+    updateSpy = vi.spyOn(TodoDataService.prototype, 'updateTodo').mockResolvedValue(true);
+    archiveSpy = vi.spyOn(TodoDataService.prototype, 'archiveTodo').mockResolvedValue(true);
+    addTagsSpy = vi.spyOn(TodoDataService.prototype, 'addTags').mockResolvedValue(true);
+    removeTagsSpy = vi.spyOn(TodoDataService.prototype, 'removeTags').mockResolvedValue(true);
+    vi.spyOn(TodoDataService.prototype, 'syncParentCompletion').mockResolvedValue(null);
+    vi.spyOn(TodoDataService.prototype, 'getUserTimezone').mockResolvedValue('America/New_York');
+    recordCompletionSpy = vi
+      .spyOn(TodoScoringService.prototype, 'recordCompletion')
+      .mockResolvedValue({ points: 10, isOnTime: true, streak: 1, longestStreak: 1 });
+
+    service = createTodoBulkService(runtime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should apply every operation in one transaction', async () => {
+    const result = await service.applyOperations([
+      { action: 'complete', todoId: 'todo-1' as UUID },
+      {
+        action: 'update',
+        todoId: 'todo-2' as UUID,
+        changes: { dueDate: '2024-06-03', priority: 1 },
+      },
+      {
+        action: 'tag',
+        todoId: 'todo-2' as UUID,
+        addTags: ['errands'],
+        removeTags: ['shopping'],
+      },
+      { action: 'cancel', todoId: 'todo-3' as UUID },
+    ]);
+
+    expect(transactionSpy).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ applied: 4, errors: [], rolledBack: false });
+    expect(result.outcomes[0]).toMatchObject({ action: 'complete', points: 10, streak: 1 });
+
+    expect(recordCompletionSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'todo-1' }),
+      expect.any(Date)
+    );
+    expect(updateSpy).toHaveBeenCalledWith(
+      'todo-1',
+      expect.objectContaining({
+        isCompleted: true,
+        metadata: expect.objectContaining({ streak: 1 }),
+      }),
+      // Only while it is still open
+      { isCompleted: false }
+    );
+    // A date-only due date is midnight in the user's timezone
+    expect(updateSpy).toHaveBeenCalledWith('todo-2', {
+      dueDate: new Date('2024-06-03T04:00:00Z'),
+      priority: 1,
+    });
+    expect(removeTagsSpy).toHaveBeenCalledWith('todo-2', ['priority-3']);
+    expect(addTagsSpy).toHaveBeenCalledWith('todo-2', ['priority-1']);
+    expect(removeTagsSpy).toHaveBeenCalledWith('todo-2', ['shopping']);
+    expect(addTagsSpy).toHaveBeenCalledWith('todo-2', ['errands']);
+    expect(archiveSpy).toHaveBeenCalledWith('todo-3', { cancelled: true });
+  });
+
+  it('should keep the time of day when moving a due date to another day', async () => {
+    await service.applyOperations([
+      { action: 'update', todoId: 'todo-1' as UUID, changes: { dueDate: '2024-06-03' } },
+      {
+        action: 'update',
+        todoId: 'todo-2' as UUID,
+        changes: { dueDate: '2024-06-03T18:00:00Z' },
+      },
+    ]);
+
+    expect(updateSpy).toHaveBeenCalledWith('todo-1', {
+      dueDate: new Date('2024-06-03T13:30:00Z'),
+    });
+    expect(updateSpy).toHaveBeenCalledWith('todo-2', {
+      dueDate: new Date('2024-06-03T18:00:00Z'),
+    });
+  });
+
+  it('should record the completion date of a daily task in the user timezone', async () => {
+    getSpy.mockResolvedValueOnce(todo('todo-5', { type: 'daily' }));
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-06-01T02:00:00Z')); // Still May 31 in New York
+
+    try {
+      await service.applyOperations([{ action: 'complete', todoId: 'todo-5' as UUID }]);
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(updateSpy).toHaveBeenCalledWith(
+      'todo-5',
+      expect.objectContaining({
+        metadata: expect.objectContaining({ lastCompletedDate: '2024-05-31' }),
+      }),
+      { isCompleted: false }
+    );
+  });
+
+  it('should not complete or cancel the same task twice', async () => {
+    const result = await service.applyOperations([
+      { action: 'complete', todoId: 'todo-1' as UUID },
+      { action: 'tag', todoId: 'todo-1' as UUID, addTags: ['done'] },
+      { action: 'complete', todoId: 'todo-1' as UUID },
+      { action: 'cancel', todoId: 'todo-2' as UUID },
+      { action: 'complete', todoId: 'todo-2' as UUID },
+    ]);
+
+    expect(transactionSpy).not.toHaveBeenCalled();
+    expect(recordCompletionSpy).not.toHaveBeenCalled();
+    expect(result.errors).toEqual([
+      { index: 2, todoId: 'todo-1', error: 'Task already completed in this request' },
+      { index: 4, todoId: 'todo-2', error: 'Task already cancelled in this request' },
+    ]);
+  });
+
+  it('should change nothing when any operation is invalid', async () => {
+    const result = await service.applyOperations([
+      { action: 'complete', todoId: 'todo-1' as UUID },
+      { action: 'complete', todoId: 'todo-3' as UUID },
+      { action: 'cancel', todoId: 'todo-4' as UUID },
+      { action: 'cancel', todoId: 'missing' as UUID },
+      { action: 'update', todoId: 'todo-1' as UUID, changes: { priority: 7 } },
+    ]);
+
+    expect(transactionSpy).not.toHaveBeenCalled();
+    expect(updateSpy).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ applied: 0, outcomes: [], rolledBack: false });
+    expect(result.errors).toEqual([
+      { index: 1, todoId: 'todo-3', error: 'Task already completed' },
+      { index: 2, todoId: 'todo-4', error: 'Task is archived' },
+      { index: 3, todoId: 'missing', error: 'Task not found' },
+      { index: 4, todoId: 'todo-1', error: 'priority must be 1 to 4: 7' },
+    ]);
+  });
+
+  it('should roll back when a write fails', async () => {
+    archiveSpy.mockResolvedValueOnce(false);
+    transactionSpy.mockImplementation(async (run: (tx: any) => Promise<unknown>) => {
+      await run({});
+    });
+
+    const result = await service.applyOperations([
+      { action: 'tag', todoId: 'todo-1' as UUID, addTags: ['errands'] },
+      { action: 'cancel', todoId: 'todo-2' as UUID },
+    ]);
+
+    expect(result).toMatchObject({ applied: 0, outcomes: [], rolledBack: true });
+    expect(result.errors).toEqual([
+      { index: 1, todoId: 'todo-2', error: 'Error: Failed to write todo changes' },
+    ]);
+    expect(getSpy).toHaveBeenCalledTimes(2);
+  });
+
+  it('should roll back when a write it does not check fails', async () => {
+    // Inside the transaction the data service throws instead of returning null
+    vi.mocked(TodoDataService.prototype.syncParentCompletion).mockRejectedValueOnce(
+      new Error('Parent update failed')
+    );
+
+    const result = await service.applyOperations([
+      { action: 'complete', todoId: 'todo-1' as UUID },
+      { action: 'complete', todoId: 'todo-2' as UUID },
+    ]);
+
+    expect(result).toMatchObject({ applied: 0, outcomes: [], rolledBack: true });
+    expect(result.errors).toEqual([
+      { index: 1, todoId: 'todo-2', error: 'Error: Parent update failed' },
+    ]);
+  });
+
+  it('should describe what is wrong with malformed operations', () => {
+    expect(validateBulkOperation(null)).toEqual(['Operation must be an object']);
+    expect(validateBulkOperation({ action: 'archive' })).toEqual([
+      'action must be one of complete, cancel, update, tag',
+      'todoId is required',
+    ]);
+    expect(validateBulkOperation({ action: 'update', todoId: 'todo-1', changes: {} })).toEqual([
+      'changes are required for update',
+    ]);
+    expect(
+      validateBulkOperation({ action: 'tag', todoId: 'todo-1', addTags: 'errands' })
+    ).toEqual(['addTags must be a list of tags']);
+    expect(
+      validateBulkOperation({
+        action: 'update',
+        todoId: 'todo-1',
+        changes: { dueDate: 'next week', urgent: 'yes' },
+      })
+    ).toEqual(['urgent must be true or false', 'Invalid dueDate: next week']);
+  });
+});
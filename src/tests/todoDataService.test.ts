@@ -1,7 +1,20 @@
 import type { IAgentRuntime, UUID } from '@elizaos/core';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
-import { todosTable, todoTagsTable } from '../schema.ts';
-import { createTodoDataService, TodoDataService } from '../services/todoDataService.ts';
+import {
+  todosTable,
+  todoTagsTable,
+  todoDependenciesTable,
+  todoUserSettingsTable,
+} from '../schema.ts';
+import {
+  createTodoDataService,
+  nestSubtasks,
+  TodoDataService,
+  type TodoData,
+} from '../services/todoDataService.ts';
+import { createReminderHistoryService } from '../services/reminderHistoryService.ts';
+import { getTodoEventStream, type TodoEvent } from '../services/todoEventStream.ts';
+import { DEFAULT_TIMEZONE } from '../utils/timezone.ts';
 
 describe('TodoDataService', () => {
   let mockRuntime: IAgentRuntime;
@@ -42,6 +55,7 @@ describe('TodoDataService', () => {
       update: vi.fn().mockReturnValue(mockThenable),
       delete: vi.fn().mockReturnValue(mockThenable),
       execute: vi.fn(),
+      transaction: vi.fn((run: (tx: any) => Promise<unknown>) => run(mockDb)),
     };
 
     mockRuntime = {
@@ -117,6 +131,184 @@ describe('TodoDataService', () => {
         })
       ).rejects.toThrow('DB error');
     });
+
+    it('should insert the todo and its tags in one transaction', async () => {
+      const events: TodoEvent[] = [];
+      const unsubscribe = getTodoEventStream(mockRuntime).subscribe((event) => events.push(event));
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1' }]))
+        .mockImplementationOnce((resolve: any, reject: any) => reject(new Error('Tags error')));
+
+      await expect(
+        service.createTodo({
+          agentId: 'agent-1' as UUID,
+          worldId: 'world-1' as UUID,
+          roomId: 'room-1' as UUID,
+          entityId: 'entity-1' as UUID,
+          name: 'Test Todo',
+          type: 'one-off',
+          tags: ['TODO'],
+        })
+      ).rejects.toThrow('Tags error');
+      unsubscribe();
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('createTodos', () => {
+    const newTodo = (name: string) => ({
+      agentId: 'agent-1' as UUID,
+      worldId: 'world-1' as UUID,
+      roomId: 'room-1' as UUID,
+      entityId: 'entity-1' as UUID,
+      name,
+      type: 'one-off' as const,
+      tags: ['TODO', 'one-off'],
+    });
+
+    let events: TodoEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      events = [];
+      unsubscribe = getTodoEventStream(mockRuntime).subscribe((event) => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('should create the todos in one transaction, skipping duplicates', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) =>
+          resolve([{ id: 'todo-0', name: 'Call mom', isCompleted: false }])
+        )
+        .mockImplementationOnce((resolve: any) =>
+          resolve([{ id: 'todo-1', name: 'Buy milk', metadata: {} }])
+        )
+        .mockImplementationOnce((resolve: any) => resolve(true));
+
+      const result = await service.createTodos([
+        newTodo('Buy milk'),
+        newTodo('Buy milk '),
+        newTodo('Call mom'),
+      ]);
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({
+        created: [{ index: 0, id: 'todo-1', name: 'Buy milk' }],
+        duplicates: [
+          { index: 1, name: 'Buy milk ', todoId: 'todo-1' },
+          { index: 2, name: 'Call mom', todoId: 'todo-0' },
+        ],
+      });
+      expect(mockDb.insert).toHaveBeenCalledTimes(2); // The todo and its tags
+      expect(events.map((event) => [event.type, event.todoId])).toEqual([['created', 'todo-1']]);
+    });
+
+    it('should publish nothing when the transaction fails', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1', name: 'Buy milk' }]))
+        .mockImplementationOnce((resolve: any) => resolve(true))
+        .mockImplementationOnce((resolve: any, reject: any) => reject(new Error('DB error')));
+
+      await expect(service.createTodos([newTodo('Buy milk'), newTodo('Call mom')])).rejects.toThrow(
+        'DB error'
+      );
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('withTransaction', () => {
+    let events: TodoEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      events = [];
+      unsubscribe = getTodoEventStream(mockRuntime).subscribe((event) => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('should publish changes only once the transaction commits', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve(true));
+
+      const result = await service.withTransaction(async (tx) => {
+        expect(await tx.addTags('todo-1' as UUID, ['errands'])).toBe(true);
+        expect(events).toHaveLength(0);
+        return 'done';
+      });
+
+      expect(result).toBe('done');
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1); // addTags joins the open transaction
+      expect(events.map((event) => [event.type, event.todoId])).toEqual([['updated', 'todo-1']]);
+    });
+
+    it('should publish nothing when the work throws', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve(true));
+
+      await expect(
+        service.withTransaction(async (tx) => {
+          await tx.addTags('todo-1' as UUID, ['errands']);
+          throw new Error('Rolled back');
+        })
+      ).rejects.toThrow('Rolled back');
+      expect(events).toHaveLength(0);
+    });
+
+    it('should defer events of services created from the transaction runtime', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve(true));
+
+      await service.withTransaction(async (_tx, runtime) => {
+        await createTodoDataService(runtime).addTags('todo-1' as UUID, ['errands']);
+        expect(events).toHaveLength(0);
+      });
+
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(events).toHaveLength(1);
+    });
+
+    it('should fail the transaction when a write inside it fails', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any, reject: any) =>
+        reject(new Error('Update failed'))
+      );
+
+      // Outside a transaction the failure is reported as a result
+      expect(await service.updateTodo('todo-1' as UUID, { name: 'New name' })).toBe(false);
+
+      mockThenable.then.mockImplementationOnce((resolve: any, reject: any) =>
+        reject(new Error('Update failed'))
+      );
+      await expect(
+        service.withTransaction(async (tx) => {
+          await tx.updateTodo('todo-1' as UUID, { name: 'New name' });
+        })
+      ).rejects.toThrow('Update failed');
+      expect(events).toHaveLength(0);
+    });
+
+    it('should fail the transaction when a write of another service fails', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any, reject: any) =>
+        reject(new Error('Update failed'))
+      );
+
+      await expect(
+        service.withTransaction(async (_tx, runtime) => {
+          await createReminderHistoryService(runtime).recordOutcome('reminder-1' as UUID, 'sent');
+        })
+      ).rejects.toThrow('Update failed');
+    });
   });
 
   describe('getTodos', () => {
@@ -188,6 +380,33 @@ describe('TodoDataService', () => {
       expect(todo?.tags).toContain('urgent');
     });
 
+    it('should surface the last reminder sent in metadata', async () => {
+      const sentAt = new Date('2024-01-05T09:00:00Z');
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          { id: 'todo-1', name: 'Test Todo', metadata: { streak: 2 }, lastReminderSent: sentAt },
+        ])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.metadata).toEqual({ streak: 2, lastReminderSent: sentAt.toISOString() });
+      expect(todo).not.toHaveProperty('lastReminderSent');
+    });
+
+    it('should surface the number of overdue reminders sent in metadata', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-1', name: 'Test Todo', metadata: {}, overdueReminders: 3 }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.metadata).toEqual({ overdueReminders: 3 });
+      expect(todo).not.toHaveProperty('overdueReminders');
+    });
+
     it('should return null for non-existent todo', async () => {
       mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
       const todo = await service.getTodo('non-existent' as UUID);
@@ -211,6 +430,19 @@ describe('TodoDataService', () => {
       expect(success).toBe(true);
     });
 
+    it('should only update a todo whose completion state still matches', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const updated = await service.updateTodo(
+        'todo-1' as UUID,
+        { isCompleted: true },
+        { isCompleted: false }
+      );
+
+      expect(updated).toBe(false);
+      expect(mockThenable.returning).toHaveBeenCalled();
+    });
+
     it('should handle update failure', async () => {
       mockThenable.then.mockImplementationOnce((resolve: any, reject: any) => 
         reject(new Error('Update failed'))
@@ -235,6 +467,421 @@ describe('TodoDataService', () => {
     });
   });
 
+  describe('domain events', () => {
+    let handler: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+      handler = vi.fn();
+      mockRuntime.getEvent = vi.fn().mockReturnValue([handler]);
+      mockRuntime.emitEvent = vi.fn().mockResolvedValue(undefined);
+    });
+
+    it('should emit TODO_COMPLETED with the completed todo', async () => {
+      const completed = { id: 'todo-1', name: 'Pay rent', isCompleted: true, metadata: {} };
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([completed]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ tag: 'bills' }]));
+
+      await service.updateTodo('todo-1' as UUID, { isCompleted: true });
+
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TODO_COMPLETED',
+        expect.objectContaining({
+          todoId: 'todo-1',
+          todo: expect.objectContaining({ name: 'Pay rent', isCompleted: true, tags: ['bills'] }),
+          changes: expect.objectContaining({ isCompleted: true }),
+          source: 'todo',
+        })
+      );
+    });
+
+    it('should emit TODO_DELETED with the todo as it was before deletion', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-1', name: 'Pay rent', metadata: {} }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      await service.deleteTodo('todo-1' as UUID);
+
+      expect(mockDb.select.mock.invocationCallOrder[0]).toBeLessThan(
+        mockDb.delete.mock.invocationCallOrder[0]
+      );
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TODO_DELETED',
+        expect.objectContaining({
+          todoId: 'todo-1',
+          todo: expect.objectContaining({ id: 'todo-1' }),
+        })
+      );
+    });
+
+    it('should not load todos when nothing listens', async () => {
+      mockRuntime.getEvent = vi.fn().mockReturnValue(undefined);
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      await service.updateTodo('todo-1' as UUID, { name: 'Pay rent' });
+
+      expect(mockDb.select).not.toHaveBeenCalled();
+      expect(mockRuntime.emitEvent).not.toHaveBeenCalled();
+    });
+
+    it('should merge metadata in the database and emit TODO_UPDATED', async () => {
+      const todo = { id: 'todo-1', name: 'Stretch', metadata: { streak: 0, note: 'new' } };
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1' }]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([todo]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      expect(await service.mergeMetadata('todo-1' as UUID, { streak: 0 })).toBe(true);
+
+      // Merged by the database, not written from a copy read earlier
+      const [{ metadata }] = mockThenable.set.mock.calls[0];
+      expect(metadata).not.toEqual({ streak: 0 });
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TODO_UPDATED',
+        expect.objectContaining({ todoId: 'todo-1', changes: { metadata: { streak: 0 } } })
+      );
+    });
+
+    it('should emit TODO_OVERDUE once per due date', async () => {
+      const todo = {
+        id: 'todo-1',
+        name: 'Pay rent',
+        dueDate: new Date('2024-06-01T09:00:00Z'),
+        metadata: {},
+      } as unknown as TodoData;
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1' }]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      expect(await service.markOverdue(todo)).toBe(true);
+      // Another instance recorded it first
+      expect(await service.markOverdue(todo)).toBe(false);
+      // Already recorded on the todo, so no query is needed
+      expect(
+        await service.markOverdue({
+          ...todo,
+          metadata: { overdueSince: '2024-06-01T09:00:00.000Z' },
+        })
+      ).toBe(false);
+
+      expect(mockDb.update).toHaveBeenCalledTimes(2);
+      expect(mockRuntime.emitEvent).toHaveBeenCalledTimes(1);
+      expect(mockRuntime.emitEvent).toHaveBeenCalledWith(
+        'TODO_OVERDUE',
+        expect.objectContaining({ todoId: 'todo-1', overdueSince: '2024-06-01T09:00:00.000Z' })
+      );
+    });
+  });
+
+  describe('live events', () => {
+    let events: TodoEvent[];
+    let unsubscribe: () => void;
+
+    beforeEach(() => {
+      events = [];
+      unsubscribe = getTodoEventStream(mockRuntime).subscribe((event) => events.push(event));
+    });
+
+    afterEach(() => {
+      unsubscribe();
+    });
+
+    it('should publish created todos with their tags', async () => {
+      const mockTodo = { id: 'todo-1', name: 'Pay rent', roomId: 'room-1', metadata: {} };
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([mockTodo]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      await service.createTodo({
+        agentId: 'agent-1' as UUID,
+        worldId: 'world-1' as UUID,
+        roomId: 'room-1' as UUID,
+        entityId: 'entity-1' as UUID,
+        name: 'Pay rent',
+        type: 'one-off',
+        tags: ['TODO'],
+      });
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        type: 'created',
+        todoId: 'todo-1',
+        todo: { id: 'todo-1', name: 'Pay rent', roomId: 'room-1', tags: ['TODO'] },
+      });
+    });
+
+    it('should publish completions with the changed fields', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      await service.updateTodo('todo-1' as UUID, { isCompleted: true });
+
+      expect(events[0]).toMatchObject({
+        type: 'completed',
+        todoId: 'todo-1',
+        changes: { isCompleted: true },
+      });
+    });
+
+    it('should not publish failed updates', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any, reject: any) =>
+        reject(new Error('Update failed'))
+      );
+
+      await service.updateTodo('todo-1' as UUID, { name: 'Updated Name' });
+
+      expect(events).toHaveLength(0);
+    });
+
+    it('should publish each purged todo as deleted', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1' }, { id: 'todo-2' }]))
+        .mockImplementationOnce((resolve: any) => resolve([{ id: 'subtask-1' }]))
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) =>
+          resolve([{ todoId: 'subtask-1' }, { todoId: 'todo-3' }])
+        )
+        .mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const count = await service.purgeArchivedTodos(new Date());
+
+      // Subtasks removed by the cascade are deleted too, and dependents lose a dependency
+      expect(count).toBe(3);
+      expect(events.map((event) => [event.type, event.todoId])).toEqual([
+        ['deleted', 'todo-1'],
+        ['deleted', 'todo-2'],
+        ['deleted', 'subtask-1'],
+        ['updated', 'todo-3'],
+      ]);
+    });
+  });
+
+  describe('subtasks', () => {
+    it('should roll subtask progress up into the parent', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-1', name: 'Finish taxes', subtaskTotal: 4, subtaskCompleted: 1 }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.progress).toEqual({ completed: 1, total: 4, percent: 25 });
+      expect(todo).not.toHaveProperty('subtaskTotal');
+    });
+
+    it('should append new subtasks to the end of the checklist', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ position: 2 }]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-2' }]));
+
+      await service.createTodo({
+        agentId: 'agent-1' as UUID,
+        worldId: 'world-1' as UUID,
+        roomId: 'room-1' as UUID,
+        entityId: 'entity-1' as UUID,
+        name: 'Gather W-2 forms',
+        type: 'one-off',
+        parentId: 'todo-1' as UUID,
+      });
+
+      expect(mockThenable.values).toHaveBeenCalledWith(
+        expect.objectContaining({ parentId: 'todo-1', position: 3 })
+      );
+    });
+
+    it('should nest subtasks under their parent in order', () => {
+      const todos = [
+        { id: 'parent', name: 'Finish taxes' },
+        { id: 'step-2', name: 'File return', parentId: 'parent', position: 1 },
+        { id: 'step-1', name: 'Gather forms', parentId: 'parent', position: 0 },
+        { id: 'orphan', name: 'Call accountant', parentId: 'elsewhere' },
+      ] as TodoData[];
+
+      const nested = nestSubtasks(todos);
+
+      expect(nested.map((todo) => todo.id)).toEqual(['parent', 'orphan']);
+      expect(nested[0].subtasks?.map((todo) => todo.id)).toEqual(['step-1', 'step-2']);
+    });
+
+    it('should complete the parent when all subtasks are done', async () => {
+      mockRuntime.getSetting = vi.fn().mockReturnValue(undefined);
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          {
+            id: 'parent',
+            isCompleted: false,
+            metadata: {},
+            subtaskTotal: 2,
+            subtaskCompleted: 2,
+          },
+        ])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const status = await service.syncParentCompletion('parent' as UUID);
+
+      expect(status).toBe('completed');
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isCompleted: true,
+          metadata: expect.objectContaining({ completedBySubtasks: true }),
+        })
+      );
+    });
+
+    it('should not auto-complete the parent when disabled', async () => {
+      mockRuntime.getSetting = vi.fn().mockReturnValue('false');
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'parent', isCompleted: false, subtaskTotal: 2, subtaskCompleted: 2 }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const status = await service.syncParentCompletion('parent' as UUID);
+
+      expect(status).toBeNull();
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should reopen a parent completed by its subtasks', async () => {
+      mockRuntime.getSetting = vi.fn().mockReturnValue(undefined);
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          {
+            id: 'parent',
+            isCompleted: true,
+            metadata: { completedBySubtasks: true, completedAt: '2025-01-01', note: 'kept' },
+            subtaskTotal: 2,
+            subtaskCompleted: 1,
+          },
+        ])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const status = await service.syncParentCompletion('parent' as UUID);
+
+      expect(status).toBe('reopened');
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({ isCompleted: false, metadata: { note: 'kept' } })
+      );
+    });
+  });
+
+  describe('dependencies', () => {
+    it('should expose blocked state from open dependencies', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([
+          {
+            id: 'todo-1',
+            name: 'File return',
+            dependsOn: ['todo-2', 'todo-3'],
+            blockedBy: ['todo-3'],
+          },
+        ])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.isBlocked).toBe(true);
+      expect(todo?.blockedBy).toEqual(['todo-3']);
+      expect(todo?.dependsOn).toEqual(['todo-2', 'todo-3']);
+    });
+
+    it('should detect transitive cycles', async () => {
+      // todo-b depends on todo-c, which depends on todo-a
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ dependsOnId: 'todo-c' }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ dependsOnId: 'todo-a' }])
+      );
+
+      const cycle = await service.wouldCreateCycle('todo-a' as UUID, 'todo-b' as UUID);
+
+      expect(cycle).toBe(true);
+    });
+
+    it('should reject self-dependencies without querying', async () => {
+      expect(await service.wouldCreateCycle('todo-a' as UUID, 'todo-a' as UUID)).toBe(true);
+      expect(mockDb.select).not.toHaveBeenCalled();
+    });
+
+    it('should add a dependency when there is no cycle', async () => {
+      mockThenable.onConflictDoNothing = vi.fn().mockReturnThis();
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const success = await service.addDependency('todo-a' as UUID, 'todo-b' as UUID);
+
+      expect(success).toBe(true);
+      expect(mockDb.insert).toHaveBeenCalledWith(todoDependenciesTable);
+      expect(mockThenable.values).toHaveBeenCalledWith({
+        todoId: 'todo-a',
+        dependsOnId: 'todo-b',
+      });
+    });
+
+    it('should list dependents that are no longer blocked', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ todoId: 'todo-2' }, { todoId: 'todo-3' }])
+      );
+      // getTodo calls run concurrently: both todo queries resolve before the tag queries
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-2', isCompleted: false, blockedBy: [] }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-3', isCompleted: false, blockedBy: ['todo-4'] }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const unblocked = await service.getUnblockedBy('todo-1' as UUID);
+
+      expect(unblocked.map((todo) => todo.id)).toEqual(['todo-2']);
+    });
+  });
+
+  describe('archive and restore', () => {
+    it('should archive a cancelled todo instead of deleting it', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const success = await service.archiveTodo('todo-1' as UUID, { cancelled: true });
+
+      expect(success).toBe(true);
+      expect(mockDb.delete).not.toHaveBeenCalled();
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({ archivedAt: expect.any(Date), cancelledAt: expect.any(Date) })
+      );
+    });
+
+    it('should clear archive state on restore', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ archivedAt: new Date() }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const success = await service.restoreTodo('todo-1' as UUID);
+
+      expect(success).toBe(true);
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({ archivedAt: null, cancelledAt: null })
+      );
+    });
+
+    it('should purge todos archived before the cutoff', async () => {
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) => resolve([{ id: 'todo-1' }, { id: 'todo-2' }]))
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any) => resolve(undefined));
+
+      const count = await service.purgeArchivedTodos(new Date(2025, 0, 1));
+
+      expect(count).toBe(2);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(1);
+      expect(mockDb.delete).toHaveBeenCalledWith(todosTable);
+    });
+  });
+
   describe('addTags', () => {
     it('should add new tags to a todo', async () => {
       const existingTags = [{ tag: 'TODO' }];
@@ -303,21 +950,263 @@ describe('TodoDataService', () => {
   });
 
   describe('resetDailyTodos', () => {
-    it('should reset completed daily todos', async () => {
-      mockThenable.then.mockImplementationOnce((resolve: any) => resolve({ count: 3 }));
-      const count = await service.resetDailyTodos({
-        agentId: 'agent-1' as UUID,
+    it('should reset each todo in its own transaction', async () => {
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+      const completedDaily = (id: string) => ({
+        id,
+        type: 'daily',
+        isCompleted: true,
+        completedAt: yesterday,
+        createdAt: yesterday,
+        updatedAt: yesterday,
+        metadata: {},
       });
-      expect(count).toBe(0); // Method returns 0 for now
+
+      mockThenable.then
+        .mockImplementationOnce((resolve: any) =>
+          resolve([completedDaily('todo-1'), completedDaily('todo-2')])
+        )
+        .mockImplementationOnce((resolve: any) => resolve([]))
+        .mockImplementationOnce((resolve: any, reject: any) => reject(new Error('Row locked')))
+        .mockImplementationOnce((resolve: any) => resolve(true));
+
+      const count = await service.resetDailyTodos({}, new Date());
+
+      expect(count).toBe(1);
+      expect(mockDb.transaction).toHaveBeenCalledTimes(2);
+      expect(mockDb.update).toHaveBeenCalledTimes(2);
     });
 
-    it('should return 0 if no todos to reset', async () => {
-      mockThenable.then.mockImplementationOnce((resolve: any) => resolve({ count: 0 }));
+    it('should reopen daily todos completed before today', async () => {
+      const yesterday = new Date();
+      yesterday.setDate(yesterday.getDate() - 1);
+
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          type: 'daily',
+          isCompleted: true,
+          completedAt: yesterday,
+          createdAt: yesterday,
+          updatedAt: yesterday,
+          metadata: { streak: 3 },
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
       const count = await service.resetDailyTodos({
         agentId: 'agent-1' as UUID,
       });
+
+      expect(count).toBe(1);
+      expect(mockDb.update).toHaveBeenCalledWith(todosTable);
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isCompleted: false,
+          completedAt: null,
+          metadata: expect.objectContaining({ streak: 3, completedToday: false }),
+        })
+      );
+    });
+
+    it('should not reopen todos before their next occurrence', async () => {
+      const now = new Date();
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          type: 'daily',
+          isCompleted: true,
+          completedAt: now,
+          createdAt: now,
+          updatedAt: now,
+          recurrence: { frequency: 'weekly', interval: 1 },
+          metadata: {},
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const count = await service.resetDailyTodos({}, now);
+
+      expect(count).toBe(0);
+      expect(mockDb.update).not.toHaveBeenCalled();
+    });
+
+    it('should move the due date of dated recurring todos to the next occurrence', async () => {
+      const dueDate = new Date(2025, 0, 6, 14, 30); // Monday 14:30
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          type: 'one-off',
+          isCompleted: true,
+          dueDate,
+          completedAt: new Date(2025, 0, 6, 12, 0),
+          createdAt: new Date(2025, 0, 1),
+          updatedAt: new Date(2025, 0, 6, 12, 0),
+          recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO'], startDate: '2025-01-06' },
+          metadata: {},
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const count = await service.resetDailyTodos({}, new Date(2025, 0, 6, 13, 0));
+
+      expect(count).toBe(1);
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({ dueDate: new Date(2025, 0, 13, 14, 30) })
+      );
+    });
+
+    it('should leave exhausted recurrences completed', async () => {
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          type: 'daily',
+          isCompleted: true,
+          completedAt: new Date(2025, 0, 2),
+          createdAt: new Date(2025, 0, 1),
+          updatedAt: new Date(2025, 0, 2),
+          recurrence: { frequency: 'daily', interval: 1, startDate: '2025-01-01', count: 2 },
+          metadata: {},
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const count = await service.resetDailyTodos({}, new Date(2025, 0, 5));
+
       expect(count).toBe(0);
     });
+
+    it('should reset at midnight in the user timezone', async () => {
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          entityId: 'entity-tokyo',
+          type: 'daily',
+          isCompleted: true,
+          completedAt: new Date('2025-01-05T10:00:00Z'), // 19:00 in Tokyo
+          createdAt: new Date('2025-01-01T00:00:00Z'),
+          updatedAt: new Date('2025-01-05T10:00:00Z'),
+          metadata: {},
+        },
+        {
+          id: 'todo-2',
+          entityId: 'entity-other',
+          type: 'daily',
+          isCompleted: true,
+          completedAt: new Date('2025-01-05T10:00:00Z'),
+          createdAt: new Date('2025-01-01T00:00:00Z'),
+          updatedAt: new Date('2025-01-05T10:00:00Z'),
+          metadata: {},
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ entityId: 'entity-tokyo', timezone: 'Asia/Tokyo' }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      // 01:00 on Jan 6 in Tokyo, still Jan 5 for users without a timezone
+      const count = await service.resetDailyTodos({}, new Date('2025-01-05T16:00:00Z'));
+
+      expect(count).toBe(1);
+      expect(mockThenable.set).toHaveBeenCalledTimes(1);
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          isCompleted: false,
+          metadata: expect.objectContaining({ lastResetDate: '2025-01-06' }),
+        })
+      );
+    });
+
+    it('should record missed days of open habits and reset the streak', async () => {
+      const mockTodos = [
+        {
+          id: 'todo-1',
+          type: 'daily',
+          isCompleted: false,
+          createdAt: new Date(2025, 0, 1),
+          updatedAt: new Date(2025, 0, 3),
+          recurrence: { frequency: 'daily', interval: 1, startDate: '2025-01-01' },
+          metadata: { streak: 5, lastResetDate: '2025-01-03', custom: 'kept' },
+        },
+      ];
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(mockTodos));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const count = await service.resetDailyTodos({}, new Date(2025, 0, 5, 0, 5));
+
+      expect(count).toBe(1);
+      expect(mockThenable.set).toHaveBeenCalledWith(
+        expect.objectContaining({
+          metadata: {
+            custom: 'kept',
+            streak: 0,
+            lastResetDate: '2025-01-05',
+            missedDates: ['2025-01-03', '2025-01-04'],
+          },
+        })
+      );
+    });
+  });
+
+  describe('user timezone', () => {
+    it('should fall back to the default timezone', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      expect(await service.getUserTimezone('entity-1' as UUID)).toBe(DEFAULT_TIMEZONE);
+    });
+
+    it('should upsert the timezone of a user', async () => {
+      mockThenable.onConflictDoUpdate = vi.fn().mockReturnThis();
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve(true));
+
+      const result = await service.setUserTimezone('entity-1' as UUID, 'Europe/Berlin');
+
+      expect(result).toBe(true);
+      expect(mockDb.insert).toHaveBeenCalledWith(todoUserSettingsTable);
+      expect(mockThenable.values).toHaveBeenCalledWith(
+        expect.objectContaining({ entityId: 'entity-1', timezone: 'Europe/Berlin' })
+      );
+    });
+  });
+
+  describe('nextOccurrence', () => {
+    it('should expose the next occurrence of recurring todos', async () => {
+      const mockTodo = {
+        id: 'todo-1',
+        name: 'Team sync',
+        type: 'one-off',
+        isCompleted: false,
+        dueDate: new Date(2025, 0, 8, 10, 0),
+        createdAt: new Date(2025, 0, 1),
+        recurrence: { frequency: 'weekly', interval: 1, byDay: ['WE'], startDate: '2025-01-01' },
+      };
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([mockTodo]));
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.nextOccurrence).toEqual(new Date(2025, 0, 8));
+    });
+
+    it('should leave nextOccurrence null for one-time todos', async () => {
+      mockThenable.then.mockImplementationOnce((resolve: any) =>
+        resolve([{ id: 'todo-1', type: 'one-off', isCompleted: false }])
+      );
+      mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+      const todo = await service.getTodo('todo-1' as UUID);
+
+      expect(todo?.nextOccurrence).toBeNull();
+    });
   });
 
   describe('error handling', () => {
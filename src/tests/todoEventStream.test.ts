@@ -0,0 +1,61 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { describe, expect, it, vi } from 'vitest';
+import { getTodoEventStream, TodoEventStream } from '../services/todoEventStream.ts';
+
+describe('TodoEventStream', () => {
+  it('should deliver events to subscribers until they unsubscribe', () => {
+    const stream = new TodoEventStream();
+    const listener = vi.fn();
+    const unsubscribe = stream.subscribe(listener);
+
+    const event = stream.publish(
+      { type: 'deleted', todoId: 'todo-1' as UUID },
+      new Date('2024-06-01T12:00:00Z')
+    );
+    unsubscribe();
+    stream.publish({ type: 'deleted', todoId: 'todo-2' as UUID });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({
+      id: 1,
+      type: 'deleted',
+      todoId: 'todo-1',
+      at: '2024-06-01T12:00:00.000Z',
+    });
+    expect(event.id).toBe(1);
+  });
+
+  it('should keep delivering when a subscriber throws', () => {
+    const stream = new TodoEventStream();
+    const listener = vi.fn();
+    stream.subscribe(() => {
+      throw new Error('Connection closed');
+    });
+    stream.subscribe(listener);
+
+    stream.publish({ type: 'updated', todoId: 'todo-1' as UUID });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+  });
+
+  it('should replay recent events after a given id', () => {
+    const stream = new TodoEventStream();
+    for (let i = 0; i < 120; i++) {
+      stream.publish({ type: 'updated', todoId: `todo-${i}` as UUID });
+    }
+
+    expect(stream.getEventsSince(117).map((event) => event.id)).toEqual([118, 119, 120]);
+    // Only the most recent events are kept
+    expect(stream.getEventsSince(0)).toHaveLength(100);
+    expect(stream.getEventsSince(0)[0].id).toBe(21);
+  });
+
+  it('should share one stream per agent', () => {
+    const runtime = (agentId: string) => ({ agentId }) as unknown as IAgentRuntime;
+
+    expect(getTodoEventStream(runtime('agent-1'))).toBe(getTodoEventStream(runtime('agent-1')));
+    expect(getTodoEventStream(runtime('agent-1'))).not.toBe(
+      getTodoEventStream(runtime('agent-2'))
+    );
+  });
+});
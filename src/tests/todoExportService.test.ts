@@ -0,0 +1,143 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TodoScoringService } from '../services/scoringService.ts';
+import { TodoDataService, type TodoData } from '../services/todoDataService.ts';
+import {
+  createTodoExportService,
+  formatTodoExport,
+  TodoExportService,
+} from '../services/todoExportService.ts';
+import { readImportRecords, validateImportRecord } from '../services/todoImportService.ts';
+import { formatCsv, parseCsv } from '../utils/csv.ts';
+
+const todo: TodoData = {
+  id: 'todo-1' as UUID,
+  agentId: 'agent-1' as UUID,
+  worldId: 'world-1' as UUID,
+  roomId: 'room-1' as UUID,
+  entityId: 'entity-1' as UUID,
+  name: 'Water the plants, "carefully"',
+  description: 'Ferns first\nthen the cactus',
+  type: 'daily',
+  isUrgent: false,
+  isCompleted: false,
+  recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO', 'TH'] },
+  tags: ['TODO', 'daily', 'home'],
+  metadata: { streak: 3 },
+  createdAt: new Date('2024-05-01T08:00:00Z'),
+  updatedAt: new Date('2024-05-02T08:00:00Z'),
+};
+
+describe('TodoExportService', () => {
+  let service: TodoExportService;
+  let getTodosSpy: any;
+  let getCompletionsSpy: any;
+
+  beforeEach(() => {
+    const runtime = { agentId: 'agent-1' as UUID } as IAgentRuntime;
+    getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([todo]);
+    getCompletionsSpy = vi
+      .spyOn(TodoScoringService.prototype, 'getCompletions')
+      .mockResolvedValue([
+        {
+          id: 'completion-1' as UUID,
+          todoId: 'todo-1' as UUID,
+          completedAt: new Date('2024-05-30T07:00:00Z'),
+          points: 10,
+          streak: 3,
+        },
+        { id: 'completion-2' as UUID, todoId: 'other' as UUID, completedAt: new Date() },
+      ] as any);
+    service = createTodoExportService(runtime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should export todos with their tags, metadata and completion history', async () => {
+    const records = await service.exportTodos({ roomId: 'room-1' as UUID });
+
+    expect(getTodosSpy).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId: 'agent-1', roomId: 'room-1' })
+    );
+    expect(getCompletionsSpy).toHaveBeenCalledWith(expect.objectContaining({ roomId: 'room-1' }));
+    expect(records).toEqual([
+      expect.objectContaining({
+        id: 'todo-1',
+        rrule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+        tags: ['TODO', 'daily', 'home'],
+        metadata: { streak: 3 },
+        dueDate: null,
+        createdAt: '2024-05-01T08:00:00.000Z',
+        completions: [
+          {
+            completedAt: '2024-05-30T07:00:00.000Z',
+            dueDate: null,
+            points: 10,
+            isOnTime: null,
+            streak: 3,
+          },
+        ],
+      }),
+    ]);
+  });
+
+  it('should include archived todos only when asked', async () => {
+    await service.exportTodos({ entityId: 'entity-1' as UUID, includeArchived: true });
+
+    expect(getTodosSpy).toHaveBeenCalledTimes(2);
+    expect(getTodosSpy).toHaveBeenLastCalledWith(expect.objectContaining({ archived: true }));
+  });
+
+  it('should write CSV that imports back to the same todo', async () => {
+    const records = await service.exportTodos();
+    const csv = formatTodoExport(records, 'csv');
+
+    const rows = parseCsv(csv);
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      name: 'Water the plants, "carefully"',
+      description: 'Ferns first\nthen the cactus',
+      tags: 'TODO,daily,home',
+      metadata: '{"streak":3}',
+    });
+
+    const { fields, errors } = validateImportRecord(rows[0]);
+    expect(errors).toEqual([]);
+    expect(fields).toMatchObject({
+      name: todo.name,
+      description: todo.description,
+      type: 'daily',
+      recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO', 'TH'] },
+      tags: ['TODO', 'recurring-weekly', 'daily', 'home'],
+      metadata: { streak: 3 },
+    });
+  });
+
+  it('should keep spreadsheet apps from running text cells as formulas', () => {
+    const rows = [{ name: '=HYPERLINK("http://x")', description: '@mention', priority: -1 }];
+    const csv = formatCsv(rows, ['name', 'description', 'priority']);
+
+    expect(csv).toBe(
+      'name,description,priority\r\n"\'=HYPERLINK(""http://x"")",\'@mention,-1\r\n'
+    );
+    expect(parseCsv(csv)).toEqual([
+      { name: '=HYPERLINK("http://x")', description: '@mention', priority: '-1' },
+    ]);
+  });
+
+  it('should write JSON that can be read back as import records', async () => {
+    const now = new Date('2024-06-01T12:00:00Z');
+    const json = formatTodoExport(await service.exportTodos(), 'json', now);
+
+    expect(JSON.parse(json).exportedAt).toBe(now.toISOString());
+    expect(readImportRecords('json', json)).toEqual([
+      expect.objectContaining({ id: 'todo-1', name: todo.name }),
+    ]);
+    expect(readImportRecords('json', '{"todos": 1}')).toBe(
+      'JSON must be a list of todos or an export'
+    );
+    expect(readImportRecords('json', 'not json')).toBe('Invalid JSON');
+  });
+});
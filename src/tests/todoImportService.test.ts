@@ -0,0 +1,280 @@
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { TodoDataService, type TodoData } from '../services/todoDataService.ts';
+import { createTodoImportService, TodoImportService } from '../services/todoImportService.ts';
+import { parseCsv } from '../utils/csv.ts';
+import type { ICalTodo } from '../utils/ical.ts';
+
+const target = {
+  worldId: 'world-1' as UUID,
+  roomId: 'room-1' as UUID,
+  entityId: 'entity-1' as UUID,
+};
+
+const item = (overrides: Partial<ICalTodo> = {}): ICalTodo => ({
+  uid: 'rent@example.com',
+  summary: 'Pay rent',
+  due: new Date('2024-06-03T09:00:00Z'),
+  priority: 2,
+  categories: ['bills'],
+  ...overrides,
+});
+
+describe('TodoImportService', () => {
+  let service: TodoImportService;
+  let mockThenable: any;
+  let createSpy: any;
+  let getSpy: any;
+  let updateSpy: any;
+  let addTagsSpy: any;
+  let getTodosSpy: any;
+
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn().mockReturnThis(),
+      where: vi.fn().mockReturnThis(),
+      then: vi.fn(),
+    };
+    const db: any = {
+      select: vi.fn().mockReturnValue(mockThenable),
+      transaction: vi.fn((run: (tx: any) => Promise<unknown>) => run(db)),
+    };
+    const runtime = { agentId: 'agent-1' as UUID, db } as unknown as IAgentRuntime;
+
+    createSpy = vi
+      .spyOn(TodoDataService.prototype, 'createTodo')
+      .mockResolvedValue('todo-new' as UUID);
+    getSpy = vi.spyOn(TodoDataService.prototype, 'getTodo');
+    updateSpy = vi.spyOn(TodoDataService.prototype, 'updateTodo').mockResolvedValue(true);
+    addTagsSpy = vi.spyOn(TodoDataService.prototype, 'addTags').mockResolvedValue(true);
+    getTodosSpy = vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValue([]);
+
+    service = createTodoImportService(runtime);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should create todos with their due date, priority, recurrence and categories', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+
+    const result = await service.importICalTodos(
+      [
+        item(),
+        item({
+          uid: 'stretch@example.com',
+          summary: 'Stretch',
+          due: undefined,
+          start: new Date('2024-06-03T00:00:00Z'),
+          rrule: 'FREQ=WEEKLY;BYDAY=MO,TH',
+          priority: undefined,
+          categories: [],
+        }),
+      ],
+      target,
+      now
+    );
+
+    expect(result).toMatchObject({ created: 2, updated: 0, unchanged: 0, errors: [] });
+    expect(createSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        agentId: 'agent-1',
+        roomId: 'room-1',
+        entityId: 'entity-1',
+        name: 'Pay rent',
+        type: 'one-off',
+        priority: 1,
+        dueDate: new Date('2024-06-03T09:00:00Z'),
+        metadata: { icalUid: 'rent@example.com', importedAt: now.toISOString() },
+        tags: ['TODO', 'one-off', 'priority-1', 'bills'],
+      })
+    );
+    expect(createSpy).toHaveBeenCalledWith(
+      expect.objectContaining({
+        name: 'Stretch',
+        type: 'daily',
+        dueDate: undefined,
+        recurrence: {
+          frequency: 'weekly',
+          interval: 1,
+          byDay: ['MO', 'TH'],
+          startDate: '2024-06-03',
+        },
+        tags: ['TODO', 'recurring-weekly', 'daily'],
+      })
+    );
+  });
+
+  it('should update todos it imported before instead of duplicating them', async () => {
+    const imported = {
+      id: 'todo-1' as UUID,
+      name: 'Pay rent',
+      priority: 1,
+      dueDate: new Date('2024-06-03T09:00:00Z'),
+      isCompleted: false,
+      tags: ['TODO', 'one-off', 'priority-1', 'bills'],
+      metadata: { icalUid: 'rent@example.com' },
+    } as TodoData;
+    mockThenable.then.mockImplementation((resolve: any) =>
+      resolve([{ id: 'todo-1', metadata: { icalUid: 'rent@example.com' } }])
+    );
+    getSpy.mockResolvedValue(imported);
+
+    const unchanged = await service.importICalTodos([item()], target, now);
+    expect(unchanged).toMatchObject({ created: 0, updated: 0, unchanged: 1 });
+    expect(updateSpy).not.toHaveBeenCalled();
+
+    const completedAt = new Date('2024-06-02T08:00:00Z');
+    const changed = await service.importICalTodos(
+      [item({ summary: 'Pay the rent', status: 'COMPLETED', completed: completedAt })],
+      target,
+      now
+    );
+    expect(changed).toMatchObject({ created: 0, updated: 1, todoIds: ['todo-1'] });
+    expect(updateSpy).toHaveBeenCalledWith('todo-1', {
+      name: 'Pay the rent',
+      isCompleted: true,
+      completedAt,
+    });
+    expect(createSpy).not.toHaveBeenCalled();
+    expect(addTagsSpy).not.toHaveBeenCalled();
+  });
+
+  it('should match todos exported from this agent by their ID', async () => {
+    const id = '0b8d6a52-6a3a-4ef5-8d48-9f6a9b1b2c3d';
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([{ id, metadata: {} }]));
+    getSpy.mockResolvedValue({
+      id,
+      name: 'Pay rent',
+      priority: 1,
+      dueDate: new Date('2024-06-03T09:00:00Z'),
+      isCompleted: false,
+      tags: ['TODO', 'one-off', 'priority-1'],
+    } as TodoData);
+
+    const result = await service.importICalTodos(
+      [item({ uid: `${id}@todo.elizaos.ai` })],
+      target,
+      now
+    );
+
+    expect(result).toMatchObject({ created: 0, updated: 1 });
+    expect(addTagsSpy).toHaveBeenCalledWith(id, ['bills']);
+  });
+
+  it('should skip cancelled items and report failed ones', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) => resolve([]));
+    createSpy.mockRejectedValueOnce(new Error('insert failed'));
+
+    const result = await service.importICalTodos(
+      [item(), item({ uid: 'old@example.com', status: 'CANCELLED' })],
+      target,
+      now
+    );
+
+    expect(result).toMatchObject({ created: 0, skipped: 1 });
+    expect(result.errors).toEqual(['Pay rent: Error: insert failed']);
+  });
+
+  describe('CSV and JSON records', () => {
+    const csvRows = () =>
+      parseCsv(
+        [
+          'name,type,priority,dueDate,rrule,tags,isCompleted',
+          'Pay rent,one-off,2,2024-06-03T09:00:00Z,,"home,bills",',
+          'Stretch,,,,FREQ=DAILY;INTERVAL=2,,',
+          ',one-off,7,tomorrow,,,maybe',
+          'Call mom,,,,,,true',
+          'pay rent ,,,,,,',
+          'Pay rent,,,,,,',
+        ].join('\n')
+      );
+
+    it('should preview without creating on a dry run, reporting errors by row', async () => {
+      const result = await service.importRecords(csvRows(), target, { dryRun: true, now });
+
+      expect(createSpy).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ dryRun: true, total: 6, created: 0 });
+      expect(result.preview.map((fields) => fields.name)).toEqual([
+        'Pay rent',
+        'Stretch',
+        'Call mom',
+        'pay rent',
+      ]);
+      expect(result.preview[0]).toMatchObject({
+        type: 'one-off',
+        priority: 2,
+        dueDate: new Date('2024-06-03T09:00:00Z'),
+        tags: ['TODO', 'one-off', 'priority-2', 'home', 'bills'],
+      });
+      expect(result.preview[1]).toMatchObject({
+        type: 'daily',
+        recurrence: { frequency: 'daily', interval: 2 },
+      });
+      expect(result.preview[2]).toMatchObject({ isCompleted: true, completedAt: now });
+      expect(result.errors).toEqual([
+        {
+          row: 3,
+          errors: [
+            'name is required',
+            'Invalid dueDate: tomorrow',
+            'priority must be 1 to 4: 7',
+            'Invalid isCompleted: maybe',
+          ],
+        },
+      ]);
+      expect(result.duplicates).toEqual([{ row: 6, name: 'Pay rent', todoId: null }]);
+    });
+
+    it('should skip todos that are already open in the room', async () => {
+      getTodosSpy.mockResolvedValue([
+        { id: 'todo-1', name: 'Stretch ', isCompleted: false },
+        { id: 'todo-2', name: 'Call mom', isCompleted: true },
+      ]);
+
+      const result = await service.importRecords(csvRows(), target, { now });
+
+      expect(getTodosSpy).toHaveBeenCalledWith({
+        entityId: 'entity-1',
+        roomId: 'room-1',
+        isCompleted: false,
+      });
+      expect(result.duplicates).toEqual([
+        { row: 2, name: 'Stretch', todoId: 'todo-1' },
+        { row: 6, name: 'Pay rent', todoId: null },
+      ]);
+      expect(result.created).toBe(3);
+      expect(createSpy).toHaveBeenCalledTimes(3);
+      expect(createSpy).toHaveBeenCalledWith(
+        expect.objectContaining({
+          name: 'Call mom',
+          metadata: { importedAt: now.toISOString() },
+        })
+      );
+      // Completed rows are created completed
+      expect(createSpy).toHaveBeenCalledWith(
+        expect.objectContaining({ name: 'Call mom', isCompleted: true, completedAt: now })
+      );
+      expect(updateSpy).not.toHaveBeenCalled();
+    });
+
+    it('should create no todos when one of them fails', async () => {
+      createSpy
+        .mockResolvedValueOnce('todo-1' as UUID)
+        .mockRejectedValueOnce(new Error('DB error'));
+
+      const result = await service.importRecords(csvRows(), target, { now });
+
+      expect(createSpy).toHaveBeenCalledTimes(2);
+      expect(result).toMatchObject({ created: 0, todoIds: [] });
+      expect(result.errors).toContainEqual({
+        row: 2,
+        name: 'Stretch',
+        errors: ['Error: DB error'],
+      });
+    });
+  });
+});
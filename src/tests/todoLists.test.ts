@@ -0,0 +1,179 @@
+import type { UUID } from '@elizaos/core';
+import { describe, expect, it } from 'vitest';
+import type { TodoData } from '../services/todoDataService.ts';
+import { validateImportRecord } from '../services/todoImportService.ts';
+import {
+  detectTodoListFormat,
+  formatMarkdownChecklist,
+  formatTodoTxt,
+  parseMarkdownChecklist,
+  parseTodoTxt,
+} from '../utils/todoLists.ts';
+
+const todo = (overrides: Partial<TodoData> = {}): TodoData => ({
+  id: 'todo-1' as UUID,
+  agentId: 'agent-1' as UUID,
+  worldId: 'world-1' as UUID,
+  roomId: 'room-1' as UUID,
+  entityId: 'entity-1' as UUID,
+  name: 'Call plumber',
+  type: 'one-off',
+  priority: 1,
+  isUrgent: false,
+  isCompleted: false,
+  dueDate: new Date('2024-06-03T00:00:00Z'),
+  tags: ['TODO', 'one-off', 'priority-1', 'house', '@phone'],
+  metadata: {},
+  createdAt: new Date('2024-05-01T08:00:00Z'),
+  updatedAt: new Date('2024-05-01T08:00:00Z'),
+  ...overrides,
+});
+
+describe('todo lists', () => {
+  describe('todo.txt', () => {
+    it('should read priorities, projects, contexts, due dates and completions', () => {
+      const items = parseTodoTxt(
+        [
+          '(A) 2024-05-01 Call plumber +house @phone due:2024-06-03',
+          '',
+          'x 2024-06-02 2024-05-20 Pay rent +bills pri:B',
+          'Water plants rec:3d +urgent',
+        ].join('\n')
+      );
+
+      expect(items).toEqual([
+        {
+          name: 'Call plumber',
+          isCompleted: false,
+          priority: 1,
+          dueDate: '2024-06-03',
+          tags: ['house', '@phone'],
+        },
+        {
+          name: 'Pay rent',
+          isCompleted: true,
+          completedAt: '2024-06-02',
+          priority: 2,
+          tags: ['bills'],
+        },
+        {
+          name: 'Water plants',
+          isCompleted: false,
+          isUrgent: true,
+          rrule: 'FREQ=DAILY;INTERVAL=3',
+          tags: [],
+        },
+      ]);
+    });
+
+    it('should write todos without their derived tags', () => {
+      const text = formatTodoTxt([
+        todo(),
+        todo({
+          name: 'Pay rent',
+          priority: 2,
+          isCompleted: true,
+          completedAt: new Date('2024-06-02T10:00:00Z'),
+          dueDate: undefined,
+          tags: ['TODO', 'priority-2', 'bills'],
+        }),
+        todo({
+          name: 'Stretch',
+          type: 'daily',
+          priority: 4,
+          dueDate: undefined,
+          recurrence: { frequency: 'weekly', interval: 2 },
+          tags: ['TODO', 'daily', 'recurring-weekly'],
+        }),
+      ]);
+
+      expect(text).toBe(
+        [
+          '(A) 2024-05-01 Call plumber +house @phone due:2024-06-03',
+          'x 2024-06-02 2024-05-01 Pay rent +bills pri:B',
+          '2024-05-01 Stretch rec:2w',
+          '',
+        ].join('\n')
+      );
+      expect(parseTodoTxt(text)[0]).toMatchObject({ name: 'Call plumber', priority: 1 });
+    });
+  });
+
+  describe('Markdown checklists', () => {
+    it('should read checkbox items and skip other lines', () => {
+      const items = parseMarkdownChecklist(
+        [
+          '# Weekend',
+          'Some notes',
+          '- [ ] (B) Mow the lawn #garden due:2024-06-08',
+          '  * [x] Buy seeds +garden',
+          '1. [ ] Call mom rrule:FREQ=WEEKLY;BYDAY=SU',
+          '- not a task',
+        ].join('\n')
+      );
+
+      expect(items).toEqual([
+        {
+          name: 'Mow the lawn',
+          isCompleted: false,
+          priority: 2,
+          dueDate: '2024-06-08',
+          tags: ['garden'],
+        },
+        { name: 'Buy seeds', isCompleted: true, tags: ['garden'] },
+        { name: 'Call mom', isCompleted: false, rrule: 'FREQ=WEEKLY;BYDAY=SU', tags: [] },
+      ]);
+    });
+
+    it('should write a checklist that imports back to the same todos', () => {
+      const markdown = formatMarkdownChecklist(
+        [
+          todo({ isUrgent: true }),
+          todo({
+            name: 'Stretch',
+            type: 'daily',
+            priority: undefined,
+            dueDate: undefined,
+            isCompleted: true,
+            recurrence: { frequency: 'weekly', interval: 1, byDay: ['MO', 'TH'] },
+            tags: ['TODO', 'daily'],
+          }),
+        ],
+        'My todos'
+      );
+
+      expect(markdown).toBe(
+        [
+          '# My todos',
+          '',
+          '- [ ] (A) Call plumber +urgent +house @phone due:2024-06-03',
+          '- [x] Stretch rrule:FREQ=WEEKLY;BYDAY=MO,TH',
+          '',
+        ].join('\n')
+      );
+
+      const [first, second] = parseMarkdownChecklist(markdown).map(
+        (item) => validateImportRecord(item).fields
+      );
+      expect(first).toMatchObject({
+        name: 'Call plumber',
+        priority: 1,
+        isUrgent: true,
+        dueDate: new Date('2024-06-03T00:00:00Z'),
+      });
+      expect(second).toMatchObject({
+        name: 'Stretch',
+        type: 'daily',
+        isCompleted: true,
+        recurrence: { frequency: 'weekly', byDay: ['MO', 'TH'] },
+      });
+    });
+  });
+
+  it('should detect the format of a pasted list', () => {
+    expect(detectTodoListFormat('Groceries:\n- [ ] Milk\n- [ ] Eggs')).toBe('markdown');
+    expect(detectTodoListFormat('(A) Call plumber\nPay rent +bills')).toBe('todotxt');
+    expect(detectTodoListFormat('Remind me to call mom +1 tomorrow')).toBeNull();
+    expect(detectTodoListFormat('Just a normal message')).toBeNull();
+  });
+});
@@ -1,5 +1,6 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { todosProvider } from '../providers/todos';
+import { TodoDataService } from '../services/todoDataService';
 import type { IAgentRuntime, Memory, State, UUID } from '@elizaos/core';
 
 describe('todosProvider', () => {
@@ -49,6 +50,31 @@ describe('todosProvider', () => {
     expect(typeof result.text).toBe('string');
   });
 
+  it('should list blocked tasks and tasks unblocked by a recent completion', async () => {
+    setupMocks();
+    const now = new Date();
+    vi.spyOn(TodoDataService.prototype, 'getTodos').mockResolvedValueOnce([
+      { id: 'forms', name: 'Gather forms', type: 'one-off', isCompleted: true, completedAt: now },
+      { id: 'file', name: 'File return', type: 'one-off', isCompleted: false, dependsOn: ['forms'] },
+      {
+        id: 'refund',
+        name: 'Track refund',
+        type: 'one-off',
+        isCompleted: false,
+        isBlocked: true,
+        dependsOn: ['file'],
+        blockedBy: ['file'],
+      },
+    ] as any);
+
+    const message: Memory = { entityId: 'user-1' as UUID, roomId: 'room-1' as UUID } as any;
+    const result = await todosProvider.get(mockRuntime, message, mockState);
+
+    expect(result.text).toContain('- Track refund (blocked by: File return)');
+    expect(result.text).toContain('- File return (ready now that Gather forms is done)');
+    vi.restoreAllMocks();
+  });
+
   it('should handle missing entityId gracefully', async () => {
     setupMocks();
     const message: Memory = { roomId: 'room-1' as UUID } as any;
@@ -0,0 +1,201 @@
+import crypto from 'node:crypto';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { PushSubscriptionService } from '../services/pushSubscriptionService.ts';
+import {
+  createVapidAuthorization,
+  encryptPushPayload,
+  generateVapidKeys,
+  isValidPushSubscription,
+  sendWebPush,
+  type PushSubscriptionData,
+} from '../utils/webPush.ts';
+
+const hkdf = (ikm: Buffer, salt: Buffer, info: string | Buffer, length: number) =>
+  Buffer.from(crypto.hkdfSync('sha256', ikm, salt, Buffer.from(info), length));
+
+/**
+ * A browser's side of a subscription, able to decrypt what is pushed to it
+ */
+function createBrowser(endpoint: string) {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const auth = crypto.randomBytes(16);
+  const subscription: PushSubscriptionData = {
+    endpoint,
+    keys: { p256dh: ecdh.getPublicKey().toString('base64url'), auth: auth.toString('base64url') },
+  };
+
+  const decrypt = (body: Buffer): string => {
+    const salt = body.subarray(0, 16);
+    const keyLength = body[20];
+    const serverPublic = body.subarray(21, 21 + keyLength);
+    const record = body.subarray(21 + keyLength);
+
+    const keyInfo = Buffer.concat([
+      Buffer.from('WebPush: info\0'),
+      ecdh.getPublicKey(),
+      serverPublic,
+    ]);
+    const ikm = hkdf(ecdh.computeSecret(serverPublic), auth, keyInfo, 32);
+    const decipher = crypto.createDecipheriv(
+      'aes-128-gcm',
+      hkdf(ikm, salt, 'Content-Encoding: aes128gcm\0', 16),
+      hkdf(ikm, salt, 'Content-Encoding: nonce\0', 12)
+    );
+    decipher.setAuthTag(record.subarray(record.length - 16));
+    const plaintext = Buffer.concat([
+      decipher.update(record.subarray(0, record.length - 16)),
+      decipher.final(),
+    ]);
+    expect(plaintext[plaintext.length - 1]).toBe(2); // Last record delimiter
+    return plaintext.subarray(0, plaintext.length - 1).toString();
+  };
+
+  return { subscription, decrypt };
+}
+
+function verifyVapid(authorization: string, audience: string): boolean {
+  const [, token, publicKey] = /^vapid t=([^,]+), k=(.+)$/.exec(authorization) ?? [];
+  const [header, claims, signature] = token.split('.');
+  const point = Buffer.from(publicKey, 'base64url');
+  const key = crypto.createPublicKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const payload = JSON.parse(Buffer.from(claims, 'base64url').toString());
+  return (
+    payload.aud === audience &&
+    crypto.verify(
+      'sha256',
+      Buffer.from(`${header}.${claims}`),
+      { key, dsaEncoding: 'ieee-p1363' },
+      Buffer.from(signature, 'base64url')
+    )
+  );
+}
+
+describe('Web Push', () => {
+  // Local stand-in for a browser vendor's push service
+  let server: http.Server;
+  let origin: string;
+  const received: Array<{ path: string; headers: http.IncomingHttpHeaders; body: Buffer }> = [];
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', headers: req.headers, body: Buffer.concat(chunks) });
+        res.statusCode = req.url?.startsWith('/gone') ? 410 : 201;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  it('should validate subscriptions from the browser', () => {
+    const { subscription } = createBrowser('https://push.example.com/send/abc');
+    expect(isValidPushSubscription(subscription)).toBe(true);
+    expect(isValidPushSubscription({ ...subscription, endpoint: 'not a url' })).toBe(false);
+    expect(isValidPushSubscription({ ...subscription, keys: { p256dh: 'short', auth: 'x' } })).toBe(
+      false
+    );
+  });
+
+  it('should encrypt payloads only the subscribed browser can read', () => {
+    const browser = createBrowser('https://push.example.com/send/abc');
+    const other = createBrowser('https://push.example.com/send/def');
+    const body = encryptPushPayload('{"title":"Pay rent"}', browser.subscription);
+
+    expect(browser.decrypt(body)).toBe('{"title":"Pay rent"}');
+    expect(() => other.decrypt(body)).toThrow();
+  });
+
+  it('should sign requests for the push service origin', () => {
+    const keys = generateVapidKeys();
+    const authorization = createVapidAuthorization(
+      'https://push.example.com/send/abc',
+      keys,
+      'mailto:todo@example.com'
+    );
+    expect(authorization).toContain(`k=${keys.publicKey}`);
+    expect(verifyVapid(authorization, 'https://push.example.com')).toBe(true);
+  });
+
+  it('should deliver an encrypted message to the push service', async () => {
+    const browser = createBrowser(`${origin}/push/abc`);
+    const result = await sendWebPush(
+      browser.subscription,
+      JSON.stringify({ title: 'Pay rent', body: 'Due today' }),
+      generateVapidKeys(),
+      'mailto:todo@example.com',
+      { ttl: 60, urgency: 'high' }
+    );
+
+    expect(result).toMatchObject({ statusCode: 201, delivered: true, gone: false });
+    const [request] = received;
+    expect(request.headers['content-encoding']).toBe('aes128gcm');
+    expect(request.headers.ttl).toBe('60');
+    expect(request.headers.urgency).toBe('high');
+    expect(verifyVapid(String(request.headers.authorization), origin)).toBe(true);
+    expect(JSON.parse(browser.decrypt(request.body))).toEqual({
+      title: 'Pay rent',
+      body: 'Due today',
+    });
+  });
+
+  it("should push to a user's browsers and drop expired subscriptions", async () => {
+    const runtime = {
+      agentId: 'agent-1' as UUID,
+      getSetting: vi.fn().mockReturnValue(null),
+      getCache: vi.fn().mockResolvedValue(generateVapidKeys()),
+      setCache: vi.fn(),
+    } as unknown as IAgentRuntime;
+    const service = new PushSubscriptionService(runtime);
+    const active = createBrowser(`${origin}/push/active`);
+    const expired = createBrowser(`${origin}/gone/expired`);
+
+    vi.spyOn(service, 'getSubscriptions').mockResolvedValue(
+      [active, expired].map((browser, index) => ({
+        ...browser.subscription,
+        id: `subscription-${index}` as UUID,
+        entityId: 'entity-1' as UUID,
+        userAgent: null,
+        lastPushedAt: null,
+        createdAt: new Date(),
+      }))
+    );
+    const removeSpy = vi.spyOn(service, 'removeSubscription').mockResolvedValue(true);
+    vi.spyOn(service as any, 'markPushed').mockResolvedValue(undefined);
+
+    const result = await service.sendToEntity('entity-1' as UUID, {
+      title: 'Pay rent',
+      body: 'Due today',
+      tag: 'todo-1',
+    });
+
+    expect(result).toEqual({ delivered: 1, failed: 0, removed: 1 });
+    expect(removeSpy).toHaveBeenCalledWith(expired.subscription.endpoint);
+    expect(JSON.parse(active.decrypt(received[0].body))).toMatchObject({ tag: 'todo-1' });
+    expect(runtime.setCache).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,268 @@
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import type { IAgentRuntime, UUID } from '@elizaos/core';
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PgDialect } from 'drizzle-orm/pg-core';
+import { todoWebhookDeliveriesTable, todoWebhooksTable } from '../schema.ts';
+import {
+  createWebhookService,
+  MAX_WEBHOOK_ATTEMPTS,
+  WebhookService,
+} from '../services/webhookService.ts';
+import {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../utils/webhooks.ts';
+
+const SECRET = 'whsec_test_secret_value';
+
+describe('WebhookService', () => {
+  // Local receiver standing in for an internal system; the path picks the response status
+  let server: http.Server;
+  let origin: string;
+  const received: Array<{ path: string; headers: http.IncomingHttpHeaders; body: string }> = [];
+
+  let mockRuntime: IAgentRuntime;
+  let service: WebhookService;
+  let mockDb: any;
+  let mockThenable: any;
+
+  const now = new Date('2024-06-01T12:00:00Z');
+
+  const webhook = (id: string, path: string, events: string[] = []) => ({
+    id,
+    url: `${origin}${path}`,
+    secret: SECRET,
+    events,
+    isActive: true,
+  });
+
+  const delivery = (id: string, webhookId: string, attempts = 0) => ({
+    id,
+    webhookId,
+    event: 'TODO_COMPLETED',
+    attempts,
+    payload: { event: 'TODO_COMPLETED', data: { todoId: 'todo-1' } },
+  });
+
+  const recordedUpdates = () =>
+    mockThenable.set.mock.calls
+      .map(([values]: any[]) => values)
+      .filter((values: any) => values.attempts !== undefined);
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      const chunks: Buffer[] = [];
+      req.on('data', (chunk) => chunks.push(chunk));
+      req.on('end', () => {
+        const path = req.url ?? '';
+        received.push({ path, headers: req.headers, body: Buffer.concat(chunks).toString() });
+        res.statusCode = Number(path.split('/')[1]) || 200;
+        res.end();
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    mockThenable = {
+      from: vi.fn(),
+      where: vi.fn(),
+      orderBy: vi.fn(),
+      limit: vi.fn(),
+      values: vi.fn(),
+      set: vi.fn(),
+      returning: vi.fn(),
+      then: vi.fn(),
+    };
+
+    mockThenable.from.mockReturnThis();
+    mockThenable.where.mockReturnThis();
+    mockThenable.orderBy.mockReturnThis();
+    mockThenable.limit.mockReturnThis();
+    mockThenable.values.mockReturnThis();
+    mockThenable.set.mockReturnThis();
+    mockThenable.returning.mockReturnThis();
+
+    mockDb = {
+      insert: vi.fn().mockReturnValue(mockThenable),
+      select: vi.fn().mockReturnValue(mockThenable),
+      update: vi.fn().mockReturnValue(mockThenable),
+      delete: vi.fn().mockReturnValue(mockThenable),
+    };
+
+    mockRuntime = {
+      agentId: 'agent-1' as UUID,
+      db: mockDb,
+    } as any;
+
+    service = createWebhookService(mockRuntime);
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    vi.restoreAllMocks();
+  });
+
+  it('should verify signatures and reject tampered or stale payloads', () => {
+    const body = '{"event":"TODO_CREATED"}';
+    const timestamp = Math.floor(now.getTime() / 1000);
+    const signature = signWebhookPayload(SECRET, body, timestamp);
+
+    expect(verifyWebhookSignature(SECRET, body, signature, { now })).toBe(true);
+    expect(verifyWebhookSignature('another_secret_value', body, signature, { now })).toBe(false);
+    expect(verifyWebhookSignature(SECRET, '{"event":"TODO_DELETED"}', signature, { now })).toBe(
+      false
+    );
+    const later = new Date(now.getTime() + 10 * 60 * 1000);
+    expect(verifyWebhookSignature(SECRET, body, signature, { now: later })).toBe(false);
+  });
+
+  it('should generate a secret for new webhooks', async () => {
+    mockThenable.then.mockImplementationOnce((resolve: any) =>
+      resolve([{ id: 'webhook-1', url: 'https://example.com/hook', events: [], isActive: true }])
+    );
+
+    const created = await service.createWebhook({ url: 'https://example.com/hook' });
+
+    expect(mockDb.insert).toHaveBeenCalledWith(todoWebhooksTable);
+    const { secret } = mockThenable.values.mock.calls[0][0];
+    expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+    expect(created).toMatchObject({ id: 'webhook-1', secret });
+  });
+
+  it('should post signed events to subscribed webhooks and log each delivery', async () => {
+    mockThenable.then
+      .mockImplementationOnce((resolve: any) =>
+        resolve([
+          webhook('webhook-1', '/200/all'),
+          webhook('webhook-2', '/200/created', ['TODO_CREATED']),
+          webhook('webhook-3', '/500/completed', ['TODO_COMPLETED']),
+        ])
+      )
+      .mockImplementationOnce((resolve: any) =>
+        resolve([delivery('delivery-1', 'webhook-1'), delivery('delivery-3', 'webhook-3')])
+      )
+      .mockImplementation((resolve: any) => resolve(undefined));
+
+    const delivered = await service.dispatchEvent(
+      'TODO_COMPLETED',
+      { todoId: 'todo-1' as UUID },
+      now
+    );
+
+    expect(delivered).toBe(1);
+    // Only webhooks subscribed to the event get a delivery
+    expect(mockDb.insert).toHaveBeenCalledWith(todoWebhookDeliveriesTable);
+    expect(mockThenable.values.mock.calls[0][0].map((row: any) => row.webhookId)).toEqual([
+      'webhook-1',
+      'webhook-3',
+    ]);
+    // Held back from retry checks while the first attempt runs
+    expect(mockThenable.values.mock.calls[0][0][0].nextAttemptAt).toEqual(
+      new Date(now.getTime() + 5 * 60 * 1000)
+    );
+
+    const request = received.find((entry) => entry.path === '/200/all')!;
+    expect(request.headers['x-todo-event']).toBe('TODO_COMPLETED');
+    expect(request.headers['x-todo-delivery']).toBe('delivery-1');
+    expect(
+      verifyWebhookSignature(
+        SECRET,
+        request.body,
+        String(request.headers[WEBHOOK_SIGNATURE_HEADER.toLowerCase()]),
+        { now }
+      )
+    ).toBe(true);
+    expect(JSON.parse(request.body)).toMatchObject({
+      id: 'delivery-1',
+      event: 'TODO_COMPLETED',
+      data: { todoId: 'todo-1' },
+    });
+
+    // The server error is retried after a back-off
+    expect(recordedUpdates()).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ status: 'delivered', attempts: 1, responseStatus: 200 }),
+        expect.objectContaining({
+          status: 'retrying',
+          attempts: 1,
+          responseStatus: 500,
+          lastError: 'HTTP 500',
+          nextAttemptAt: new Date(now.getTime() + 60 * 1000),
+        }),
+      ])
+    );
+  });
+
+  it('should fail deliveries that cannot succeed or ran out of attempts', async () => {
+    mockThenable.then
+      .mockImplementationOnce((resolve: any) =>
+        resolve([delivery('delivery-1', 'webhook-1'), delivery('delivery-2', 'webhook-2', 5)])
+      )
+      .mockImplementationOnce((resolve: any) =>
+        resolve([webhook('webhook-1', '/404/gone'), webhook('webhook-2', '/503/down')])
+      )
+      .mockImplementation((resolve: any) => resolve(undefined));
+
+    const delivered = await service.retryDueDeliveries(now);
+
+    expect(delivered).toBe(0);
+    expect(received.map((entry) => entry.path)).toEqual(['/404/gone', '/503/down']);
+    expect(recordedUpdates()).toEqual([
+      expect.objectContaining({ status: 'failed', attempts: 1, responseStatus: 404 }),
+      expect.objectContaining({
+        status: 'failed',
+        attempts: MAX_WEBHOOK_ATTEMPTS,
+        responseStatus: 503,
+        nextAttemptAt: null,
+      }),
+    ]);
+  });
+
+  it('should retry deliveries whose attempt was interrupted once the claim times out', async () => {
+    mockThenable.then
+      .mockImplementationOnce((resolve: any) => resolve([delivery('delivery-1', 'webhook-1')]))
+      .mockImplementationOnce((resolve: any) => resolve([webhook('webhook-1', '/200/stuck')]))
+      .mockImplementation((resolve: any) => resolve(undefined));
+
+    const delivered = await service.retryDueDeliveries(now);
+
+    expect(delivered).toBe(1);
+    // Pending deliveries are claimed alongside retrying ones, moving their next attempt forward
+    const { sql: claimQuery, params } = new PgDialect().sqlToQuery(
+      mockThenable.where.mock.calls[1][0]
+    );
+    expect(claimQuery).toContain('"status" in ($');
+    expect(params).toEqual(expect.arrayContaining(['pending', 'retrying']));
+    expect(mockThenable.set.mock.calls[0][0]).toEqual({
+      nextAttemptAt: new Date(now.getTime() + 5 * 60 * 1000),
+      updatedAt: now,
+    });
+    expect(recordedUpdates()).toEqual([
+      expect.objectContaining({ status: 'delivered', attempts: 1, nextAttemptAt: null }),
+    ]);
+  });
+
+  it('should not post to paused webhooks', async () => {
+    mockThenable.then
+      .mockImplementationOnce((resolve: any) => resolve([delivery('delivery-1', 'webhook-1')]))
+      .mockImplementationOnce((resolve: any) =>
+        resolve([{ ...webhook('webhook-1', '/200/paused'), isActive: false }])
+      )
+      .mockImplementation((resolve: any) => resolve(undefined));
+
+    await service.retryDueDeliveries(now);
+
+    expect(received).toHaveLength(0);
+    expect(recordedUpdates()).toEqual([
+      expect.objectContaining({ status: 'failed', lastError: 'Webhook was deleted or paused' }),
+    ]);
+  });
+});
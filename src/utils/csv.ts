@@ -0,0 +1,84 @@
+// Text cells starting with these are run as formulas by spreadsheet apps
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+/**
+ * Quote a CSV field when it contains a delimiter, quote or line break. Text that a spreadsheet
+ * would take for a formula is prefixed with an apostrophe.
+ */
+function formatCsvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === 'string' && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Format rows as CSV (RFC 4180) with a header row of the given columns
+ */
+export function formatCsv<T extends Record<string, unknown>>(
+  rows: T[],
+  columns: readonly (keyof T & string)[]
+): string {
+  const lines = [columns.join(',')];
+  for (const row of rows) {
+    lines.push(columns.map((column) => formatCsvField(row[column])).join(','));
+  }
+  return `${lines.join('\r\n')}\r\n`;
+}
+
+// Undo the apostrophe formatCsvField puts before formula-like text
+const unescapeFormula = (cell: string): string =>
+  cell.startsWith("'") && FORMULA_START.test(cell.slice(1)) ? cell.slice(1) : cell;
+
+/**
+ * Parse CSV into one record per row, keyed by the header row. Blank lines are skipped.
+ */
+export function parseCsv(text: string): Record<string, string>[] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  const input = text.replace(/^﻿/, ''); // Spreadsheet apps may start with a byte order mark
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  const nonEmpty = rows.filter((cells) => cells.some((cell) => cell.trim() !== ''));
+  const [header, ...records] = nonEmpty;
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return records.map((cells) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, unescapeFormula(cells[index] ?? '')])
+    )
+  );
+}
@@ -0,0 +1,137 @@
+/**
+ * Escalation ladders for overdue todos.
+ *
+ * Each overdue reminder climbs one step of the ladder for the todo's level: the step says how
+ * long to wait after the previous reminder and which channels to use. The last step repeats
+ * until the maximum number of reminders has been sent.
+ */
+
+import type { ReminderChannel } from '../services/reminderHistoryService';
+
+export type EscalationLevel = 'urgent' | 'high' | 'normal';
+
+export interface EscalationStep {
+  afterMinutes: number; // Wait after the previous reminder, or after the due date for the first
+  channels: ReminderChannel[];
+}
+
+export interface EscalationPolicy {
+  steps: EscalationStep[];
+  maxReminders: number;
+}
+
+/**
+ * The next overdue reminder to send
+ */
+export interface EscalationReminder {
+  step: EscalationStep;
+  index: number; // Number of overdue reminders already sent
+  windowKey: string;
+}
+
+const ESCALATION_CHANNELS: ReminderChannel[] = ['in_app', 'rolodex', 'contact'];
+
+/**
+ * Ladders used unless overridden with the TODO_ESCALATION_POLICY setting
+ */
+export const DEFAULT_ESCALATION_POLICIES: Record<EscalationLevel, EscalationPolicy> = {
+  urgent: {
+    maxReminders: 6,
+    steps: [
+      { afterMinutes: 0, channels: ['in_app', 'rolodex'] },
+      { afterMinutes: 30, channels: ['in_app', 'rolodex'] },
+      { afterMinutes: 60, channels: ['in_app', 'rolodex', 'contact'] },
+      { afterMinutes: 120, channels: ['in_app', 'rolodex'] },
+    ],
+  },
+  high: {
+    maxReminders: 5,
+    steps: [
+      { afterMinutes: 0, channels: ['in_app'] },
+      { afterMinutes: 60, channels: ['in_app', 'rolodex'] },
+      { afterMinutes: 240, channels: ['in_app', 'rolodex', 'contact'] },
+      { afterMinutes: 24 * 60, channels: ['in_app', 'rolodex'] },
+    ],
+  },
+  normal: {
+    maxReminders: 3,
+    steps: [
+      { afterMinutes: 0, channels: ['in_app'] },
+      { afterMinutes: 4 * 60, channels: ['in_app', 'rolodex'] },
+      { afterMinutes: 24 * 60, channels: ['in_app', 'rolodex'] },
+    ],
+  },
+};
+
+/**
+ * The ladder a todo climbs: urgent todos, then priority 1 and 2, then everything else
+ */
+export function getEscalationLevel(todo: {
+  isUrgent?: boolean;
+  priority?: number | null;
+}): EscalationLevel {
+  if (todo.isUrgent) return 'urgent';
+  return todo.priority && todo.priority <= 2 ? 'high' : 'normal';
+}
+
+/**
+ * Check that a value is a well-formed escalation policy, e.g. from settings
+ */
+export function isValidEscalationPolicy(value: any): value is EscalationPolicy {
+  if (!value || typeof value !== 'object') return false;
+  if (!Number.isInteger(value.maxReminders) || value.maxReminders < 0) return false;
+  if (!Array.isArray(value.steps) || value.steps.length === 0) return false;
+  return value.steps.every(
+    (step: any) =>
+      step &&
+      typeof step.afterMinutes === 'number' &&
+      step.afterMinutes >= 0 &&
+      Array.isArray(step.channels) &&
+      step.channels.length > 0 &&
+      step.channels.every((channel: any) => ESCALATION_CHANNELS.includes(channel))
+  );
+}
+
+/**
+ * Merge policies from a JSON setting over the defaults, keeping the default for any level
+ * whose override is invalid
+ */
+export function parseEscalationPolicies(
+  setting: unknown
+): Record<EscalationLevel, EscalationPolicy> {
+  const policies = { ...DEFAULT_ESCALATION_POLICIES };
+  if (!setting) return policies;
+
+  let overrides: any;
+  try {
+    overrides = typeof setting === 'string' ? JSON.parse(setting) : setting;
+  } catch {
+    return policies;
+  }
+
+  for (const level of Object.keys(policies) as EscalationLevel[]) {
+    if (isValidEscalationPolicy(overrides?.[level])) policies[level] = overrides[level];
+  }
+  return policies;
+}
+
+/**
+ * Find the overdue reminder that is due at `now`, given how many have been sent since the due
+ * date and when the last reminder went out. Returns null while backing off or once the ladder is
+ * exhausted.
+ */
+export function getEscalationReminder(
+  policy: EscalationPolicy,
+  dueDate: Date,
+  sentCount: number,
+  lastSent: Date | null,
+  now: Date
+): EscalationReminder | null {
+  if (sentCount >= policy.maxReminders || policy.steps.length === 0) return null;
+
+  const step = policy.steps[Math.min(sentCount, policy.steps.length - 1)];
+  const since = lastSent && lastSent > dueDate ? lastSent : dueDate;
+  if (now.getTime() - since.getTime() < step.afterMinutes * 60 * 1000) return null;
+
+  return { step, index: sentCount, windowKey: `escalation:${sentCount}:${dueDate.toISOString()}` };
+}
@@ -0,0 +1,352 @@
+import { resolveRecurrence, type TodoData } from '../services/todoDataService';
+import { formatRRule } from './recurrence';
+import { fromZonedTime, isValidTimeZone } from './timezone';
+
+/**
+ * Which components to emit per todo: VTODO for task lists, VEVENT so dated and recurring todos
+ * show up in calendar views, or both
+ */
+export type ICalComponents = 'todos' | 'events' | 'both';
+
+/**
+ * A VTODO read from an iCalendar document
+ */
+export interface ICalTodo {
+  uid: string;
+  summary: string;
+  description?: string;
+  due?: Date;
+  start?: Date;
+  rrule?: string; // Without the RRULE: prefix
+  priority?: number; // iCal PRIORITY, 1 highest to 9 lowest
+  categories: string[];
+  status?: string; // e.g. NEEDS-ACTION or COMPLETED
+  completed?: Date;
+}
+
+export interface ICalendarOptions {
+  name?: string; // Calendar name shown by calendar apps
+  components?: ICalComponents;
+  refreshMinutes?: number; // How often subscribers should refetch a feed
+  now?: Date;
+}
+
+const PRODUCT_ID = '-//elizaOS//Todo Plugin//EN';
+const UID_DOMAIN = 'todo.elizaos.ai';
+const EVENT_DURATION_MINUTES = 30;
+
+// Todo priority (1 highest to 4 lowest) to iCal PRIORITY (1 highest to 9 lowest)
+const ICAL_PRIORITIES: Record<number, number> = { 1: 1, 2: 3, 3: 5, 4: 9 };
+
+/**
+ * Escape a value for an iCal TEXT property
+ */
+export function escapeICalText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldLine(line: string): string {
+  const bytes = Buffer.from(line);
+  if (bytes.length <= 75) return line;
+
+  const parts: string[] = [];
+  let start = 0;
+  while (start < bytes.length) {
+    let end = Math.min(start + (start === 0 ? 75 : 74), bytes.length);
+    // Don't split a multi-byte character
+    while (end < bytes.length && (bytes[end] & 0xc0) === 0x80) end--;
+    parts.push(bytes.subarray(start, end).toString());
+    start = end;
+  }
+  return parts.join('\r\n ');
+}
+
+/**
+ * Format a time as an iCal UTC date-time, e.g. 20240601T090000Z
+ */
+export function formatICalDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Format a day as an iCal DATE, e.g. 20240601
+ */
+function formatICalDate(date: Date): string {
+  return date.toISOString().slice(0, 10).replace(/-/g, '');
+}
+
+/**
+ * Map a todo to an iCal PRIORITY; urgent todos are always the highest
+ */
+export function toICalPriority(todo: Pick<TodoData, 'priority' | 'isUrgent'>): number {
+  if (todo.isUrgent) return 1;
+  return todo.priority ? (ICAL_PRIORITIES[todo.priority] ?? 0) : 0;
+}
+
+/**
+ * Map an iCal PRIORITY to a todo priority, or undefined when it is not set
+ */
+export function fromICalPriority(priority: number | undefined): number | undefined {
+  if (!priority || priority < 1 || priority > 9) return undefined;
+  if (priority <= 2) return 1;
+  if (priority <= 4) return 2;
+  return priority === 5 ? 3 : 4;
+}
+
+/**
+ * The iCal UID of a todo. Imported todos keep the UID they were imported with.
+ */
+export function getICalUid(todo: Pick<TodoData, 'id' | 'metadata'>): string {
+  return todo.metadata?.icalUid || `${todo.id}@${UID_DOMAIN}`;
+}
+
+/**
+ * The todo ID in a UID this plugin generated, or null for UIDs from other calendars
+ */
+export function getTodoIdFromICalUid(uid: string): string | null {
+  const match = new RegExp(`^([0-9a-f-]{36})@${UID_DOMAIN.replace(/\./g, '\\.')}$`, 'i').exec(uid);
+  return match ? match[1] : null;
+}
+
+function toVTodo(todo: TodoData, stamp: string): string[] {
+  const rule = resolveRecurrence(todo);
+  const lines = [
+    'BEGIN:VTODO',
+    `UID:${getICalUid(todo)}`,
+    `DTSTAMP:${stamp}`,
+    `CREATED:${formatICalDateTime(new Date(todo.createdAt))}`,
+    `LAST-MODIFIED:${formatICalDateTime(new Date(todo.updatedAt))}`,
+    `SUMMARY:${escapeICalText(todo.name)}`,
+  ];
+  if (todo.description) lines.push(`DESCRIPTION:${escapeICalText(todo.description)}`);
+
+  if (todo.dueDate) {
+    const due = formatICalDateTime(new Date(todo.dueDate));
+    // Recurrence is anchored on DTSTART, so recurring todos start when they are due
+    if (rule) lines.push(`DTSTART:${due}`);
+    lines.push(`DUE:${due}`);
+  } else if (rule) {
+    // Recurrence needs a start; undated habits start on the day they were created
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(new Date(todo.createdAt))}`);
+  }
+  if (rule) lines.push(`RRULE:${formatRRule(rule)}`);
+
+  const priority = toICalPriority(todo);
+  if (priority) lines.push(`PRIORITY:${priority}`);
+  if (todo.tags?.length) lines.push(`CATEGORIES:${todo.tags.map(escapeICalText).join(',')}`);
+
+  if (todo.cancelledAt) {
+    lines.push('STATUS:CANCELLED');
+  } else if (todo.isCompleted) {
+    lines.push('STATUS:COMPLETED', 'PERCENT-COMPLETE:100');
+    if (todo.completedAt) {
+      lines.push(`COMPLETED:${formatICalDateTime(new Date(todo.completedAt))}`);
+    }
+  } else if (todo.progress && todo.progress.completed > 0) {
+    lines.push('STATUS:IN-PROCESS', `PERCENT-COMPLETE:${todo.progress.percent}`);
+  } else {
+    lines.push('STATUS:NEEDS-ACTION');
+  }
+
+  if (todo.parentId) lines.push(`RELATED-TO:${todo.parentId}@${UID_DOMAIN}`);
+  lines.push('END:VTODO');
+  return lines;
+}
+
+function toVEvent(todo: TodoData, stamp: string): string[] | null {
+  const rule = resolveRecurrence(todo);
+  if (!todo.dueDate && !rule) return null; // Nothing to place on the calendar
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${getICalUid(todo)}`,
+    `DTSTAMP:${stamp}`,
+    `SUMMARY:${escapeICalText(todo.isCompleted ? `✓ ${todo.name}` : todo.name)}`,
+  ];
+  if (todo.description) lines.push(`DESCRIPTION:${escapeICalText(todo.description)}`);
+
+  if (todo.dueDate) {
+    lines.push(
+      `DTSTART:${formatICalDateTime(new Date(todo.dueDate))}`,
+      `DURATION:PT${EVENT_DURATION_MINUTES}M`
+    );
+  } else {
+    // Undated habits are all-day events
+    lines.push(`DTSTART;VALUE=DATE:${formatICalDate(new Date(todo.createdAt))}`);
+  }
+  if (rule) lines.push(`RRULE:${formatRRule(rule)}`);
+
+  const priority = toICalPriority(todo);
+  if (priority) lines.push(`PRIORITY:${priority}`);
+  if (todo.tags?.length) lines.push(`CATEGORIES:${todo.tags.map(escapeICalText).join(',')}`);
+  lines.push(`STATUS:${todo.cancelledAt ? 'CANCELLED' : 'CONFIRMED'}`, 'TRANSP:TRANSPARENT');
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Format todos as an iCalendar document
+ */
+export function formatICalendar(todos: TodoData[], options: ICalendarOptions = {}): string {
+  const components = options.components ?? 'both';
+  const stamp = formatICalDateTime(options.now ?? new Date());
+
+  const lines = ['BEGIN:VCALENDAR', 'VERSION:2.0', `PRODID:${PRODUCT_ID}`, 'CALSCALE:GREGORIAN'];
+  lines.push('METHOD:PUBLISH');
+  if (options.name) lines.push(`X-WR-CALNAME:${escapeICalText(options.name)}`);
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`
+    );
+  }
+
+  for (const todo of todos) {
+    if (components !== 'events') lines.push(...toVTodo(todo, stamp));
+    if (components !== 'todos') lines.push(...(toVEvent(todo, stamp) ?? []));
+  }
+
+  lines.push('END:VCALENDAR');
+  return `${lines.map(foldLine).join('\r\n')}\r\n`;
+}
+
+/**
+ * Undo escapeICalText
+ */
+function unescapeICalText(value: string): string {
+  return value.replace(/\\([\\;,nN])/g, (_, char: string) =>
+    char.toLowerCase() === 'n' ? '\n' : char
+  );
+}
+
+/**
+ * Split a content line into its name, parameters and value. Parameter values may be quoted and
+ * contain colons.
+ */
+function parseContentLine(
+  line: string
+): { name: string; params: Record<string, string>; value: string } | null {
+  let quoted = false;
+  let colon = -1;
+  for (let i = 0; i < line.length; i++) {
+    if (line[i] === '"') quoted = !quoted;
+    else if (line[i] === ':' && !quoted) {
+      colon = i;
+      break;
+    }
+  }
+  if (colon < 0) return null;
+
+  const [name, ...paramParts] = line.slice(0, colon).split(';');
+  const params: Record<string, string> = {};
+  for (const part of paramParts) {
+    const [key, ...value] = part.split('=');
+    params[key.toUpperCase()] = value.join('=').replace(/^"|"$/g, '');
+  }
+  return { name: name.toUpperCase(), params, value: line.slice(colon + 1) };
+}
+
+/**
+ * Parse an iCal DATE or DATE-TIME. UTC times end in Z; other times are in their TZID, or in
+ * `timeZone` when they have none. Dates without a time are taken as midnight UTC.
+ */
+function parseICalDateTime(
+  value: string,
+  params: Record<string, string>,
+  timeZone: string
+): Date | undefined {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+
+  const [, year, month, day, hour = '0', minute = '0', second = '0', utc] = match;
+  const fields = [year, month, day, hour, minute, second].map(Number);
+  if (utc || match[4] === undefined) {
+    return new Date(Date.UTC(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]));
+  }
+
+  const zone = params.TZID && isValidTimeZone(params.TZID) ? params.TZID : timeZone;
+  const wallClock = new Date(fields[0], fields[1] - 1, fields[2], fields[3], fields[4], fields[5]);
+  return fromZonedTime(wallClock, zone);
+}
+
+/**
+ * Read the VTODO items of an iCalendar document. Items without a UID or summary are skipped,
+ * as are nested components like alarms.
+ */
+export function parseICalendar(calendar: string, options: { timeZone?: string } = {}): ICalTodo[] {
+  const timeZone = options.timeZone ?? 'UTC';
+  const lines = calendar.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+
+  const todos: ICalTodo[] = [];
+  let current: Partial<ICalTodo> | null = null;
+  let nested = 0; // Depth of components inside the current VTODO
+
+  for (const line of lines) {
+    const property = parseContentLine(line);
+    if (!property) continue;
+    const { name, params, value } = property;
+
+    if (name === 'BEGIN') {
+      if (current) nested++;
+      else if (value.toUpperCase() === 'VTODO') current = { categories: [] };
+      continue;
+    }
+    if (name === 'END') {
+      if (current && nested > 0) {
+        nested--;
+      } else if (current && value.toUpperCase() === 'VTODO') {
+        if (current.uid && current.summary) todos.push(current as ICalTodo);
+        current = null;
+      }
+      continue;
+    }
+    if (!current || nested > 0) continue;
+
+    switch (name) {
+      case 'UID':
+        current.uid = value.trim();
+        break;
+      case 'SUMMARY':
+        current.summary = unescapeICalText(value).trim();
+        break;
+      case 'DESCRIPTION':
+        current.description = unescapeICalText(value);
+        break;
+      case 'DUE':
+        current.due = parseICalDateTime(value, params, timeZone);
+        break;
+      case 'DTSTART':
+        current.start = parseICalDateTime(value, params, timeZone);
+        break;
+      case 'RRULE':
+        current.rrule = value;
+        break;
+      case 'PRIORITY':
+        current.priority = parseInt(value, 10) || undefined;
+        break;
+      case 'CATEGORIES':
+        current.categories!.push(
+          ...value
+            .split(/(?<!\\),/)
+            .map((category) => unescapeICalText(category).trim())
+            .filter(Boolean)
+        );
+        break;
+      case 'STATUS':
+        current.status = value.trim().toUpperCase();
+        break;
+      case 'COMPLETED':
+        current.completed = parseICalDateTime(value, params, timeZone);
+        break;
+    }
+  }
+
+  return todos;
+}
@@ -0,0 +1,393 @@
+/**
+ * Recurrence engine for repeating todos.
+ *
+ * Rules follow a subset of RFC 5545 RRULE semantics (FREQ, INTERVAL, BYDAY, BYMONTHDAY,
+ * BYSETPOS, UNTIL, COUNT). Occurrences are calendar days; the time of day of a recurring
+ * todo is carried separately by its due date.
+ */
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days/weeks/months
+  byDay?: Weekday[]; // Weekdays the rule fires on; for monthly rules with bySetPos, the nth weekday
+  bySetPos?: number; // For monthly rules with byDay: 1-5 for the nth weekday, -1 for the last one
+  byMonthDay?: number[]; // For monthly rules: days of the month (1-31), clamped to the month length
+  startDate?: string; // YYYY-MM-DD anchor for intervals and counts
+  until?: string; // YYYY-MM-DD last day an occurrence may fall on
+  count?: number; // Total number of occurrences
+}
+
+export const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sun',
+  MO: 'Mon',
+  TU: 'Tue',
+  WE: 'Wed',
+  TH: 'Thu',
+  FR: 'Fri',
+  SA: 'Sat',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_SEARCH_DAYS = 366 * 20; // Give up on rules that produce nothing within 20 years
+
+// --- Calendar helpers (local time) ---
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function addDays(date: Date, days: number): Date {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+}
+
+// Day number independent of DST shifts
+function dayNumber(date: Date): number {
+  return Math.floor(Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) / DAY_MS);
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(date.getFullYear(), date.getMonth() + 1, 0).getDate();
+}
+
+/**
+ * Formats the local calendar day of a date as YYYY-MM-DD.
+ */
+export function toDateString(date: Date): string {
+  const y = date.getFullYear();
+  const m = String(date.getMonth() + 1).padStart(2, '0');
+  const d = String(date.getDate()).padStart(2, '0');
+  return `${y}-${m}-${d}`;
+}
+
+/**
+ * Parses a YYYY-MM-DD (or YYYYMMDD) string into local midnight of that day.
+ */
+export function parseDateString(value: string): Date {
+  const match = /^(\d{4})-?(\d{2})-?(\d{2})/.exec(value);
+  if (!match) return startOfDay(new Date(value));
+  return new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]));
+}
+
+// --- Rule evaluation ---
+
+function resolveStart(rule: RecurrenceRule, fallback: Date): Date {
+  return rule.startDate ? parseDateString(rule.startDate) : startOfDay(fallback);
+}
+
+/**
+ * Checks whether a calendar day is an occurrence of the rule, ignoring `until` and `count`.
+ */
+function matchesRule(rule: RecurrenceRule, day: Date, start: Date): boolean {
+  const interval = Math.max(1, rule.interval || 1);
+  const offset = dayNumber(day) - dayNumber(start);
+  if (offset < 0) return false;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return offset % interval === 0;
+
+    case 'weekly': {
+      const days = rule.byDay?.length ? rule.byDay : [WEEKDAYS[start.getDay()]];
+      if (!days.includes(WEEKDAYS[day.getDay()])) return false;
+      // Weeks start on Monday (RRULE default WKST=MO)
+      const startWeek = dayNumber(start) - ((start.getDay() + 6) % 7);
+      const dayWeek = dayNumber(day) - ((day.getDay() + 6) % 7);
+      return ((dayWeek - startWeek) / 7) % interval === 0;
+    }
+
+    case 'monthly': {
+      const months =
+        (day.getFullYear() - start.getFullYear()) * 12 + (day.getMonth() - start.getMonth());
+      if (months % interval !== 0) return false;
+
+      if (rule.byDay?.length) {
+        if (!rule.byDay.includes(WEEKDAYS[day.getDay()])) return false;
+        if (!rule.bySetPos) return true;
+        if (rule.bySetPos < 0) return day.getDate() + 7 > daysInMonth(day);
+        return Math.ceil(day.getDate() / 7) === rule.bySetPos;
+      }
+
+      const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [start.getDate()];
+      const lastDay = daysInMonth(day);
+      return monthDays.some((monthDay) => Math.min(monthDay, lastDay) === day.getDate());
+    }
+
+    default:
+      return false;
+  }
+}
+
+// Counts the occurrences on days from `from` up to, but not including, `to` one day at a time
+function countByWalking(rule: RecurrenceRule, start: Date, from: Date, to: Date): number {
+  let count = 0;
+  for (let day = new Date(from); day < to; day = addDays(day, 1)) {
+    if (matchesRule(rule, day, start)) count++;
+  }
+  return count;
+}
+
+// Number of occurrences in a month the rule is active in, starting on its first day
+function countInMonth(rule: RecurrenceRule, month: Date, start: Date): number {
+  const lastDay = daysInMonth(month);
+
+  if (rule.byDay?.length) {
+    let count = 0;
+    for (const weekday of new Set(rule.byDay)) {
+      const first = 1 + ((WEEKDAYS.indexOf(weekday) - month.getDay() + 7) % 7);
+      const inMonth = Math.floor((lastDay - first) / 7) + 1;
+      if (!rule.bySetPos) count += inMonth;
+      else if (rule.bySetPos < 0 || rule.bySetPos <= inMonth) count++;
+    }
+    return count;
+  }
+
+  const monthDays = rule.byMonthDay?.length ? rule.byMonthDay : [start.getDate()];
+  return new Set(monthDays.map((monthDay) => Math.min(monthDay, lastDay))).size;
+}
+
+/**
+ * Counts the occurrences on days from the rule start up to, but not including, `end`, ignoring
+ * `until` and `count`. Whole weeks and months are counted without walking their days, so this
+ * stays cheap for rules that started long ago.
+ */
+function countOccurrencesBefore(rule: RecurrenceRule, start: Date, end: Date): number {
+  const interval = Math.max(1, rule.interval || 1);
+  const days = dayNumber(end) - dayNumber(start);
+  if (days <= 0) return 0;
+
+  switch (rule.frequency) {
+    case 'daily':
+      return Math.ceil(days / interval);
+
+    case 'weekly': {
+      const startWeek = addDays(start, -((start.getDay() + 6) % 7));
+      const endWeek = addDays(end, -((end.getDay() + 6) % 7));
+      const weeks = Math.round((dayNumber(endWeek) - dayNumber(startWeek)) / 7);
+      if (weeks === 0) return countByWalking(rule, start, start, end);
+
+      const perWeek = new Set(rule.byDay?.length ? rule.byDay : [WEEKDAYS[start.getDay()]]).size;
+      return (
+        countByWalking(rule, start, start, addDays(startWeek, 7)) +
+        Math.floor((weeks - 1) / interval) * perWeek +
+        countByWalking(rule, start, endWeek, end)
+      );
+    }
+
+    case 'monthly': {
+      const months =
+        (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
+      const endMonth = new Date(end.getFullYear(), end.getMonth(), 1);
+      if (months === 0) return countByWalking(rule, start, start, end);
+
+      let count = countByWalking(
+        rule,
+        start,
+        start,
+        new Date(start.getFullYear(), start.getMonth() + 1, 1)
+      );
+      for (let i = interval; i < months; i += interval) {
+        count += countInMonth(rule, new Date(start.getFullYear(), start.getMonth() + i, 1), start);
+      }
+      return count + countByWalking(rule, start, endMonth, end);
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Returns the first occurrence of the rule on or after `from` (or strictly after it when
+ * `exclusive` is set), or null once the rule is exhausted by `until` or `count`.
+ *
+ * @param rule - The recurrence rule
+ * @param from - Day to start searching from
+ * @param options.anchor - Date used as the rule start when the rule has no `startDate`
+ * @param options.exclusive - Skip the `from` day itself
+ */
+export function getNextOccurrence(
+  rule: RecurrenceRule,
+  from: Date,
+  options: { anchor?: Date; exclusive?: boolean } = {}
+): Date | null {
+  const start = resolveStart(rule, options.anchor ?? from);
+  const until = rule.until ? parseDateString(rule.until) : null;
+  let searchFrom = startOfDay(from);
+  if (options.exclusive) searchFrom = addDays(searchFrom, 1);
+
+  let day = searchFrom < start ? new Date(start) : searchFrom;
+  // Occurrences before the search window use up the count
+  const seen = rule.count ? countOccurrencesBefore(rule, start, day) : 0;
+  if (rule.count && seen >= rule.count) return null;
+
+  for (let i = 0; i < MAX_SEARCH_DAYS; i++, day = addDays(day, 1)) {
+    if (until && day > until) return null;
+    if (matchesRule(rule, day, start)) return day;
+  }
+
+  return null;
+}
+
+/**
+ * Returns the occurrences of the rule on days from `from` up to, but not including, the day
+ * of `to`. At most `limit` occurrences are returned.
+ */
+export function getOccurrencesBetween(
+  rule: RecurrenceRule,
+  from: Date,
+  to: Date,
+  options: { anchor?: Date; limit?: number } = {}
+): Date[] {
+  const end = startOfDay(to);
+  const limit = options.limit ?? 366;
+  const occurrences: Date[] = [];
+
+  let next = getNextOccurrence(rule, from, { anchor: options.anchor });
+  while (next && next < end && occurrences.length < limit) {
+    occurrences.push(next);
+    next = getNextOccurrence(rule, next, { anchor: options.anchor, exclusive: true });
+  }
+
+  return occurrences;
+}
+
+/**
+ * Returns true when the rule will never produce an occurrence after the given day.
+ */
+export function isRecurrenceExhausted(
+  rule: RecurrenceRule,
+  after: Date,
+  anchor?: Date
+): boolean {
+  return getNextOccurrence(rule, after, { anchor, exclusive: true }) === null;
+}
+
+/**
+ * Builds a rule from the legacy `recurring` values extracted by the create/update actions.
+ */
+export function ruleFromFrequency(
+  frequency: RecurrenceFrequency,
+  startDate: Date = new Date()
+): RecurrenceRule {
+  return {
+    frequency,
+    interval: 1,
+    startDate: toDateString(startDate),
+  };
+}
+
+// --- RRULE text format ---
+
+/**
+ * Parses an RRULE string (with or without the `RRULE:` prefix) into a rule.
+ * Returns null for frequencies this engine does not support.
+ */
+export function parseRRule(value: string, startDate?: Date): RecurrenceRule | null {
+  const parts = value
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';')
+    .map((part) => part.split('='))
+    .filter(([key, val]) => key && val !== undefined);
+
+  const fields = new Map(parts.map(([key, val]) => [key.toUpperCase(), val.toUpperCase()]));
+  const freq = fields.get('FREQ');
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    return null;
+  }
+
+  const rule: RecurrenceRule = {
+    frequency: freq.toLowerCase() as RecurrenceFrequency,
+    interval: Math.max(1, parseInt(fields.get('INTERVAL') || '1', 10) || 1),
+  };
+
+  const byDay = fields.get('BYDAY');
+  if (byDay) {
+    const days: Weekday[] = [];
+    for (const entry of byDay.split(',')) {
+      const match = /^([+-]?\d)?(SU|MO|TU|WE|TH|FR|SA)$/.exec(entry);
+      if (!match) continue;
+      days.push(match[2] as Weekday);
+      if (match[1]) rule.bySetPos = parseInt(match[1], 10);
+    }
+    if (days.length > 0) rule.byDay = days;
+  }
+
+  const bySetPos = fields.get('BYSETPOS');
+  if (bySetPos) rule.bySetPos = parseInt(bySetPos, 10);
+
+  const byMonthDay = fields.get('BYMONTHDAY');
+  if (byMonthDay) {
+    const monthDays = byMonthDay
+      .split(',')
+      .map((d) => parseInt(d, 10))
+      .filter((d) => d >= 1 && d <= 31);
+    if (monthDays.length > 0) rule.byMonthDay = monthDays;
+  }
+
+  const until = fields.get('UNTIL');
+  if (until && /^\d{8}/.test(until)) {
+    rule.until = `${until.slice(0, 4)}-${until.slice(4, 6)}-${until.slice(6, 8)}`;
+  }
+
+  const count = parseInt(fields.get('COUNT') || '', 10);
+  if (count > 0) rule.count = count;
+
+  if (startDate) rule.startDate = toDateString(startDate);
+
+  return rule;
+}
+
+/**
+ * Serializes a rule to RRULE text (without the `RRULE:` prefix).
+ */
+export function formatRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+
+  if (rule.byDay?.length) {
+    const prefix = rule.frequency === 'monthly' && rule.bySetPos ? String(rule.bySetPos) : '';
+    parts.push(`BYDAY=${rule.byDay.map((day) => `${prefix}${day}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.replace(/-/g, '')}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Human-readable summary of a rule, e.g. "every 2 weeks on Mon, Wed".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = { daily: 'day', weekly: 'week', monthly: 'month' }[rule.frequency];
+  let text = rule.interval > 1 ? `every ${rule.interval} ${unit}s` : `every ${unit}`;
+
+  if (rule.byDay?.length) {
+    const days = rule.byDay.map((day) => WEEKDAY_NAMES[day]).join(', ');
+    if (rule.frequency === 'monthly' && rule.bySetPos) {
+      const ordinal =
+        rule.bySetPos < 0 ? 'last' : ['1st', '2nd', '3rd', '4th', '5th'][rule.bySetPos - 1];
+      text += ` on the ${ordinal} ${days}`;
+    } else {
+      text += ` on ${days}`;
+    }
+  } else if (rule.byMonthDay?.length) {
+    text += ` on day ${rule.byMonthDay.join(', ')}`;
+  }
+
+  if (rule.until) text += ` until ${rule.until}`;
+  if (rule.count) text += `, ${rule.count} time${rule.count === 1 ? '' : 's'}`;
+
+  return text;
+}
@@ -0,0 +1,277 @@
+/**
+ * Reminder schedules for todos.
+ *
+ * A todo carries a list of reminders, each either an offset before its due date, an absolute
+ * instant, or a time of day (in the user's timezone) for habits. The reminder loop asks which
+ * reminder is due now; the window key identifies that firing so it is only sent once.
+ */
+
+import { toDateString } from './recurrence';
+import { fromZonedTime, toZonedTime } from './timezone';
+
+export type ReminderSpec =
+  | { type: 'offset'; minutes: number } // Minutes before the due date, 0 for the due time
+  | { type: 'at'; at: string } // ISO instant
+  | { type: 'time'; time: string }; // HH:MM every day, in the user's timezone
+
+/**
+ * A reminder that should fire now
+ */
+export interface DueReminder {
+  spec: ReminderSpec;
+  fireAt: Date;
+  windowKey: string;
+}
+
+/**
+ * Reminders used for todos that have not set their own
+ */
+export const DEFAULT_DUE_DATE_REMINDERS: ReminderSpec[] = [{ type: 'offset', minutes: 30 }];
+export const DEFAULT_DAILY_REMINDERS: ReminderSpec[] = [
+  { type: 'time', time: '09:00' },
+  { type: 'time', time: '18:00' },
+];
+
+/**
+ * How late a reminder may still be sent, e.g. after the agent was offline
+ */
+export const REMINDER_GRACE_MS = 60 * 60 * 1000;
+
+/**
+ * How long a reminder is snoozed when no time is given
+ */
+export const DEFAULT_SNOOZE_MINUTES = 60;
+
+// Local hour used for "morning", "tonight" and so on when snoozing
+const PARTS_OF_DAY: Record<string, number> = {
+  morning: 9,
+  afternoon: 14,
+  evening: 18,
+  tonight: 20,
+  night: 20,
+};
+
+const DESCRIBE_UNITS: Array<[string, number]> = [
+  ['week', 60 * 24 * 7],
+  ['day', 60 * 24],
+  ['hour', 60],
+  ['minute', 1],
+];
+
+const UNIT_MINUTES: Record<string, number> = {
+  m: 1,
+  min: 1,
+  minute: 1,
+  h: 60,
+  hr: 60,
+  hour: 60,
+  d: 60 * 24,
+  day: 60 * 24,
+  w: 60 * 24 * 7,
+  week: 60 * 24 * 7,
+};
+
+/**
+ * Parse a single reminder such as "1 day before", "2h", "at due time", "7:30am" or an ISO time
+ */
+export function parseReminder(value: string): ReminderSpec | null {
+  const text = value.trim().toLowerCase();
+  if (!text) return null;
+
+  if (/^(at |on )?(the )?(due( time| date)?|when due|deadline)$/.test(text)) {
+    return { type: 'offset', minutes: 0 };
+  }
+
+  const offset = text.match(
+    /^(\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?)\s*(before|early|prior)?$/
+  );
+  if (offset) {
+    const unit = offset[2].replace(/s$/, '');
+    return { type: 'offset', minutes: Math.round(Number(offset[1]) * UNIT_MINUTES[unit]) };
+  }
+
+  const time = text.match(/^(?:at |every day at |daily at )?(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/);
+  if (time && (time[2] || time[3])) {
+    let hour = Number(time[1]);
+    const minute = Number(time[2] ?? 0);
+    if (time[3] === 'pm' && hour < 12) hour += 12;
+    if (time[3] === 'am' && hour === 12) hour = 0;
+    if (hour > 23 || minute > 59) return null;
+    return { type: 'time', time: `${pad(hour)}:${pad(minute)}` };
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}/.test(text)) {
+    const at = new Date(value.trim());
+    if (!isNaN(at.getTime())) return { type: 'at', at: at.toISOString() };
+  }
+
+  return null;
+}
+
+/**
+ * Parse a comma or semicolon separated list of reminders, skipping ones that are not understood
+ */
+export function parseReminders(value: string): ReminderSpec[] {
+  return value
+    .split(/[,;]|\band\b/)
+    .map((part) => parseReminder(part))
+    .filter((spec): spec is ReminderSpec => spec !== null);
+}
+
+/**
+ * Check that a value is a well-formed reminder, e.g. from an API request
+ */
+export function isValidReminder(value: any): value is ReminderSpec {
+  if (!value || typeof value !== 'object') return false;
+  switch (value.type) {
+    case 'offset':
+      return Number.isInteger(value.minutes) && value.minutes >= 0;
+    case 'at':
+      return typeof value.at === 'string' && !isNaN(new Date(value.at).getTime());
+    case 'time':
+      return typeof value.time === 'string' && /^([01]\d|2[0-3]):[0-5]\d$/.test(value.time);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Describe a reminder for humans, e.g. "1 day before" or "daily at 09:00"
+ */
+export function describeReminder(spec: ReminderSpec): string {
+  switch (spec.type) {
+    case 'offset': {
+      if (spec.minutes === 0) return 'at due time';
+      const [unit, size] = DESCRIBE_UNITS.find(([, size]) => spec.minutes % size === 0)!;
+      const amount = spec.minutes / size;
+      return `${amount} ${unit}${amount === 1 ? '' : 's'} before`;
+    }
+    case 'at':
+      return `at ${new Date(spec.at).toLocaleString()}`;
+    case 'time':
+      return `daily at ${spec.time}`;
+  }
+}
+
+/**
+ * Work out when a snooze such as "in an hour", "30m", "tomorrow morning", "tonight", "next week"
+ * or "at 3pm" ends, in the user's timezone. Returns null if the text is not understood.
+ */
+export function parseSnoozeUntil(value: string, now: Date, timeZone: string): Date | null {
+  const text = value
+    .trim()
+    .toLowerCase()
+    .replace(/^(snooze |remind me )?(again )?(until |till |for |in )?/, '');
+  if (!text) return null;
+
+  const duration = text.match(
+    /^(an?|\d+(?:\.\d+)?)\s*(m|mins?|minutes?|h|hrs?|hours?|d|days?|w|weeks?)( later| from now)?$/
+  );
+  if (duration) {
+    const amount = /^an?$/.test(duration[1]) ? 1 : Number(duration[1]);
+    const unit = duration[2].replace(/s$/, '');
+    return new Date(now.getTime() + Math.round(amount * UNIT_MINUTES[unit]) * 60 * 1000);
+  }
+
+  if (text === 'tonight') return atLocalTime(now, timeZone, 0, PARTS_OF_DAY.tonight, 0, true);
+
+  const day = text.match(/^(?:(tomorrow|next week|this) ?)?(morning|afternoon|evening|night)?$/);
+  if (day && (day[1] === 'tomorrow' || day[1] === 'next week' || day[2])) {
+    const days = day[1] === 'tomorrow' ? 1 : day[1] === 'next week' ? 7 : 0;
+    const hour = PARTS_OF_DAY[day[2] ?? 'morning'];
+    return atLocalTime(now, timeZone, days, hour, 0, days === 0);
+  }
+
+  const time = parseReminder(text);
+  if (time?.type === 'time') {
+    const [hour, minute] = time.time.split(':').map(Number);
+    return atLocalTime(now, timeZone, 0, hour, minute, true);
+  }
+  if (time?.type === 'at') return new Date(time.at);
+
+  return null;
+}
+
+/**
+ * Find the reminder that is due at `now`: its fire time has passed within the grace period.
+ * Returns the most recent one when several are due.
+ */
+export function getDueReminder(
+  specs: ReminderSpec[],
+  dueDate: Date | null | undefined,
+  now: Date,
+  timeZone: string
+): DueReminder | null {
+  let latest: DueReminder | null = null;
+
+  for (const spec of specs) {
+    // Advance warnings are pointless once the todo is due
+    if (spec.type === 'offset' && spec.minutes > 0 && dueDate && dueDate <= now) continue;
+
+    const candidate = resolveFireTime(spec, dueDate, now, timeZone);
+    if (!candidate) continue;
+
+    const lateness = now.getTime() - candidate.fireAt.getTime();
+    if (lateness < 0 || lateness >= REMINDER_GRACE_MS) continue;
+    if (!latest || candidate.fireAt > latest.fireAt) latest = candidate;
+  }
+
+  return latest;
+}
+
+function resolveFireTime(
+  spec: ReminderSpec,
+  dueDate: Date | null | undefined,
+  now: Date,
+  timeZone: string
+): DueReminder | null {
+  switch (spec.type) {
+    case 'offset': {
+      if (!dueDate) return null;
+      const fireAt = new Date(dueDate.getTime() - spec.minutes * 60 * 1000);
+      return { spec, fireAt, windowKey: `offset:${spec.minutes}:${dueDate.toISOString()}` };
+    }
+    case 'at': {
+      const fireAt = new Date(spec.at);
+      return { spec, fireAt, windowKey: `at:${fireAt.toISOString()}` };
+    }
+    case 'time': {
+      const [hour, minute] = spec.time.split(':').map(Number);
+      const local = toZonedTime(now, timeZone);
+      const target = new Date(local);
+      target.setHours(hour, minute, 0, 0);
+      return {
+        spec,
+        fireAt: fromZonedTime(target, timeZone),
+        windowKey: `time:${toDateString(local)}T${spec.time}`,
+      };
+    }
+  }
+}
+
+/**
+ * The given local time `days` from today in the user's timezone, moved to the next day if it
+ * has already passed and `rollOver` is set
+ */
+function atLocalTime(
+  now: Date,
+  timeZone: string,
+  days: number,
+  hour: number,
+  minute: number,
+  rollOver: boolean
+): Date {
+  const target = toZonedTime(now, timeZone);
+  target.setDate(target.getDate() + days);
+  target.setHours(hour, minute, 0, 0);
+  let result = fromZonedTime(target, timeZone);
+  if (rollOver && result <= now) {
+    target.setDate(target.getDate() + 1);
+    result = fromZonedTime(target, timeZone);
+  }
+  return result;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
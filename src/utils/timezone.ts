@@ -0,0 +1,103 @@
+/**
+ * Timezone helpers for per-user scheduling.
+ *
+ * The recurrence engine works on local calendar days, so dates are converted to a "wall-clock"
+ * Date whose local fields match the time in the user's timezone before evaluating rules, and
+ * converted back to an absolute instant afterwards.
+ */
+
+import { toDateString } from './recurrence';
+
+/**
+ * Timezone used for users who have not set one: the server's own zone.
+ */
+export const DEFAULT_TIMEZONE = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Checks whether a string is an IANA timezone name known to the runtime.
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Returns a Date whose local fields show the wall-clock time of `date` in `timeZone`.
+ */
+export function toZonedTime(date: Date, timeZone: string): Date {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return new Date(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+    date.getMilliseconds()
+  );
+}
+
+/**
+ * Inverse of `toZonedTime`: interprets the local fields of `wallClock` as a time in `timeZone`.
+ */
+export function fromZonedTime(wallClock: Date, timeZone: string): Date {
+  // Offset between the zone and local time, corrected once for DST transitions
+  let result = new Date(wallClock.getTime() * 2 - toZonedTime(wallClock, timeZone).getTime());
+  const drift = toZonedTime(result, timeZone).getTime() - wallClock.getTime();
+  if (drift !== 0) result = new Date(result.getTime() - drift);
+  return result;
+}
+
+/**
+ * Returns the absolute instant of the next midnight in `timeZone` after `now`.
+ */
+export function getNextMidnight(timeZone: string, now: Date = new Date()): Date {
+  const midnight = toZonedTime(now, timeZone);
+  midnight.setHours(24, 0, 0, 0);
+  return fromZonedTime(midnight, timeZone);
+}
+
+/**
+ * Returns the absolute instant when the wall clock in `timeZone` next reaches `hour`:00.
+ */
+export function getNextHour(timeZone: string, hour: number, now: Date = new Date()): Date {
+  const local = toZonedTime(now, timeZone);
+  const next = new Date(local);
+  next.setHours(hour, 0, 0, 0);
+  if (next <= local) next.setDate(next.getDate() + 1);
+  return fromZonedTime(next, timeZone);
+}
+
+/**
+ * Formats the calendar day of `date` in `timeZone` as YYYY-MM-DD.
+ */
+export function toLocalDateString(date: Date, timeZone: string): string {
+  return toDateString(toZonedTime(date, timeZone));
+}
@@ -0,0 +1,227 @@
+import { resolveRecurrence, type TodoData } from '../services/todoDataService';
+import { formatRRule, type RecurrenceRule } from './recurrence';
+
+/**
+ * A todo read from a Markdown checklist or todo.txt line. The fields match the records a CSV
+ * or JSON import takes, so plain-text lists go through the same validation.
+ */
+export interface TodoListItem {
+  name: string;
+  isCompleted: boolean;
+  completedAt?: string; // YYYY-MM-DD
+  priority?: number;
+  isUrgent?: boolean;
+  dueDate?: string; // YYYY-MM-DD
+  rrule?: string;
+  tags: string[];
+}
+
+export type TodoListFormat = 'markdown' | 'todotxt';
+
+// Tags every todo gets from its type, priority and recurrence; they are not written to lists
+const DERIVED_TAG = /^(TODO|daily|one-off|aspirational|urgent|priority-\d|recurring-\w+)$/;
+
+const DATE = /^\d{4}-\d{2}-\d{2}$/;
+const CHECKBOX_LINE = /^\s*(?:[-*+]|\d+[.)])\s+\[([ xX])\]\s+(.*)$/;
+const TODO_TXT_MARKERS = /^(x |\([A-Z]\) )|(^|\s)[+@]\S+|(^|\s)due:\d{4}-\d{2}-\d{2}(\s|$)/;
+
+// todo.txt `rec:` units to recurrence frequencies
+const RECURRENCE_UNITS: Record<string, RecurrenceRule['frequency']> = {
+  d: 'daily',
+  w: 'weekly',
+  m: 'monthly',
+};
+
+/**
+ * Map a todo.txt priority letter to a todo priority. A to C are 1 to 3, later letters are 4.
+ */
+function fromPriorityLetter(letter: string): number {
+  return Math.min(letter.charCodeAt(0) - 64, 4);
+}
+
+/**
+ * The todo.txt priority letter of a todo, or null for the default priority
+ */
+function toPriorityLetter(priority: number | null | undefined): string | null {
+  return priority && priority < 4 ? String.fromCharCode(64 + priority) : null;
+}
+
+/**
+ * Read the inline markers of an item: `(A)` priorities, `+project` and `@context` tags,
+ * `due:` dates and `rec:` or `rrule:` recurrence. `#tags` are read too when allowed.
+ */
+function parseItemText(text: string, item: TodoListItem, options: { hashTags?: boolean } = {}) {
+  const words: string[] = [];
+
+  let rest = text.trim();
+  const priority = /^\(([A-Z])\)\s+/.exec(rest);
+  if (priority) {
+    item.priority = fromPriorityLetter(priority[1]);
+    rest = rest.slice(priority[0].length);
+  }
+
+  for (const word of rest.split(/\s+/)) {
+    const [key, ...valueParts] = word.split(':');
+    const value = valueParts.join(':');
+
+    if (word.toLowerCase() === '+urgent') {
+      item.isUrgent = true;
+    } else if (/^[+@]\S+$/.test(word)) {
+      item.tags.push(word.startsWith('+') ? word.slice(1) : word);
+    } else if (options.hashTags && /^#[^\s#]+$/.test(word)) {
+      item.tags.push(word.slice(1));
+    } else if (key === 'due' && DATE.test(value)) {
+      item.dueDate = value;
+    } else if (key === 'pri' && /^[A-Z]$/.test(value)) {
+      item.priority = fromPriorityLetter(value);
+    } else if (key === 'rrule' && value) {
+      item.rrule = value;
+    } else if (key === 'rec' && /^\+?\d*[dwm]$/.test(value)) {
+      const [, interval, unit] = /^\+?(\d*)([dwm])$/.exec(value)!;
+      item.rrule = `FREQ=${RECURRENCE_UNITS[unit].toUpperCase()}`;
+      if (Number(interval) > 1) item.rrule += `;INTERVAL=${interval}`;
+    } else if (word) {
+      words.push(word);
+    }
+  }
+
+  item.name = words.join(' ');
+  return item;
+}
+
+/**
+ * Write the inline markers of a todo, after its name
+ */
+function formatItemMarkers(todo: TodoData): string[] {
+  const markers: string[] = [];
+  if (todo.isUrgent) markers.push('+urgent');
+  for (const tag of todo.tags ?? []) {
+    if (DERIVED_TAG.test(tag) || /\s/.test(tag)) continue;
+    markers.push(tag.startsWith('@') ? tag : `+${tag}`);
+  }
+  if (todo.dueDate) markers.push(`due:${new Date(todo.dueDate).toISOString().slice(0, 10)}`);
+
+  const rule = resolveRecurrence(todo);
+  if (rule) {
+    const simple = !rule.byDay && !rule.byMonthDay && !rule.until && !rule.count;
+    const interval = rule.interval > 1 ? rule.interval : '';
+    markers.push(
+      simple ? `rec:${interval}${rule.frequency.charAt(0)}` : `rrule:${formatRRule(rule)}`
+    );
+  }
+  return markers;
+}
+
+/**
+ * Whether a line has todo.txt markers, to tell a pasted todo.txt list from other text
+ */
+export function isTodoTxtLine(line: string): boolean {
+  return TODO_TXT_MARKERS.test(line.trim());
+}
+
+/**
+ * Read a todo.txt list, one todo per non-empty line
+ */
+export function parseTodoTxt(text: string): TodoListItem[] {
+  const items: TodoListItem[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.trim();
+    if (!line) continue;
+
+    const item: TodoListItem = { name: '', isCompleted: false, tags: [] };
+    const completed = /^x\s+(?:(\d{4}-\d{2}-\d{2})\s+)?/.exec(line);
+    if (completed) {
+      item.isCompleted = true;
+      if (completed[1]) item.completedAt = completed[1];
+      line = line.slice(completed[0].length);
+    }
+
+    // The creation date may follow the priority; todos get their own
+    const created = /^(\([A-Z]\)\s+)?\d{4}-\d{2}-\d{2}\s+/.exec(line);
+    if (created) line = `${created[1] ?? ''}${line.slice(created[0].length)}`;
+
+    items.push(parseItemText(line, item));
+  }
+  return items;
+}
+
+/**
+ * Format todos as a todo.txt list
+ */
+export function formatTodoTxt(todos: TodoData[]): string {
+  return todos
+    .map((todo) => {
+      const parts: string[] = [];
+      const letter = toPriorityLetter(todo.priority);
+      const created = new Date(todo.createdAt).toISOString().slice(0, 10);
+
+      if (todo.isCompleted) {
+        parts.push('x');
+        if (todo.completedAt) parts.push(new Date(todo.completedAt).toISOString().slice(0, 10));
+        parts.push(created, todo.name, ...formatItemMarkers(todo));
+        // Completed todos keep their priority as a key, as the format suggests
+        if (letter) parts.push(`pri:${letter}`);
+      } else {
+        if (letter) parts.push(`(${letter})`);
+        parts.push(created, todo.name, ...formatItemMarkers(todo));
+      }
+      return `${parts.join(' ')}\n`;
+    })
+    .join('');
+}
+
+/**
+ * Read the checkbox items of a Markdown list, e.g. `- [ ] Call mom due:2024-06-03`. Other lines
+ * are skipped and nested items are read as todos of their own.
+ */
+export function parseMarkdownChecklist(text: string): TodoListItem[] {
+  const items: TodoListItem[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const match = CHECKBOX_LINE.exec(line);
+    if (!match) continue;
+
+    const item: TodoListItem = { name: '', isCompleted: match[1] !== ' ', tags: [] };
+    items.push(parseItemText(match[2], item, { hashTags: true }));
+  }
+  return items;
+}
+
+/**
+ * Format todos as a Markdown checklist, with an optional heading
+ */
+export function formatMarkdownChecklist(todos: TodoData[], title?: string): string {
+  const lines = title ? [`# ${title}`, ''] : [];
+  for (const todo of todos) {
+    const letter = toPriorityLetter(todo.priority);
+    const text = [letter ? `(${letter})` : '', todo.name, ...formatItemMarkers(todo)]
+      .filter(Boolean)
+      .join(' ');
+    lines.push(`- [${todo.isCompleted ? 'x' : ' '}] ${text}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Read a list in either format
+ */
+export function parseTodoList(text: string, format: TodoListFormat): TodoListItem[] {
+  return format === 'markdown' ? parseMarkdownChecklist(text) : parseTodoTxt(text);
+}
+
+/**
+ * Format todos in either format
+ */
+export function formatTodoList(todos: TodoData[], format: TodoListFormat): string {
+  return format === 'markdown' ? formatMarkdownChecklist(todos) : formatTodoTxt(todos);
+}
+
+/**
+ * Tell which format a pasted list is in: Markdown when it has checkboxes, todo.txt when at
+ * least two lines have todo.txt markers. Null for other text.
+ */
+export function detectTodoListFormat(text: string): TodoListFormat | null {
+  const lines = text.split(/\r?\n/);
+  if (lines.some((line) => CHECKBOX_LINE.test(line))) return 'markdown';
+  if (lines.filter(isTodoTxtLine).length >= 2) return 'todotxt';
+  return null;
+}
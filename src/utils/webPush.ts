@@ -0,0 +1,198 @@
+/**
+ * Web Push for browsers subscribed on the dashboard.
+ *
+ * Requests are signed with VAPID (RFC 8292) and payloads encrypted with the aes128gcm content
+ * encoding (RFC 8291), so messages can be sent to any standard push service without a client
+ * library.
+ */
+
+import crypto from 'node:crypto';
+
+/**
+ * A subscription as returned by PushManager.subscribe() in the browser
+ */
+export interface PushSubscriptionData {
+  endpoint: string;
+  keys: {
+    p256dh: string; // Browser's P-256 public key, base64url
+    auth: string; // 16-byte authentication secret, base64url
+  };
+}
+
+/**
+ * The application server's key pair, base64url encoded: the uncompressed public point and the
+ * private scalar
+ */
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface WebPushOptions {
+  ttl?: number; // Seconds the push service keeps an undelivered message
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+  topic?: string; // Replaces an undelivered message with the same topic
+}
+
+export interface WebPushResult {
+  statusCode: number;
+  delivered: boolean;
+  gone: boolean; // The subscription expired or was revoked and should be removed
+  error?: string;
+}
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_TTL_SECONDS = 12 * 60 * 60;
+
+/**
+ * Generate a new VAPID key pair
+ */
+export function generateVapidKeys(): VapidKeys {
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  return {
+    publicKey: ecdh.getPublicKey().toString('base64url'),
+    privateKey: ecdh.getPrivateKey().toString('base64url'),
+  };
+}
+
+/**
+ * Check that a value looks like a browser push subscription
+ */
+export function isValidPushSubscription(value: any): value is PushSubscriptionData {
+  if (!value || typeof value.endpoint !== 'string') return false;
+  try {
+    const url = new URL(value.endpoint);
+    if (url.protocol !== 'https:' && url.protocol !== 'http:') return false;
+  } catch {
+    return false;
+  }
+  return (
+    typeof value.keys?.p256dh === 'string' &&
+    Buffer.from(value.keys.p256dh, 'base64url').length === 65 &&
+    typeof value.keys?.auth === 'string' &&
+    Buffer.from(value.keys.auth, 'base64url').length === 16
+  );
+}
+
+/**
+ * Build the VAPID Authorization header for a push service endpoint
+ */
+export function createVapidAuthorization(
+  endpoint: string,
+  keys: VapidKeys,
+  subject: string,
+  now: Date = new Date()
+): string {
+  const header = { typ: 'JWT', alg: 'ES256' };
+  const claims = {
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_TTL_SECONDS,
+    sub: subject,
+  };
+  const unsigned = `${base64url(JSON.stringify(header))}.${base64url(JSON.stringify(claims))}`;
+  const signature = crypto.sign('sha256', Buffer.from(unsigned), {
+    key: toPrivateKey(keys),
+    dsaEncoding: 'ieee-p1363',
+  });
+
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${keys.publicKey}`;
+}
+
+/**
+ * Encrypt a payload for a subscription as a single aes128gcm record
+ */
+export function encryptPushPayload(
+  payload: string | Buffer,
+  subscription: PushSubscriptionData,
+  salt: Buffer = crypto.randomBytes(16)
+): Buffer {
+  const userAgentPublic = Buffer.from(subscription.keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(subscription.keys.auth, 'base64url');
+
+  // A fresh key pair per message; its public key travels in the record header
+  const ecdh = crypto.createECDH('prime256v1');
+  ecdh.generateKeys();
+  const serverPublic = ecdh.getPublicKey();
+  const sharedSecret = ecdh.computeSecret(userAgentPublic);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublic, serverPublic]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the last (and only) record
+  const plaintext = Buffer.concat([Buffer.from(payload), Buffer.from([2])]);
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload is too large');
+  }
+
+  const cipher = crypto.createCipheriv('aes-128-gcm', contentKey, nonce);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  const recordSize = Buffer.alloc(4);
+  recordSize.writeUInt32BE(RECORD_SIZE);
+  return Buffer.concat([
+    salt,
+    recordSize,
+    Buffer.from([serverPublic.length]),
+    serverPublic,
+    ciphertext,
+  ]);
+}
+
+/**
+ * Send an encrypted message to a subscription's push service
+ */
+export async function sendWebPush(
+  subscription: PushSubscriptionData,
+  payload: string,
+  keys: VapidKeys,
+  subject: string,
+  options: WebPushOptions = {}
+): Promise<WebPushResult> {
+  const headers: Record<string, string> = {
+    Authorization: createVapidAuthorization(subscription.endpoint, keys, subject),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl ?? 24 * 60 * 60),
+  };
+  if (options.urgency) headers.Urgency = options.urgency;
+  if (options.topic) headers.Topic = options.topic;
+
+  const response = await fetch(subscription.endpoint, {
+    method: 'POST',
+    headers,
+    body: encryptPushPayload(payload, subscription),
+  });
+
+  const delivered = response.status >= 200 && response.status < 300;
+  return {
+    statusCode: response.status,
+    delivered,
+    gone: response.status === 404 || response.status === 410,
+    error: delivered ? undefined : `Push service responded ${response.status}`,
+  };
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(crypto.hkdfSync('sha256', ikm, salt, info, length));
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function toPrivateKey(keys: VapidKeys): crypto.KeyObject {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  return crypto.createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+}
@@ -0,0 +1,67 @@
+import crypto from 'node:crypto';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Todo-Signature';
+
+// Signatures older than this are rejected, so a captured request can't be replayed later
+const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Generate a secret for signing a webhook's payloads
+ */
+export function generateWebhookSecret(): string {
+  return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * Sign a webhook body. The signature covers the timestamp too, and is sent as
+ * `t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">`.
+ */
+export function signWebhookPayload(
+  secret: string,
+  body: string,
+  timestamp: number = Math.floor(Date.now() / 1000)
+): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `t=${timestamp},v1=${digest}`;
+}
+
+/**
+ * Verify a webhook signature header, for receivers of todo webhooks
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string,
+  options: { toleranceSeconds?: number; now?: Date } = {}
+): boolean {
+  const parts = Object.fromEntries(
+    header.split(',').map((part) => {
+      const [key, ...value] = part.trim().split('=');
+      return [key, value.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isInteger(timestamp) || !parts.v1) return false;
+
+  const now = Math.floor((options.now ?? new Date()).getTime() / 1000);
+  if (Math.abs(now - timestamp) > (options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS)) {
+    return false;
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, body, timestamp).split('v1=')[1]);
+  const actual = Buffer.from(parts.v1);
+  return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+}
+
+/**
+ * Whether a webhook URL can be posted to
+ */
+export function isValidWebhookUrl(url: unknown): url is string {
+  if (typeof url !== 'string') return false;
+  try {
+    const { protocol } = new URL(url);
+    return protocol === 'https:' || protocol === 'http:';
+  } catch {
+    return false;
+  }
+}